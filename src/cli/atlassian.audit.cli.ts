@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import atlassianAuditController from '../controllers/atlassian.audit.controller.js';
+
+/**
+ * CLI module for querying the audit log of write operations.
+ * Reads the local audit log; no credentials are required.
+ */
+
+// Create a contextualized logger for this file
+const cliLogger = Logger.forContext('cli/atlassian.audit.cli.ts');
+
+// Log CLI initialization
+cliLogger.debug('Bitbucket audit CLI module initialized');
+
+/**
+ * Register Bitbucket audit CLI commands with the Commander program
+ *
+ * @param program - The Commander program instance to register commands with
+ * @throws Error if command registration fails
+ */
+function register(program: Command): void {
+	const methodLogger = Logger.forContext(
+		'cli/atlassian.audit.cli.ts',
+		'register',
+	);
+	methodLogger.debug('Registering Bitbucket Audit CLI commands...');
+
+	program
+		.command('audit-log')
+		.description(
+			'List write operations made in Bitbucket through this server or CLI, newest first.',
+		)
+		.option(
+			'--since <time>',
+			'Only include operations at or after this time: an ISO date/time or a duration before now such as "30m", "24h" or "7d".',
+		)
+		.option(
+			'--until <time>',
+			'Only include operations at or before this time, in the same formats as --since.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Only include operations on this workspace (or Data Center project key). Example: "myteam"',
+		)
+		.option(
+			'-r, --repo-slug <slug>',
+			'Only include operations on this repository. Example: "project-api"',
+		)
+		.option(
+			'-a, --action <name>',
+			'Only include operations made by this tool or CLI command, e.g. "bb_add_pr" or "add-pr".',
+		)
+		.option(
+			'-l, --limit <number>',
+			'Maximum number of entries to return (1-1000). Defaults to 50.',
+		)
+		.action(async (options) => {
+			const actionLogger = cliLogger.forMethod('audit-log');
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params - keep only type conversions
+				const filterOptions = {
+					since: options.since,
+					until: options.until,
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					action: options.action,
+					limit: options.limit
+						? parseInt(options.limit, 10)
+						: undefined,
+				};
+
+				const result =
+					await atlassianAuditController.list(filterOptions);
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+
+	methodLogger.debug('CLI commands registered successfully');
+}
+
+export default { register };
@@ -0,0 +1,138 @@
+import { Command } from 'commander';
+import { spawn } from 'child_process';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { getOAuthSettings } from '../utils/transport.util.js';
+import {
+	authorizeWithLoopback,
+	clearOAuthToken,
+	getRedirectUri,
+	getTokenFilePath,
+} from '../utils/oauth.util.js';
+
+/**
+ * CLI module for OAuth 2.0 authentication.
+ * Provides commands for authorizing an OAuth consumer through the browser
+ * and for removing the stored token.
+ */
+
+// Create a contextualized logger for this file
+const cliLogger = Logger.forContext('cli/atlassian.auth.cli.ts');
+
+// Log CLI initialization
+cliLogger.debug('Bitbucket auth CLI module initialized');
+
+/**
+ * Register authentication CLI commands with the Commander program
+ *
+ * @param program - The Commander program instance to register commands with
+ */
+function register(program: Command): void {
+	const methodLogger = Logger.forContext(
+		'cli/atlassian.auth.cli.ts',
+		'register',
+	);
+	methodLogger.debug('Registering Bitbucket auth CLI commands...');
+
+	registerLoginCommand(program);
+	registerLogoutCommand(program);
+
+	methodLogger.debug('CLI commands registered successfully');
+}
+
+/**
+ * Try to open a URL in the default browser; failures are ignored because the
+ * URL is always printed as well.
+ */
+function openInBrowser(url: string): void {
+	const command =
+		process.platform === 'darwin'
+			? 'open'
+			: process.platform === 'win32'
+				? 'explorer'
+				: 'xdg-open';
+	try {
+		const child = spawn(command, [url], {
+			detached: true,
+			stdio: 'ignore',
+		});
+		child.on('error', () => undefined);
+		child.unref();
+	} catch {
+		// Fall back to the printed URL
+	}
+}
+
+/**
+ * Register the command for authorizing an OAuth consumer
+ *
+ * @param program - The Commander program instance
+ */
+function registerLoginCommand(program: Command): void {
+	program
+		.command('login')
+		.description(
+			'Authorize the configured OAuth consumer (BITBUCKET_OAUTH_CLIENT_ID) in the browser and store the token for later requests.',
+		)
+		.option(
+			'--no-browser',
+			'Print the authorization URL without opening it.',
+		)
+		.action(async (options) => {
+			const actionLogger = cliLogger.forMethod('login');
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				const { client, endpoints } = getOAuthSettings();
+				console.log(
+					`Waiting for authorization on ${getRedirectUri(client)} ...`,
+				);
+
+				const token = await authorizeWithLoopback(
+					endpoints,
+					client,
+					(url) => {
+						console.log(`Open this URL to authorize:\n\n${url}\n`);
+						if (options.browser) {
+							openInBrowser(url);
+						}
+					},
+				);
+
+				console.log(
+					`Authorization complete. Token stored in ${getTokenFilePath()}${
+						token.scopes ? ` (scopes: ${token.scopes})` : ''
+					}.`,
+				);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for removing the stored OAuth token
+ *
+ * @param program - The Commander program instance
+ */
+function registerLogoutCommand(program: Command): void {
+	program
+		.command('logout')
+		.description('Remove the stored OAuth token.')
+		.action(async () => {
+			const actionLogger = cliLogger.forMethod('logout');
+			try {
+				console.log(
+					clearOAuthToken()
+						? `Removed ${getTokenFilePath()}.`
+						: 'No stored OAuth token found.',
+				);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+export default { register };
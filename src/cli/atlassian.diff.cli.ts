@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { withCliProgress } from '../utils/progress.util.js';
 import diffController from '../controllers/atlassian.diff.controller.js';
 
 // Create a contextualized logger for this file
@@ -50,7 +51,15 @@ function register(program: Command) {
 		)
 		.option(
 			'-p, --page <number>',
-			'Page number for pagination. Starts at 1. Use with limit to paginate results.',
+			'Page number for pagination. Starts at 1. Use with limit to paginate results, or pass the cursor printed by an earlier --all run.',
+		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at --page, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
 		)
 		.option(
 			'-t, --topic <boolean>',
@@ -75,8 +84,10 @@ function register(program: Command) {
 					limit: options.limit
 						? parseInt(options.limit, 10)
 						: undefined,
-					cursor: options.page
-						? parseInt(options.page, 10)
+					cursor: options.page,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
 						: undefined,
 					topic: options.topic,
 				};
@@ -87,8 +98,9 @@ function register(program: Command) {
 				);
 
 				// Call controller directly
-				const result =
-					await diffController.branchDiff(controllerOptions);
+				const result = await withCliProgress((callOptions) =>
+					diffController.branchDiff(controllerOptions, callOptions),
+				);
 
 				console.log(result.content);
 			} catch (error) {
@@ -130,7 +142,15 @@ function register(program: Command) {
 		)
 		.option(
 			'-p, --page <number>',
-			'Page number for pagination. Starts at 1. Use with limit to paginate results.',
+			'Page number for pagination. Starts at 1. Use with limit to paginate results, or pass the cursor printed by an earlier --all run.',
+		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at --page, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
 		)
 		.action(async (options) => {
 			const actionLogger = cliLogger.forMethod('diff-commits');
@@ -150,8 +170,10 @@ function register(program: Command) {
 					limit: options.limit
 						? parseInt(options.limit, 10)
 						: undefined,
-					cursor: options.page
-						? parseInt(options.page, 10)
+					cursor: options.page,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
 						: undefined,
 				};
 
@@ -161,8 +183,9 @@ function register(program: Command) {
 				);
 
 				// Call controller directly
-				const result =
-					await diffController.commitDiff(controllerOptions);
+				const result = await withCliProgress((callOptions) =>
+					diffController.commitDiff(controllerOptions, callOptions),
+				);
 
 				console.log(result.content);
 			} catch (error) {
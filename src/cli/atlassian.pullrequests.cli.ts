@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { withCliProgress } from '../utils/progress.util.js';
 import atlassianPullRequestsController from '../controllers/atlassian.pullrequests.controller.js';
 
 /**
@@ -31,14 +32,31 @@ function register(program: Command): void {
 	registerGetPullRequestCommand(program);
 	registerListPullRequestCommentsCommand(program);
 	registerAddPullRequestCommentCommand(program);
+	registerManagePullRequestCommentCommand(program);
 	registerAddPullRequestCommand(program);
 	registerUpdatePullRequestCommand(program);
 	registerApprovePullRequestCommand(program);
 	registerRejectPullRequestCommand(program);
+	registerUnapprovePullRequestCommand(program);
+	registerWithdrawChangeRequestCommand(program);
+	registerDeclinePullRequestCommand(program);
+	registerMergePullRequestCommand(program);
+	registerListPullRequestTasksCommand(program);
+	registerManagePullRequestTaskCommand(program);
 
 	methodLogger.debug('CLI commands registered successfully');
 }
 
+/**
+ * Split a comma-separated CLI option into its non-empty values
+ */
+function parseList(value: string): string[] {
+	return value
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
 /**
  * Register the command for listing Bitbucket pull requests
  * @param program - The Commander program instance
@@ -73,6 +91,14 @@ function registerListPullRequestsCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -96,14 +122,22 @@ function registerListPullRequestsCommand(program: Command): void {
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
 				};
 
 				actionLogger.debug(
 					'Fetching pull requests with filters:',
 					filterOptions,
 				);
-				const result =
-					await atlassianPullRequestsController.list(filterOptions);
+				const result = await withCliProgress((callOptions) =>
+					atlassianPullRequestsController.list(
+						filterOptions,
+						callOptions,
+					),
+				);
 				actionLogger.debug('Successfully retrieved pull requests');
 
 				// Display the content which now includes pagination information
@@ -142,6 +176,10 @@ function registerGetPullRequestCommand(program: Command): void {
 			'Retrieve the full diff content instead of just the summary. Default: true (rich output by default)',
 			true,
 		)
+		.option(
+			'--no-include-full-diff',
+			'Leave out the changed files and the full diff, for a quicker summary',
+		)
 		.option(
 			'--include-comments',
 			'Retrieve comments for the pull request. Default: false. Note: Enabling this may increase response time for pull requests with many comments due to additional API calls',
@@ -165,8 +203,9 @@ function registerGetPullRequestCommand(program: Command): void {
 				};
 
 				actionLogger.debug('Fetching pull request:', params);
-				const result =
-					await atlassianPullRequestsController.get(params);
+				const result = await withCliProgress((callOptions) =>
+					atlassianPullRequestsController.get(params, callOptions),
+				);
 				actionLogger.debug('Successfully retrieved pull request');
 
 				console.log(result.content);
@@ -185,7 +224,7 @@ function registerListPullRequestCommentsCommand(program: Command): void {
 	program
 		.command('ls-pr-comments')
 		.description(
-			'List comments on a specific Bitbucket pull request, with pagination.',
+			'List comments on a specific Bitbucket pull request as threads, with pagination.',
 		)
 		.option(
 			'-w, --workspace-slug <slug>',
@@ -207,6 +246,18 @@ function registerListPullRequestCommentsCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
+		.option(
+			'--unresolved-only',
+			'Only show comment threads that have not been resolved. Reads every page of comments (up to --max-items), as with --all.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -224,11 +275,20 @@ function registerListPullRequestCommentsCommand(program: Command): void {
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
+					unresolvedOnly: options.unresolvedOnly,
 				};
 
 				actionLogger.debug('Fetching pull request comments:', params);
-				const result =
-					await atlassianPullRequestsController.listComments(params);
+				const result = await withCliProgress((callOptions) =>
+					atlassianPullRequestsController.listComments(
+						params,
+						callOptions,
+					),
+				);
 				actionLogger.debug(
 					'Successfully retrieved pull request comments',
 				);
@@ -279,6 +339,10 @@ function registerAddPullRequestCommentCommand(program: Command): void {
 			'--parent-id <id>',
 			'Optional: The ID of the parent comment to reply to. If provided, this comment will be a reply to the specified comment.',
 		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -298,11 +362,13 @@ function registerAddPullRequestCommentCommand(program: Command): void {
 						line: number;
 					};
 					parentId?: string;
+					dryRun?: boolean;
 				} = {
 					workspaceSlug: options.workspaceSlug,
 					repoSlug: options.repoSlug,
 					prId: options.prId,
 					content: options.content,
+					dryRun: options.dryRun,
 				};
 
 				// Add inline comment details if both path and line are provided
@@ -338,6 +404,96 @@ function registerAddPullRequestCommentCommand(program: Command): void {
 		});
 }
 
+/**
+ * Register the command for editing, deleting, resolving or reopening a
+ * pull request comment
+ * @param program - The Commander program instance
+ */
+function registerManagePullRequestCommentCommand(program: Command): void {
+	program
+		.command('manage-pr-comment')
+		.description(
+			'Edit, delete, resolve or reopen a comment on a Bitbucket pull request.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository. If not provided, uses your default workspace. Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Must be a valid repository in the specified workspace. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pr-id <id>',
+			'Numeric ID of the pull request the comment belongs to. Example: "42"',
+		)
+		.requiredOption(
+			'-a, --action <action>',
+			'What to do: "update", "delete", "resolve", or "reopen". Resolving or reopening applies to the thread the comment starts.',
+		)
+		.requiredOption(
+			'--comment-id <id>',
+			'ID of the comment to act on. Example: "456"',
+		)
+		.option(
+			'-m, --content <text>',
+			'New text of the comment, in Markdown. Required for "update".',
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'manage-pr-comment',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				const actions = [
+					'update',
+					'delete',
+					'resolve',
+					'reopen',
+				] as const;
+				const action = actions.find((a) => a === options.action);
+				if (!action) {
+					throw new Error(
+						`Invalid action "${options.action}". Use one of: ${actions.join(', ')}`,
+					);
+				}
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					prId: options.prId,
+					action,
+					commentId: options.commentId,
+					content: options.content,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug('Managing pull request comment:', {
+					...params,
+					content:
+						options.content !== undefined
+							? '(content length: ' + options.content.length + ')'
+							: undefined,
+				});
+				const result =
+					await atlassianPullRequestsController.manageComment(params);
+				actionLogger.debug('Successfully managed pull request comment');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
 /**
  * Register the command for adding a new pull request
  * @param program - The Commander program instance
@@ -364,7 +520,7 @@ function registerAddPullRequestCommand(program: Command): void {
 		)
 		.option(
 			'-d, --destination-branch <branch>',
-			'Destination branch name (the branch you want to merge into, defaults to main). Example: "develop"',
+			'Destination branch name (the branch you want to merge into, defaults to the repository main branch). Example: "develop"',
 		)
 		.option(
 			'--description <text>',
@@ -375,6 +531,19 @@ function registerAddPullRequestCommand(program: Command): void {
 			'Whether to close the source branch after the pull request is merged. Default: false',
 			false,
 		)
+		.option(
+			'--reviewers <list>',
+			'Comma-separated reviewers to request: account IDs, UUIDs in braces, nicknames or email addresses. Example: "jdoe,jane@example.com"',
+			parseList,
+		)
+		.option(
+			'--include-default-reviewers',
+			"Also request the repository's default reviewers (except yourself).",
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -392,6 +561,9 @@ function registerAddPullRequestCommand(program: Command): void {
 					destinationBranch: options.destinationBranch,
 					description: options.description,
 					closeSourceBranch: options.closeSourceBranch,
+					reviewers: options.reviewers,
+					includeDefaultReviewers: options.includeDefaultReviewers,
+					dryRun: options.dryRun,
 				};
 
 				actionLogger.debug('Creating pull request:', {
@@ -443,6 +615,24 @@ function registerUpdatePullRequestCommand(program: Command): void {
 			'--description <text>',
 			'Updated description for the pull request.',
 		)
+		.option(
+			'--reviewers <list>',
+			'Comma-separated reviewers to add, keeping the existing ones: account IDs, UUIDs in braces, nicknames or email addresses.',
+			parseList,
+		)
+		.option(
+			'--remove-reviewers <list>',
+			'Comma-separated reviewers to remove, keeping the others.',
+			parseList,
+		)
+		.option(
+			'--include-default-reviewers',
+			"Also add the repository's default reviewers (except the author).",
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -452,9 +642,15 @@ function registerUpdatePullRequestCommand(program: Command): void {
 				actionLogger.debug('Processing command options:', options);
 
 				// Validate that at least one field to update is provided
-				if (!options.title && !options.description) {
+				if (
+					!options.title &&
+					!options.description &&
+					!options.reviewers &&
+					!options.removeReviewers &&
+					!options.includeDefaultReviewers
+				) {
 					throw new Error(
-						'At least one field to update (title or description) must be provided',
+						'At least one field to update (title, description or reviewers) must be provided',
 					);
 				}
 
@@ -465,6 +661,10 @@ function registerUpdatePullRequestCommand(program: Command): void {
 					pullRequestId: options.pullRequestId,
 					title: options.title,
 					description: options.description,
+					reviewers: options.reviewers,
+					removeReviewers: options.removeReviewers,
+					includeDefaultReviewers: options.includeDefaultReviewers,
+					dryRun: options.dryRun,
 				};
 
 				actionLogger.debug('Updating pull request:', {
@@ -506,6 +706,10 @@ function registerApprovePullRequestCommand(program: Command): void {
 			'Pull request ID to approve. Example: 123',
 			parseInt,
 		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -519,6 +723,7 @@ function registerApprovePullRequestCommand(program: Command): void {
 					workspaceSlug: options.workspaceSlug,
 					repoSlug: options.repoSlug,
 					pullRequestId: options.pullRequestId,
+					dryRun: options.dryRun,
 				};
 
 				actionLogger.debug('Approving pull request:', params);
@@ -557,6 +762,10 @@ function registerRejectPullRequestCommand(program: Command): void {
 			'Pull request ID to request changes on. Example: 123',
 			parseInt,
 		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.pullrequests.cli.ts',
@@ -570,6 +779,7 @@ function registerRejectPullRequestCommand(program: Command): void {
 					workspaceSlug: options.workspaceSlug,
 					repoSlug: options.repoSlug,
 					pullRequestId: options.pullRequestId,
+					dryRun: options.dryRun,
 				};
 
 				actionLogger.debug(
@@ -590,4 +800,435 @@ function registerRejectPullRequestCommand(program: Command): void {
 		});
 }
 
+/**
+ * Register the command for removing your approval from a Bitbucket pull request
+ * @param program - The Commander program instance
+ */
+function registerUnapprovePullRequestCommand(program: Command): void {
+	program
+		.command('unapprove-pr')
+		.description(
+			'Remove your approval from a pull request in a Bitbucket repository.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository (optional, uses default workspace if not provided). Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pull-request-id <id>',
+			'Pull request ID to remove your approval from. Example: 123',
+			parseInt,
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'unapprove-pr',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					pullRequestId: options.pullRequestId,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug(
+					'Removing approval from pull request:',
+					params,
+				);
+				const result =
+					await atlassianPullRequestsController.unapprove(params);
+				actionLogger.debug('Successfully removed approval');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for withdrawing your change request on a Bitbucket pull request
+ * @param program - The Commander program instance
+ */
+function registerWithdrawChangeRequestCommand(program: Command): void {
+	program
+		.command('withdraw-change-request')
+		.description(
+			'Withdraw your change request from a pull request in a Bitbucket repository.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository (optional, uses default workspace if not provided). Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pull-request-id <id>',
+			'Pull request ID to withdraw your change request from. Example: 123',
+			parseInt,
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'withdraw-change-request',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					pullRequestId: options.pullRequestId,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug(
+					'Withdrawing change request on pull request:',
+					params,
+				);
+				const result =
+					await atlassianPullRequestsController.withdrawChangeRequest(
+						params,
+					);
+				actionLogger.debug('Successfully withdrew change request');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for declining a Bitbucket pull request
+ * @param program - The Commander program instance
+ */
+function registerDeclinePullRequestCommand(program: Command): void {
+	program
+		.command('decline-pr')
+		.description('Decline a pull request in a Bitbucket repository.')
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository (optional, uses default workspace if not provided). Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pull-request-id <id>',
+			'Pull request ID to decline. Example: 123',
+			parseInt,
+		)
+		.option(
+			'--reason <text>',
+			'Why the pull request is declined, in Markdown. Added to the pull request as a comment.',
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'decline-pr',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					pullRequestId: options.pullRequestId,
+					reason: options.reason,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug('Declining pull request:', params);
+				const result =
+					await atlassianPullRequestsController.decline(params);
+				actionLogger.debug('Successfully declined pull request');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for merging a Bitbucket pull request
+ * @param program - The Commander program instance
+ */
+function registerMergePullRequestCommand(program: Command): void {
+	program
+		.command('merge-pr')
+		.description(
+			'Merge a pull request in a Bitbucket repository and show the resulting merge commit.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository (optional, uses default workspace if not provided). Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pull-request-id <id>',
+			'Pull request ID to merge. Example: 123',
+			parseInt,
+		)
+		.option(
+			'-s, --merge-strategy <strategy>',
+			'Merge strategy: "merge_commit", "squash", or "fast_forward". If omitted, the repository\'s default strategy is used.',
+		)
+		.option(
+			'-m, --message <text>',
+			'Commit message for the merge or squash commit. If omitted, Bitbucket generates one.',
+		)
+		.option(
+			'--close-source-branch',
+			'Delete the source branch after merging. If omitted, the setting chosen when the pull request was created applies.',
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'merge-pr',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					pullRequestId: options.pullRequestId,
+					mergeStrategy: options.mergeStrategy as
+						| 'merge_commit'
+						| 'squash'
+						| 'fast_forward'
+						| undefined,
+					message: options.message,
+					closeSourceBranch: options.closeSourceBranch,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug('Merging pull request:', params);
+				const result = await withCliProgress((callOptions) =>
+					atlassianPullRequestsController.merge(params, callOptions),
+				);
+				actionLogger.debug('Successfully merged pull request');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for listing tasks on a Bitbucket pull request
+ * @param program - The Commander program instance
+ */
+function registerListPullRequestTasksCommand(program: Command): void {
+	program
+		.command('ls-pr-tasks')
+		.description(
+			'List tasks on a specific Bitbucket pull request, with pagination.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository. If not provided, uses your default workspace. Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Must be a valid repository in the specified workspace. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pr-id <id>',
+			'Numeric ID of the pull request to list tasks of. Must be a valid pull request ID in the specified repository. Example: "42"',
+		)
+		.option(
+			'-s, --state <state>',
+			'Filter by task state: "UNRESOLVED" (open tasks) or "RESOLVED". If omitted, returns all tasks.',
+		)
+		.option(
+			'-l, --limit <number>',
+			'Maximum number of items to return (1-100). Defaults to 25 if omitted.',
+		)
+		.option(
+			'-c, --cursor <string>',
+			'Pagination cursor for retrieving the next set of results.',
+		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'ls-pr-tasks',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				// Map CLI options to controller params - keep only type conversions
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					prId: options.prId,
+					state: options.state as
+						| 'RESOLVED'
+						| 'UNRESOLVED'
+						| undefined,
+					limit: options.limit
+						? parseInt(options.limit, 10)
+						: undefined,
+					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
+				};
+
+				actionLogger.debug('Fetching pull request tasks:', params);
+				const result = await withCliProgress((callOptions) =>
+					atlassianPullRequestsController.listTasks(
+						params,
+						callOptions,
+					),
+				);
+				actionLogger.debug('Successfully retrieved pull request tasks');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for creating, updating, resolving, reopening or
+ * deleting a pull request task
+ * @param program - The Commander program instance
+ */
+function registerManagePullRequestTaskCommand(program: Command): void {
+	program
+		.command('manage-pr-task')
+		.description(
+			'Create, update, resolve, reopen or delete a task on a Bitbucket pull request.',
+		)
+		.option(
+			'-w, --workspace-slug <slug>',
+			'Workspace slug containing the repository. If not provided, uses your default workspace. Example: "myteam"',
+		)
+		.requiredOption(
+			'-r, --repo-slug <slug>',
+			'Repository slug containing the pull request. Must be a valid repository in the specified workspace. Example: "project-api"',
+		)
+		.requiredOption(
+			'-p, --pr-id <id>',
+			'Numeric ID of the pull request the task belongs to. Example: "42"',
+		)
+		.requiredOption(
+			'-a, --action <action>',
+			'What to do: "create", "update", "resolve", "reopen", or "delete".',
+		)
+		.option(
+			'-t, --task-id <id>',
+			'ID of the task to act on. Required for every action except "create".',
+		)
+		.option(
+			'-m, --content <text>',
+			'Text of the task, in Markdown. Required for "create" and "update".',
+		)
+		.option(
+			'--comment-id <id>',
+			'Optional: ID of the comment to anchor a new task to. Only used with "create".',
+		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pullrequests.cli.ts',
+				'manage-pr-task',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				const actions = [
+					'create',
+					'update',
+					'resolve',
+					'reopen',
+					'delete',
+				] as const;
+				const action = actions.find((a) => a === options.action);
+				if (!action) {
+					throw new Error(
+						`Invalid action "${options.action}". Use one of: ${actions.join(', ')}`,
+					);
+				}
+
+				// Map CLI options to controller params
+				const params = {
+					workspaceSlug: options.workspaceSlug,
+					repoSlug: options.repoSlug,
+					prId: options.prId,
+					action,
+					taskId: options.taskId,
+					content: options.content,
+					commentId: options.commentId,
+					dryRun: options.dryRun,
+				};
+
+				actionLogger.debug('Managing pull request task:', params);
+				const result =
+					await atlassianPullRequestsController.manageTask(params);
+				actionLogger.debug('Successfully managed pull request task');
+
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
 export default { register };
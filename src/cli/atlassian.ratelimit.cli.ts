@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import atlassianRateLimitController from '../controllers/atlassian.ratelimit.controller.js';
+
+/**
+ * CLI module for inspecting the Bitbucket API request budget.
+ * Provides a command that reports rate limit headers and queue state.
+ * Requires valid Atlassian credentials.
+ */
+
+// Create a contextualized logger for this file
+const cliLogger = Logger.forContext('cli/atlassian.ratelimit.cli.ts');
+
+// Log CLI initialization
+cliLogger.debug('Bitbucket rate limit CLI module initialized');
+
+/**
+ * Register Bitbucket rate limit CLI commands with the Commander program
+ *
+ * @param program - The Commander program instance to register commands with
+ * @throws Error if command registration fails
+ */
+function register(program: Command): void {
+	const methodLogger = Logger.forContext(
+		'cli/atlassian.ratelimit.cli.ts',
+		'register',
+	);
+	methodLogger.debug('Registering Bitbucket Rate Limit CLI commands...');
+
+	program
+		.command('rate-limit')
+		.description(
+			'Show the remaining hourly Bitbucket API request budget. Sends one lightweight request to read the current rate limit headers.',
+		)
+		.action(async () => {
+			const actionLogger = cliLogger.forMethod('rate-limit');
+			try {
+				// A new CLI process has made no requests, so always refresh
+				const result = await atlassianRateLimitController.status({
+					refresh: true,
+				});
+				console.log(result.content);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+
+	methodLogger.debug('CLI commands registered successfully');
+}
+
+export default { register };
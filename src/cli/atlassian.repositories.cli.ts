@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { withCliProgress } from '../utils/progress.util.js';
 // Import directly from specialized controllers
 import { handleRepositoriesList } from '../controllers/atlassian.repositories.list.controller.js';
 import { handleRepositoryDetails } from '../controllers/atlassian.repositories.details.controller.js';
@@ -89,6 +90,14 @@ function registerListRepositoriesCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
 		.action(async (options) => {
 			const actionLogger = cliLogger.forMethod('ls-repos');
 			try {
@@ -105,10 +114,16 @@ function registerListRepositoriesCommand(program: Command): void {
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
 				};
 
 				// Call controller directly
-				const result = await handleRepositoriesList(controllerOptions);
+				const result = await withCliProgress((callOptions) =>
+					handleRepositoriesList(controllerOptions, callOptions),
+				);
 
 				// Output result content
 				console.log(result.content);
@@ -179,6 +194,10 @@ function registerGetCommitHistoryCommand(program: Command): void {
 			'-v, --revision <branch-or-tag>',
 			'Filter commits by a specific branch, tag, or commit hash.',
 		)
+		.option(
+			'--exclude-revision <branch-tag-or-commit>',
+			'Leave out the history of this branch, tag, or commit hash, to list only the commits since it.',
+		)
 		.option(
 			'--path <file-path>',
 			'Filter commits to those that affect this specific file path.',
@@ -191,6 +210,14 @@ function registerGetCommitHistoryCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.repositories.cli.ts',
@@ -204,18 +231,25 @@ function registerGetCommitHistoryCommand(program: Command): void {
 					workspaceSlug: options.workspaceSlug,
 					repoSlug: options.repoSlug,
 					revision: options.revision,
+					excludeRevision: options.excludeRevision,
 					path: options.path,
 					limit: options.limit
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
 				};
 
 				actionLogger.debug(
 					'Fetching commit history with options:',
 					requestOptions,
 				);
-				const result = await handleCommitHistory(requestOptions);
+				const result = await withCliProgress((callOptions) =>
+					handleCommitHistory(requestOptions, callOptions),
+				);
 				actionLogger.debug('Successfully retrieved commit history');
 
 				console.log(result.content);
@@ -250,6 +284,10 @@ function registerAddBranchCommand(program: Command): void {
 			'-s, --source-branch-or-commit <target>',
 			'The name of the existing branch or a full commit hash to branch from.',
 		)
+		.option(
+			'--dry-run',
+			'Print the HTTP request that would be sent to Bitbucket, without making any change.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.repositories.cli.ts',
@@ -264,6 +302,7 @@ function registerAddBranchCommand(program: Command): void {
 					repoSlug: options.repoSlug,
 					newBranchName: options.newBranchName,
 					sourceBranchOrCommit: options.sourceBranchOrCommit,
+					dryRun: options.dryRun,
 				};
 
 				actionLogger.debug(
@@ -328,7 +367,9 @@ function registerCloneRepositoryCommand(program: Command): void {
 					'Initiating repository clone with options:',
 					controllerOptions,
 				);
-				const result = await handleCloneRepository(controllerOptions);
+				const result = await withCliProgress((callOptions) =>
+					handleCloneRepository(controllerOptions, callOptions),
+				);
 				actionLogger.info('Clone operation initiated successfully.');
 
 				console.log(result.content);
@@ -422,6 +463,14 @@ function registerListBranchesCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
 		.action(async (options) => {
 			const actionLogger = Logger.forContext(
 				'cli/atlassian.repositories.cli.ts',
@@ -440,13 +489,19 @@ function registerListBranchesCommand(program: Command): void {
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
 				};
 
 				actionLogger.debug(
 					'Fetching branches with parameters:',
 					params,
 				);
-				const result = await handleListBranches(params);
+				const result = await withCliProgress((callOptions) =>
+					handleListBranches(params, callOptions),
+				);
 				actionLogger.debug('Successfully retrieved branches');
 
 				console.log(result.content);
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { withCliProgress } from '../utils/progress.util.js';
 import atlassianWorkspacesController from '../controllers/atlassian.workspaces.controller.js';
 
 /**
@@ -51,6 +52,14 @@ function registerListWorkspacesCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results.',
 		)
+		.option(
+			'--all',
+			'Fetch every page of results (starting at the cursor, if given) instead of a single page.',
+		)
+		.option(
+			'--max-items <number>',
+			'Maximum total number of items to fetch with --all (1-5000). Defaults to 500.',
+		)
 		.action(async (options) => {
 			const actionLogger = cliLogger.forMethod('ls-workspaces');
 			try {
@@ -62,11 +71,19 @@ function registerListWorkspacesCommand(program: Command): void {
 						? parseInt(options.limit, 10)
 						: undefined,
 					cursor: options.cursor,
+					all: options.all,
+					maxItems: options.maxItems
+						? parseInt(options.maxItems, 10)
+						: undefined,
 				};
 
 				// Call controller directly
-				const result =
-					await atlassianWorkspacesController.list(controllerOptions);
+				const result = await withCliProgress((callOptions) =>
+					atlassianWorkspacesController.list(
+						controllerOptions,
+						callOptions,
+					),
+				);
 
 				console.log(result.content);
 			} catch (error) {
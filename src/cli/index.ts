@@ -1,6 +1,10 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { VERSION, CLI_NAME } from '../utils/constants.util.js';
+import { config } from '../utils/config.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { assertCommandAllowed } from '../utils/tool-policy.util.js';
+import { setAuditContext } from '../utils/audit.util.js';
 
 // Import Bitbucket-specific CLI modules
 import atlassianWorkspacesCli from './atlassian.workspaces.cli.js';
@@ -8,6 +12,9 @@ import atlassianRepositoriesCli from './atlassian.repositories.cli.js';
 import atlassianPullRequestsCli from './atlassian.pullrequests.cli.js';
 import atlassianSearchCommands from './atlassian.search.cli.js';
 import diffCli from './atlassian.diff.cli.js';
+import atlassianAuthCli from './atlassian.auth.cli.js';
+import atlassianRateLimitCli from './atlassian.ratelimit.cli.js';
+import atlassianAuditCli from './atlassian.audit.cli.js';
 
 // Package description
 const DESCRIPTION =
@@ -42,6 +49,34 @@ export async function runCli(args: string[]) {
 	diffCli.register(program);
 	cliLogger.debug('Diff commands registered');
 
+	atlassianAuthCli.register(program);
+	cliLogger.debug('Auth commands registered');
+
+	atlassianRateLimitCli.register(program);
+	cliLogger.debug('Rate limit commands registered');
+
+	atlassianAuditCli.register(program);
+	cliLogger.debug('Audit commands registered');
+
+	// Every command accepts --profile to select a named credential profile
+	program.commands.forEach((command) => {
+		command.option(
+			'--profile <name>',
+			'Credential profile from ~/.mcp/configs.json to use (credentials, default workspace and base URL).',
+		);
+	});
+	program.hook('preAction', (_program, actionCommand) => {
+		try {
+			config.setDefaultProfile(actionCommand.opts().profile);
+			// Commands follow the same read-only and allow/deny policy as tools
+			assertCommandAllowed(actionCommand.name());
+			// Writes made by the command are recorded under its name
+			setAuditContext({ source: 'cli', action: actionCommand.name() });
+		} catch (error) {
+			handleCliError(error);
+		}
+	});
+
 	// Handle unknown commands
 	program.on('command:*', (operands) => {
 		methodLogger.error(`Unknown command: ${operands[0]}`);
@@ -0,0 +1,61 @@
+import { Logger } from '../utils/logger.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import {
+	AuditLogToolArgsType,
+	AuditLogToolOutputType,
+} from '../tools/atlassian.audit.types.js';
+import { formatAuditLog } from './atlassian.audit.formatter.js';
+import {
+	getAuditLogPath,
+	isAuditEnabled,
+	readAuditLog,
+} from '../utils/audit.util.js';
+
+// Create a contextualized logger for this file
+const controllerLogger = Logger.forContext(
+	'controllers/atlassian.audit.controller.ts',
+);
+
+// Log controller initialization
+controllerLogger.debug('Bitbucket audit log controller initialized');
+
+/**
+ * List recorded write operations
+ * @param options - Time range, workspace, repository and action filters
+ * @returns Promise with formatted audit log entries
+ */
+async function list(
+	options: AuditLogToolArgsType = {},
+): Promise<ControllerResponse<AuditLogToolOutputType>> {
+	const methodLogger = controllerLogger.forMethod('list');
+	methodLogger.debug('Reading audit log', options);
+
+	try {
+		const entries = readAuditLog({
+			since: options.since,
+			until: options.until,
+			workspace: options.workspaceSlug,
+			repo: options.repoSlug,
+			action: options.action,
+			limit: options.limit,
+		});
+		methodLogger.debug(`Found ${entries.length} matching entries`);
+
+		const log = { file: getAuditLogPath(), enabled: isAuditEnabled() };
+
+		return {
+			content: formatAuditLog(entries, log),
+			data: { entries, ...log },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Audit Log',
+			operation: 'reading',
+			source: 'controllers/atlassian.audit.controller.ts@list',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { list };
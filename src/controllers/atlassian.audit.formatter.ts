@@ -0,0 +1,76 @@
+import { AuditEntry } from '../utils/audit.util.js';
+import {
+	formatHeading,
+	formatBulletList,
+	formatSeparator,
+	formatDate,
+} from '../utils/formatter.util.js';
+
+/**
+ * Format audit log entries for display
+ * @param entries - Matching entries, newest first
+ * @param log - Location of the audit log and whether writes are recorded
+ * @returns Formatted string with audit log entries in markdown format
+ */
+export function formatAuditLog(
+	entries: AuditEntry[],
+	log: { file: string; enabled: boolean },
+): string {
+	const lines: string[] = [
+		formatHeading('Bitbucket Audit Log', 1),
+		'',
+		formatBulletList({
+			File: `\`${log.file}\``,
+			Recording: log.enabled
+				? 'Enabled'
+				: 'Disabled (BITBUCKET_AUDIT_ENABLED=false)',
+			Entries: entries.length,
+		}),
+	];
+
+	if (entries.length === 0) {
+		lines.push('', 'No recorded write operations match the filters.');
+	}
+
+	for (const entry of entries) {
+		const target = [
+			entry.workspace && entry.repo
+				? `${entry.workspace}/${entry.repo}`
+				: entry.workspace,
+			entry.pullRequestId !== undefined
+				? `PR #${entry.pullRequestId}`
+				: undefined,
+		]
+			.filter(Boolean)
+			.join(' ');
+
+		lines.push(
+			'',
+			formatHeading(
+				`${formatDate(entry.timestamp)} - ${entry.action || `${entry.method} request`}`,
+				2,
+			),
+		);
+		lines.push(
+			formatBulletList({
+				Result:
+					entry.status === 'success'
+						? 'Success'
+						: `Failed${entry.statusCode ? ` (${entry.statusCode})` : ''}: ${entry.error}`,
+				Target: target || undefined,
+				Request: `\`${entry.method} ${entry.path}\``,
+				Body: entry.summary ? `\`${entry.summary}\`` : undefined,
+				Identity: entry.identity,
+				Profile: entry.profile,
+				Source: entry.source?.toUpperCase(),
+				Duration: `${entry.durationMs}ms`,
+			}),
+		);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
@@ -1,15 +1,26 @@
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
-import { ControllerResponse } from '../types/common.types.js';
 import {
-	extractPaginationInfo,
-	PaginationType,
-} from '../utils/pagination.util.js';
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { fetchPages } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
 import * as diffService from '../services/vendor.atlassian.repositories.diff.service.js';
-import { formatDiffstat, formatFullDiff } from './atlassian.diff.formatter.js';
+import {
+	formatDiffstat,
+	formatFullDiff,
+	toChangedFileOutput,
+} from './atlassian.diff.formatter.js';
+import {
+	BranchDiffOutputType,
+	CommitDiffOutputType,
+} from '../tools/atlassian.diff.types.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import { reportProgress } from '../utils/progress.util.js';
 
 const controllerLogger = Logger.forContext(
 	'controllers/atlassian.diff.controller.ts',
@@ -24,7 +35,7 @@ interface BaseDiffOptions extends Record<string, unknown> {
 	repoSlug: string;
 	includeFullDiff?: boolean;
 	limit?: number;
-	cursor?: number;
+	cursor?: number | string;
 	topic?: boolean;
 }
 
@@ -48,11 +59,13 @@ interface CommitDiffOptions extends BaseDiffOptions {
  * Compare two branches and return the differences
  *
  * @param options - Options for branch comparison
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted diff content and pagination
  */
 async function branchDiff(
 	options: BranchDiffOptions,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<BranchDiffOutputType>> {
 	const methodLogger = controllerLogger.forMethod('branchDiff');
 
 	try {
@@ -104,29 +117,49 @@ async function branchDiff(
 		methodLogger.debug(`Using diff spec: ${spec}`);
 
 		try {
-			// Fetch diffstat for the branches
-			const diffstat = await diffService.getDiffstat({
+			const diffstatParams = {
 				workspace: params.workspaceSlug,
 				repo_slug: params.repoSlug,
 				spec,
-				pagelen: params.limit,
-				cursor: params.cursor,
+				pagelen: params.all ? ALL_PAGES_PAGE_SIZE : params.limit,
 				topic: params.topic,
-			});
+			};
 
-			// Extract pagination info
-			const pagination = extractPaginationInfo(
-				diffstat,
-				PaginationType.PAGE,
+			// Fetch diffstat for the branches, following every page when requested
+			const { data: diffstat, pagination } = await fetchPages(
+				(cursor) =>
+					diffService.getDiffstat(
+						{
+							...diffstatParams,
+							cursor: cursor ? parseInt(cursor, 10) : undefined,
+						},
+						callOptions,
+					),
+				{ ...params, cursor: params.cursor?.toString() },
+				callOptions,
 			);
 
+			reportProgress(callOptions, {
+				progress: 1,
+				total: params.includeFullDiff ? 2 : 1,
+				message: `Compared ${diffstat.values.length} changed files`,
+			});
+
 			// Fetch full diff if requested
 			let rawDiff: string | null = null;
 			if (params.includeFullDiff) {
-				rawDiff = await diffService.getRawDiff({
-					workspace: params.workspaceSlug,
-					repo_slug: params.repoSlug,
-					spec,
+				rawDiff = await diffService.getRawDiff(
+					{
+						workspace: params.workspaceSlug,
+						repo_slug: params.repoSlug,
+						spec,
+					},
+					callOptions,
+				);
+				reportProgress(callOptions, {
+					progress: 2,
+					total: 2,
+					message: 'Downloaded the full diff',
 				});
 			}
 
@@ -156,6 +189,12 @@ async function branchDiff(
 
 			return {
 				content,
+				data: {
+					sourceBranch: params.sourceBranch,
+					destinationBranch: params.destinationBranch,
+					files: (diffstat.values || []).map(toChangedFileOutput),
+					pagination,
+				},
 			};
 		} catch (error) {
 			// Enhance error handling for common diff-specific errors
@@ -189,11 +228,13 @@ async function branchDiff(
  * Compare two commits and return the differences
  *
  * @param options - Options for commit comparison
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted diff content and pagination
  */
 async function commitDiff(
 	options: CommitDiffOptions,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<CommitDiffOutputType>> {
 	const methodLogger = controllerLogger.forMethod('commitDiff');
 
 	try {
@@ -242,28 +283,48 @@ async function commitDiff(
 		methodLogger.debug(`Using diff spec: ${spec}`);
 
 		try {
-			// Fetch diffstat for the commits
-			const diffstat = await diffService.getDiffstat({
+			const diffstatParams = {
 				workspace: params.workspaceSlug,
 				repo_slug: params.repoSlug,
 				spec,
-				pagelen: params.limit,
-				cursor: params.cursor,
-			});
+				pagelen: params.all ? ALL_PAGES_PAGE_SIZE : params.limit,
+			};
 
-			// Extract pagination info
-			const pagination = extractPaginationInfo(
-				diffstat,
-				PaginationType.PAGE,
+			// Fetch diffstat for the commits, following every page when requested
+			const { data: diffstat, pagination } = await fetchPages(
+				(cursor) =>
+					diffService.getDiffstat(
+						{
+							...diffstatParams,
+							cursor: cursor ? parseInt(cursor, 10) : undefined,
+						},
+						callOptions,
+					),
+				{ ...params, cursor: params.cursor?.toString() },
+				callOptions,
 			);
 
+			reportProgress(callOptions, {
+				progress: 1,
+				total: params.includeFullDiff ? 2 : 1,
+				message: `Compared ${diffstat.values.length} changed files`,
+			});
+
 			// Fetch full diff if requested
 			let rawDiff: string | null = null;
 			if (params.includeFullDiff) {
-				rawDiff = await diffService.getRawDiff({
-					workspace: params.workspaceSlug,
-					repo_slug: params.repoSlug,
-					spec,
+				rawDiff = await diffService.getRawDiff(
+					{
+						workspace: params.workspaceSlug,
+						repo_slug: params.repoSlug,
+						spec,
+					},
+					callOptions,
+				);
+				reportProgress(callOptions, {
+					progress: 2,
+					total: 2,
+					message: 'Downloaded the full diff',
 				});
 			}
 
@@ -293,6 +354,12 @@ async function commitDiff(
 
 			return {
 				content,
+				data: {
+					sinceCommit: params.sinceCommit,
+					untilCommit: params.untilCommit,
+					files: (diffstat.values || []).map(toChangedFileOutput),
+					pagination,
+				},
 			};
 		} catch (error) {
 			// Enhance error handling for common diff-specific errors
@@ -1,4 +1,5 @@
 import { DiffstatResponse } from '../services/vendor.atlassian.repositories.diff.types.js';
+import { ChangedFileOutputType } from '../tools/atlassian.common.types.js';
 import {
 	formatHeading,
 	formatSeparator,
@@ -202,3 +203,25 @@ export function formatFullDiff(
 
 	return lines.join('\n');
 }
+
+/**
+ * Convert a diffstat entry to the structured output of the diff tools
+ *
+ * @param file - File change from a diffstat response
+ * @returns Changed file with stable field names
+ */
+export function toChangedFileOutput(
+	file: DiffstatResponse['values'][number],
+): ChangedFileOutputType {
+	const path = file.new?.path ?? file.old?.path ?? '';
+	return {
+		path,
+		oldPath:
+			file.old?.path && file.old.path !== path
+				? file.old.path
+				: undefined,
+		status: file.status,
+		linesAdded: file.lines_added,
+		linesRemoved: file.lines_removed,
+	};
+}
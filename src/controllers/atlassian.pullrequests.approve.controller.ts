@@ -1,22 +1,35 @@
 import { ControllerResponse } from '../types/common.types.js';
 import { ApprovePullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { ApprovePullRequestToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	ApprovePullRequestToolArgsType,
+	ApprovePullRequestToolOutputType,
+	UnapprovePullRequestToolArgsType,
+	UnapprovePullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
 	handleControllerError,
 	applyDefaults,
 	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toParticipantOutput,
+	formatReviewState,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Approve a pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, and pull request ID
- * @returns Promise with formatted approval confirmation as Markdown content
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted approval confirmation as Markdown content,
+ * or the planned request when `dryRun` is set
  */
 async function approve(
 	options: ApprovePullRequestToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ApprovePullRequestToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.approve.controller.ts',
 		'approve',
@@ -58,8 +71,10 @@ async function approve(
 		};
 
 		// Call service to approve the pull request
-		const participant =
-			await atlassianPullRequestsService.approve(serviceParams);
+		const participant = await atlassianPullRequestsService.approve(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		methodLogger.debug(
 			`Successfully approved pull request ${mergedOptions.pullRequestId}`,
@@ -71,15 +86,18 @@ async function approve(
 **Pull Request ID:** ${mergedOptions.pullRequestId}
 **Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
 **Approved by:** ${participant.user.display_name || participant.user.nickname || 'Unknown User'}
-**Status:** ${participant.state}
-**Participated on:** ${new Date(participant.participated_on).toLocaleString()}
+**Status:** ${participant.state}${participant.participated_on ? `\n**Participated on:** ${new Date(participant.participated_on).toLocaleString()}` : ''}
 
 The pull request has been successfully approved and is now ready for merge (pending any other required approvals or checks).`;
 
 		return {
 			content: content,
+			data: { participant: toParticipantOutput(participant) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		throw handleControllerError(error, {
 			entityType: 'Pull Request',
 			operation: 'approving',
@@ -89,4 +107,100 @@ The pull request has been successfully approved and is now ready for merge (pend
 	}
 }
 
-export default { approve };
+/**
+ * Remove your approval from a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the resulting review state as Markdown content,
+ * or the planned request when `dryRun` is set
+ */
+async function unapprove(
+	options: UnapprovePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<UnapprovePullRequestToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.approve.controller.ts',
+		'unapprove',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions = applyDefaults<UnapprovePullRequestToolArgsType>(
+			options,
+			{},
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		methodLogger.debug(
+			`Removing approval from pull request ${mergedOptions.pullRequestId} in ${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}`,
+		);
+
+		// Prepare service parameters
+		const serviceParams: ApprovePullRequestParams = {
+			workspace: mergedOptions.workspaceSlug,
+			repo_slug: mergedOptions.repoSlug,
+			pull_request_id: mergedOptions.pullRequestId,
+		};
+
+		await atlassianPullRequestsService.unapprove(serviceParams, {
+			...callOptions,
+			dryRun: options.dryRun,
+		});
+
+		methodLogger.debug(
+			`Successfully removed approval from pull request ${mergedOptions.pullRequestId}`,
+		);
+
+		// Bitbucket returns no content, so read back where the review stands
+		const pullRequest = await atlassianPullRequestsService.get(
+			serviceParams,
+			callOptions,
+		);
+		const participants = pullRequest.participants || [];
+
+		// Format the response
+		const content = `# Approval Removed
+
+**Pull Request ID:** ${mergedOptions.pullRequestId}
+**Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
+
+Your approval has been withdrawn. The pull request may need another approval before it can be merged.
+
+## Review State
+
+${formatReviewState(participants)}`;
+
+		return {
+			content: content,
+			data: { participants: participants.map(toParticipantOutput) },
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request',
+			operation: 'removing approval from',
+			source: 'controllers/atlassian.pullrequests.approve.controller.ts@unapprove',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { approve, unapprove };
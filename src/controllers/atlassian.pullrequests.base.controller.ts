@@ -3,6 +3,7 @@ import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
 import {
 	extractPaginationInfo,
+	fetchPages,
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
@@ -10,15 +11,34 @@ import {
 	formatPullRequestsList,
 	formatPullRequestDetails,
 	formatPullRequestComments,
+	filterUnresolvedThreads,
+	toPullRequestOutput,
+	toCommentOutput,
+	toUserOutput,
+	toParticipantOutput,
+	formatReviewState,
+	formatPullRequestTasks,
+	toTaskOutput,
 } from './atlassian.pullrequests.formatter.js';
 import {
 	PullRequestComment,
 	PullRequestCommentsResponse,
+	PullRequestUser,
 } from '../services/vendor.atlassian.pullrequests.types.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
+import {
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
 import { extractDiffSnippet } from '../utils/diff.util.js';
 import { optimizeBitbucketMarkdown } from '../utils/formatter.util.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import { reportProgress } from '../utils/progress.util.js';
+import {
+	DryRunInterrupt,
+	formatDryRunResponse,
+} from '../utils/dry-run.util.js';
 
 /**
  * Base controller for managing Bitbucket pull requests.
@@ -73,6 +93,7 @@ export type CreateCommentParams = {
 export async function enhanceCommentsWithSnippets(
 	commentsData: PullRequestCommentsResponse,
 	controllerMethodName: string, // To contextualize logs
+	callOptions: CallOptions = {},
 ): Promise<PullRequestCommentWithSnippet[]> {
 	const methodLogger = Logger.forContext(
 		`controllers/atlassian.pullrequests.base.controller.ts`,
@@ -84,6 +105,15 @@ export async function enhanceCommentsWithSnippets(
 		return [];
 	}
 
+	// Inline comments need one diff request each, so report how far along we are
+	const snippetTotal = commentsData.values.filter(
+		(comment) =>
+			comment.inline &&
+			comment.links?.code?.href &&
+			comment.inline.to !== undefined,
+	).length;
+	let snippetCount = 0;
+
 	for (const comment of commentsData.values) {
 		let snippet = undefined;
 		if (
@@ -91,6 +121,7 @@ export async function enhanceCommentsWithSnippets(
 			comment.links?.code?.href &&
 			comment.inline.to !== undefined
 		) {
+			snippetCount++;
 			try {
 				methodLogger.debug(
 					`Fetching diff for inline comment ${comment.id} from ${comment.links.code.href}`,
@@ -98,6 +129,7 @@ export async function enhanceCommentsWithSnippets(
 				const diffContent =
 					await atlassianPullRequestsService.getDiffForUrl(
 						comment.links.code.href,
+						callOptions,
 					);
 				snippet = extractDiffSnippet(diffContent, comment.inline.to);
 				methodLogger.debug(
@@ -110,24 +142,101 @@ export async function enhanceCommentsWithSnippets(
 				);
 				// Continue without snippet if fetching/parsing fails
 			}
+			reportProgress(callOptions, {
+				progress: snippetCount,
+				total: snippetTotal,
+				message: `Fetched code snippet ${snippetCount} of ${snippetTotal}`,
+			});
 		}
 		commentsWithSnippets.push({ ...comment, codeSnippet: snippet });
 	}
 	return commentsWithSnippets;
 }
 
+/**
+ * Whether two users are the same, comparing the identifiers both carry
+ * (users looked up by UUID or account ID carry only that one)
+ */
+export function isSameUser(a: PullRequestUser, b: PullRequestUser): boolean {
+	if (a.uuid && b.uuid) {
+		return a.uuid === b.uuid;
+	}
+	if (a.account_id && b.account_id) {
+		return a.account_id === b.account_id;
+	}
+	return (
+		!!a.nickname && a.nickname.toLowerCase() === b.nickname?.toLowerCase()
+	);
+}
+
+/**
+ * Combine lists of reviewers, keeping the first occurrence of each user
+ */
+export function mergeReviewers(
+	...lists: PullRequestUser[][]
+): PullRequestUser[] {
+	const merged: PullRequestUser[] = [];
+	lists.flat().forEach((user) => {
+		if (!merged.some((existing) => isSameUser(existing, user))) {
+			merged.push(user);
+		}
+	});
+	return merged;
+}
+
+/**
+ * Look up reviewers given as account IDs, UUIDs, nicknames or email addresses
+ * @param workspace - Workspace whose members are searched
+ * @param identifiers - How the caller named each reviewer
+ * @param callOptions - Call options (abort signal)
+ * @returns The users, in the given order
+ * @throws Error naming the first identifier that matches no member
+ */
+export async function resolveReviewers(
+	workspace: string,
+	identifiers: string[] = [],
+	callOptions: CallOptions = {},
+): Promise<PullRequestUser[]> {
+	const users: PullRequestUser[] = [];
+	for (const identifier of identifiers) {
+		const user = await atlassianPullRequestsService.resolveUser(
+			{ workspace, identifier },
+			callOptions,
+		);
+		if (!user) {
+			throw new Error(
+				`No member of workspace "${workspace}" matches reviewer "${identifier}". Use an account ID, a UUID in braces, a nickname or an email address.`,
+			);
+		}
+		users.push(user);
+	}
+	return users;
+}
+
 export {
 	atlassianPullRequestsService,
 	Logger,
 	handleControllerError,
 	extractPaginationInfo,
+	fetchPages,
 	PaginationType,
 	formatPagination,
 	formatPullRequestsList,
 	formatPullRequestDetails,
 	formatPullRequestComments,
+	filterUnresolvedThreads,
+	toPullRequestOutput,
+	toCommentOutput,
+	toUserOutput,
+	toParticipantOutput,
+	formatReviewState,
+	formatPullRequestTasks,
+	toTaskOutput,
 	DEFAULT_PAGE_SIZE,
+	ALL_PAGES_PAGE_SIZE,
 	applyDefaults,
 	optimizeBitbucketMarkdown,
 	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
 };
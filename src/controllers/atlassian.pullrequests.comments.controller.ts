@@ -1,33 +1,106 @@
 import { ControllerResponse } from '../types/common.types.js';
 import {
 	ListPullRequestCommentsToolArgsType,
+	ListPullRequestCommentsToolOutputType,
 	CreatePullRequestCommentToolArgsType,
+	CreatePullRequestCommentToolOutputType,
+	ManagePullRequestCommentToolArgsType,
+	ManagePullRequestCommentToolOutputType,
 } from '../tools/atlassian.pullrequests.types.js';
+import {
+	PullRequestComment,
+	PullRequestCommentParams,
+	PullRequestCommentResolution,
+} from '../services/vendor.atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
 	handleControllerError,
-	extractPaginationInfo,
-	PaginationType,
+	fetchPages,
 	formatPagination,
 	formatPullRequestComments,
+	filterUnresolvedThreads,
 	DEFAULT_PAGE_SIZE,
+	ALL_PAGES_PAGE_SIZE,
 	applyDefaults,
 	enhanceCommentsWithSnippets,
 	optimizeBitbucketMarkdown,
 	getDefaultWorkspace,
 	ListCommentsParams,
 	CreateCommentParams,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toCommentOutput,
+	toUserOutput,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
+
+/**
+ * Past-tense verbs for the outcome of each comment action
+ */
+const COMMENT_ACTION_RESULTS: Record<
+	ManagePullRequestCommentToolArgsType['action'],
+	string
+> = {
+	update: 'updated',
+	delete: 'deleted',
+	resolve: 'resolved',
+	reopen: 'reopened',
+};
+
+/**
+ * Fetch the comments that replies answer but that are not among them,
+ * following each chain up to the top-level comment of its thread
+ * @param comments - Comments already fetched
+ * @param pullRequest - Pull request the comments belong to
+ * @param callOptions - Call options (abort signal)
+ * @returns The missing parent comments, nearest first
+ */
+async function fetchMissingParents(
+	comments: PullRequestComment[],
+	pullRequest: Omit<PullRequestCommentParams, 'comment_id'>,
+	callOptions: CallOptions,
+): Promise<PullRequestComment[]> {
+	const known = new Set(comments.map((comment) => comment.id));
+	const parents: PullRequestComment[] = [];
+	let pending = comments;
+
+	while (pending.length > 0) {
+		const missingIds = [
+			...new Set(
+				pending
+					.map((comment) => comment.parent?.id)
+					.filter(
+						(id): id is number =>
+							id !== undefined && !known.has(id),
+					),
+			),
+		];
+		pending = [];
+		for (const id of missingIds) {
+			known.add(id);
+			const parent = await atlassianPullRequestsService.getComment(
+				{ ...pullRequest, comment_id: id },
+				callOptions,
+			);
+			parents.push(parent);
+			pending.push(parent);
+		}
+	}
+
+	return parents;
+}
 
 /**
- * List comments on a Bitbucket pull request
- * @param options - Options including workspace slug, repo slug, and pull request ID
+ * List comments on a Bitbucket pull request as threads
+ * @param options - Options including workspace slug, repo slug, pull request ID and whether to show only unresolved threads
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull request comments as Markdown content
  */
 async function listComments(
 	options: ListPullRequestCommentsToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListPullRequestCommentsToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.comments.controller.ts',
 		'listComments',
@@ -74,23 +147,38 @@ async function listComments(
 
 		methodLogger.debug(
 			`Listing comments for PR ${workspaceSlug}/${repoSlug}/${prId}`,
-			{ limit: mergedOptions.limit, cursor: mergedOptions.cursor },
+			{
+				limit: mergedOptions.limit,
+				cursor: mergedOptions.cursor,
+				unresolvedOnly: mergedOptions.unresolvedOnly,
+			},
 		);
 
+		// Whether a thread is resolved is only known from its top-level
+		// comment, which may be on another page, so filtering reads them all
+		const all = mergedOptions.all || mergedOptions.unresolvedOnly;
+
 		// Map controller options to service parameters
 		const serviceParams: ListCommentsParams = {
 			workspace: workspaceSlug,
 			repo_slug: repoSlug,
 			pull_request_id: parseInt(prId, 10),
-			pagelen: mergedOptions.limit,
-			page: mergedOptions.cursor
-				? parseInt(mergedOptions.cursor, 10)
-				: undefined,
+			pagelen: all ? ALL_PAGES_PAGE_SIZE : mergedOptions.limit,
 		};
 
-		// Get comments from the service
-		const commentsData =
-			await atlassianPullRequestsService.getComments(serviceParams);
+		// Get comments from the service, following every page when requested
+		const { data: commentsData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianPullRequestsService.getComments(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			{ ...mergedOptions, all },
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Retrieved ${commentsData.values?.length || 0} comments`,
@@ -98,19 +186,47 @@ async function listComments(
 
 		// If no comments found, return a simple message
 		if (!commentsData.values || commentsData.values.length === 0) {
-			return { content: 'No comments found on this pull request.' };
+			return {
+				content: 'No comments found on this pull request.',
+				data: { comments: [], pagination },
+			};
 		}
 
-		// Extract pagination information
-		const pagination = extractPaginationInfo(
-			commentsData,
-			PaginationType.PAGE,
-		);
+		// Drop resolved threads before fetching any code snippets. Replies
+		// whose thread starts before the cursor need that thread looked up.
+		let comments = commentsData.values;
+		if (mergedOptions.unresolvedOnly) {
+			const ancestors = await fetchMissingParents(
+				comments,
+				{
+					workspace: serviceParams.workspace,
+					repo_slug: serviceParams.repo_slug,
+					pull_request_id: serviceParams.pull_request_id,
+				},
+				callOptions,
+			);
+			const ancestorIds = new Set(ancestors.map((comment) => comment.id));
+			comments = filterUnresolvedThreads([
+				...ancestors,
+				...comments,
+			]).filter((comment) => !ancestorIds.has(comment.id));
+		}
+		if (comments.length === 0) {
+			// Later comments may still belong to open threads
+			const content = pagination?.hasMore
+				? `No unresolved comment threads among the first ${commentsData.values.length} comments.\n\n${formatPagination(pagination)}`
+				: 'No unresolved comment threads found on this pull request.';
+			return {
+				content,
+				data: { comments: [], pagination },
+			};
+		}
 
 		// Enhance comments with code snippets (for inline comments)
 		const enhancedComments = await enhanceCommentsWithSnippets(
-			commentsData,
+			{ ...commentsData, values: comments },
 			'listComments',
+			callOptions,
 		);
 
 		// Format the comments using the formatter
@@ -133,6 +249,10 @@ async function listComments(
 
 		return {
 			content: finalContent,
+			data: {
+				comments: comments.map(toCommentOutput),
+				pagination,
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -148,11 +268,13 @@ async function listComments(
 /**
  * Add a comment to a Bitbucket pull request
  * @param options - Options including workspace slug, repo slug, PR ID, and comment content
- * @returns Promise with a success message as content
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with a success message as content, or the planned request when `dryRun` is set
  */
 async function addComment(
 	options: CreatePullRequestCommentToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<CreatePullRequestCommentToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.comments.controller.ts',
 		'addComment',
@@ -238,8 +360,10 @@ async function addComment(
 		}
 
 		// Create the comment through the service
-		const commentResult =
-			await atlassianPullRequestsService.createComment(serviceParams);
+		const commentResult = await atlassianPullRequestsService.createComment(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		methodLogger.debug('Comment created successfully', {
 			commentId: commentResult.id,
@@ -250,8 +374,12 @@ async function addComment(
 		const commentType = inline ? 'inline' : '';
 		return {
 			content: `${commentType} Comment successfully added to pull request #${prId}. Comment ID: ${commentResult.id}`,
+			data: { comment: toCommentOutput(commentResult) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		// Use the standardized error handler
 		throw handleControllerError(error, {
 			entityType: 'Pull Request Comment',
@@ -262,5 +390,151 @@ async function addComment(
 	}
 }
 
+/**
+ * Edit, delete, resolve or reopen a comment on a Bitbucket pull request
+ * @param options - Options including workspace slug, repo slug, PR ID, action, comment ID and content
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with a confirmation as Markdown content, or the planned
+ * request when `dryRun` is set
+ */
+async function manageComment(
+	options: ManagePullRequestCommentToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ManagePullRequestCommentToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.comments.controller.ts',
+		'manageComment',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions =
+			applyDefaults<ManagePullRequestCommentToolArgsType>(options, {});
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		const { workspaceSlug, repoSlug, prId, action, commentId, content } =
+			mergedOptions;
+
+		// Validate the arguments each action needs
+		if (!workspaceSlug || !repoSlug || !prId || !commentId) {
+			throw new Error(
+				'Workspace slug, repository slug, pull request ID, and comment ID are required',
+			);
+		}
+		if (action === 'update' && !content) {
+			throw new Error('Comment content is required to update a comment');
+		}
+		if (action !== 'update' && content) {
+			throw new Error(
+				'Content can only be given when updating a comment',
+			);
+		}
+
+		methodLogger.debug(
+			`Comment action "${action}" on PR ${workspaceSlug}/${repoSlug}/${prId}`,
+			{ commentId },
+		);
+
+		const commentParams: PullRequestCommentParams = {
+			workspace: workspaceSlug,
+			repo_slug: repoSlug,
+			pull_request_id: parseInt(prId, 10),
+			comment_id: parseInt(commentId, 10),
+		};
+		const writeOptions = { ...callOptions, dryRun: options.dryRun };
+
+		let comment: PullRequestComment | undefined;
+		let resolution: PullRequestCommentResolution | undefined;
+		switch (action) {
+			case 'update':
+				comment = await atlassianPullRequestsService.updateComment(
+					{
+						...commentParams,
+						content: {
+							raw: optimizeBitbucketMarkdown(content as string),
+						},
+					},
+					writeOptions,
+				);
+				break;
+			case 'delete':
+				await atlassianPullRequestsService.deleteComment(
+					commentParams,
+					writeOptions,
+				);
+				break;
+			case 'resolve':
+				resolution = await atlassianPullRequestsService.resolveComment(
+					commentParams,
+					writeOptions,
+				);
+				break;
+			case 'reopen':
+				await atlassianPullRequestsService.reopenComment(
+					commentParams,
+					writeOptions,
+				);
+				break;
+		}
+
+		methodLogger.debug(`Comment ${COMMENT_ACTION_RESULTS[action]}`, {
+			commentId,
+		});
+
+		const lines = [
+			`# Comment ${COMMENT_ACTION_RESULTS[action]} on Pull Request #${prId}`,
+			'',
+			`**Comment ID:** ${commentId}`,
+		];
+		if (comment) {
+			lines.push(`**Content:** ${comment.content?.raw ?? ''}`);
+		}
+		if (action === 'resolve' || action === 'reopen') {
+			const resolver =
+				resolution?.user?.display_name || resolution?.user?.nickname;
+			lines.push(
+				`**Thread:** ${action === 'resolve' ? `✅ Resolved${resolver ? ` by ${resolver}` : ''}` : 'Open'}`,
+			);
+		}
+
+		return {
+			content: lines.join('\n'),
+			data: {
+				action,
+				commentId: commentParams.comment_id,
+				comment: comment && toCommentOutput(comment),
+				resolvedBy: resolution?.user && toUserOutput(resolution.user),
+				resolvedOn: resolution?.created_on,
+			},
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request Comment',
+			operation: 'managing',
+			source: 'controllers/atlassian.pullrequests.comments.controller.ts@manageComment',
+			additionalInfo: { options },
+		});
+	}
+}
+
 // Export the controller functions
-export default { listComments, addComment };
+export default { listComments, addComment, manageComment };
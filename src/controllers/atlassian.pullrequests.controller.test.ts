@@ -1,4 +1,5 @@
 import { McpError, ErrorType } from '../utils/error.util.js';
+import { DryRunInterrupt } from '../utils/dry-run.util.js';
 import atlassianPullRequestsController from './atlassian.pullrequests.controller.js';
 import { getAtlassianCredentials } from '../utils/transport.util.js';
 import atlassianPullRequestsService from '../services/vendor.atlassian.pullrequests.service.js';
@@ -451,6 +452,96 @@ describe('Atlassian Pull Requests Controller', () => {
 		}, 10000);
 	});
 
+	describe('get with includeFullDiff', () => {
+		const pullRequest: any = {
+			id: 7,
+			title: 'Add feature',
+			state: 'OPEN',
+			source: { branch: { name: 'feature' } },
+			destination: {
+				branch: { name: 'main' },
+				repository: { full_name: 'team/api' },
+			},
+			created_on: '2024-01-01T00:00:00.000Z',
+			updated_on: '2024-01-01T00:00:00.000Z',
+			links: {},
+		};
+
+		beforeEach(() => {
+			jest.spyOn(atlassianPullRequestsService, 'get').mockResolvedValue(
+				pullRequest,
+			);
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'listTasks',
+			).mockResolvedValue({ values: [], size: 0 } as any);
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'getDiffstat',
+			).mockResolvedValue({
+				values: [
+					{
+						status: 'modified',
+						lines_added: 2,
+						lines_removed: 1,
+						new: { path: 'src/index.ts' },
+					},
+				],
+			} as any);
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'getRawDiff',
+			).mockResolvedValue(
+				'diff --git a/src/index.ts b/src/index.ts\n+added line\n',
+			);
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('should include the changed files and the diff, reporting progress', async () => {
+			const onProgress = jest.fn();
+			const result = await atlassianPullRequestsController.get(
+				{
+					workspaceSlug: 'team',
+					repoSlug: 'api',
+					prId: '7',
+					includeFullDiff: true,
+					includeComments: false,
+				},
+				{ onProgress },
+			);
+
+			expect(result.content).toContain('## File Changes');
+			expect(result.content).toContain('`src/index.ts` (+2, -1)');
+			expect(result.content).toContain('## Code Changes (Full Diff)');
+			expect(result.content).toContain('+added line');
+			expect(onProgress.mock.calls.map(([update]) => update)).toEqual([
+				expect.objectContaining({ progress: 1, total: 2 }),
+				expect.objectContaining({ progress: 2, total: 2 }),
+			]);
+		});
+
+		it('should not fetch the diff when includeFullDiff is false', async () => {
+			const result = await atlassianPullRequestsController.get({
+				workspaceSlug: 'team',
+				repoSlug: 'api',
+				prId: '7',
+				includeFullDiff: false,
+				includeComments: false,
+			});
+
+			expect(result.content).not.toContain('## Code Changes');
+			expect(
+				atlassianPullRequestsService.getDiffstat,
+			).not.toHaveBeenCalled();
+			expect(
+				atlassianPullRequestsService.getRawDiff,
+			).not.toHaveBeenCalled();
+		});
+	});
+
 	// List comments tests
 	describe('listComments', () => {
 		it('should return formatted pull request comments in Markdown', async () => {
@@ -669,5 +760,151 @@ describe('Atlassian Pull Requests Controller', () => {
 		}, 10000);
 	});
 
+	describe('listComments with unresolvedOnly', () => {
+		const comment = (
+			id: number,
+			extra: Record<string, unknown> = {},
+		): any => ({
+			type: 'pullrequest_comment',
+			id,
+			content: { raw: `Comment ${id}` },
+			user: { display_name: 'Test User' },
+			created_on: '2024-01-01T00:00:00.000Z',
+			updated_on: '2024-01-01T00:00:00.000Z',
+			...extra,
+		});
+		const resolution = { type: 'comment_resolution' };
+
+		// Two pages: a resolved thread (1) and an open thread (2) first,
+		// then replies to both
+		const pages: Record<number, any[]> = {
+			1: [comment(1, { resolution }), comment(2)],
+			2: [
+				comment(3, { parent: { id: 1 } }),
+				comment(4, { parent: { id: 2 } }),
+			],
+		};
+
+		beforeEach(() => {
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'getComments',
+			).mockImplementation(async (params) => {
+				const page = params.page ?? 1;
+				return {
+					values: pages[page],
+					page,
+					pagelen: 2,
+					size: 4,
+					next:
+						page < 2
+							? `https://api.bitbucket.org/2.0/x?page=${page + 1}`
+							: undefined,
+				};
+			});
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'getComment',
+			).mockImplementation(async (params) =>
+				pages[1].find((entry) => entry.id === params.comment_id),
+			);
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		const options = {
+			workspaceSlug: 'team',
+			repoSlug: 'api',
+			prId: '7',
+			unresolvedOnly: true,
+		};
+
+		it('should read every page and keep only open threads', async () => {
+			const result =
+				await atlassianPullRequestsController.listComments(options);
+
+			expect(
+				(result.data as any).comments.map((entry: any) => entry.id),
+			).toEqual([2, 4]);
+			expect(
+				atlassianPullRequestsService.getComment,
+			).not.toHaveBeenCalled();
+		});
+
+		it('should look up the thread of replies whose parent was not fetched', async () => {
+			const result = await atlassianPullRequestsController.listComments({
+				...options,
+				cursor: '2',
+			});
+
+			expect(
+				(result.data as any).comments.map((entry: any) => entry.id),
+			).toEqual([4]);
+			expect(
+				atlassianPullRequestsService.getComment,
+			).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not report that no threads are open while comments remain', async () => {
+			pages[1][1] = comment(2, { resolution });
+			try {
+				const result =
+					await atlassianPullRequestsController.listComments({
+						...options,
+						maxItems: 1,
+					});
+
+				expect(result.content).not.toContain(
+					'No unresolved comment threads found',
+				);
+				expect(result.content).toContain(
+					'No unresolved comment threads among the first 1 comments',
+				);
+				expect((result.data as any).pagination.hasMore).toBe(true);
+			} finally {
+				pages[1][1] = comment(2);
+			}
+		});
+	});
+
+	describe('decline', () => {
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('should describe the reason comment in a dry run', async () => {
+			jest.spyOn(
+				atlassianPullRequestsService,
+				'decline',
+			).mockRejectedValueOnce(
+				new DryRunInterrupt({
+					method: 'POST',
+					path: '/2.0/repositories/team/api/pullrequests/7/decline',
+					url: 'https://api.bitbucket.org/2.0/repositories/team/api/pullrequests/7/decline',
+				}),
+			);
+			const createComment = jest.spyOn(
+				atlassianPullRequestsService,
+				'createComment',
+			);
+
+			const result = await atlassianPullRequestsController.decline({
+				workspaceSlug: 'team',
+				repoSlug: 'api',
+				pullRequestId: 7,
+				reason: 'Superseded by #8',
+				dryRun: true,
+			});
+
+			expect(result.content).toContain('/pullrequests/7/decline');
+			expect(result.content).toContain(
+				'the reason would be posted as a comment on the pull request: "**Declined:** Superseded by #8"',
+			);
+			expect(createComment).not.toHaveBeenCalled();
+		});
+	});
+
 	// Note: addComment test suite has been removed to avoid creating comments on real PRs during tests
 });
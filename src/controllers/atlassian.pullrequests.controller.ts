@@ -4,10 +4,17 @@ import {
 	GetPullRequestToolArgsType,
 	ListPullRequestCommentsToolArgsType,
 	CreatePullRequestCommentToolArgsType,
+	ManagePullRequestCommentToolArgsType,
 	CreatePullRequestToolArgsType,
 	UpdatePullRequestToolArgsType,
 	ApprovePullRequestToolArgsType,
 	RejectPullRequestToolArgsType,
+	UnapprovePullRequestToolArgsType,
+	WithdrawChangeRequestToolArgsType,
+	DeclinePullRequestToolArgsType,
+	MergePullRequestToolArgsType,
+	ListPullRequestTasksToolArgsType,
+	ManagePullRequestTaskToolArgsType,
 } from '../tools/atlassian.pullrequests.types.js';
 
 import listController from './atlassian.pullrequests.list.controller.js';
@@ -17,6 +24,10 @@ import createController from './atlassian.pullrequests.create.controller.js';
 import updateController from './atlassian.pullrequests.update.controller.js';
 import approveController from './atlassian.pullrequests.approve.controller.js';
 import rejectController from './atlassian.pullrequests.reject.controller.js';
+import declineController from './atlassian.pullrequests.decline.controller.js';
+import mergeController from './atlassian.pullrequests.merge.controller.js';
+import tasksController from './atlassian.pullrequests.tasks.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Controller for managing Bitbucket pull requests.
@@ -38,99 +49,227 @@ import rejectController from './atlassian.pullrequests.reject.controller.js';
 /**
  * List Bitbucket pull requests with optional filtering options
  * @param options - Options for listing pull requests including workspace slug and repo slug
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull requests list content and pagination information
  */
 async function list(
 	options: ListPullRequestsToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return listController.list(options);
+	return listController.list(options, callOptions);
 }
 
 /**
  * Get detailed information about a specific Bitbucket pull request
  * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull request details as Markdown content
  */
 async function get(
 	options: GetPullRequestToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return getController.get(options);
+	return getController.get(options, callOptions);
+}
+
+/**
+ * Get the unified diff of a Bitbucket pull request
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the raw unified diff as content
+ */
+async function getDiff(
+	options: GetPullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return getController.getDiff(options, callOptions);
 }
 
 /**
  * List comments on a Bitbucket pull request
  * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull request comments as Markdown content
  */
 async function listComments(
 	options: ListPullRequestCommentsToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return commentsController.listComments(options);
+	return commentsController.listComments(options, callOptions);
 }
 
 /**
  * Add a comment to a Bitbucket pull request
  * @param options - Options including workspace slug, repo slug, PR ID, and comment content
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with a success message as content
  */
 async function addComment(
 	options: CreatePullRequestCommentToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return commentsController.addComment(options, callOptions);
+}
+
+/**
+ * Edit, delete, resolve or reopen a pull request comment
+ * @param options - Options including workspace slug, repo slug, pull request ID, action and comment ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with a confirmation as Markdown content
+ */
+async function manageComment(
+	options: ManagePullRequestCommentToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return commentsController.addComment(options);
+	return commentsController.manageComment(options, callOptions);
 }
 
 /**
  * Create a new pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, source branch, target branch, title, etc.
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull request details as Markdown content
  */
 async function add(
 	options: CreatePullRequestToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return createController.add(options);
+	return createController.add(options, callOptions);
 }
 
 /**
  * Update an existing pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, pull request ID, title, and description
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted updated pull request details as Markdown content
  */
 async function update(
 	options: UpdatePullRequestToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return updateController.update(options);
+	return updateController.update(options, callOptions);
 }
 
 /**
  * Approve a pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted approval confirmation as Markdown content
  */
 async function approve(
 	options: ApprovePullRequestToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return approveController.approve(options);
+	return approveController.approve(options, callOptions);
 }
 
 /**
  * Request changes on a pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted rejection confirmation as Markdown content
  */
 async function reject(
 	options: RejectPullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return rejectController.reject(options, callOptions);
+}
+
+/**
+ * Remove your approval from a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the resulting review state as Markdown content
+ */
+async function unapprove(
+	options: UnapprovePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return approveController.unapprove(options, callOptions);
+}
+
+/**
+ * Withdraw your change request from a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the resulting review state as Markdown content
+ */
+async function withdrawChangeRequest(
+	options: WithdrawChangeRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return rejectController.withdrawChangeRequest(options, callOptions);
+}
+
+/**
+ * Decline a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, pull request ID, and reason
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted decline confirmation as Markdown content
+ */
+async function decline(
+	options: DeclinePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return declineController.decline(options, callOptions);
+}
+
+/**
+ * Merge a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, pull request ID and merge strategy
+ * @param callOptions - Call options (abort signal, progress callback)
+ * @returns Promise with formatted merge confirmation as Markdown content
+ */
+async function merge(
+	options: MergePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return mergeController.merge(options, callOptions);
+}
+
+/**
+ * List tasks on a pull request
+ * @param options - Options including workspace slug, repo slug, pull request ID and state filter
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted pull request tasks as Markdown content
+ */
+async function listTasks(
+	options: ListPullRequestTasksToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse> {
+	return tasksController.listTasks(options, callOptions);
+}
+
+/**
+ * Create, update, resolve, reopen or delete a pull request task
+ * @param options - Options including workspace slug, repo slug, pull request ID, action and task ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with a confirmation as Markdown content
+ */
+async function manageTask(
+	options: ManagePullRequestTaskToolArgsType,
+	callOptions: CallOptions = {},
 ): Promise<ControllerResponse> {
-	return rejectController.reject(options);
+	return tasksController.manageTask(options, callOptions);
 }
 
 // Export the controller functions
 export default {
 	list,
 	get,
+	getDiff,
 	listComments,
 	addComment,
+	manageComment,
 	add,
 	update,
 	approve,
 	reject,
+	unapprove,
+	withdrawChangeRequest,
+	decline,
+	merge,
+	listTasks,
+	manageTask,
 };
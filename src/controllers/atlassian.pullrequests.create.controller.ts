@@ -1,6 +1,12 @@
 import { ControllerResponse } from '../types/common.types.js';
-import { CreatePullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { CreatePullRequestToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	CreatePullRequestParams,
+	PullRequestUser,
+} from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	CreatePullRequestToolArgsType,
+	CreatePullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
@@ -9,16 +15,27 @@ import {
 	applyDefaults,
 	optimizeBitbucketMarkdown,
 	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toPullRequestOutput,
+	isSameUser,
+	mergeReviewers,
+	resolveReviewers,
 } from './atlassian.pullrequests.base.controller.js';
+import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Create a new pull request in Bitbucket
- * @param options - Options including workspace slug, repo slug, source branch, target branch, title, etc.
- * @returns Promise with formatted pull request details as Markdown content
+ * @param options - Options including workspace slug, repo slug, source branch, target branch, title, reviewers, etc.
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted pull request details as Markdown content,
+ * or the planned request when `dryRun` is set
  */
 async function add(
 	options: CreatePullRequestToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<CreatePullRequestToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.create.controller.ts',
 		'add',
@@ -53,21 +70,30 @@ async function add(
 			repoSlug,
 			title,
 			sourceBranch,
-			destinationBranch,
 			description,
 			closeSourceBranch,
 		} = mergedOptions;
 
 		// Validate required parameters
-		if (
-			!workspaceSlug ||
-			!repoSlug ||
-			!title ||
-			!sourceBranch ||
-			!destinationBranch
-		) {
+		if (!workspaceSlug || !repoSlug || !title || !sourceBranch) {
 			throw new Error(
-				'Workspace slug, repository slug, title, source branch, and destination branch are required',
+				'Workspace slug, repository slug, title, and source branch are required',
+			);
+		}
+
+		// Default the destination to the repository's main branch
+		let destinationBranch = mergedOptions.destinationBranch;
+		if (!destinationBranch) {
+			methodLogger.debug(
+				'No destination branch provided, fetching repository details to get default branch',
+			);
+			const repoDetails = await atlassianRepositoriesService.get(
+				{ workspace: workspaceSlug, repo_slug: repoSlug },
+				callOptions,
+			);
+			destinationBranch = repoDetails.mainbranch?.name || 'main';
+			methodLogger.debug(
+				`Using destination branch: ${destinationBranch}`,
 			);
 		}
 
@@ -80,6 +106,49 @@ async function add(
 			},
 		);
 
+		// Look up the requested reviewers, plus the default reviewers
+		// (without the author, whom Bitbucket refuses as a reviewer)
+		let reviewers: PullRequestUser[] | undefined;
+		if (
+			mergedOptions.reviewers?.length ||
+			mergedOptions.includeDefaultReviewers
+		) {
+			const requested = await resolveReviewers(
+				workspaceSlug,
+				mergedOptions.reviewers,
+				callOptions,
+			);
+			let defaults: PullRequestUser[] = [];
+			if (mergedOptions.includeDefaultReviewers) {
+				defaults =
+					await atlassianPullRequestsService.getDefaultReviewers(
+						{
+							workspace: workspaceSlug,
+							repo_slug: repoSlug,
+							source_branch: sourceBranch,
+							destination_branch: destinationBranch,
+						},
+						callOptions,
+					);
+				try {
+					const author =
+						await atlassianPullRequestsService.getCurrentUser(
+							callOptions,
+						);
+					defaults = defaults.filter(
+						(user) => !isSameUser(user, author),
+					);
+				} catch (userError) {
+					methodLogger.warn(
+						'Could not identify the current user to leave them out of the default reviewers',
+						userError,
+					);
+				}
+			}
+			reviewers = mergeReviewers(requested, defaults);
+			methodLogger.debug(`Requesting ${reviewers.length} reviewers`);
+		}
+
 		// Process description - optimize Markdown if provided
 		const optimizedDescription = description
 			? optimizeBitbucketMarkdown(description)
@@ -102,11 +171,14 @@ async function add(
 			},
 			description: optimizedDescription,
 			close_source_branch: closeSourceBranch,
+			reviewers,
 		};
 
 		// Create the pull request through the service
-		const pullRequestResult =
-			await atlassianPullRequestsService.create(serviceParams);
+		const pullRequestResult = await atlassianPullRequestsService.create(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		methodLogger.debug('Pull request created successfully', {
 			id: pullRequestResult.id,
@@ -121,8 +193,12 @@ async function add(
 		// Return formatted content with success message
 		return {
 			content: `## Pull Request Created Successfully\n\n${formattedContent}`,
+			data: { pullRequest: toPullRequestOutput(pullRequestResult) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		// Use the standardized error handler
 		throw handleControllerError(error, {
 			entityType: 'Pull Request',
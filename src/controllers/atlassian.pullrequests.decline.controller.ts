@@ -0,0 +1,142 @@
+import { ControllerResponse } from '../types/common.types.js';
+import { DeclinePullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	DeclinePullRequestToolArgsType,
+	DeclinePullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
+import {
+	atlassianPullRequestsService,
+	Logger,
+	handleControllerError,
+	applyDefaults,
+	getDefaultWorkspace,
+	optimizeBitbucketMarkdown,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toPullRequestOutput,
+} from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
+
+/**
+ * Decline a pull request in Bitbucket. The reason, if given, is added as a
+ * comment after declining, so the author sees why.
+ * @param options - Options including workspace slug, repo slug, pull request ID and reason
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted decline confirmation as Markdown content,
+ * or the planned request when `dryRun` is set
+ */
+async function decline(
+	options: DeclinePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<DeclinePullRequestToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.decline.controller.ts',
+		'decline',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions = applyDefaults<DeclinePullRequestToolArgsType>(
+			options,
+			{},
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		methodLogger.debug(
+			`Declining pull request ${mergedOptions.pullRequestId} in ${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}`,
+		);
+
+		// Prepare service parameters
+		const serviceParams: DeclinePullRequestParams = {
+			workspace: mergedOptions.workspaceSlug,
+			repo_slug: mergedOptions.repoSlug,
+			pull_request_id: mergedOptions.pullRequestId,
+		};
+
+		// Call service to decline the pull request
+		const pullRequest = await atlassianPullRequestsService.decline(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
+
+		methodLogger.debug(
+			`Successfully declined pull request ${mergedOptions.pullRequestId}`,
+		);
+
+		// The decline endpoints take no reason, so leave it as a comment.
+		// The pull request stays declined if the comment cannot be added.
+		let reasonLine = '';
+		if (mergedOptions.reason) {
+			try {
+				await atlassianPullRequestsService.createComment(
+					{
+						...serviceParams,
+						content: {
+							raw: optimizeBitbucketMarkdown(
+								`**Declined:** ${mergedOptions.reason}`,
+							),
+						},
+					},
+					callOptions,
+				);
+				reasonLine = `\n**Reason:** ${mergedOptions.reason}`;
+			} catch (commentError) {
+				methodLogger.warn(
+					'Declined the pull request but could not add the reason as a comment',
+					commentError,
+				);
+				reasonLine = `\n**Reason:** ${mergedOptions.reason} (could not be added as a comment)`;
+			}
+		}
+
+		// Format the response
+		const content = `# Pull Request Declined ⛔
+
+**Pull Request ID:** ${pullRequest.id}
+**Title:** ${pullRequest.title}
+**Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
+**Declined by:** ${pullRequest.closed_by?.display_name || pullRequest.closed_by?.nickname || 'Unknown User'}
+**State:** ${pullRequest.state}${reasonLine}
+
+The pull request has been declined. Its branches are unchanged.`;
+
+		return {
+			content: content,
+			data: { pullRequest: toPullRequestOutput(pullRequest) },
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			// The reason comment depends on the decline, so it is only described
+			return formatDryRunResponse(
+				error.request,
+				options.reason
+					? `the reason would be posted as a comment on the pull request: "**Declined:** ${options.reason}"`
+					: undefined,
+			);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request',
+			operation: 'declining',
+			source: 'controllers/atlassian.pullrequests.decline.controller.ts@decline',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { decline };
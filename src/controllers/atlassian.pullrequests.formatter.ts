@@ -3,7 +3,17 @@ import {
 	PullRequestsResponse,
 	DiffstatResponse,
 	PullRequestComment,
+	PullRequestParticipant,
+	PullRequestUser,
+	PullRequestTask,
 } from '../services/vendor.atlassian.pullrequests.types.js';
+import { UserOutputType } from '../tools/atlassian.common.types.js';
+import {
+	CommentOutputType,
+	ParticipantOutputType,
+	PullRequestOutputType,
+	TaskOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	formatHeading,
 	formatBulletList,
@@ -93,6 +103,7 @@ export function formatPullRequestsList(
  * @param diffstat - Optional diffstat data from the API
  * @param rawDiff - Optional raw diff content from the API
  * @param comments - Optional comments data from the API
+ * @param openTasks - Optional unresolved tasks and their total count
  * @returns Formatted string with pull request details in markdown format
  */
 export function formatPullRequestDetails(
@@ -100,6 +111,7 @@ export function formatPullRequestDetails(
 	diffstat?: DiffstatResponse | null,
 	rawDiff?: string | null,
 	comments?: PullRequestCommentWithSnippet[] | null,
+	openTasks?: { tasks: PullRequestTask[]; count: number } | null,
 ): string {
 	const lines: string[] = [
 		formatHeading(
@@ -120,7 +132,9 @@ export function formatPullRequestDetails(
 		Created: formatDate(pullRequest.created_on),
 		Updated: formatDate(pullRequest.updated_on),
 		'Comment Count': pullRequest.comment_count ?? 0,
-		'Task Count': pullRequest.task_count ?? 0,
+		...(openTasks
+			? { 'Open Tasks': openTasks.count }
+			: { 'Task Count': pullRequest.task_count ?? 0 }),
 	};
 
 	lines.push(formatBulletList(basicProperties, (key) => key));
@@ -136,6 +150,19 @@ export function formatPullRequestDetails(
 		lines.push(reviewerLines.join('\n'));
 	}
 
+	// Open tasks (limited to 10 for brevity)
+	if (openTasks && openTasks.tasks.length > 0) {
+		lines.push('');
+		lines.push(formatHeading('Open Tasks', 2));
+		const maxTasksToShow = 10;
+		lines.push(formatTaskLines(openTasks.tasks.slice(0, maxTasksToShow)));
+		if (openTasks.count > maxTasksToShow) {
+			lines.push(
+				`- ... and ${openTasks.count - maxTasksToShow} more open tasks`,
+			);
+		}
+	}
+
 	// Summary or rendered content for description if available
 	if (pullRequest.summary?.raw) {
 		lines.push('');
@@ -324,7 +351,61 @@ export function formatPullRequestDetails(
 }
 
 /**
- * Format pull request comments for display, including code snippets for inline comments.
+ * Comment threads: the comments that start a thread, and the replies to each
+ * comment by parent ID
+ */
+interface CommentThreads<T extends PullRequestComment> {
+	roots: T[];
+	replies: Map<number, T[]>;
+}
+
+/**
+ * Group comments into threads. A reply whose parent is not among the
+ * comments (for example, on another page) starts a thread of its own.
+ * @param comments - Comments in the order returned by the API
+ * @returns Thread roots and replies by parent ID, both in the original order
+ */
+function groupCommentThreads<T extends PullRequestComment>(
+	comments: T[],
+): CommentThreads<T> {
+	const ids = new Set(comments.map((comment) => comment.id));
+	const roots: T[] = [];
+	const replies = new Map<number, T[]>();
+
+	comments.forEach((comment) => {
+		const parentId = comment.parent?.id;
+		if (parentId !== undefined && ids.has(parentId)) {
+			replies.set(parentId, [...(replies.get(parentId) || []), comment]);
+		} else {
+			roots.push(comment);
+		}
+	});
+
+	return { roots, replies };
+}
+
+/**
+ * Keep only the threads that have not been resolved
+ * @param comments - Comments in the order returned by the API
+ * @returns The comments of every unresolved thread, in the original order
+ */
+export function filterUnresolvedThreads<T extends PullRequestComment>(
+	comments: T[],
+): T[] {
+	const { roots, replies } = groupCommentThreads(comments);
+	const kept = new Set<number>();
+	const keep = (comment: T) => {
+		kept.add(comment.id);
+		(replies.get(comment.id) || []).forEach(keep);
+	};
+	roots.filter((root) => !root.resolution).forEach(keep);
+
+	return comments.filter((comment) => kept.has(comment.id));
+}
+
+/**
+ * Format pull request comments for display as threads, including code
+ * snippets for inline comments and whether each thread is resolved.
  * @param comments - Array of comment objects, potentially enhanced with code snippets.
  * @param prId - The ID of the pull request to include in the title.
  * @returns Formatted string with pull request comments in markdown format.
@@ -345,49 +426,26 @@ export function formatPullRequestComments(
 		return lines.join('\n');
 	}
 
-	// Group comments by parent (to handle threads)
-	const topLevelComments: PullRequestCommentWithSnippet[] = [];
-	const childComments: {
-		[parentId: number]: PullRequestCommentWithSnippet[]; // Use enhanced type here too
-	} = {};
-
-	// First pass: organize comments by parent
-	comments.forEach((comment) => {
-		if (comment.parent) {
-			const parentId = comment.parent.id;
-			if (!childComments[parentId]) {
-				childComments[parentId] = [];
-			}
-			childComments[parentId].push(comment);
-		} else {
-			topLevelComments.push(comment);
-		}
-	});
+	const { roots, replies } = groupCommentThreads(comments);
+	const threads = roots.filter((root) => !root.parent);
+	const resolvedCount = threads.filter((root) => root.resolution).length;
+	lines.push(
+		`${threads.length} thread${threads.length === 1 ? '' : 's'}: ${threads.length - resolvedCount} open, ${resolvedCount} resolved`,
+	);
+	lines.push('');
 
-	// Format each top-level comment and its replies
-	topLevelComments.forEach((comment, index) => {
+	// Format each thread with its replies nested below the comment they answer
+	roots.forEach((comment, index) => {
 		formatComment(comment, lines); // Pass the enhanced comment object
 
-		// Add replies if any exist
-		const replies = childComments[comment.id] || [];
-		if (replies.length > 0) {
+		const threadReplies = replies.get(comment.id) || [];
+		if (threadReplies.length > 0) {
 			lines.push('');
 			lines.push('**Replies:**');
-
-			replies.forEach((reply) => {
-				lines.push('');
-				lines.push(
-					`> **${reply.user.display_name || 'Unknown User'}** (${formatDate(reply.created_on)})`,
-				);
-				// Optimize the markdown content for replies as well
-				const optimizedReplyContent = optimizeBitbucketMarkdown(
-					reply.content.raw,
-				);
-				lines.push(`> ${optimizedReplyContent.replace(/\n/g, '\n> ')}`);
-			});
+			formatReplies(threadReplies, replies, 1, lines);
 		}
 
-		if (index < topLevelComments.length - 1) {
+		if (index < roots.length - 1) {
 			lines.push('');
 			lines.push(formatSeparator());
 		}
@@ -399,6 +457,96 @@ export function formatPullRequestComments(
 	return lines.join('\n');
 }
 
+/**
+ * Format replies as block quotes, quoting one level deeper for each level
+ * of the thread
+ * @param comments - Replies to format
+ * @param replies - Replies to every comment by parent ID
+ * @param depth - Nesting level of the replies, starting at 1
+ * @param lines - Array of string lines to append to
+ */
+function formatReplies(
+	comments: PullRequestComment[],
+	replies: Map<number, PullRequestComment[]>,
+	depth: number,
+	lines: string[],
+): void {
+	const quote = '> '.repeat(depth);
+
+	comments.forEach((reply) => {
+		const content = reply.deleted
+			? '*This comment has been deleted.*'
+			: optimizeBitbucketMarkdown(reply.content.raw).trim() ||
+				'*No content provided.*';
+		lines.push('');
+		lines.push(
+			`${quote}**${reply.user.display_name || 'Unknown User'}** (${formatDate(reply.created_on)}) · Comment #${reply.id}`,
+		);
+		lines.push(`${quote}${content.replace(/\n/g, `\n${quote}`)}`);
+
+		formatReplies(replies.get(reply.id) || [], replies, depth + 1, lines);
+	});
+}
+
+/**
+ * Format pull request tasks for display
+ * @param tasks - Tasks from the API
+ * @param prId - The ID of the pull request to include in the title
+ * @returns Formatted string with the tasks in markdown format
+ */
+export function formatPullRequestTasks(
+	tasks: PullRequestTask[],
+	prId: string,
+): string {
+	const lines: string[] = [];
+
+	lines.push(formatHeading(`Tasks on Pull Request #${prId}`, 1));
+	lines.push('');
+
+	if (tasks.length === 0) {
+		lines.push('*No tasks found on this pull request.*');
+	} else {
+		const openCount = tasks.filter(
+			(task) => task.state !== 'RESOLVED',
+		).length;
+		lines.push(`${openCount} open, ${tasks.length - openCount} resolved`);
+		lines.push('');
+		lines.push(formatTaskLines(tasks));
+	}
+
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format tasks as a Markdown checklist, one line per task
+ * @param tasks - Tasks from the API
+ * @returns Checklist with each task's ID, text, creator and anchor comment
+ */
+function formatTaskLines(tasks: PullRequestTask[]): string {
+	return tasks
+		.map((task) => {
+			const checkbox = task.state === 'RESOLVED' ? '[x]' : '[ ]';
+			const text = optimizeBitbucketMarkdown(task.content?.raw || '')
+				.replace(/\s*\n\s*/g, ' ')
+				.trim();
+			const details = [
+				task.creator &&
+					`by ${task.creator.display_name || task.creator.nickname || 'Unknown User'}`,
+				task.comment && `on comment ${task.comment.id}`,
+				task.state === 'RESOLVED' &&
+					task.resolved_by &&
+					`resolved by ${task.resolved_by.display_name || task.resolved_by.nickname}`,
+			].filter(Boolean);
+			return `- ${checkbox} **#${task.id}** ${text || '*No content provided.*'}${
+				details.length > 0 ? ` *(${details.join(', ')})*` : ''
+			}`;
+		})
+		.join('\n');
+}
+
 /**
  * Helper function to format a single comment, including code snippet if available.
  * @param comment - The comment object (potentially with codeSnippet).
@@ -410,8 +558,8 @@ function formatComment(
 ): void {
 	const author = comment.user.display_name || 'Unknown User';
 	const headerText = comment.deleted
-		? `[DELETED] Comment by ${author}`
-		: `Comment by ${author}`;
+		? `[DELETED] Comment #${comment.id} by ${author}`
+		: `Comment #${comment.id} by ${author}`;
 
 	lines.push(formatHeading(headerText, 3));
 	lines.push(`*Posted on ${formatDate(comment.created_on)}*`);
@@ -420,6 +568,25 @@ function formatComment(
 		lines.push(`*Updated on ${formatDate(comment.updated_on)}*`);
 	}
 
+	// Only top-level comments start a thread that can be resolved
+	if (comment.parent) {
+		lines.push(`*Reply to comment #${comment.parent.id}*`);
+	} else if (comment.resolution) {
+		const resolver =
+			comment.resolution.user?.display_name ||
+			comment.resolution.user?.nickname;
+		const details = [
+			resolver && `by ${resolver}`,
+			comment.resolution.created_on &&
+				`on ${formatDate(comment.resolution.created_on)}`,
+		].filter(Boolean);
+		lines.push(
+			`**Thread:** ✅ Resolved${details.length > 0 ? ` ${details.join(' ')}` : ''}`,
+		);
+	} else {
+		lines.push('**Thread:** Open');
+	}
+
 	// If it's an inline comment, show file, line info, and snippet
 	if (comment.inline) {
 		const fileInfo = `File: \`${comment.inline.path}\``;
@@ -467,3 +634,154 @@ function formatComment(
 		); // Clarify link purpose
 	}
 }
+
+/**
+ * Convert a user to structured output
+ * @param user - Raw user data from the API
+ * @returns User with stable field names
+ */
+export function toUserOutput(user: PullRequestUser): UserOutputType {
+	return {
+		displayName: user.display_name,
+		nickname: user.nickname,
+		accountId: user.account_id,
+		uuid: user.uuid,
+	};
+}
+
+/**
+ * Format the review state of each participant of a pull request
+ * @param participants - Participants from the pull request, including reviewers
+ * @returns Markdown list of participants with their review state
+ */
+export function formatReviewState(
+	participants: PullRequestParticipant[] = [],
+): string {
+	const reviewing = participants.filter(
+		(participant) =>
+			participant.role === 'REVIEWER' ||
+			participant.approved ||
+			participant.state,
+	);
+	if (reviewing.length === 0) {
+		return '*No reviewers or reviews on this pull request.*';
+	}
+
+	return reviewing
+		.map((participant) => {
+			const name =
+				participant.user.display_name ||
+				participant.user.nickname ||
+				'Unknown User';
+			const role = participant.role === 'REVIEWER' ? ' (reviewer)' : '';
+			let state = 'No review yet';
+			if (participant.approved || participant.state === 'approved') {
+				state = '✅ Approved';
+			} else if (participant.state === 'changes_requested') {
+				state = '🔄 Changes requested';
+			}
+			return `- **${name}**${role}: ${state}`;
+		})
+		.join('\n');
+}
+
+/**
+ * Convert a pull request to the structured output of the pull request tools
+ * @param pullRequest - Raw pull request data from the API
+ * @returns Pull request with stable field names
+ */
+export function toPullRequestOutput(
+	pullRequest: PullRequest,
+): PullRequestOutputType {
+	return {
+		id: pullRequest.id,
+		title: pullRequest.title,
+		state: pullRequest.state,
+		description: pullRequest.summary?.raw || undefined,
+		author: pullRequest.author && toUserOutput(pullRequest.author),
+		sourceBranch: pullRequest.source?.branch?.name,
+		sourceCommit: pullRequest.source?.commit?.hash,
+		sourceRepository: pullRequest.source?.repository?.full_name,
+		destinationBranch: pullRequest.destination?.branch?.name,
+		destinationCommit: pullRequest.destination?.commit?.hash,
+		destinationRepository: pullRequest.destination?.repository?.full_name,
+		mergeCommit: pullRequest.merge_commit?.hash,
+		closeSourceBranch: pullRequest.close_source_branch,
+		commentCount: pullRequest.comment_count,
+		taskCount: pullRequest.task_count,
+		reviewers: pullRequest.reviewers?.map(toUserOutput),
+		createdOn: pullRequest.created_on,
+		updatedOn: pullRequest.updated_on,
+		url: pullRequest.links?.html?.href,
+	};
+}
+
+/**
+ * Convert a pull request comment to structured output
+ * @param comment - Raw comment data from the API
+ * @returns Comment with stable field names
+ */
+export function toCommentOutput(
+	comment: PullRequestComment,
+): CommentOutputType {
+	return {
+		id: comment.id,
+		content: comment.content?.raw ?? '',
+		author: comment.user && toUserOutput(comment.user),
+		createdOn: comment.created_on,
+		updatedOn: comment.updated_on,
+		deleted: comment.deleted,
+		parentId: comment.parent?.id,
+		inline: comment.inline && {
+			path: comment.inline.path,
+			fromLine: comment.inline.from ?? undefined,
+			toLine: comment.inline.to ?? undefined,
+		},
+		...(!comment.parent && {
+			resolved: !!comment.resolution,
+			resolvedBy: comment.resolution?.user
+				? toUserOutput(comment.resolution.user)
+				: undefined,
+			resolvedOn: comment.resolution?.created_on,
+		}),
+		url: comment.links?.html?.href,
+	};
+}
+
+/**
+ * Convert a pull request participant to structured output
+ * @param participant - Raw participant data from the API
+ * @returns Participant with stable field names
+ */
+export function toParticipantOutput(
+	participant: PullRequestParticipant,
+): ParticipantOutputType {
+	return {
+		user: toUserOutput(participant.user),
+		role: participant.role,
+		approved: participant.approved,
+		state: participant.state,
+		participatedOn: participant.participated_on,
+	};
+}
+
+/**
+ * Convert a pull request task to structured output
+ * @param task - Raw task data from the API
+ * @returns Task with stable field names
+ */
+export function toTaskOutput(task: PullRequestTask): TaskOutputType {
+	return {
+		id: task.id,
+		content: task.content?.raw ?? '',
+		state: task.state,
+		creator: task.creator && toUserOutput(task.creator),
+		createdOn: task.created_on,
+		updatedOn: task.updated_on,
+		resolvedOn: task.resolved_on ?? undefined,
+		resolvedBy: task.resolved_by
+			? toUserOutput(task.resolved_by)
+			: undefined,
+		commentId: task.comment?.id,
+	};
+}
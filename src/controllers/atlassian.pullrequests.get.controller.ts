@@ -1,6 +1,13 @@
 import { ControllerResponse } from '../types/common.types.js';
-import { GetPullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { GetPullRequestToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	DiffstatResponse,
+	GetPullRequestParams,
+	PullRequestTask,
+} from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	GetPullRequestToolArgsType,
+	GetPullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
@@ -8,16 +15,22 @@ import {
 	formatPullRequestDetails,
 	applyDefaults,
 	getDefaultWorkspace,
+	toPullRequestOutput,
+	ALL_PAGES_PAGE_SIZE,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
+import { reportProgress } from '../utils/progress.util.js';
 
 /**
  * Get detailed information about a specific Bitbucket pull request
- * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param options - Options including workspace slug, repo slug, pull request ID, and whether to include the full diff
+ * @param callOptions - Call options (abort signal, progress callback)
  * @returns Promise with formatted pull request details as Markdown content
  */
 async function get(
 	options: GetPullRequestToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<GetPullRequestToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.get.controller.ts',
 		'get',
@@ -68,8 +81,10 @@ async function get(
 		};
 
 		// Get PR details from the service
-		const pullRequestData =
-			await atlassianPullRequestsService.get(serviceParams);
+		const pullRequestData = await atlassianPullRequestsService.get(
+			serviceParams,
+			callOptions,
+		);
 
 		methodLogger.debug('Retrieved pull request details', {
 			id: pullRequestData.id,
@@ -77,11 +92,68 @@ async function get(
 			state: pullRequestData.state,
 		});
 
+		// Get the open tasks; fall back to the count on the pull request
+		// itself if they cannot be listed
+		let openTasks: { tasks: PullRequestTask[]; count: number } | null =
+			null;
+		try {
+			const tasksData = await atlassianPullRequestsService.listTasks(
+				{
+					...serviceParams,
+					state: 'UNRESOLVED',
+					pagelen: ALL_PAGES_PAGE_SIZE,
+				},
+				callOptions,
+			);
+			const tasks = tasksData.values || [];
+			openTasks = { tasks, count: tasksData.size ?? tasks.length };
+		} catch (taskError) {
+			methodLogger.warn(
+				'Could not list the open tasks of the pull request',
+				taskError,
+			);
+		}
+
+		// Get the changed files and the full diff if requested
+		let diffstat: DiffstatResponse | null = null;
+		let rawDiff: string | null = null;
+		if (mergedOptions.includeFullDiff) {
+			diffstat = await atlassianPullRequestsService.getDiffstat(
+				serviceParams,
+				callOptions,
+			);
+			reportProgress(callOptions, {
+				progress: 1,
+				total: 2,
+				message: `Compared ${diffstat.values?.length ?? 0} changed files`,
+			});
+
+			rawDiff = await atlassianPullRequestsService.getRawDiff(
+				serviceParams,
+				callOptions,
+			);
+			reportProgress(callOptions, {
+				progress: 2,
+				total: 2,
+				message: 'Downloaded the full diff',
+			});
+		}
+
 		// Format the pull request details using the formatter
-		const formattedContent = formatPullRequestDetails(pullRequestData);
+		const formattedContent = formatPullRequestDetails(
+			pullRequestData,
+			diffstat,
+			rawDiff,
+			null,
+			openTasks,
+		);
 
 		return {
 			content: formattedContent,
+			data: {
+				pullRequest: toPullRequestOutput(pullRequestData),
+				openTaskCount: openTasks?.count ?? pullRequestData.task_count,
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -94,5 +166,65 @@ async function get(
 	}
 }
 
+/**
+ * Get the unified diff of a Bitbucket pull request
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the raw unified diff as content, and the pull request it belongs to as data
+ */
+async function getDiff(
+	options: GetPullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<
+	ControllerResponse<{
+		workspaceSlug: string;
+		repoSlug: string;
+		prId: number;
+	}>
+> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.get.controller.ts',
+		'getDiff',
+	);
+
+	try {
+		const workspaceSlug =
+			options.workspaceSlug || (await getDefaultWorkspace());
+		if (!workspaceSlug) {
+			throw new Error(
+				'Could not determine a default workspace. Please provide a workspaceSlug.',
+			);
+		}
+
+		methodLogger.debug(
+			`Getting diff for pull request ${workspaceSlug}/${options.repoSlug}/${options.prId}`,
+		);
+		const rawDiff = await atlassianPullRequestsService.getRawDiff(
+			{
+				workspace: workspaceSlug,
+				repo_slug: options.repoSlug,
+				pull_request_id: parseInt(options.prId, 10),
+			},
+			callOptions,
+		);
+
+		return {
+			content: rawDiff,
+			data: {
+				workspaceSlug,
+				repoSlug: options.repoSlug,
+				prId: parseInt(options.prId, 10),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Pull Request Diff',
+			operation: 'retrieving',
+			source: 'controllers/atlassian.pullrequests.get.controller.ts@getDiff',
+			additionalInfo: { options },
+		});
+	}
+}
+
 // Export the controller functions
-export default { get };
+export default { get, getDiff };
@@ -1,27 +1,34 @@
 import { ControllerResponse } from '../types/common.types.js';
 import { ListPullRequestsParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { ListPullRequestsToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	ListPullRequestsToolArgsType,
+	ListPullRequestsToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
 	handleControllerError,
-	extractPaginationInfo,
-	PaginationType,
+	fetchPages,
 	formatPagination,
 	formatPullRequestsList,
 	DEFAULT_PAGE_SIZE,
+	ALL_PAGES_PAGE_SIZE,
 	applyDefaults,
 	getDefaultWorkspace,
+	toPullRequestOutput,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * List Bitbucket pull requests with optional filtering options
  * @param options - Options for listing pull requests including workspace slug and repo slug
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted pull requests list content and pagination information
  */
 async function list(
 	options: ListPullRequestsToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListPullRequestsToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.list.controller.ts',
 		'list',
@@ -76,10 +83,9 @@ async function list(
 		const serviceParams: ListPullRequestsParams = {
 			workspace: workspaceSlug,
 			repo_slug: repoSlug,
-			pagelen: mergedOptions.limit,
-			page: mergedOptions.cursor
-				? parseInt(mergedOptions.cursor, 10)
-				: undefined,
+			pagelen: mergedOptions.all
+				? ALL_PAGES_PAGE_SIZE
+				: mergedOptions.limit,
 			state: mergedOptions.state,
 			sort: '-updated_on', // Sort by most recently updated first
 			...(formattedQuery && { q: formattedQuery }),
@@ -87,19 +93,24 @@ async function list(
 
 		methodLogger.debug('Using service parameters:', serviceParams);
 
-		const pullRequestsData =
-			await atlassianPullRequestsService.list(serviceParams);
+		// Fetch one page, or every page when requested
+		const { data: pullRequestsData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianPullRequestsService.list(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			mergedOptions,
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Retrieved ${pullRequestsData.values?.length || 0} pull requests`,
 		);
 
-		// Extract pagination information using the utility
-		const pagination = extractPaginationInfo(
-			pullRequestsData,
-			PaginationType.PAGE,
-		);
-
 		// Format the pull requests data for display using the formatter
 		const formattedPullRequests = formatPullRequestsList(pullRequestsData);
 
@@ -117,6 +128,12 @@ async function list(
 
 		return {
 			content: finalContent,
+			data: {
+				pullRequests: (pullRequestsData.values || []).map(
+					toPullRequestOutput,
+				),
+				pagination,
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -0,0 +1,139 @@
+import { ControllerResponse } from '../types/common.types.js';
+import { MergePullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	MergePullRequestToolArgsType,
+	MergePullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
+import {
+	atlassianPullRequestsService,
+	Logger,
+	handleControllerError,
+	applyDefaults,
+	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toPullRequestOutput,
+} from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
+
+/**
+ * Display names of the merge strategies
+ */
+const MERGE_STRATEGY_NAMES: Record<string, string> = {
+	merge_commit: 'Merge commit',
+	squash: 'Squash',
+	fast_forward: 'Fast-forward',
+};
+
+/**
+ * Merge a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, pull request ID, merge strategy, message and whether to close the source branch
+ * @param callOptions - Call options (abort signal, progress callback)
+ * @returns Promise with formatted merge confirmation as Markdown content,
+ * or the planned request when `dryRun` is set
+ */
+async function merge(
+	options: MergePullRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<MergePullRequestToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.merge.controller.ts',
+		'merge',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions = applyDefaults<MergePullRequestToolArgsType>(
+			options,
+			{},
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		methodLogger.debug(
+			`Merging pull request ${mergedOptions.pullRequestId} in ${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}`,
+		);
+
+		// Prepare service parameters
+		const serviceParams: MergePullRequestParams = {
+			workspace: mergedOptions.workspaceSlug,
+			repo_slug: mergedOptions.repoSlug,
+			pull_request_id: mergedOptions.pullRequestId,
+			merge_strategy: mergedOptions.mergeStrategy,
+			message: mergedOptions.message,
+			close_source_branch: mergedOptions.closeSourceBranch,
+		};
+
+		// Call service to merge the pull request (waits for asynchronous merges)
+		const pullRequest = await atlassianPullRequestsService.merge(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
+
+		methodLogger.debug(
+			`Successfully merged pull request ${mergedOptions.pullRequestId}`,
+		);
+
+		// Link the merge commit next to the pull request's web page
+		const mergeCommit = pullRequest.merge_commit?.hash;
+		const prUrl = pullRequest.links?.html?.href;
+		const commitUrl =
+			mergeCommit && prUrl
+				? prUrl.replace(
+						/\/pull-requests\/\d+.*$/,
+						`/commits/${mergeCommit}`,
+					)
+				: undefined;
+		let mergeCommitLine = 'Not reported by Bitbucket';
+		if (mergeCommit) {
+			mergeCommitLine = commitUrl
+				? `[\`${mergeCommit}\`](${commitUrl})`
+				: `\`${mergeCommit}\``;
+		}
+
+		// Format the response
+		const content = `# Pull Request Merged ✅
+
+**Pull Request ID:** ${pullRequest.id}
+**Title:** ${pullRequest.title}
+**Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
+**Merged:** \`${pullRequest.source?.branch?.name || 'unknown'}\` → \`${pullRequest.destination?.branch?.name || 'unknown'}\`
+**Strategy:** ${mergedOptions.mergeStrategy ? MERGE_STRATEGY_NAMES[mergedOptions.mergeStrategy] : 'Repository default'}
+**Merge commit:** ${mergeCommitLine}
+**Merged by:** ${pullRequest.closed_by?.display_name || pullRequest.closed_by?.nickname || 'Unknown User'}
+**State:** ${pullRequest.state}
+**Source branch:** ${pullRequest.close_source_branch ? 'Deleted' : 'Kept'}${prUrl ? `\n\n[View pull request](${prUrl})` : ''}`;
+
+		return {
+			content: content,
+			data: { pullRequest: toPullRequestOutput(pullRequest) },
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request',
+			operation: 'merging',
+			source: 'controllers/atlassian.pullrequests.merge.controller.ts@merge',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { merge };
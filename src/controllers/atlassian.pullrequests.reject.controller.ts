@@ -1,22 +1,35 @@
 import { ControllerResponse } from '../types/common.types.js';
 import { RejectPullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { RejectPullRequestToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	RejectPullRequestToolArgsType,
+	RejectPullRequestToolOutputType,
+	WithdrawChangeRequestToolArgsType,
+	WithdrawChangeRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
 	handleControllerError,
 	applyDefaults,
 	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toParticipantOutput,
+	formatReviewState,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Request changes on a pull request in Bitbucket
  * @param options - Options including workspace slug, repo slug, and pull request ID
- * @returns Promise with formatted rejection confirmation as Markdown content
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted rejection confirmation as Markdown content,
+ * or the planned request when `dryRun` is set
  */
 async function reject(
 	options: RejectPullRequestToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<RejectPullRequestToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.reject.controller.ts',
 		'reject',
@@ -58,8 +71,10 @@ async function reject(
 		};
 
 		// Call service to request changes on the pull request
-		const participant =
-			await atlassianPullRequestsService.reject(serviceParams);
+		const participant = await atlassianPullRequestsService.reject(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		methodLogger.debug(
 			`Successfully requested changes on pull request ${mergedOptions.pullRequestId}`,
@@ -71,15 +86,18 @@ async function reject(
 **Pull Request ID:** ${mergedOptions.pullRequestId}
 **Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
 **Requested by:** ${participant.user.display_name || participant.user.nickname || 'Unknown User'}
-**Status:** ${participant.state}
-**Participated on:** ${new Date(participant.participated_on).toLocaleString()}
+**Status:** ${participant.state}${participant.participated_on ? `\n**Participated on:** ${new Date(participant.participated_on).toLocaleString()}` : ''}
 
 Changes have been requested on this pull request. The author should address the feedback before the pull request can be merged.`;
 
 		return {
 			content: content,
+			data: { participant: toParticipantOutput(participant) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		throw handleControllerError(error, {
 			entityType: 'Pull Request',
 			operation: 'requesting changes on',
@@ -89,4 +107,103 @@ Changes have been requested on this pull request. The author should address the
 	}
 }
 
-export default { reject };
+/**
+ * Withdraw your change request from a pull request in Bitbucket
+ * @param options - Options including workspace slug, repo slug, and pull request ID
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with the resulting review state as Markdown content,
+ * or the planned request when `dryRun` is set
+ */
+async function withdrawChangeRequest(
+	options: WithdrawChangeRequestToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<WithdrawChangeRequestToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.reject.controller.ts',
+		'withdrawChangeRequest',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions = applyDefaults<WithdrawChangeRequestToolArgsType>(
+			options,
+			{},
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		methodLogger.debug(
+			`Withdrawing change request on pull request ${mergedOptions.pullRequestId} in ${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}`,
+		);
+
+		// Prepare service parameters
+		const serviceParams: RejectPullRequestParams = {
+			workspace: mergedOptions.workspaceSlug,
+			repo_slug: mergedOptions.repoSlug,
+			pull_request_id: mergedOptions.pullRequestId,
+		};
+
+		await atlassianPullRequestsService.withdrawChangeRequest(
+			serviceParams,
+			{
+				...callOptions,
+				dryRun: options.dryRun,
+			},
+		);
+
+		methodLogger.debug(
+			`Successfully withdrew change request on pull request ${mergedOptions.pullRequestId}`,
+		);
+
+		// Bitbucket returns no content, so read back where the review stands
+		const pullRequest = await atlassianPullRequestsService.get(
+			serviceParams,
+			callOptions,
+		);
+		const participants = pullRequest.participants || [];
+
+		// Format the response
+		const content = `# Change Request Withdrawn
+
+**Pull Request ID:** ${mergedOptions.pullRequestId}
+**Repository:** \`${mergedOptions.workspaceSlug}/${mergedOptions.repoSlug}\`
+
+Your change request has been withdrawn and no longer blocks the pull request.
+
+## Review State
+
+${formatReviewState(participants)}`;
+
+		return {
+			content: content,
+			data: { participants: participants.map(toParticipantOutput) },
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request',
+			operation: 'withdrawing the change request on',
+			source: 'controllers/atlassian.pullrequests.reject.controller.ts@withdrawChangeRequest',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { reject, withdrawChangeRequest };
@@ -0,0 +1,315 @@
+import { ControllerResponse } from '../types/common.types.js';
+import {
+	ListPullRequestTasksParams,
+	PullRequestTask,
+	PullRequestTaskParams,
+} from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	ListPullRequestTasksToolArgsType,
+	ListPullRequestTasksToolOutputType,
+	ManagePullRequestTaskToolArgsType,
+	ManagePullRequestTaskToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
+import {
+	atlassianPullRequestsService,
+	Logger,
+	handleControllerError,
+	fetchPages,
+	formatPagination,
+	formatPullRequestTasks,
+	DEFAULT_PAGE_SIZE,
+	ALL_PAGES_PAGE_SIZE,
+	applyDefaults,
+	optimizeBitbucketMarkdown,
+	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toTaskOutput,
+} from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
+
+/**
+ * Past-tense verbs for the outcome of each task action
+ */
+const TASK_ACTION_RESULTS: Record<
+	ManagePullRequestTaskToolArgsType['action'],
+	string
+> = {
+	create: 'created',
+	update: 'updated',
+	resolve: 'resolved',
+	reopen: 'reopened',
+	delete: 'deleted',
+};
+
+/**
+ * List tasks on a Bitbucket pull request
+ * @param options - Options including workspace slug, repo slug, pull request ID and state filter
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted pull request tasks as Markdown content
+ */
+async function listTasks(
+	options: ListPullRequestTasksToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListPullRequestTasksToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.tasks.controller.ts',
+		'listTasks',
+	);
+
+	try {
+		// Create defaults object
+		const defaults: Partial<ListPullRequestTasksToolArgsType> = {
+			limit: DEFAULT_PAGE_SIZE,
+		};
+
+		// Apply defaults
+		const mergedOptions = applyDefaults<ListPullRequestTasksToolArgsType>(
+			options,
+			defaults,
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		const { workspaceSlug, repoSlug, prId } = mergedOptions;
+
+		// Validate required parameters
+		if (!workspaceSlug || !repoSlug || !prId) {
+			throw new Error(
+				'Workspace slug, repository slug, and pull request ID are required',
+			);
+		}
+
+		methodLogger.debug(
+			`Listing tasks for PR ${workspaceSlug}/${repoSlug}/${prId}`,
+			{ state: mergedOptions.state, limit: mergedOptions.limit },
+		);
+
+		// Map controller options to service parameters
+		const serviceParams: ListPullRequestTasksParams = {
+			workspace: workspaceSlug,
+			repo_slug: repoSlug,
+			pull_request_id: parseInt(prId, 10),
+			state: mergedOptions.state,
+			pagelen: mergedOptions.all
+				? ALL_PAGES_PAGE_SIZE
+				: mergedOptions.limit,
+		};
+
+		// Get tasks from the service, following every page when requested
+		const { data: tasksData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianPullRequestsService.listTasks(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			mergedOptions,
+			callOptions,
+		);
+		const tasks = tasksData.values || [];
+
+		methodLogger.debug(`Retrieved ${tasks.length} tasks`);
+
+		let finalContent = formatPullRequestTasks(tasks, prId);
+
+		// Add pagination information if available
+		if (
+			pagination &&
+			(pagination.hasMore || pagination.count !== undefined)
+		) {
+			finalContent += '\n\n' + formatPagination(pagination);
+		}
+
+		return {
+			content: finalContent,
+			data: { tasks: tasks.map(toTaskOutput), pagination },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Pull Request Tasks',
+			operation: 'listing',
+			source: 'controllers/atlassian.pullrequests.tasks.controller.ts@listTasks',
+			additionalInfo: { options },
+		});
+	}
+}
+
+/**
+ * Create, update, resolve, reopen or delete a task on a Bitbucket pull request
+ * @param options - Options including workspace slug, repo slug, PR ID, action, task ID and content
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with a confirmation as Markdown content, or the planned
+ * request when `dryRun` is set
+ */
+async function manageTask(
+	options: ManagePullRequestTaskToolArgsType,
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ManagePullRequestTaskToolOutputType>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pullrequests.tasks.controller.ts',
+		'manageTask',
+	);
+
+	try {
+		// Apply defaults if needed (none for this operation)
+		const mergedOptions = applyDefaults<ManagePullRequestTaskToolArgsType>(
+			options,
+			{},
+		);
+
+		// Handle optional workspaceSlug - get default if not provided
+		if (!mergedOptions.workspaceSlug) {
+			methodLogger.debug(
+				'No workspace provided, fetching default workspace',
+			);
+			const defaultWorkspace = await getDefaultWorkspace();
+			if (!defaultWorkspace) {
+				throw new Error(
+					'Could not determine a default workspace. Please provide a workspaceSlug.',
+				);
+			}
+			mergedOptions.workspaceSlug = defaultWorkspace;
+			methodLogger.debug(
+				`Using default workspace: ${mergedOptions.workspaceSlug}`,
+			);
+		}
+
+		const { workspaceSlug, repoSlug, prId, action, taskId, content } =
+			mergedOptions;
+
+		// Validate the arguments each action needs
+		if (!workspaceSlug || !repoSlug || !prId) {
+			throw new Error(
+				'Workspace slug, repository slug, and pull request ID are required',
+			);
+		}
+		if (action !== 'create' && !taskId) {
+			throw new Error(`A task ID is required to ${action} a task`);
+		}
+		if ((action === 'create' || action === 'update') && !content) {
+			throw new Error(`Task content is required to ${action} a task`);
+		}
+		if (action !== 'create' && mergedOptions.commentId) {
+			throw new Error(
+				'A comment ID can only be given when creating a task',
+			);
+		}
+
+		methodLogger.debug(
+			`Task action "${action}" on PR ${workspaceSlug}/${repoSlug}/${prId}`,
+			{ taskId, commentId: mergedOptions.commentId },
+		);
+
+		const prParams = {
+			workspace: workspaceSlug,
+			repo_slug: repoSlug,
+			pull_request_id: parseInt(prId, 10),
+		};
+		const taskParams: PullRequestTaskParams = {
+			...prParams,
+			task_id: parseInt(taskId ?? '', 10),
+		};
+		const writeOptions = { ...callOptions, dryRun: options.dryRun };
+
+		let task: PullRequestTask | undefined;
+		switch (action) {
+			case 'create':
+				task = await atlassianPullRequestsService.createTask(
+					{
+						...prParams,
+						content: {
+							raw: optimizeBitbucketMarkdown(content as string),
+						},
+						...(mergedOptions.commentId && {
+							comment: {
+								id: parseInt(mergedOptions.commentId, 10),
+							},
+						}),
+					},
+					writeOptions,
+				);
+				break;
+			case 'update':
+				task = await atlassianPullRequestsService.updateTask(
+					{
+						...taskParams,
+						content: {
+							raw: optimizeBitbucketMarkdown(content as string),
+						},
+					},
+					writeOptions,
+				);
+				break;
+			case 'resolve':
+			case 'reopen':
+				task = await atlassianPullRequestsService.updateTask(
+					{
+						...taskParams,
+						state: action === 'resolve' ? 'RESOLVED' : 'UNRESOLVED',
+					},
+					writeOptions,
+				);
+				break;
+			case 'delete':
+				await atlassianPullRequestsService.deleteTask(
+					taskParams,
+					writeOptions,
+				);
+				break;
+		}
+
+		methodLogger.debug(`Task ${TASK_ACTION_RESULTS[action]}`, {
+			taskId: task?.id ?? taskId,
+		});
+
+		const lines = [
+			`# Task ${TASK_ACTION_RESULTS[action]} on Pull Request #${prId}`,
+			'',
+			`**Task ID:** ${task?.id ?? taskId}`,
+		];
+		if (task) {
+			lines.push(
+				`**State:** ${task.state}`,
+				`**Content:** ${task.content?.raw ?? ''}`,
+			);
+			if (task.comment) {
+				lines.push(`**Comment:** ${task.comment.id}`);
+			}
+		}
+
+		return {
+			content: lines.join('\n'),
+			data: { action, task: task && toTaskOutput(task) },
+		};
+	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
+		throw handleControllerError(error, {
+			entityType: 'Pull Request Task',
+			operation: 'managing',
+			source: 'controllers/atlassian.pullrequests.tasks.controller.ts@manageTask',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { listTasks, manageTask };
@@ -1,6 +1,12 @@
 import { ControllerResponse } from '../types/common.types.js';
-import { UpdatePullRequestParams } from '../services/vendor.atlassian.pullrequests.types.js';
-import { UpdatePullRequestToolArgsType } from '../tools/atlassian.pullrequests.types.js';
+import {
+	PullRequestUser,
+	UpdatePullRequestParams,
+} from '../services/vendor.atlassian.pullrequests.types.js';
+import {
+	UpdatePullRequestToolArgsType,
+	UpdatePullRequestToolOutputType,
+} from '../tools/atlassian.pullrequests.types.js';
 import {
 	atlassianPullRequestsService,
 	Logger,
@@ -9,16 +15,27 @@ import {
 	applyDefaults,
 	optimizeBitbucketMarkdown,
 	getDefaultWorkspace,
+	DryRunInterrupt,
+	formatDryRunResponse,
+	toPullRequestOutput,
+	isSameUser,
+	mergeReviewers,
+	resolveReviewers,
 } from './atlassian.pullrequests.base.controller.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Update an existing pull request in Bitbucket
- * @param options - Options including workspace slug, repo slug, pull request ID, title, and description
- * @returns Promise with formatted updated pull request details as Markdown content
+ * @param options - Options including workspace slug, repo slug, pull request ID, title, description,
+ * and reviewers to add or remove
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted updated pull request details as Markdown content,
+ * or the planned request when `dryRun` is set
  */
 async function update(
 	options: UpdatePullRequestToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<UpdatePullRequestToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pullrequests.update.controller.ts',
 		'update',
@@ -48,10 +65,19 @@ async function update(
 			);
 		}
 
+		const changesReviewers =
+			!!mergedOptions.reviewers?.length ||
+			!!mergedOptions.removeReviewers?.length ||
+			!!mergedOptions.includeDefaultReviewers;
+
 		// Validate that at least one field to update is provided
-		if (!mergedOptions.title && !mergedOptions.description) {
+		if (
+			!mergedOptions.title &&
+			!mergedOptions.description &&
+			!changesReviewers
+		) {
 			throw new Error(
-				'At least one field to update (title or description) must be provided',
+				'At least one field to update (title, description or reviewers) must be provided',
 			);
 		}
 
@@ -76,9 +102,57 @@ async function update(
 			);
 		}
 
+		// Bitbucket replaces the reviewer list on update, so start from the
+		// current reviewers and apply the additions and removals to it
+		if (changesReviewers) {
+			const existing = await atlassianPullRequestsService.get(
+				serviceParams,
+				callOptions,
+			);
+			const added = await resolveReviewers(
+				mergedOptions.workspaceSlug,
+				mergedOptions.reviewers,
+				callOptions,
+			);
+			const removed = await resolveReviewers(
+				mergedOptions.workspaceSlug,
+				mergedOptions.removeReviewers,
+				callOptions,
+			);
+			let defaults: PullRequestUser[] = [];
+			if (mergedOptions.includeDefaultReviewers) {
+				defaults = (
+					await atlassianPullRequestsService.getDefaultReviewers(
+						{
+							workspace: mergedOptions.workspaceSlug,
+							repo_slug: mergedOptions.repoSlug,
+							source_branch: existing.source?.branch?.name,
+							destination_branch:
+								existing.destination?.branch?.name,
+						},
+						callOptions,
+					)
+				).filter(
+					(user) =>
+						!existing.author || !isSameUser(user, existing.author),
+				);
+			}
+			serviceParams.reviewers = mergeReviewers(
+				existing.reviewers || [],
+				added,
+				defaults,
+			).filter((user) => !removed.some((gone) => isSameUser(gone, user)));
+			methodLogger.debug(
+				`Setting ${serviceParams.reviewers.length} reviewers`,
+				{ added: added.length, removed: removed.length },
+			);
+		}
+
 		// Call service to update the pull request
-		const pullRequest =
-			await atlassianPullRequestsService.update(serviceParams);
+		const pullRequest = await atlassianPullRequestsService.update(
+			serviceParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		methodLogger.debug(
 			`Successfully updated pull request ${pullRequest.id}`,
@@ -89,8 +163,12 @@ async function update(
 
 		return {
 			content: `## Pull Request Updated Successfully\n\n${content}`,
+			data: { pullRequest: toPullRequestOutput(pullRequest) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		throw handleControllerError(error, {
 			entityType: 'Pull Request',
 			operation: 'updating',
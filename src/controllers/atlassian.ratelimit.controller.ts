@@ -0,0 +1,111 @@
+import { Logger } from '../utils/logger.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { createAuthMissingError } from '../utils/error.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import {
+	RateLimitStatusToolArgsType,
+	RateLimitStatusToolOutputType,
+} from '../tools/atlassian.ratelimit.types.js';
+import { formatRateLimitStatus } from './atlassian.ratelimit.formatter.js';
+import {
+	getMaxConcurrency,
+	getRateLimitStatus,
+} from '../utils/scheduler.util.js';
+import {
+	CallOptions,
+	AtlassianCredentials,
+	fetchAtlassian,
+	getAtlassianCredentials,
+	getCredentialFingerprint,
+	isBitbucketServer,
+} from '../utils/transport.util.js';
+
+// Create a contextualized logger for this file
+const controllerLogger = Logger.forContext(
+	'controllers/atlassian.ratelimit.controller.ts',
+);
+
+// Log controller initialization
+controllerLogger.debug('Bitbucket rate limit controller initialized');
+
+/**
+ * Send one cheap, uncached request so the scheduler records the current
+ * rate limit headers
+ * @param credentials - Credentials whose budget to refresh
+ * @param callOptions - Call options (abort signal)
+ */
+async function probe(
+	credentials: AtlassianCredentials,
+	callOptions: CallOptions,
+): Promise<void> {
+	const path = isBitbucketServer()
+		? '/rest/api/1.0/application-properties'
+		: '/2.0/user';
+	await fetchAtlassian(credentials, path, {
+		signal: callOptions.signal,
+		cache: false,
+	});
+}
+
+/**
+ * Report the request budget of the caller's credentials and the queue
+ * state of each Bitbucket host
+ * @param options - Options controlling whether to refresh the budget
+ * @param callOptions - Call options (abort signal)
+ * @returns Promise with formatted rate limit status content
+ */
+async function status(
+	options: RateLimitStatusToolArgsType = {},
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<RateLimitStatusToolOutputType>> {
+	const methodLogger = controllerLogger.forMethod('status');
+	methodLogger.debug('Getting rate limit status', options);
+
+	try {
+		// Only the caller's own budget is reported: Bitbucket counts the
+		// quota per user, and other profiles or sessions are not theirs to see
+		const credentials = getAtlassianCredentials();
+		if (!credentials) {
+			throw createAuthMissingError(
+				'Atlassian credentials are required for this operation',
+			);
+		}
+		const credential = getCredentialFingerprint(credentials);
+
+		// Nothing is known until these credentials talk to the API
+		if (options.refresh || getRateLimitStatus(credential).length === 0) {
+			methodLogger.debug('Probing the API for rate limit headers');
+			await probe(credentials, callOptions);
+		}
+
+		const budgets = getRateLimitStatus(credential);
+		const maxConcurrency = getMaxConcurrency();
+
+		return {
+			content: formatRateLimitStatus(budgets, maxConcurrency),
+			data: {
+				hosts: budgets.map((budget) => ({
+					...budget,
+					rateLimitedUntil:
+						budget.rateLimitedUntil !== undefined
+							? new Date(budget.rateLimitedUntil).toISOString()
+							: undefined,
+					updatedAt:
+						budget.updatedAt !== undefined
+							? new Date(budget.updatedAt).toISOString()
+							: undefined,
+				})),
+				maxConcurrency,
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Rate Limit Status',
+			operation: 'retrieving',
+			source: 'controllers/atlassian.ratelimit.controller.ts@status',
+			additionalInfo: { options },
+		});
+	}
+}
+
+export default { status };
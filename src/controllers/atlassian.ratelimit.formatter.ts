@@ -0,0 +1,58 @@
+import { RateLimitBudget } from '../utils/scheduler.util.js';
+import {
+	formatHeading,
+	formatBulletList,
+	formatSeparator,
+	formatDate,
+} from '../utils/formatter.util.js';
+
+/**
+ * Format the request budget of every contacted host for display
+ * @param budgets - Budget of each host
+ * @param maxConcurrency - Maximum requests in flight per host (0 = unlimited)
+ * @returns Formatted string with rate limit information in markdown format
+ */
+export function formatRateLimitStatus(
+	budgets: RateLimitBudget[],
+	maxConcurrency: number,
+): string {
+	const lines: string[] = [
+		formatHeading('Bitbucket Rate Limit Status', 1),
+		'',
+		formatBulletList({
+			'Max Concurrent Requests per Host':
+				maxConcurrency === 0 ? 'Unlimited' : maxConcurrency,
+		}),
+	];
+
+	if (budgets.length === 0) {
+		lines.push('', 'No requests have been made to Bitbucket yet.');
+	}
+
+	for (const budget of budgets) {
+		lines.push('', formatHeading(budget.host, 2));
+		lines.push(
+			formatBulletList({
+				'Hourly Limit': budget.limit,
+				Remaining: `${budget.remaining}${budget.estimated ? ' (estimated from requests made by this server)' : ''}`,
+				'Near Limit': budget.nearLimit ? 'Yes' : 'No',
+				'Requests in Last Hour': budget.requestsLastHour,
+				Resource: budget.resource,
+				'Rate Limited Until': budget.rateLimitedUntil
+					? new Date(budget.rateLimitedUntil)
+					: undefined,
+				'In Flight': budget.inFlight,
+				Queued: budget.queued,
+				'Last Response': budget.updatedAt
+					? new Date(budget.updatedAt)
+					: undefined,
+			}),
+		);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
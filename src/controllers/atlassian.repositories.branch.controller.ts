@@ -1,19 +1,28 @@
 import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
 import {
-	extractPaginationInfo,
-	PaginationType,
-} from '../utils/pagination.util.js';
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
+import { fetchPages } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
 import { ControllerResponse } from '../types/common.types.js';
 import {
 	CreateBranchToolArgsType,
+	CreateBranchToolOutputType,
 	ListBranchesToolArgsType,
+	ListBranchesToolOutputType,
 } from '../tools/atlassian.repositories.types.js';
+import { toBranchOutput } from './atlassian.repositories.formatter.js';
 import { CreateBranchParams } from '../services/vendor.atlassian.repositories.types.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import {
+	DryRunInterrupt,
+	formatDryRunResponse,
+} from '../utils/dry-run.util.js';
 
 // Logger instance for this module
 const logger = Logger.forContext(
@@ -23,11 +32,13 @@ const logger = Logger.forContext(
 /**
  * Creates a new branch in a repository.
  * @param options Options including workspace, repo, new branch name, and source target.
- * @returns Confirmation message.
+ * @param callOptions Call options (abort signal)
+ * @returns Confirmation message, or the planned request when `dryRun` is set.
  */
 export async function handleCreateBranch(
 	options: CreateBranchToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<CreateBranchToolOutputType>> {
 	const { repoSlug, newBranchName, sourceBranchOrCommit } = options;
 	let { workspaceSlug } = options;
 	const methodLogger = logger.forMethod('handleCreateBranch');
@@ -71,11 +82,14 @@ export async function handleCreateBranch(
 			// Note: this is a simulation as the actual API might not have this specific endpoint
 			// We'll make a call using the list branches endpoint with a filter
 			const existingBranches =
-				await atlassianRepositoriesService.listBranches({
-					workspace: workspaceSlug,
-					repo_slug: repoSlug,
-					q: `name="${newBranchName}"`,
-				});
+				await atlassianRepositoriesService.listBranches(
+					{
+						workspace: workspaceSlug,
+						repo_slug: repoSlug,
+						q: `name="${newBranchName}"`,
+					},
+					callOptions,
+				);
 
 			// If we get matching branches, assume the branch exists
 			if (existingBranches.values && existingBranches.values.length > 0) {
@@ -84,6 +98,10 @@ export async function handleCreateBranch(
 				);
 				return {
 					content: `⚠️ Branch \`${newBranchName}\` already exists in the repository.`,
+					data: {
+						branch: toBranchOutput(existingBranches.values[0]),
+						alreadyExists: true,
+					},
 				};
 			}
 		} catch (error) {
@@ -108,15 +126,21 @@ export async function handleCreateBranch(
 
 		// Create the branch
 		methodLogger.debug('Creating branch with params:', createParams);
-		const result =
-			await atlassianRepositoriesService.createBranch(createParams);
+		const result = await atlassianRepositoriesService.createBranch(
+			createParams,
+			{ ...callOptions, dryRun: options.dryRun },
+		);
 
 		// Confirm success with a meaningful message
 		methodLogger.debug('Branch created successfully:', result);
 		return {
 			content: `✅ Successfully created branch \`${newBranchName}\` from \`${sourceBranchOrCommit}\` in ${workspaceSlug}/${repoSlug}.`,
+			data: { branch: toBranchOutput(result) },
 		};
 	} catch (error) {
+		if (error instanceof DryRunInterrupt) {
+			return formatDryRunResponse(error.request);
+		}
 		throw handleControllerError(error, {
 			entityType: 'Branch',
 			operation: 'create',
@@ -130,11 +154,13 @@ export async function handleCreateBranch(
  * Lists branches in a repository with optional filtering
  *
  * @param options - Options containing workspaceSlug, repoSlug, and filters
+ * @param callOptions - Call options (abort signal)
  * @returns Formatted list of branches and pagination information
  */
 export async function handleListBranches(
 	options: ListBranchesToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListBranchesToolOutputType>> {
 	const methodLogger = logger.forMethod('handleListBranches');
 	methodLogger.debug('Listing branches with options:', options);
 
@@ -170,34 +196,36 @@ export async function handleListBranches(
 		}
 
 		// Call the service to list branches
-		methodLogger.debug('Listing branches with params:', {
+		const serviceParams = {
 			workspace: params.workspaceSlug,
 			repo_slug: params.repoSlug,
 			q: params.query ? `name ~ "${params.query}"` : undefined,
 			sort: params.sort,
-			pagelen: params.limit,
-			page: params.cursor ? parseInt(params.cursor, 10) : undefined,
+			pagelen: params.all ? ALL_PAGES_PAGE_SIZE : params.limit,
+		};
+		methodLogger.debug('Listing branches with params:', {
+			...serviceParams,
+			cursor: params.cursor,
 		});
 
-		const branchesData = await atlassianRepositoriesService.listBranches({
-			workspace: params.workspaceSlug,
-			repo_slug: params.repoSlug,
-			q: params.query ? `name ~ "${params.query}"` : undefined,
-			sort: params.sort,
-			pagelen: params.limit,
-			page: params.cursor ? parseInt(params.cursor, 10) : undefined,
-		});
+		// Fetch one page, or every page when requested (cursor is the page number)
+		const { data: branchesData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianRepositoriesService.listBranches(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			params,
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Retrieved ${branchesData.values?.length || 0} branches`,
 		);
 
-		// Extract pagination information
-		const pagination = extractPaginationInfo(
-			branchesData,
-			PaginationType.PAGE,
-		);
-
 		// Format branches data into Markdown
 		let content = '';
 
@@ -241,7 +269,13 @@ export async function handleListBranches(
 			content += paginationString;
 		}
 
-		return { content };
+		return {
+			content,
+			data: {
+				branches: (branchesData.values || []).map(toBranchOutput),
+				pagination,
+			},
+		};
 	} catch (error) {
 		throw handleControllerError(error, {
 			entityType: 'Branches',
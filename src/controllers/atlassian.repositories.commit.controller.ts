@@ -1,17 +1,25 @@
 import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
 import {
-	extractPaginationInfo,
-	PaginationType,
-} from '../utils/pagination.util.js';
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
+import { fetchPages } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
 import { ControllerResponse } from '../types/common.types.js';
-import { GetCommitHistoryToolArgsType } from '../tools/atlassian.repositories.types.js';
-import { formatCommitHistory } from './atlassian.repositories.formatter.js';
+import {
+	GetCommitHistoryToolArgsType,
+	GetCommitHistoryToolOutputType,
+} from '../tools/atlassian.repositories.types.js';
+import {
+	formatCommitHistory,
+	toCommitOutput,
+} from './atlassian.repositories.formatter.js';
 import { ListCommitsParams } from '../services/vendor.atlassian.repositories.types.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 // Logger instance for this module
 const logger = Logger.forContext(
@@ -22,11 +30,13 @@ const logger = Logger.forContext(
  * Get commit history for a repository
  *
  * @param options - Options containing repository identifiers and filters
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted commit history content and pagination info
  */
 export async function handleCommitHistory(
 	options: GetCommitHistoryToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<GetCommitHistoryToolOutputType>> {
 	const methodLogger = logger.forMethod('handleCommitHistory');
 
 	try {
@@ -62,24 +72,29 @@ export async function handleCommitHistory(
 			workspace: params.workspaceSlug,
 			repo_slug: params.repoSlug,
 			include: params.revision,
+			exclude: params.excludeRevision,
 			path: params.path,
-			pagelen: params.limit,
-			page: params.cursor ? parseInt(params.cursor, 10) : undefined,
+			pagelen: params.all ? ALL_PAGES_PAGE_SIZE : params.limit,
 		};
 
 		methodLogger.debug('Fetching commits with params:', serviceParams);
-		const commitsData =
-			await atlassianRepositoriesService.listCommits(serviceParams);
+		// Fetch one page, or every page when requested (cursor is the page number)
+		const { data: commitsData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianRepositoriesService.listCommits(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			params,
+			callOptions,
+		);
 		methodLogger.debug(
 			`Retrieved ${commitsData.values?.length || 0} commits`,
 		);
 
-		// Extract pagination info before formatting
-		const pagination = extractPaginationInfo(
-			commitsData,
-			PaginationType.PAGE,
-		);
-
 		const formattedHistory = formatCommitHistory(commitsData, {
 			revision: params.revision,
 			path: params.path,
@@ -99,6 +114,10 @@ export async function handleCommitHistory(
 
 		return {
 			content: finalContent,
+			data: {
+				commits: (commitsData.values || []).map(toCommitOutput),
+				pagination,
+			},
 		};
 	} catch (error) {
 		throw handleControllerError(error, {
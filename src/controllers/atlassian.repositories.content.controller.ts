@@ -2,12 +2,19 @@ import atlassianRepositoriesService from '../services/vendor.atlassian.repositor
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
 import { ControllerResponse } from '../types/common.types.js';
-import { CloneRepositoryToolArgsType } from '../tools/atlassian.repositories.types.js';
+import {
+	CloneRepositoryToolArgsType,
+	CloneRepositoryToolOutputType,
+	GetFileContentToolOutputType,
+} from '../tools/atlassian.repositories.types.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
 import { executeShellCommand } from '../utils/shell.util.js';
+import { getGitConfigEnv, getProxyForUrl } from '../utils/network.util.js';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { constants } from 'fs';
+import { CallOptions } from '../utils/transport.util.js';
+import { parseGitProgress, reportProgress } from '../utils/progress.util.js';
 
 // Logger instance for this module
 const logger = Logger.forContext(
@@ -17,11 +24,13 @@ const logger = Logger.forContext(
 /**
  * Clones a Bitbucket repository to the local filesystem
  * @param options Options including repository identifiers and target path
+ * @param callOptions Call options (abort signal)
  * @returns Information about the cloned repository
  */
 export async function handleCloneRepository(
 	options: CloneRepositoryToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<CloneRepositoryToolOutputType>> {
 	const methodLogger = logger.forMethod('handleCloneRepository');
 	methodLogger.debug('Cloning repository with options:', options);
 
@@ -106,22 +115,35 @@ export async function handleCloneRepository(
 		methodLogger.debug(
 			`Getting repository details for ${workspaceSlug}/${repoSlug}`,
 		);
-		const repoDetails = await atlassianRepositoriesService.get({
-			workspace: workspaceSlug,
-			repo_slug: repoSlug,
-		});
+		const repoDetails = await atlassianRepositoriesService.get(
+			{
+				workspace: workspaceSlug,
+				repo_slug: repoSlug,
+			},
+			callOptions,
+		);
 
 		// Find SSH clone URL (preferred) or fall back to HTTPS
 		let cloneUrl: string | undefined;
-		let cloneProtocol: string = 'SSH'; // Default to SSH
+		let cloneProtocol: 'SSH' | 'HTTPS' = 'SSH'; // Default to SSH
 
 		if (repoDetails.links?.clone) {
 			// First try to find SSH clone URL
 			const sshClone = repoDetails.links.clone.find(
 				(link) => link.name === 'ssh',
 			);
+			const proxiedHttpsClone = repoDetails.links.clone.find(
+				(link) =>
+					link.name === 'https' &&
+					getProxyForUrl(link.href) !== undefined,
+			);
 
-			if (sshClone) {
+			if (proxiedHttpsClone) {
+				// SSH cannot pass through an HTTPS proxy
+				cloneUrl = proxiedHttpsClone.href;
+				cloneProtocol = 'HTTPS';
+				methodLogger.debug('Proxy configured, cloning over HTTPS');
+			} else if (sshClone) {
 				cloneUrl = sshClone.href;
 			} else {
 				// Fall back to HTTPS if SSH is not available
@@ -159,6 +181,11 @@ export async function handleCloneRepository(
 				);
 				return {
 					content: `⚠️ Target directory \`${targetDir}\` already exists. Please choose a different target path or remove the existing directory.`,
+					data: {
+						repository: `${workspaceSlug}/${repoSlug}`,
+						targetDir,
+						cloned: false,
+					},
 				};
 			}
 		} catch {
@@ -168,14 +195,31 @@ export async function handleCloneRepository(
 			);
 		}
 
+		// Report the clone phases git prints to stderr when asked to
+		let lastProgress = -1;
+		const onStderr = callOptions.onProgress
+			? (output: string) => {
+					for (const line of output.split(/[\r\n]+/)) {
+						const update = parseGitProgress(line);
+						if (update && update.progress > lastProgress) {
+							lastProgress = update.progress;
+							reportProgress(callOptions, update);
+						}
+					}
+				}
+			: undefined;
+
 		// Execute git clone command
 		methodLogger.debug(`Cloning from URL (${cloneProtocol}): ${cloneUrl}`);
-		const command = `git clone ${cloneUrl} "${targetDir}"`;
+		const command = `git clone ${onStderr ? '--progress ' : ''}${cloneUrl} "${targetDir}"`;
+		// Apply the proxy and CA settings to HTTPS clones
+		const env = getGitConfigEnv(cloneUrl);
 
 		try {
 			const result = await executeShellCommand(
 				command,
 				'cloning repository',
+				{ onStderr, env },
 			);
 
 			// Return success message with more detailed information
@@ -188,6 +232,12 @@ export async function handleCloneRepository(
 					`- **Target Location**: ${targetDir}\n\n` +
 					`**Output:**\n\`\`\`\n${result}\n\`\`\`\n\n` +
 					`**Note**: If this is your first time cloning with SSH, ensure your SSH keys are set up correctly.`,
+				data: {
+					repository: `${workspaceSlug}/${repoSlug}`,
+					targetDir,
+					protocol: cloneProtocol,
+					cloned: true,
+				},
 			};
 		} catch (cloneError) {
 			// Enhanced error message with troubleshooting steps
@@ -206,7 +256,8 @@ export async function handleCloneRepository(
 					`\n\n**Troubleshooting HTTPS Clone Issues:**\n` +
 					`1. Check your Bitbucket credentials\n` +
 					`2. Ensure the target directory is writable\n` +
-					`3. Try running the command manually to see detailed errors`;
+					`3. Behind a proxy, check HTTPS_PROXY, NO_PROXY and BITBUCKET_CA_FILE\n` +
+					`4. Try running the command manually to see detailed errors`;
 			}
 
 			throw new Error(errorMsg + troubleshooting);
@@ -224,14 +275,18 @@ export async function handleCloneRepository(
 /**
  * Retrieves file content from a repository
  * @param options Options including repository identifiers and file path
+ * @param callOptions Call options (abort signal)
  * @returns The file content as text
  */
-export async function handleGetFileContent(options: {
-	workspaceSlug?: string;
-	repoSlug: string;
-	path: string;
-	ref?: string;
-}): Promise<ControllerResponse> {
+export async function handleGetFileContent(
+	options: {
+		workspaceSlug?: string;
+		repoSlug: string;
+		path: string;
+		ref?: string;
+	},
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<GetFileContentToolOutputType>> {
 	const methodLogger = logger.forMethod('handleGetFileContent');
 	methodLogger.debug('Getting file content with options:', options);
 
@@ -268,10 +323,13 @@ export async function handleGetFileContent(options: {
 				`No ref provided, fetching repository details to get default branch`,
 			);
 			try {
-				const repoDetails = await atlassianRepositoriesService.get({
-					workspace: workspaceSlug,
-					repo_slug: repoSlug,
-				});
+				const repoDetails = await atlassianRepositoriesService.get(
+					{
+						workspace: workspaceSlug,
+						repo_slug: repoSlug,
+					},
+					callOptions,
+				);
 
 				// Use the repository's actual default branch
 				if (repoDetails.mainbranch?.name) {
@@ -300,12 +358,15 @@ export async function handleGetFileContent(options: {
 			`Fetching file content for ${workspaceSlug}/${repoSlug}/${filePath}`,
 			{ ref: commitRef },
 		);
-		const fileContent = await atlassianRepositoriesService.getFileContent({
-			workspace: workspaceSlug,
-			repo_slug: repoSlug,
-			path: filePath,
-			commit: commitRef,
-		});
+		const fileContent = await atlassianRepositoriesService.getFileContent(
+			{
+				workspace: workspaceSlug,
+				repo_slug: repoSlug,
+				path: filePath,
+				commit: commitRef,
+			},
+			callOptions,
+		);
 
 		// Return the file content as is
 		methodLogger.debug(
@@ -313,6 +374,13 @@ export async function handleGetFileContent(options: {
 		);
 		return {
 			content: fileContent,
+			data: {
+				workspaceSlug,
+				repoSlug,
+				path: filePath,
+				revision: commitRef,
+				size: fileContent.length,
+			},
 		};
 	} catch (error) {
 		throw handleControllerError(error, {
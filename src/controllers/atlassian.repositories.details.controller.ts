@@ -3,9 +3,17 @@ import atlassianPullRequestsService from '../services/vendor.atlassian.pullreque
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
 import { ControllerResponse } from '../types/common.types.js';
-import { GetRepositoryToolArgsType } from '../tools/atlassian.repositories.types.js';
-import { formatRepositoryDetails } from './atlassian.repositories.formatter.js';
+import {
+	GetRepositoryToolArgsType,
+	GetRepositoryToolOutputType,
+} from '../tools/atlassian.repositories.types.js';
+import {
+	formatRepositoryDetails,
+	toRepositoryOutput,
+} from './atlassian.repositories.formatter.js';
+import { toPullRequestOutput } from './atlassian.pullrequests.formatter.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 // Logger instance for this module
 const logger = Logger.forContext(
@@ -16,11 +24,13 @@ const logger = Logger.forContext(
  * Get details of a specific repository
  *
  * @param params - Parameters containing workspaceSlug and repoSlug
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted repository details content
  */
 export async function handleRepositoryDetails(
 	params: GetRepositoryToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<GetRepositoryToolOutputType>> {
 	const methodLogger = logger.forMethod('handleRepositoryDetails');
 
 	try {
@@ -42,10 +52,13 @@ export async function handleRepositoryDetails(
 		}
 
 		// Call the service to get repository details
-		const repoData = await atlassianRepositoriesService.get({
-			workspace: params.workspaceSlug,
-			repo_slug: params.repoSlug,
-		});
+		const repoData = await atlassianRepositoriesService.get(
+			{
+				workspace: params.workspaceSlug,
+				repo_slug: params.repoSlug,
+			},
+			callOptions,
+		);
 
 		// Fetch recent pull requests for this repository (most recently updated, limit to 5)
 		let pullRequestsData = null;
@@ -53,13 +66,16 @@ export async function handleRepositoryDetails(
 			methodLogger.debug(
 				'Fetching recent pull requests for the repository',
 			);
-			pullRequestsData = await atlassianPullRequestsService.list({
-				workspace: params.workspaceSlug,
-				repo_slug: params.repoSlug,
-				state: 'OPEN', // Focus on open PRs
-				sort: '-updated_on', // Sort by most recently updated
-				pagelen: 5, // Limit to 5 to keep the response concise
-			});
+			pullRequestsData = await atlassianPullRequestsService.list(
+				{
+					workspace: params.workspaceSlug,
+					repo_slug: params.repoSlug,
+					state: 'OPEN', // Focus on open PRs
+					sort: '-updated_on', // Sort by most recently updated
+					pagelen: 5, // Limit to 5 to keep the response concise
+				},
+				callOptions,
+			);
 			methodLogger.debug(
 				`Retrieved ${pullRequestsData.values?.length || 0} recent pull requests`,
 			);
@@ -75,7 +91,15 @@ export async function handleRepositoryDetails(
 		// Format the repository data with optional pull requests
 		const content = formatRepositoryDetails(repoData, pullRequestsData);
 
-		return { content };
+		return {
+			content,
+			data: {
+				repository: toRepositoryOutput(repoData),
+				openPullRequests: pullRequestsData?.values?.map((pr) =>
+					toPullRequestOutput(pr),
+				),
+			},
+		};
 	} catch (error) {
 		throw handleControllerError(error, {
 			entityType: 'Repository',
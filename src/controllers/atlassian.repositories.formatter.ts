@@ -3,6 +3,7 @@ import {
 	RepositoriesResponse,
 	PaginatedCommits,
 	Commit,
+	Branch,
 } from '../services/vendor.atlassian.repositories.types.js';
 import { PullRequestsResponse } from '../services/vendor.atlassian.pullrequests.types.js';
 import {
@@ -13,6 +14,11 @@ import {
 	formatNumberedList,
 	formatDate,
 } from '../utils/formatter.util.js';
+import {
+	BranchOutputType,
+	CommitOutputType,
+	RepositoryOutputType,
+} from '../tools/atlassian.repositories.types.js';
 
 /**
  * Format a list of repositories for display
@@ -238,3 +244,80 @@ export function formatCommitHistory(
 
 	return lines.join('\n');
 }
+
+/**
+ * Convert a repository to the structured output of the repository tools
+ * @param repo - Raw repository data from the API
+ * @returns Repository with stable field names
+ */
+export function toRepositoryOutput(repo: Repository): RepositoryOutputType {
+	const cloneUrls = Object.fromEntries(
+		(repo.links?.clone || [])
+			.filter((link) => link.name)
+			.map((link) => [link.name as string, link.href]),
+	);
+	return {
+		fullName: repo.full_name,
+		name: repo.name,
+		uuid: repo.uuid,
+		description: repo.description || undefined,
+		isPrivate: repo.is_private,
+		language: repo.language || undefined,
+		mainBranch: repo.mainbranch?.name,
+		project: repo.project && {
+			key: repo.project.key,
+			name: repo.project.name,
+		},
+		owner: repo.owner && {
+			displayName: repo.owner.display_name,
+			nickname: repo.owner.username,
+			uuid: repo.owner.uuid,
+		},
+		size: repo.size,
+		createdOn: repo.created_on,
+		updatedOn: repo.updated_on,
+		url: repo.links?.html?.href,
+		cloneUrls: Object.keys(cloneUrls).length > 0 ? cloneUrls : undefined,
+	};
+}
+
+/**
+ * Convert a commit to the structured output of the repository tools
+ * @param commit - Raw commit data from the API
+ * @returns Commit with stable field names
+ */
+export function toCommitOutput(commit: Commit): CommitOutputType {
+	return {
+		hash: commit.hash,
+		message: commit.message,
+		date: commit.date,
+		author: {
+			raw: commit.author?.raw ?? '',
+			displayName: commit.author?.user?.display_name,
+			nickname: commit.author?.user?.nickname,
+			accountId: commit.author?.user?.account_id,
+			uuid: commit.author?.user?.uuid,
+		},
+		parents: (commit.parents || []).map((parent) => parent.hash),
+		url: commit.links?.html?.href,
+	};
+}
+
+/**
+ * Convert a branch to the structured output of the repository tools
+ * @param branch - Raw branch data from the API
+ * @returns Branch with stable field names
+ */
+export function toBranchOutput(
+	branch: Pick<
+		Branch,
+		'name' | 'target' | 'merge_strategies' | 'default_merge_strategy'
+	>,
+): BranchOutputType {
+	return {
+		name: branch.name,
+		targetHash: branch.target.hash,
+		defaultMergeStrategy: branch.default_merge_strategy,
+		mergeStrategies: branch.merge_strategies,
+	};
+}
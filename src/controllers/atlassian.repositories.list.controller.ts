@@ -1,18 +1,30 @@
 import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
+import {
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
 import {
 	extractPaginationInfo,
+	fetchPages,
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
 import { ControllerResponse } from '../types/common.types.js';
-import { ListRepositoriesToolArgsType } from '../tools/atlassian.repositories.types.js';
-import { formatRepositoriesList } from './atlassian.repositories.formatter.js';
+import {
+	ListRepositoriesToolArgsType,
+	ListRepositoriesToolOutputType,
+} from '../tools/atlassian.repositories.types.js';
+import {
+	formatRepositoriesList,
+	toRepositoryOutput,
+} from './atlassian.repositories.formatter.js';
 import { ListRepositoriesParams } from '../services/vendor.atlassian.repositories.types.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
 import { formatBitbucketQuery } from '../utils/query.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 // Create a contextualized logger for this file
 const logger = Logger.forContext(
@@ -22,11 +34,13 @@ const logger = Logger.forContext(
 /**
  * Lists repositories for a specific workspace with pagination and filtering options
  * @param options - Options for listing repositories including workspaceSlug
+ * @param callOptions - Call options (abort signal)
  * @returns Formatted list of repositories with pagination information
  */
 export async function handleRepositoriesList(
 	options: ListRepositoriesToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListRepositoriesToolOutputType>> {
 	const methodLogger = logger.forMethod('handleRepositoriesList');
 	methodLogger.debug('Listing Bitbucket repositories...', options);
 
@@ -81,12 +95,10 @@ export async function handleRepositoriesList(
 		const serviceParams: ListRepositoriesParams = {
 			// Required workspace
 			workspace: workspaceSlug,
-			// Handle limit with default value
-			pagelen: mergedOptions.limit,
-			// Map cursor to page for page-based pagination
-			page: mergedOptions.cursor
-				? parseInt(mergedOptions.cursor, 10)
-				: undefined,
+			// Handle limit with default value (largest pages when fetching all)
+			pagelen: mergedOptions.all
+				? ALL_PAGES_PAGE_SIZE
+				: mergedOptions.limit,
 			// Set default sort to updated_on descending if not specified
 			sort: mergedOptions.sort,
 			// Optional filter parameters
@@ -96,8 +108,20 @@ export async function handleRepositoriesList(
 
 		methodLogger.debug('Using service parameters:', serviceParams);
 
-		const repositoriesData =
-			await atlassianRepositoriesService.list(serviceParams);
+		// Fetch one page, or every page when requested (cursor is the page number)
+		const { data: repositoriesData, pagination: pagesPagination } =
+			await fetchPages(
+				(cursor) =>
+					atlassianRepositoriesService.list(
+						{
+							...serviceParams,
+							page: cursor ? parseInt(cursor, 10) : undefined,
+						},
+						callOptions,
+					),
+				mergedOptions,
+				callOptions,
+			);
 		// Log only the count of repositories returned instead of the entire response
 		methodLogger.debug(
 			`Retrieved ${repositoriesData.values?.length || 0} repositories`,
@@ -187,6 +211,7 @@ export async function handleRepositoriesList(
 							const nextPageData =
 								await atlassianRepositoriesService.list(
 									nextPageParams,
+									callOptions,
 								);
 
 							// Filter the next page results
@@ -256,11 +281,14 @@ export async function handleRepositoriesList(
 			}
 		}
 
-		// Extract pagination information using the utility
-		const pagination = extractPaginationInfo(
-			repositoriesData,
-			PaginationType.PAGE,
-		);
+		// Extract pagination information using the utility. Combined pages
+		// keep the resume cursor from fetchPages.
+		const pagination = mergedOptions.all
+			? pagesPagination && {
+					...pagesPagination,
+					count: repositoriesData.values?.length ?? 0,
+				}
+			: extractPaginationInfo(repositoriesData, PaginationType.PAGE);
 
 		// Format the repositories data for display using the formatter
 		const formattedRepositories = formatRepositoriesList(repositoriesData);
@@ -279,6 +307,12 @@ export async function handleRepositoriesList(
 
 		return {
 			content: finalContent,
+			data: {
+				repositories: (repositoriesData.values || []).map(
+					toRepositoryOutput,
+				),
+				pagination,
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -7,7 +7,12 @@ import {
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
-import { formatCodeSearchResults } from './atlassian.search.formatter.js';
+import {
+	formatCodeSearchResults,
+	toCodeSearchMatchOutput,
+} from './atlassian.search.formatter.js';
+import { SearchToolOutputType } from '../tools/atlassian.search.types.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Handle search for code content (uses Bitbucket's Code Search API)
@@ -20,7 +25,8 @@ export async function handleCodeSearch(
 	cursor?: string,
 	language?: string,
 	extension?: string,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<SearchToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.search.code.controller.ts',
 		'handleCodeSearch',
@@ -30,6 +36,7 @@ export async function handleCodeSearch(
 	if (!query) {
 		return {
 			content: 'Please provide a search query for code search.',
+			data: {},
 		};
 	}
 
@@ -46,15 +53,18 @@ export async function handleCodeSearch(
 		}
 
 		// Use the search service
-		const searchResponse = await atlassianSearchService.searchCode({
-			workspaceSlug: workspaceSlug,
-			searchQuery: query,
-			repoSlug: repoSlug,
-			page: page,
-			pageLen: limit,
-			language: language,
-			extension: extension,
-		});
+		const searchResponse = await atlassianSearchService.searchCode(
+			{
+				workspaceSlug: workspaceSlug,
+				searchQuery: query,
+				repoSlug: repoSlug,
+				page: page,
+				pageLen: limit,
+				language: language,
+				extension: extension,
+			},
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Search complete, found ${searchResponse.size} matches`,
@@ -165,6 +175,10 @@ export async function handleCodeSearch(
 
 		return {
 			content: finalContent,
+			data: {
+				code: filteredValues.map(toCodeSearchMatchOutput),
+				pagination,
+			},
 		};
 	} catch (searchError) {
 		methodLogger.error('Error performing code search:', searchError);
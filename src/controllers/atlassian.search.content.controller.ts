@@ -6,10 +6,15 @@ import {
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
-import { formatContentSearchResults } from './atlassian.search.formatter.js';
+import {
+	formatContentSearchResults,
+	toContentSearchMatchOutput,
+} from './atlassian.search.formatter.js';
+import { SearchToolOutputType } from '../tools/atlassian.search.types.js';
 import { ContentType } from '../utils/atlassian.util.js';
 import { ContentSearchParams } from '../services/vendor.atlassian.search.types.js';
 import atlassianSearchService from '../services/vendor.atlassian.search.service.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Handle search for content (PRs, Issues, Wiki, etc.)
@@ -21,7 +26,8 @@ export async function handleContentSearch(
 	limit: number = DEFAULT_PAGE_SIZE,
 	cursor?: string,
 	contentType?: ContentType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<SearchToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.search.content.controller.ts',
 		'handleContentSearch',
@@ -31,6 +37,7 @@ export async function handleContentSearch(
 	if (!query) {
 		return {
 			content: 'Please provide a search query for content search.',
+			data: {},
 		};
 	}
 
@@ -53,7 +60,10 @@ export async function handleContentSearch(
 
 		methodLogger.debug('Content search params:', params);
 
-		const searchResult = await atlassianSearchService.searchContent(params);
+		const searchResult = await atlassianSearchService.searchContent(
+			params,
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Content search complete, found ${searchResult.size} matches`,
@@ -89,6 +99,12 @@ export async function handleContentSearch(
 
 		return {
 			content: finalContent,
+			data: {
+				content: (searchResult.values || []).map(
+					toContentSearchMatchOutput,
+				),
+				pagination,
+			},
 		};
 	} catch (searchError) {
 		methodLogger.error('Error performing content search:', searchError);
@@ -7,6 +7,8 @@ import { handlePullRequestSearch } from './atlassian.search.pullrequests.control
 import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
 import { ControllerResponse } from '../types/common.types.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import { SearchToolOutputType } from '../tools/atlassian.search.types.js';
 
 // Logger instance for this module
 const logger = Logger.forContext('controllers/atlassian.search.controller.ts');
@@ -39,11 +41,13 @@ export interface SearchOptions {
  * Perform a search across various Bitbucket data types
  *
  * @param options Search options
+ * @param callOptions Call options (abort signal)
  * @returns Formatted search results
  */
 async function search(
 	options: SearchOptions = {},
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<SearchToolOutputType>> {
 	const methodLogger = logger.forMethod('search');
 
 	try {
@@ -61,6 +65,7 @@ async function search(
 			methodLogger.warn('No workspace provided for search');
 			return {
 				content: 'Error: Please provide a workspace to search in.',
+				data: {},
 			};
 		}
 
@@ -81,6 +86,7 @@ async function search(
 					params.cursor,
 					params.language,
 					params.extension,
+					callOptions,
 				);
 
 			case 'content':
@@ -91,6 +97,7 @@ async function search(
 					params.limit,
 					params.cursor,
 					contentTypeEnum,
+					callOptions,
 				);
 
 			case 'repos':
@@ -101,6 +108,7 @@ async function search(
 					params.query,
 					params.limit,
 					params.cursor,
+					callOptions,
 				);
 
 			case 'prs':
@@ -109,6 +117,7 @@ async function search(
 					return {
 						content:
 							'Error: Repository is required for pull request search.',
+						data: {},
 					};
 				}
 				return await handlePullRequestSearch(
@@ -117,12 +126,14 @@ async function search(
 					params.query,
 					params.limit,
 					params.cursor,
+					callOptions,
 				);
 
 			default:
 				methodLogger.warn(`Unknown search type: ${params.type}`);
 				return {
 					content: `Error: Unknown search type "${params.type}". Supported types are: code, content, repositories, pullrequests.`,
+					data: {},
 				};
 		}
 	} catch (error) {
@@ -7,6 +7,10 @@ import {
 } from '../utils/formatter.util.js';
 import path from 'path';
 import { getContentTypeDisplay } from '../utils/atlassian.util.js';
+import {
+	CodeSearchMatchOutputType,
+	ContentSearchMatchOutputType,
+} from '../tools/atlassian.search.types.js';
 
 /**
  * Try to guess the language from the file path
@@ -142,6 +146,37 @@ export function formatCodeSearchResults(searchResponse: {
 	return markdown;
 }
 
+/**
+ * Get a display title for a content search result
+ *
+ * @param result The content search result
+ * @returns Title, name or shortened summary of the result
+ */
+function getContentTitle(result: Record<string, unknown>): string {
+	if (result.title) {
+		return String(result.title);
+	}
+	if (result.name) {
+		return String(result.name);
+	}
+	if (result.summary) {
+		const summary = String(result.summary);
+		return summary.slice(0, 80) + (summary.length > 80 ? '...' : '');
+	}
+	return 'Untitled';
+}
+
+/**
+ * Get the best link for a content search result
+ *
+ * @param result The content search result
+ * @returns Web link if available, otherwise the API link, or an empty string
+ */
+function getContentLink(result: Record<string, unknown>): string {
+	const links = result.links as Record<string, { href?: string }> | undefined;
+	return links?.html?.href || links?.self?.href || '';
+}
+
 /**
  * Format content search results into markdown
  *
@@ -180,27 +215,8 @@ export function formatContentSearchResults(
 		// Try to determine the type from the result
 		const type = (typedResult.type as string) || 'Unknown';
 
-		// Try to get a title/name
-		let title = 'Untitled';
-		if (typedResult.title) {
-			title = String(typedResult.title);
-		} else if (typedResult.name) {
-			title = String(typedResult.name);
-		} else if (typedResult.summary) {
-			const summary = String(typedResult.summary);
-			title = summary.slice(0, 80) + (summary.length > 80 ? '...' : '');
-		}
-
-		// Try to get a link
-		let link = '';
-		const links = typedResult.links as
-			| Record<string, { href?: string }>
-			| undefined;
-		if (links?.html?.href) {
-			link = links.html.href;
-		} else if (links?.self?.href) {
-			link = links.self.href;
-		}
+		const title = getContentTitle(typedResult);
+		const link = getContentLink(typedResult);
 
 		markdown += '### ';
 		if (link) {
@@ -244,3 +260,45 @@ export function formatContentSearchResults(
 
 	return markdown;
 }
+
+/**
+ * Convert a code search result to the structured output of the search tool
+ *
+ * @param result The code search result
+ * @returns File match with its matching lines as plain text
+ */
+export function toCodeSearchMatchOutput(
+	result: CodeSearchResult,
+): CodeSearchMatchOutputType {
+	return {
+		path: result.file.path,
+		matchCount: result.content_match_count,
+		lines: result.content_matches.flatMap((contentMatch) =>
+			contentMatch.lines.map((line) => ({
+				line: line.line,
+				text: line.segments.map((segment) => segment.text).join(''),
+			})),
+		),
+		url: result.file.links?.self?.href,
+	};
+}
+
+/**
+ * Convert a content search result to the structured output of the search tool
+ *
+ * @param result The content search result
+ * @returns Content match with its title and link
+ */
+export function toContentSearchMatchOutput(
+	result: Record<string, unknown>,
+): ContentSearchMatchOutputType {
+	return {
+		type: typeof result.type === 'string' ? result.type : undefined,
+		title: getContentTitle(result),
+		url: getContentLink(result) || undefined,
+		updatedOn:
+			typeof result.updated_on === 'string'
+				? result.updated_on
+				: undefined,
+	};
+}
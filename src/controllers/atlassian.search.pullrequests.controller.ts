@@ -7,8 +7,13 @@ import {
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
-import { formatPullRequestsList } from './atlassian.pullrequests.formatter.js';
+import {
+	formatPullRequestsList,
+	toPullRequestOutput,
+} from './atlassian.pullrequests.formatter.js';
+import { SearchToolOutputType } from '../tools/atlassian.search.types.js';
 import { ListPullRequestsParams } from '../services/vendor.atlassian.pullrequests.types.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 /**
  * Handle search for pull requests (uses PR API with query filter)
@@ -19,7 +24,8 @@ export async function handlePullRequestSearch(
 	query?: string,
 	limit: number = DEFAULT_PAGE_SIZE,
 	cursor?: string,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<SearchToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.search.pullrequests.controller.ts',
 		'handlePullRequestSearch',
@@ -29,6 +35,7 @@ export async function handlePullRequestSearch(
 	if (!query) {
 		return {
 			content: 'Please provide a search query for pull request search.',
+			data: {},
 		};
 	}
 
@@ -48,7 +55,10 @@ export async function handlePullRequestSearch(
 
 		methodLogger.debug('Using PR search params:', params);
 
-		const prData = await atlassianPullRequestsService.list(params);
+		const prData = await atlassianPullRequestsService.list(
+			params,
+			callOptions,
+		);
 		methodLogger.debug(
 			`Search complete, found ${prData.values.length} matches`,
 		);
@@ -71,6 +81,12 @@ export async function handlePullRequestSearch(
 
 		return {
 			content: finalContent,
+			data: {
+				pullRequests: prData.values.map((pr) =>
+					toPullRequestOutput(pr),
+				),
+				pagination,
+			},
 		};
 	} catch (error) {
 		methodLogger.error('Error performing pull request search:', error);
@@ -6,9 +6,14 @@ import {
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
-import { formatRepositoriesList } from './atlassian.repositories.formatter.js';
+import {
+	formatRepositoriesList,
+	toRepositoryOutput,
+} from './atlassian.repositories.formatter.js';
+import { SearchToolOutputType } from '../tools/atlassian.search.types.js';
 import { RepositoriesResponse } from '../services/vendor.atlassian.repositories.types.js';
 import {
+	CallOptions,
 	fetchAtlassian,
 	getAtlassianCredentials,
 } from '../utils/transport.util.js';
@@ -22,7 +27,8 @@ export async function handleRepositorySearch(
 	query?: string,
 	limit: number = DEFAULT_PAGE_SIZE,
 	cursor?: string,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<SearchToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.search.repositories.controller.ts',
 		'handleRepositorySearch',
@@ -32,6 +38,7 @@ export async function handleRepositorySearch(
 	if (!query) {
 		return {
 			content: 'Please provide a search query for repository search.',
+			data: {},
 		};
 	}
 
@@ -67,6 +74,7 @@ export async function handleRepositorySearch(
 		const searchData = await fetchAtlassian<RepositoriesResponse>(
 			credentials,
 			path,
+			{ signal: callOptions.signal, timeout: 'search' },
 		);
 
 		methodLogger.debug(
@@ -94,6 +102,10 @@ export async function handleRepositorySearch(
 
 		return {
 			content: finalContent,
+			data: {
+				repositories: (searchData.values || []).map(toRepositoryOutput),
+				pagination,
+			},
 		};
 	} catch (searchError) {
 		methodLogger.error('Error performing repository search:', searchError);
@@ -1,22 +1,27 @@
 import atlassianWorkspacesService from '../services/vendor.atlassian.workspaces.service.js';
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import {
-	extractPaginationInfo,
-	PaginationType,
-} from '../utils/pagination.util.js';
+import { fetchPages } from '../utils/pagination.util.js';
 import { ControllerResponse } from '../types/common.types.js';
 import {
 	ListWorkspacesToolArgsType,
 	GetWorkspaceToolArgsType,
+	GetWorkspaceToolOutputType,
+	ListWorkspacesToolOutputType,
 } from '../tools/atlassian.workspaces.types.js';
 import {
 	formatWorkspacesList,
 	formatWorkspaceDetails,
+	toWorkspaceOutput,
 } from './atlassian.workspaces.formatter.js';
 import { ListWorkspacesParams } from '../services/vendor.atlassian.workspaces.types.js';
-import { DEFAULT_PAGE_SIZE, applyDefaults } from '../utils/defaults.util.js';
+import {
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_PAGE_SIZE,
+	applyDefaults,
+} from '../utils/defaults.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 
 // Create a contextualized logger for this file
 const controllerLogger = Logger.forContext(
@@ -36,11 +41,13 @@ controllerLogger.debug('Bitbucket workspaces controller initialized');
  * @param options - Options for listing workspaces
  * @param options.limit - Maximum number of workspaces to return
  * @param options.cursor - Pagination cursor for retrieving the next set of results
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted workspace list content including pagination information
  */
 async function list(
 	options: ListWorkspacesToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<ListWorkspacesToolOutputType>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.workspaces.controller.ts',
 		'list',
@@ -61,29 +68,33 @@ async function list(
 
 		// Map controller filters to service params
 		const serviceParams: ListWorkspacesParams = {
-			pagelen: mergedOptions.limit, // Default page length
-			page: mergedOptions.cursor
-				? parseInt(mergedOptions.cursor, 10)
-				: undefined, // Use cursor value for page
+			pagelen: mergedOptions.all
+				? ALL_PAGES_PAGE_SIZE
+				: mergedOptions.limit, // Default page length
 			// NOTE: Sort parameter is not included as the Bitbucket API's /2.0/user/permissions/workspaces
 			// endpoint does not support sorting on any field
 		};
 
 		methodLogger.debug('Using filters:', serviceParams);
 
-		const workspacesData =
-			await atlassianWorkspacesService.list(serviceParams);
+		// Fetch one page, or every page when requested (cursor is the page number)
+		const { data: workspacesData, pagination } = await fetchPages(
+			(cursor) =>
+				atlassianWorkspacesService.list(
+					{
+						...serviceParams,
+						page: cursor ? parseInt(cursor, 10) : undefined,
+					},
+					callOptions,
+				),
+			mergedOptions,
+			callOptions,
+		);
 
 		methodLogger.debug(
 			`Retrieved ${workspacesData.values?.length || 0} workspaces`,
 		);
 
-		// Extract pagination information using the utility
-		const pagination = extractPaginationInfo(
-			workspacesData,
-			PaginationType.PAGE,
-		);
-
 		// Format the workspaces data for display using the formatter
 		const formattedWorkspaces = formatWorkspacesList(workspacesData);
 
@@ -101,6 +112,12 @@ async function list(
 
 		return {
 			content: finalContent,
+			data: {
+				workspaces: (workspacesData.values || []).map((membership) =>
+					toWorkspaceOutput(membership.workspace, membership),
+				),
+				pagination,
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -117,12 +134,14 @@ async function list(
  * Get details of a specific Bitbucket workspace
  * @param identifier - Object containing the workspace slug
  * @param identifier.workspaceSlug - The slug of the workspace to retrieve
+ * @param callOptions - Call options (abort signal)
  * @returns Promise with formatted workspace details content
  * @throws Error if workspace retrieval fails
  */
 async function get(
 	identifier: GetWorkspaceToolArgsType,
-): Promise<ControllerResponse> {
+	callOptions: CallOptions = {},
+): Promise<ControllerResponse<GetWorkspaceToolOutputType>> {
 	const { workspaceSlug } = identifier;
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.workspaces.controller.ts',
@@ -134,8 +153,10 @@ async function get(
 	);
 
 	try {
-		const workspaceData =
-			await atlassianWorkspacesService.get(workspaceSlug);
+		const workspaceData = await atlassianWorkspacesService.get(
+			workspaceSlug,
+			callOptions,
+		);
 		methodLogger.debug(`Retrieved workspace: ${workspaceData.slug}`);
 
 		// Since membership info isn't directly available, we'll use the workspace data only
@@ -151,6 +172,7 @@ async function get(
 
 		return {
 			content: formattedWorkspace,
+			data: { workspace: toWorkspaceOutput(workspaceData) },
 		};
 	} catch (error) {
 		// Use the standardized error handler
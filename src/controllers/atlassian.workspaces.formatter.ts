@@ -11,6 +11,7 @@ import {
 	formatNumberedList,
 	formatDate,
 } from '../utils/formatter.util.js';
+import { WorkspaceOutputType } from '../tools/atlassian.workspaces.types.js';
 
 /**
  * Format a list of workspaces for display
@@ -158,3 +159,24 @@ export function formatWorkspaceDetails(
 
 	return lines.join('\n');
 }
+
+/**
+ * Convert a workspace to the structured output of the workspace tools
+ * @param workspace - Raw workspace data from the API
+ * @param membership - Optional membership information for the workspace
+ * @returns Workspace with stable field names
+ */
+export function toWorkspaceOutput(
+	workspace: WorkspaceDetailed,
+	membership?: WorkspaceMembership,
+): WorkspaceOutputType {
+	return {
+		slug: workspace.slug,
+		name: workspace.name,
+		uuid: workspace.uuid,
+		isPrivate: workspace.is_private,
+		createdOn: workspace.created_on,
+		url: workspace.links?.html?.href,
+		permission: membership?.permission,
+	};
+}
@@ -1,11 +1,30 @@
 #!/usr/bin/env node
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Logger } from './utils/logger.util.js';
 import { config } from './utils/config.util.js';
 import { VERSION, PACKAGE_NAME } from './utils/constants.util.js';
 import { runCli } from './cli/index.js';
+import { applyToolPolicy } from './utils/tool-policy.util.js';
+import { applyAuditContext } from './utils/audit.util.js';
+import { HttpSessionManager } from './utils/http-session.util.js';
+import {
+	Gauge,
+	applyToolMetrics,
+	registerMetric,
+	renderMetrics,
+} from './utils/metrics.util.js';
+import { checkReadiness, getLiveness } from './utils/health.util.js';
+import {
+	authenticateRequest,
+	getHttpAuthOptions,
+	getProtectedResourceMetadata,
+	getProtectedResourceMetadataUrl,
+	getSessionConfig,
+	isHttpAuthEnabled,
+	sendAuthChallenge,
+} from './utils/http-auth.util.js';
+import type { Server as HttpServer } from 'http';
 import type { Request, Response } from 'express';
 import express from 'express';
 import cors from 'cors';
@@ -16,6 +35,12 @@ import atlassianRepositories from './tools/atlassian.repositories.tool.js';
 import atlassianPullRequests from './tools/atlassian.pullrequests.tool.js';
 import atlassianSearch from './tools/atlassian.search.tool.js';
 import atlassianDiff from './tools/atlassian.diff.tool.js';
+import atlassianRateLimit from './tools/atlassian.ratelimit.tool.js';
+import atlassianAudit from './tools/atlassian.audit.tool.js';
+import atlassianRepositoriesResources from './resources/atlassian.repositories.resource.js';
+import atlassianPullRequestsResources from './resources/atlassian.pullrequests.resource.js';
+import atlassianPullRequestsPrompts from './prompts/atlassian.pullrequests.prompt.js';
+import atlassianRepositoriesPrompts from './prompts/atlassian.repositories.prompt.js';
 
 // Create a contextualized logger for this file
 const indexLogger = Logger.forContext('index.ts');
@@ -24,20 +49,68 @@ const indexLogger = Logger.forContext('index.ts');
 indexLogger.debug('Bitbucket MCP server module loaded');
 
 let serverInstance: McpServer | null = null;
-let transportInstance:
-	| StreamableHTTPServerTransport
-	| StdioServerTransport
-	| null = null;
+let transportInstance: StdioServerTransport | null = null;
+let sessionManager: HttpSessionManager | null = null;
+let httpServer: HttpServer | null = null;
+
+/**
+ * Create an MCP server with all tools, resources and prompts registered
+ *
+ * @returns The server, not yet connected to a transport
+ */
+function createServer(): McpServer {
+	const serverLogger = Logger.forContext('index.ts', 'createServer');
+
+	serverLogger.debug(`Initializing Bitbucket MCP server v${VERSION}`);
+	const server = new McpServer({
+		name: PACKAGE_NAME,
+		version: VERSION,
+	});
+
+	// Register the tools allowed by BITBUCKET_READ_ONLY and the
+	// BITBUCKET_TOOLS_INCLUDE / BITBUCKET_TOOLS_EXCLUDE lists; writes they
+	// make are recorded in the audit log under the tool name and every call
+	// is counted in the metrics
+	serverLogger.debug('Registering MCP tools...');
+	const toolServer = applyAuditContext(
+		applyToolMetrics(applyToolPolicy(server)),
+	);
+	atlassianWorkspaces.registerTools(toolServer);
+	atlassianRepositories.registerTools(toolServer);
+	atlassianPullRequests.registerTools(toolServer);
+	atlassianSearch.registerTools(toolServer);
+	atlassianDiff.registerTools(toolServer);
+	atlassianRateLimit.registerTools(toolServer);
+	atlassianAudit.registerTools(toolServer);
+	serverLogger.debug('All tools registered successfully');
+
+	// Register the resources (repositories, pull requests and files)
+	serverLogger.debug('Registering MCP resources...');
+	atlassianRepositoriesResources.registerResources(server);
+	atlassianPullRequestsResources.registerResources(server);
+	serverLogger.debug('All resources registered successfully');
+
+	// Register the prompts for common workflows
+	serverLogger.debug('Registering MCP prompts...');
+	atlassianPullRequestsPrompts.registerPrompts(server);
+	atlassianRepositoriesPrompts.registerPrompts(server);
+	serverLogger.debug('All prompts registered successfully');
+
+	return server;
+}
 
 /**
  * Start the MCP server with the specified transport mode
  *
+ * In stdio mode a single server serves the one client. In http mode each
+ * client session gets its own server and transport (see HttpSessionManager).
+ *
  * @param mode The transport mode to use (stdio or http)
- * @returns Promise that resolves to the server instance when started successfully
+ * @returns Promise that resolves when the server is ready for clients
  */
 export async function startServer(
 	mode: 'stdio' | 'http' = 'stdio',
-): Promise<McpServer> {
+): Promise<void> {
 	const serverLogger = Logger.forContext('index.ts', 'startServer');
 
 	// Load configuration
@@ -49,23 +122,11 @@ export async function startServer(
 	}
 
 	serverLogger.info(`Initializing Bitbucket MCP server v${VERSION}`);
-	serverInstance = new McpServer({
-		name: PACKAGE_NAME,
-		version: VERSION,
-	});
-
-	// Register all tools
-	serverLogger.info('Registering MCP tools...');
-	atlassianWorkspaces.registerTools(serverInstance);
-	atlassianRepositories.registerTools(serverInstance);
-	atlassianPullRequests.registerTools(serverInstance);
-	atlassianSearch.registerTools(serverInstance);
-	atlassianDiff.registerTools(serverInstance);
-	serverLogger.info('All tools registered successfully');
 
 	if (mode === 'stdio') {
 		// STDIO Transport
 		serverLogger.info('Using STDIO transport for MCP communication');
+		serverInstance = createServer();
 		transportInstance = new StdioServerTransport();
 
 		try {
@@ -74,7 +135,6 @@ export async function startServer(
 				'MCP server started successfully on STDIO transport',
 			);
 			setupGracefulShutdown();
-			return serverInstance;
 		} catch (err) {
 			serverLogger.error(
 				'Failed to start server on STDIO transport',
@@ -88,34 +148,80 @@ export async function startServer(
 			'Using Streamable HTTP transport for MCP communication',
 		);
 
-		const app = express();
-		app.use(cors());
-		app.use(express.json());
-
+		const PORT = Number(process.env.PORT ?? 3000);
 		const mcpEndpoint = '/mcp';
 		serverLogger.debug(`MCP endpoint: ${mcpEndpoint}`);
 
-		// Create transport instance
-		const transport = new StreamableHTTPServerTransport({
-			sessionIdGenerator: undefined,
-		});
+		// Browsers may call the endpoint only from MCP_CORS_ORIGINS (any
+		// origin when unset)
+		const corsOrigins = (config.get('MCP_CORS_ORIGINS') || '')
+			.split(',')
+			.map((origin) => origin.trim())
+			.filter(Boolean);
 
-		// Connect server to transport
-		await serverInstance.connect(transport);
-		transportInstance = transport;
+		const app = express();
+		app.use(
+			cors({
+				origin: corsOrigins.length > 0 ? corsOrigins : '*',
+				exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'],
+			}),
+		);
+		app.use(express.json());
 
-		// Handle all MCP requests
+		// Bearer tokens from MCP_AUTH_TOKENS or an OAuth authorization server
+		// (MCP_AUTH_INTROSPECTION_URL) protect the endpoint when configured
+		const authOptions = getHttpAuthOptions(PORT);
+		if (isHttpAuthEnabled(authOptions)) {
+			const metadataPath = new URL(
+				getProtectedResourceMetadataUrl(authOptions),
+			).pathname;
+			app.get(metadataPath, (_req: Request, res: Response) => {
+				res.json(getProtectedResourceMetadata(authOptions));
+			});
+			serverLogger.info(
+				`Requests to ${mcpEndpoint} require a bearer token`,
+			);
+		} else {
+			serverLogger.warn(
+				`${mcpEndpoint} is not protected; set MCP_AUTH_TOKENS or MCP_AUTH_INTROSPECTION_URL before exposing it beyond this machine`,
+			);
+		}
+
+		// One transport and server per client session, limited by
+		// MCP_MAX_SESSIONS and closed after MCP_SESSION_IDLE_TIMEOUT_SECONDS
+		const sessions = new HttpSessionManager(createServer);
+		sessionManager = sessions;
+		registerMetric(
+			new Gauge(
+				'bitbucket_mcp_http_sessions',
+				'Open MCP client sessions.',
+				() => sessions.size,
+			),
+		);
+
+		// Handle all MCP requests (POST messages, GET streams, DELETE). Each
+		// session may bring its own Bitbucket credentials in X-Bitbucket-*
+		// headers when it is opened
+		const handleMcpRequest = async (req: Request, res: Response) => {
+			const auth = await authenticateRequest(req, authOptions);
+			if (!auth.ok) {
+				sendAuthChallenge(res, authOptions, auth);
+				return;
+			}
+			await sessions.handleRequest(req, res, req.body, {
+				principal: auth.principal,
+				config: getSessionConfig(req),
+			});
+		};
 		app.all(mcpEndpoint, (req: Request, res: Response) => {
-			transport
-				.handleRequest(req, res, req.body)
-				.catch((err: unknown) => {
-					serverLogger.error('Error in transport.handleRequest', err);
-					if (!res.headersSent) {
-						res.status(500).json({
-							error: 'Internal Server Error',
-						});
-					}
-				});
+			handleMcpRequest(req, res).catch((err: unknown) => {
+				serverLogger.error('Error handling MCP request', err);
+				if (!res.headersSent) {
+					res.status(500).json({
+						error: 'Internal Server Error',
+					});
+				}
+			});
 		});
 
 		// Health check endpoint
@@ -123,10 +229,30 @@ export async function startServer(
 			res.send(`Bitbucket MCP Server v${VERSION} is running`);
 		});
 
+		// Liveness, readiness (the configured credentials work) and
+		// Prometheus metrics for orchestrators and monitoring
+		app.get('/healthz', (_req: Request, res: Response) => {
+			res.json(getLiveness({ sessions: sessions.size }));
+		});
+		app.get('/readyz', (_req: Request, res: Response) => {
+			checkReadiness()
+				.then((readiness) => {
+					res.status(readiness.status === 'ready' ? 200 : 503).json(
+						readiness,
+					);
+				})
+				.catch((err: unknown) => {
+					serverLogger.error('Error checking readiness', err);
+					res.status(503).json({ status: 'unavailable' });
+				});
+		});
+		app.get('/metrics', (_req: Request, res: Response) => {
+			res.type('text/plain; version=0.0.4').send(renderMetrics());
+		});
+
 		// Start HTTP server
-		const PORT = Number(process.env.PORT ?? 3000);
 		await new Promise<void>((resolve) => {
-			app.listen(PORT, () => {
+			httpServer = app.listen(PORT, () => {
 				serverLogger.info(
 					`HTTP transport listening on http://localhost:${PORT}${mcpEndpoint}`,
 				);
@@ -135,7 +261,6 @@ export async function startServer(
 		});
 
 		setupGracefulShutdown();
-		return serverInstance;
 	}
 }
 
@@ -187,18 +312,22 @@ function setupGracefulShutdown() {
 		try {
 			shutdownLogger.info('Shutting down gracefully...');
 
-			if (
-				transportInstance &&
-				'close' in transportInstance &&
-				typeof transportInstance.close === 'function'
-			) {
+			if (transportInstance) {
 				await transportInstance.close();
 			}
 
-			if (serverInstance && typeof serverInstance.close === 'function') {
+			if (serverInstance) {
 				await serverInstance.close();
 			}
 
+			if (sessionManager) {
+				await sessionManager.closeAll();
+			}
+
+			if (httpServer) {
+				httpServer.close();
+			}
+
 			process.exit(0);
 		} catch (err) {
 			shutdownLogger.error('Error during shutdown', err);
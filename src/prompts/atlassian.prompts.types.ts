@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { ProfileArgs } from '../tools/atlassian.common.types.js';
+
+/**
+ * Arguments identifying a repository, shared by all prompts.
+ * Prompt arguments are always strings.
+ */
+const RepositoryPromptArgs = {
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace. Example: "myteam"',
+		),
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe('Repository slug. Example: "project-api"'),
+};
+
+/**
+ * Arguments for the pull request prompts (review-pr, summarize-pr-comments)
+ */
+export const PullRequestPromptArgs = {
+	...RepositoryPromptArgs,
+	prId: z
+		.string()
+		.min(1, 'Pull request ID is required')
+		.describe('Numeric ID of the pull request. Example: "42"'),
+	...ProfileArgs,
+};
+
+export type PullRequestPromptArgsType = z.infer<
+	z.ZodObject<typeof PullRequestPromptArgs>
+>;
+
+/**
+ * Arguments for the release-notes prompt
+ */
+export const ReleaseNotesPromptArgs = {
+	...RepositoryPromptArgs,
+	fromRef: z
+		.string()
+		.min(1, 'Starting ref is required')
+		.describe(
+			'Tag, branch or commit of the previous release (excluded). Example: "v1.2.0"',
+		),
+	toRef: z
+		.string()
+		.min(1, 'Ending ref is required')
+		.describe(
+			'Tag, branch or commit of the new release (included). Example: "v1.3.0"',
+		),
+	...ProfileArgs,
+};
+
+export type ReleaseNotesPromptArgsType = z.infer<
+	z.ZodObject<typeof ReleaseNotesPromptArgs>
+>;
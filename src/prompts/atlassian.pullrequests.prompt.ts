@@ -0,0 +1,152 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { buildPrompt } from '../utils/prompt.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import {
+	PullRequestPromptArgs,
+	PullRequestPromptArgsType,
+} from './atlassian.prompts.types.js';
+import atlassianPullRequestsController from '../controllers/atlassian.pullrequests.controller.js';
+
+// Create a contextualized logger for this file
+const promptLogger = Logger.forContext(
+	'prompts/atlassian.pullrequests.prompt.ts',
+);
+
+// Log prompt initialization
+promptLogger.debug('Bitbucket pull requests prompts initialized');
+
+/**
+ * Controller options identifying the pull request of a prompt
+ */
+function toPullRequestOptions(args: PullRequestPromptArgsType) {
+	return {
+		workspaceSlug: args.workspaceSlug,
+		repoSlug: args.repoSlug,
+		prId: args.prId,
+		includeFullDiff: false,
+		includeComments: false,
+	};
+}
+
+/**
+ * Build the review-pr prompt from the pull request details and its diff
+ * @param args - Prompt arguments identifying the pull request
+ * @param callOptions - Call options (abort signal)
+ * @returns Prompt messages
+ */
+async function reviewPullRequest(
+	args: PullRequestPromptArgsType,
+	callOptions: CallOptions,
+) {
+	const methodLogger = promptLogger.forMethod('reviewPullRequest');
+	methodLogger.debug(`Assembling review of PR ${args.repoSlug}#${args.prId}`);
+
+	const options = toPullRequestOptions(args);
+	const details = await atlassianPullRequestsController.get(
+		options,
+		callOptions,
+	);
+	const diff = await atlassianPullRequestsController.getDiff(
+		options,
+		callOptions,
+	);
+
+	return buildPrompt(
+		`Review of pull request #${args.prId} in ${args.repoSlug}`,
+		[
+			`Review pull request #${args.prId} in the "${args.repoSlug}" repository. Its details and diff are below.`,
+			'',
+			'- Summarise what the change does and whether it matches the description.',
+			'- Point out bugs, security issues, missing tests and unclear code, citing file and line.',
+			'- Separate blocking issues from suggestions, and finish with a recommendation: approve, or request changes.',
+		].join('\n'),
+		[
+			{ title: 'Pull Request', body: details.content },
+			{ title: 'Diff', body: diff.content, language: 'diff' },
+		],
+	);
+}
+
+/**
+ * Build the summarize-pr-comments prompt from the pull request details and
+ * its unresolved comment threads
+ * @param args - Prompt arguments identifying the pull request
+ * @param callOptions - Call options (abort signal)
+ * @returns Prompt messages
+ */
+async function summarizeComments(
+	args: PullRequestPromptArgsType,
+	callOptions: CallOptions,
+) {
+	const methodLogger = promptLogger.forMethod('summarizeComments');
+	methodLogger.debug(
+		`Assembling comment summary of PR ${args.repoSlug}#${args.prId}`,
+	);
+
+	const details = await atlassianPullRequestsController.get(
+		toPullRequestOptions(args),
+		callOptions,
+	);
+	const comments = await atlassianPullRequestsController.listComments(
+		{
+			workspaceSlug: args.workspaceSlug,
+			repoSlug: args.repoSlug,
+			prId: args.prId,
+			all: true,
+			unresolvedOnly: true,
+		},
+		callOptions,
+	);
+
+	return buildPrompt(
+		`Unresolved comments on pull request #${args.prId} in ${args.repoSlug}`,
+		[
+			`Summarise the discussion on pull request #${args.prId} in the "${args.repoSlug}" repository. Its details and unresolved comment threads are below; resolved threads are left out.`,
+			'',
+			'- List the threads that are still open: questions without an answer and requested changes that the replies do not show as done.',
+			'- For each, give the file and line (for inline comments), who raised it, and what is needed to resolve it.',
+			'- Finish with a short list of next steps for the author.',
+		].join('\n'),
+		[
+			{ title: 'Pull Request', body: details.content },
+			{ title: 'Comments', body: comments.content },
+		],
+	);
+}
+
+/**
+ * Register the Bitbucket pull request prompts with the MCP server.
+ */
+function registerPrompts(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'prompts/atlassian.pullrequests.prompt.ts',
+		'registerPrompts',
+	);
+	registerLogger.debug('Registering Pull Request prompts...');
+
+	server.prompt(
+		'review-pr',
+		'Review a Bitbucket pull request. Loads the pull request details and its full diff, and asks for a code review with a recommendation.',
+		PullRequestPromptArgs,
+		(args, { signal }) =>
+			config.runWithProfile(args.profile, () =>
+				reviewPullRequest(args, { signal }),
+			),
+	);
+
+	server.prompt(
+		'summarize-pr-comments',
+		'Summarise the unresolved discussion on a Bitbucket pull request. Loads the pull request details and every comment thread that has not been resolved.',
+		PullRequestPromptArgs,
+		(args, { signal }) =>
+			config.runWithProfile(args.profile, () =>
+				summarizeComments(args, { signal }),
+			),
+	);
+
+	registerLogger.debug('Successfully registered Pull Request prompts');
+}
+
+export default { registerPrompts };
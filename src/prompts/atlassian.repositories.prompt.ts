@@ -0,0 +1,99 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { buildPrompt } from '../utils/prompt.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import {
+	ReleaseNotesPromptArgs,
+	ReleaseNotesPromptArgsType,
+} from './atlassian.prompts.types.js';
+import { handleCommitHistory } from '../controllers/atlassian.repositories.commit.controller.js';
+import atlassianDiffController from '../controllers/atlassian.diff.controller.js';
+
+// Create a contextualized logger for this file
+const promptLogger = Logger.forContext(
+	'prompts/atlassian.repositories.prompt.ts',
+);
+
+// Log prompt initialization
+promptLogger.debug('Bitbucket repositories prompts initialized');
+
+/**
+ * Build the release-notes prompt from the commits between two refs and the
+ * files they changed
+ * @param args - Prompt arguments identifying the repository and refs
+ * @param callOptions - Call options (abort signal)
+ * @returns Prompt messages
+ */
+async function releaseNotes(
+	args: ReleaseNotesPromptArgsType,
+	callOptions: CallOptions,
+) {
+	const methodLogger = promptLogger.forMethod('releaseNotes');
+	methodLogger.debug(
+		`Assembling release notes for ${args.repoSlug} ${args.fromRef}..${args.toRef}`,
+	);
+
+	const commits = await handleCommitHistory(
+		{
+			workspaceSlug: args.workspaceSlug,
+			repoSlug: args.repoSlug,
+			revision: args.toRef,
+			excludeRevision: args.fromRef,
+			all: true,
+		},
+		callOptions,
+	);
+	// The diff controller expects the newer ref first
+	const changes = await atlassianDiffController.commitDiff(
+		{
+			workspaceSlug: args.workspaceSlug,
+			repoSlug: args.repoSlug,
+			sinceCommit: args.toRef,
+			untilCommit: args.fromRef,
+			includeFullDiff: false,
+			all: true,
+		},
+		callOptions,
+	);
+
+	return buildPrompt(
+		`Release notes for ${args.repoSlug} from ${args.fromRef} to ${args.toRef}`,
+		[
+			`Write release notes for the "${args.repoSlug}" repository covering the changes from ${args.fromRef} to ${args.toRef}. The commits and changed files are below.`,
+			'',
+			'- Group the changes under Features, Fixes and Other, and lead with anything that breaks compatibility.',
+			'- Describe each change in one line, as users will see it; merge commits that belong to the same change.',
+			'- Leave out merge commits, version bumps and changes with no visible effect.',
+		].join('\n'),
+		[
+			{ title: 'Commits', body: commits.content },
+			{ title: 'Changed Files', body: changes.content },
+		],
+	);
+}
+
+/**
+ * Register the Bitbucket repository prompts with the MCP server.
+ */
+function registerPrompts(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'prompts/atlassian.repositories.prompt.ts',
+		'registerPrompts',
+	);
+	registerLogger.debug('Registering Repository prompts...');
+
+	server.prompt(
+		'release-notes',
+		'Write release notes between two tags, branches or commits. Loads the commits in the range and the files they changed.',
+		ReleaseNotesPromptArgs,
+		(args, { signal }) =>
+			config.runWithProfile(args.profile, () =>
+				releaseNotes(args, { signal }),
+			),
+	);
+
+	registerLogger.debug('Successfully registered Repository prompts');
+}
+
+export default { registerPrompts };
@@ -0,0 +1,86 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	RESOURCE_SCHEME,
+	getUriVariable,
+	textResource,
+} from '../utils/resource.util.js';
+import atlassianPullRequestsController from '../controllers/atlassian.pullrequests.controller.js';
+
+// Create a contextualized logger for this file
+const resourceLogger = Logger.forContext(
+	'resources/atlassian.pullrequests.resource.ts',
+);
+
+// Log resource initialization
+resourceLogger.debug('Bitbucket pull requests resources initialized');
+
+/**
+ * Register the Bitbucket pull request resources with the MCP server.
+ * Pull requests are not listed; clients read them by URI.
+ */
+function registerResources(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'resources/atlassian.pullrequests.resource.ts',
+		'registerResources',
+	);
+	registerLogger.debug('Registering Pull Request resources...');
+
+	server.resource(
+		'pull-request',
+		new ResourceTemplate(
+			`${RESOURCE_SCHEME}://{workspace}/{repo}/pr/{id}`,
+			{ list: undefined },
+		),
+		{
+			description:
+				'Details of a Bitbucket pull request: title, state, branches, reviewers and description. The diff is available at .../pr/{id}/diff.',
+			mimeType: 'text/markdown',
+		},
+		async (uri, variables, { signal }) => {
+			const result = await atlassianPullRequestsController.get(
+				{
+					workspaceSlug: getUriVariable(variables, 'workspace'),
+					repoSlug: getUriVariable(variables, 'repo'),
+					prId: getUriVariable(variables, 'id'),
+					includeFullDiff: false,
+					includeComments: false,
+				},
+				{ signal },
+			);
+			return textResource(uri, result.content);
+		},
+	);
+
+	server.resource(
+		'pull-request-diff',
+		new ResourceTemplate(
+			`${RESOURCE_SCHEME}://{workspace}/{repo}/pr/{id}/diff`,
+			{ list: undefined },
+		),
+		{
+			description: 'Unified diff of a Bitbucket pull request.',
+			mimeType: 'text/x-diff',
+		},
+		async (uri, variables, { signal }) => {
+			const result = await atlassianPullRequestsController.getDiff(
+				{
+					workspaceSlug: getUriVariable(variables, 'workspace'),
+					repoSlug: getUriVariable(variables, 'repo'),
+					prId: getUriVariable(variables, 'id'),
+					includeFullDiff: true,
+					includeComments: false,
+				},
+				{ signal },
+			);
+			return textResource(uri, result.content, 'text/x-diff');
+		},
+	);
+
+	registerLogger.debug('Successfully registered Pull Request resources');
+}
+
+export default { registerResources };
@@ -0,0 +1,207 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import {
+	ALL_PAGES_PAGE_SIZE,
+	DEFAULT_MAX_ITEMS,
+} from '../utils/defaults.util.js';
+import { fetchPages } from '../utils/pagination.util.js';
+import {
+	RESOURCE_SCHEME,
+	buildResourceUri,
+	getUriVariable,
+	textResource,
+} from '../utils/resource.util.js';
+import atlassianWorkspacesService from '../services/vendor.atlassian.workspaces.service.js';
+import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
+import { handleRepositoryDetails } from '../controllers/atlassian.repositories.details.controller.js';
+import { handleGetFileContent } from '../controllers/atlassian.repositories.content.controller.js';
+
+// Create a contextualized logger for this file
+const resourceLogger = Logger.forContext(
+	'resources/atlassian.repositories.resource.ts',
+);
+
+// Log resource initialization
+resourceLogger.debug('Bitbucket repositories resources initialized');
+
+/**
+ * Fetch up to `maxItems` workspace slugs, following pages
+ */
+async function listWorkspaceSlugs(
+	maxItems: number,
+	callOptions: CallOptions,
+): Promise<string[]> {
+	const { data } = await fetchPages(
+		(cursor) =>
+			atlassianWorkspacesService.list(
+				{
+					pagelen: ALL_PAGES_PAGE_SIZE,
+					page: cursor ? parseInt(cursor, 10) : undefined,
+				},
+				callOptions,
+			),
+		{ all: true, maxItems },
+	);
+	return data.values.map((membership) => membership.workspace.slug);
+}
+
+/**
+ * Fetch up to `maxItems` repositories of a workspace, following pages
+ */
+async function listRepositories(
+	workspace: string,
+	maxItems: number,
+	callOptions: CallOptions,
+) {
+	const { data } = await fetchPages(
+		(cursor) =>
+			atlassianRepositoriesService.list(
+				{
+					workspace,
+					pagelen: ALL_PAGES_PAGE_SIZE,
+					page: cursor ? parseInt(cursor, 10) : undefined,
+				},
+				callOptions,
+			),
+		{ all: true, maxItems },
+	);
+	return data.values;
+}
+
+/**
+ * List a resource for every repository the credentials can see, paging
+ * through workspaces and their repositories. Stops after DEFAULT_MAX_ITEMS
+ * repositories.
+ * @param callOptions - Call options (abort signal)
+ * @returns Repository resources
+ */
+async function listRepositoryResources(
+	callOptions: CallOptions,
+): Promise<{ resources: Resource[] }> {
+	const methodLogger = resourceLogger.forMethod('listRepositoryResources');
+	const resources: Resource[] = [];
+
+	for (const workspace of await listWorkspaceSlugs(
+		DEFAULT_MAX_ITEMS,
+		callOptions,
+	)) {
+		const room = DEFAULT_MAX_ITEMS - resources.length;
+		if (room <= 0) {
+			methodLogger.debug(
+				`Stopped listing at ${DEFAULT_MAX_ITEMS} repositories`,
+			);
+			break;
+		}
+		for (const repo of await listRepositories(
+			workspace,
+			room,
+			callOptions,
+		)) {
+			const [, repoSlug = repo.name] = repo.full_name.split('/');
+			resources.push({
+				uri: buildResourceUri(workspace, repoSlug),
+				name: repo.full_name,
+				description: repo.description || undefined,
+				mimeType: 'text/markdown',
+			});
+		}
+	}
+
+	methodLogger.debug(`Listed ${resources.length} repository resources`);
+	return { resources };
+}
+
+/**
+ * Complete a workspace slug from the workspaces the credentials can see
+ */
+async function completeWorkspace(value: string): Promise<string[]> {
+	const slugs = await listWorkspaceSlugs(ALL_PAGES_PAGE_SIZE, {});
+	return slugs.filter((slug) => slug.startsWith(value));
+}
+
+/**
+ * Complete a repository slug within the workspace given so far
+ */
+async function completeRepo(
+	value: string,
+	context?: { arguments?: Record<string, string> },
+): Promise<string[]> {
+	const workspace = context?.arguments?.workspace;
+	if (!workspace) {
+		return [];
+	}
+	const repos = await listRepositories(workspace, ALL_PAGES_PAGE_SIZE, {});
+	return repos
+		.map((repo) => repo.full_name.split('/')[1] ?? repo.name)
+		.filter((slug) => slug.startsWith(value));
+}
+
+/**
+ * Register the Bitbucket repository resources with the MCP server.
+ */
+function registerResources(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'resources/atlassian.repositories.resource.ts',
+		'registerResources',
+	);
+	registerLogger.debug('Registering Repository resources...');
+
+	const complete = { workspace: completeWorkspace, repo: completeRepo };
+
+	server.resource(
+		'repository',
+		new ResourceTemplate(`${RESOURCE_SCHEME}://{workspace}/{repo}`, {
+			list: ({ signal }) => listRepositoryResources({ signal }),
+			complete,
+		}),
+		{
+			description:
+				'Details of a Bitbucket repository: description, language, default branch and links. Use the workspace slug (or Data Center project key) and repository slug.',
+			mimeType: 'text/markdown',
+		},
+		async (uri, variables, { signal }) => {
+			const result = await handleRepositoryDetails(
+				{
+					workspaceSlug: getUriVariable(variables, 'workspace'),
+					repoSlug: getUriVariable(variables, 'repo'),
+				},
+				{ signal },
+			);
+			return textResource(uri, result.content);
+		},
+	);
+
+	server.resource(
+		'file',
+		new ResourceTemplate(
+			`${RESOURCE_SCHEME}://{workspace}/{repo}/src/{ref}/{+path}`,
+			{ list: undefined, complete },
+		),
+		{
+			description:
+				'Content of a file in a Bitbucket repository at a branch, tag or commit. URL-encode slashes in the ref (e.g. feature%2Flogin).',
+			mimeType: 'text/plain',
+		},
+		async (uri, variables, { signal }) => {
+			const result = await handleGetFileContent(
+				{
+					workspaceSlug: getUriVariable(variables, 'workspace'),
+					repoSlug: getUriVariable(variables, 'repo'),
+					ref: getUriVariable(variables, 'ref'),
+					path: getUriVariable(variables, 'path'),
+				},
+				{ signal },
+			);
+			return textResource(uri, result.content, 'text/plain');
+		},
+	);
+
+	registerLogger.debug('Successfully registered Repository resources');
+}
+
+export default { registerResources };
@@ -1,9 +1,22 @@
-import { createAuthMissingError } from '../utils/error.util.js';
+import {
+	createApiError,
+	createAuthMissingError,
+	createTimeoutError,
+} from '../utils/error.util.js';
 import { Logger } from '../utils/logger.util.js';
 import {
+	AtlassianCredentials,
+	CallOptions,
 	fetchAtlassian,
 	getAtlassianCredentials,
+	getBitbucketBaseUrl,
+	isBitbucketServer,
 } from '../utils/transport.util.js';
+import { getRequestTimeout } from '../utils/timeout.util.js';
+import { sleep } from '../utils/retry.util.js';
+import { reportProgress } from '../utils/progress.util.js';
+import { escapeBbqlString } from '../utils/query.util.js';
+import serverService from './vendor.atlassian.server.service.js';
 import {
 	PullRequestDetailed,
 	PullRequestsResponse,
@@ -13,12 +26,29 @@ import {
 	PullRequestCommentsResponse,
 	PullRequestComment,
 	CreatePullRequestCommentParams,
+	PullRequestCommentParams,
+	UpdatePullRequestCommentParams,
+	PullRequestCommentResolution,
 	CreatePullRequestParams,
 	UpdatePullRequestParams,
 	ApprovePullRequestParams,
 	RejectPullRequestParams,
+	DeclinePullRequestParams,
+	MergePullRequestParams,
+	MergeTaskStatus,
 	PullRequestParticipant,
 	DiffstatResponse,
+	ListPullRequestTasksParams,
+	PullRequestTasksResponse,
+	PullRequestTask,
+	CreatePullRequestTaskParams,
+	UpdatePullRequestTaskParams,
+	PullRequestTaskParams,
+	PullRequestUser,
+	ResolveUserParams,
+	GetDefaultReviewersParams,
+	DefaultReviewersResponse,
+	WorkspaceMembersResponse,
 } from './vendor.atlassian.pullrequests.types.js';
 
 /**
@@ -28,6 +58,12 @@ import {
  */
 const API_PATH = '/2.0';
 
+/**
+ * Delay between checks of an asynchronous merge
+ * @constant {number}
+ */
+const MERGE_POLL_INTERVAL_MS = 2000;
+
 /**
  * @namespace VendorAtlassianPullRequestsService
  * @description Service for interacting with Bitbucket Pull Requests API.
@@ -43,6 +79,17 @@ const serviceLogger = Logger.forContext(
 // Log service initialization
 serviceLogger.debug('Bitbucket pull requests service initialized');
 
+/**
+ * Reference a reviewer in a request body by UUID, or by account ID when
+ * the UUID is not known
+ */
+function toReviewerRef(user: PullRequestUser): {
+	uuid?: string;
+	account_id?: string;
+} {
+	return user.uuid ? { uuid: user.uuid } : { account_id: user.account_id };
+}
+
 /**
  * List pull requests for a repository
  * @param {ListPullRequestsParams} params - Parameters for the request
@@ -53,6 +100,7 @@ serviceLogger.debug('Bitbucket pull requests service initialized');
  * @param {string} [params.sort] - Property to sort by (e.g., 'created_on', '-updated_on')
  * @param {number} [params.page] - Page number for pagination
  * @param {number} [params.pagelen] - Number of items per page
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestsResponse>} Response containing pull requests
  * @example
  * ```typescript
@@ -67,6 +115,7 @@ serviceLogger.debug('Bitbucket pull requests service initialized');
  */
 async function list(
 	params: ListPullRequestsParams,
+	options: CallOptions = {},
 ): Promise<PullRequestsResponse> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -85,6 +134,10 @@ async function list(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.listPullRequests(credentials, params, options);
+	}
+
 	// Construct query parameters
 	const queryParams = new URLSearchParams();
 
@@ -120,7 +173,9 @@ async function list(
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests${queryString}`;
 
 	methodLogger.debug(`Sending request to: ${path}`);
-	return fetchAtlassian<PullRequestsResponse>(credentials, path);
+	return fetchAtlassian<PullRequestsResponse>(credentials, path, {
+		signal: options.signal,
+	});
 }
 
 /**
@@ -134,6 +189,7 @@ async function list(
  * @param {string} params.workspace - The workspace slug or UUID
  * @param {string} params.repo_slug - The repository slug or UUID
  * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestDetailed>} Promise containing the detailed pull request information
  * @throws {Error} If Atlassian credentials are missing or API request fails
  * @example
@@ -144,7 +200,10 @@ async function list(
  *   pull_request_id: 123
  * });
  */
-async function get(params: GetPullRequestParams): Promise<PullRequestDetailed> {
+async function get(
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestDetailed> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
 		'get',
@@ -174,10 +233,16 @@ async function get(params: GetPullRequestParams): Promise<PullRequestDetailed> {
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.getPullRequest(credentials, params, options);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}`;
 
 	methodLogger.debug(`Sending request to: ${path}`);
-	return fetchAtlassian<PullRequestDetailed>(credentials, path);
+	return fetchAtlassian<PullRequestDetailed>(credentials, path, {
+		signal: options.signal,
+	});
 }
 
 /**
@@ -194,6 +259,7 @@ async function get(params: GetPullRequestParams): Promise<PullRequestDetailed> {
  * @param {number} params.pull_request_id - The ID of the pull request
  * @param {number} [params.page] - Page number for pagination
  * @param {number} [params.pagelen] - Number of items per page
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestCommentsResponse>} Promise containing the pull request comments
  * @throws {Error} If Atlassian credentials are missing or API request fails
  * @example
@@ -207,6 +273,7 @@ async function get(params: GetPullRequestParams): Promise<PullRequestDetailed> {
  */
 async function getComments(
 	params: GetPullRequestCommentsParams,
+	options: CallOptions = {},
 ): Promise<PullRequestCommentsResponse> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -237,6 +304,14 @@ async function getComments(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.getPullRequestComments(
+			credentials,
+			params,
+			options,
+		);
+	}
+
 	// Build query parameters
 	const queryParams = new URLSearchParams();
 
@@ -259,7 +334,9 @@ async function getComments(
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments${queryString}`;
 
 	methodLogger.debug(`Sending request to: ${path}`);
-	return fetchAtlassian<PullRequestCommentsResponse>(credentials, path);
+	return fetchAtlassian<PullRequestCommentsResponse>(credentials, path, {
+		signal: options.signal,
+	});
 }
 
 /**
@@ -279,6 +356,7 @@ async function getComments(
  * @param {Object} [params.inline] - Optional inline comment location
  * @param {string} params.inline.path - The file path for the inline comment
  * @param {number} params.inline.to - The line number in the file
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestComment>} Promise containing the created comment
  * @throws {Error} If Atlassian credentials are missing or API request fails
  * @example
@@ -301,6 +379,7 @@ async function getComments(
  */
 async function createComment(
 	params: CreatePullRequestCommentParams,
+	options: CallOptions = {},
 ): Promise<PullRequestComment> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -327,6 +406,14 @@ async function createComment(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.createPullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments`;
 
 	methodLogger.debug(`Sending POST request to: ${path}`);
@@ -337,6 +424,315 @@ async function createComment(
 			inline: params.inline,
 			parent: params.parent,
 		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Get a single pull request comment
+ * @param {PullRequestCommentParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.comment_id - The ID of the comment
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestComment>} The comment, with its parent and thread resolution
+ */
+async function getComment(
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestComment> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'getComment',
+	);
+	methodLogger.debug(
+		`Getting comment ${params.comment_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.comment_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and comment_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.getPullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments/${params.comment_id}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<PullRequestComment>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * Edit the text of a pull request comment
+ * @param {UpdatePullRequestCommentParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.comment_id - The ID of the comment
+ * @param {Object} params.content - The new content of the comment
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestComment>} The updated comment
+ * @example
+ * ```typescript
+ * // Fix a typo in a comment
+ * const comment = await updateComment({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   comment_id: 456,
+ *   content: { raw: 'Consider using a constant here.' }
+ * });
+ * ```
+ */
+async function updateComment(
+	params: UpdatePullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestComment> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'updateComment',
+	);
+	methodLogger.debug(
+		`Updating comment ${params.comment_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.comment_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and comment_id parameters are all required',
+		);
+	}
+
+	if (!params.content || !params.content.raw) {
+		throw new Error('Comment content is required');
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.updatePullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments/${params.comment_id}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`);
+	return fetchAtlassian<PullRequestComment>(credentials, path, {
+		method: 'PUT',
+		body: { content: params.content },
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Delete a pull request comment
+ * @param {PullRequestCommentParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.comment_id - The ID of the comment to delete
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<void>} Resolves once the comment is deleted
+ */
+async function deleteComment(
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'deleteComment',
+	);
+	methodLogger.debug(
+		`Deleting comment ${params.comment_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.comment_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and comment_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		await serverService.deletePullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+		return;
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments/${params.comment_id}`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Resolve the thread started by a top-level pull request comment
+ * @param {PullRequestCommentParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.comment_id - The ID of the comment starting the thread
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestCommentResolution>} Who resolved the thread and when
+ */
+async function resolveComment(
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestCommentResolution> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'resolveComment',
+	);
+	methodLogger.debug(
+		`Resolving comment ${params.comment_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.comment_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and comment_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.resolvePullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments/${params.comment_id}/resolve`;
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	return fetchAtlassian<PullRequestCommentResolution>(credentials, path, {
+		method: 'POST',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Reopen a resolved comment thread
+ * @param {PullRequestCommentParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.comment_id - The ID of the comment starting the thread
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<void>} Resolves once the thread is open again
+ */
+async function reopenComment(
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'reopenComment',
+	);
+	methodLogger.debug(
+		`Reopening comment ${params.comment_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.comment_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and comment_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		await serverService.reopenPullRequestComment(
+			credentials,
+			params,
+			options,
+		);
+		return;
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/comments/${params.comment_id}/resolve`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
 	});
 }
 
@@ -350,6 +746,8 @@ async function createComment(
  * @param {string} params.destination.branch.name - Destination branch name (defaults to main/master)
  * @param {string} [params.description] - Optional description for the pull request
  * @param {boolean} [params.close_source_branch] - Whether to close the source branch after merge (default: false)
+ * @param {PullRequestUser[]} [params.reviewers] - Reviewers to request
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestDetailed>} Detailed information about the created pull request
  * @example
  * ```typescript
@@ -375,6 +773,7 @@ async function createComment(
  */
 async function create(
 	params: CreatePullRequestParams,
+	options: CallOptions = {},
 ): Promise<PullRequestDetailed> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -413,6 +812,10 @@ async function create(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.createPullRequest(credentials, params, options);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests`;
 
 	// Construct request body with only the fields needed by the API
@@ -430,12 +833,17 @@ async function create(
 		},
 		description: params.description || '',
 		close_source_branch: !!params.close_source_branch,
+		...(params.reviewers && {
+			reviewers: params.reviewers.map(toReviewerRef),
+		}),
 	};
 
 	methodLogger.debug(`Sending POST request to: ${path}`);
 	return fetchAtlassian<PullRequestDetailed>(credentials, path, {
 		method: 'POST',
 		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
 	});
 }
 
@@ -451,6 +859,7 @@ async function create(
  * @param {string} params.workspace - The workspace slug or UUID
  * @param {string} params.repo_slug - The repository slug or UUID
  * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<string>} Promise containing the raw diff content
  * @throws {Error} If Atlassian credentials are missing or API request fails
  * @example
@@ -461,7 +870,10 @@ async function create(
  *   pull_request_id: 123
  * });
  */
-async function getRawDiff(params: GetPullRequestParams): Promise<string> {
+async function getRawDiff(
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<string> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
 		'getRawDiff',
@@ -483,6 +895,14 @@ async function getRawDiff(params: GetPullRequestParams): Promise<string> {
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.getPullRequestRawDiff(
+			credentials,
+			params,
+			options,
+		);
+	}
+
 	// Use the diff endpoint directly
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/diff`;
 
@@ -494,6 +914,8 @@ async function getRawDiff(params: GetPullRequestParams): Promise<string> {
 		headers: {
 			Accept: 'text/plain',
 		},
+		signal: options.signal,
+		timeout: 'diff',
 	});
 }
 
@@ -506,10 +928,12 @@ async function getRawDiff(params: GetPullRequestParams): Promise<string> {
  * @async
  * @memberof VendorAtlassianPullRequestsService
  * @param {GetPullRequestParams} params - Parameters for the request
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<DiffstatResponse>} Promise containing the diffstat response
  */
 async function getDiffstat(
 	params: GetPullRequestParams,
+	options: CallOptions = {},
 ): Promise<DiffstatResponse> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -532,10 +956,21 @@ async function getDiffstat(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.getPullRequestDiffstat(
+			credentials,
+			params,
+			options,
+		);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/diffstat`;
 
 	methodLogger.debug(`Sending request to: ${path}`);
-	return fetchAtlassian<DiffstatResponse>(credentials, path);
+	return fetchAtlassian<DiffstatResponse>(credentials, path, {
+		signal: options.signal,
+		timeout: 'diff',
+	});
 }
 
 /**
@@ -544,10 +979,14 @@ async function getDiffstat(
  *
  * @async
  * @param {string} url - The exact Bitbucket API URL to fetch the diff from.
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<string>} Promise containing the raw diff content as a string.
  * @throws {Error} If Atlassian credentials are missing or the API request fails.
  */
-async function getDiffForUrl(url: string): Promise<string> {
+async function getDiffForUrl(
+	url: string,
+	options: CallOptions = {},
+): Promise<string> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
 		'getDiffForUrl',
@@ -582,6 +1021,8 @@ async function getDiffForUrl(url: string): Promise<string> {
 		headers: {
 			Accept: 'text/plain',
 		},
+		signal: options.signal,
+		timeout: 'diff',
 	});
 }
 
@@ -593,6 +1034,8 @@ async function getDiffForUrl(url: string): Promise<string> {
  * @param {number} params.pull_request_id - The ID of the pull request to update
  * @param {string} [params.title] - Updated title of the pull request
  * @param {string} [params.description] - Updated description for the pull request
+ * @param {PullRequestUser[]} [params.reviewers] - The complete new list of reviewers
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestDetailed>} Updated pull request information
  * @example
  * ```typescript
@@ -608,6 +1051,7 @@ async function getDiffForUrl(url: string): Promise<string> {
  */
 async function update(
 	params: UpdatePullRequestParams,
+	options: CallOptions = {},
 ): Promise<PullRequestDetailed> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -622,9 +1066,9 @@ async function update(
 	}
 
 	// At least one field to update must be provided
-	if (!params.title && !params.description) {
+	if (!params.title && !params.description && !params.reviewers) {
 		throw new Error(
-			'At least one field to update (title or description) must be provided',
+			'At least one field to update (title, description or reviewers) must be provided',
 		);
 	}
 
@@ -635,6 +1079,10 @@ async function update(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.updatePullRequest(credentials, params, options);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}`;
 
 	// Construct request body with only the fields to update
@@ -645,11 +1093,16 @@ async function update(
 	if (params.description !== undefined) {
 		requestBody.description = params.description;
 	}
+	if (params.reviewers !== undefined) {
+		requestBody.reviewers = params.reviewers.map(toReviewerRef);
+	}
 
 	methodLogger.debug(`Sending PUT request to: ${path}`);
 	return fetchAtlassian<PullRequestDetailed>(credentials, path, {
 		method: 'PUT',
 		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
 	});
 }
 
@@ -659,6 +1112,7 @@ async function update(
  * @param {string} params.workspace - The workspace slug or UUID
  * @param {string} params.repo_slug - The repository slug or UUID
  * @param {number} params.pull_request_id - The ID of the pull request to approve
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestParticipant>} Participant information showing approval status
  * @example
  * ```typescript
@@ -672,6 +1126,7 @@ async function update(
  */
 async function approve(
 	params: ApprovePullRequestParams,
+	options: CallOptions = {},
 ): Promise<PullRequestParticipant> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -694,11 +1149,17 @@ async function approve(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.approvePullRequest(credentials, params, options);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/approve`;
 
 	methodLogger.debug(`Sending POST request to: ${path}`);
 	return fetchAtlassian<PullRequestParticipant>(credentials, path, {
 		method: 'POST',
+		signal: options.signal,
+		dryRun: options.dryRun,
 	});
 }
 
@@ -708,6 +1169,7 @@ async function approve(
  * @param {string} params.workspace - The workspace slug or UUID
  * @param {string} params.repo_slug - The repository slug or UUID
  * @param {number} params.pull_request_id - The ID of the pull request to request changes on
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<PullRequestParticipant>} Participant information showing rejection status
  * @example
  * ```typescript
@@ -721,6 +1183,7 @@ async function approve(
  */
 async function reject(
 	params: RejectPullRequestParams,
+	options: CallOptions = {},
 ): Promise<PullRequestParticipant> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.pullrequests.service.ts',
@@ -743,11 +1206,829 @@ async function reject(
 		);
 	}
 
+	if (isBitbucketServer()) {
+		return serverService.rejectPullRequest(credentials, params, options);
+	}
+
 	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/request-changes`;
 
 	methodLogger.debug(`Sending POST request to: ${path}`);
 	return fetchAtlassian<PullRequestParticipant>(credentials, path, {
 		method: 'POST',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Remove the current user's approval from a pull request
+ * @param {ApprovePullRequestParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request to unapprove
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<void>} Resolves once the approval is removed
+ * @example
+ * ```typescript
+ * // Withdraw an approval
+ * await unapprove({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123
+ * });
+ * ```
+ */
+async function unapprove(
+	params: ApprovePullRequestParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'unapprove',
+	);
+	methodLogger.debug(
+		`Removing approval from Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		await serverService.unapprovePullRequest(credentials, params, options);
+		return;
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/approve`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Withdraw the current user's change request from a pull request
+ * @param {RejectPullRequestParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<void>} Resolves once the change request is removed
+ * @example
+ * ```typescript
+ * // Withdraw a change request
+ * await withdrawChangeRequest({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123
+ * });
+ * ```
+ */
+async function withdrawChangeRequest(
+	params: RejectPullRequestParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'withdrawChangeRequest',
+	);
+	methodLogger.debug(
+		`Withdrawing change request on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		await serverService.withdrawPullRequestChangeRequest(
+			credentials,
+			params,
+			options,
+		);
+		return;
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/request-changes`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Decline a pull request
+ * @param {DeclinePullRequestParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request to decline
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestDetailed>} The declined pull request
+ * @example
+ * ```typescript
+ * // Decline a pull request
+ * const declined = await decline({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123
+ * });
+ * ```
+ */
+async function decline(
+	params: DeclinePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestDetailed> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'decline',
+	);
+	methodLogger.debug(
+		`Declining Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.declinePullRequest(credentials, params, options);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/decline`;
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	return fetchAtlassian<PullRequestDetailed>(credentials, path, {
+		method: 'POST',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Merge a pull request.
+ * Bitbucket answers 202 with a task-status Location when a merge takes too
+ * long to finish within the request; the task is then polled until the
+ * merge completes or the `merge` time limit is reached.
+ * @param {MergePullRequestParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request to merge
+ * @param {MergeStrategy} [params.merge_strategy] - merge_commit, squash or fast_forward
+ * @param {string} [params.message] - Commit message for the merge
+ * @param {boolean} [params.close_source_branch] - Delete the source branch after merging
+ * @param {CallOptions} [options] - Call options (abort signal, progress callback)
+ * @returns {Promise<PullRequestDetailed>} The merged pull request, including its merge commit
+ * @example
+ * ```typescript
+ * // Squash-merge a pull request and delete its branch
+ * const merged = await merge({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   merge_strategy: 'squash',
+ *   close_source_branch: true
+ * });
+ * ```
+ */
+async function merge(
+	params: MergePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestDetailed> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'merge',
+	);
+	methodLogger.debug(
+		`Merging Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.mergePullRequest(credentials, params, options);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/merge`;
+
+	// Construct request body with only the options provided
+	const requestBody: Record<string, unknown> = { type: 'pullrequest' };
+	if (params.merge_strategy !== undefined) {
+		requestBody.merge_strategy = params.merge_strategy;
+	}
+	if (params.message !== undefined) {
+		requestBody.message = params.message;
+	}
+	if (params.close_source_branch !== undefined) {
+		requestBody.close_source_branch = params.close_source_branch;
+	}
+
+	let taskLocation: string | undefined;
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const merged = await fetchAtlassian<PullRequestDetailed>(
+		credentials,
+		path,
+		{
+			method: 'POST',
+			body: requestBody,
+			signal: options.signal,
+			dryRun: options.dryRun,
+			timeout: 'merge',
+			onResponse: (status, headers) => {
+				if (status === 202) {
+					taskLocation = headers.get('location') || undefined;
+				}
+			},
+		},
+	);
+
+	if (!taskLocation) {
+		return merged;
+	}
+	return waitForMerge(credentials, taskLocation, params, options);
+}
+
+/**
+ * Poll the task status of an asynchronous merge until it finishes
+ * @param credentials - Atlassian API credentials
+ * @param taskLocation - Task-status URL from the merge response
+ * @param params - The pull request being merged, re-fetched when the
+ * finished task does not include it
+ * @param options - Call options (abort signal, progress callback)
+ * @returns The merged pull request
+ */
+async function waitForMerge(
+	credentials: AtlassianCredentials,
+	taskLocation: string,
+	params: MergePullRequestParams,
+	options: CallOptions,
+): Promise<PullRequestDetailed> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'waitForMerge',
+	);
+	const taskUrl = new URL(taskLocation, getBitbucketBaseUrl());
+	const path = `${taskUrl.pathname}${taskUrl.search}`;
+	const timeoutMs = getRequestTimeout('merge');
+	const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
+
+	let check = 0;
+	while (Date.now() < deadline) {
+		check++;
+		reportProgress(options, {
+			progress: check,
+			message: 'Waiting for Bitbucket to finish the merge',
+		});
+		await sleep(MERGE_POLL_INTERVAL_MS, options.signal);
+
+		methodLogger.debug(`Checking merge task status: ${path}`);
+		const status = await fetchAtlassian<MergeTaskStatus>(
+			credentials,
+			path,
+			{ signal: options.signal, cache: false },
+		);
+		if (status.task_status === 'SUCCESS') {
+			if (status.merge_result) {
+				return status.merge_result;
+			}
+			const pullRequestPath = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}`;
+			methodLogger.debug(
+				`Merge finished without a result, fetching: ${pullRequestPath}`,
+			);
+			return fetchAtlassian<PullRequestDetailed>(
+				credentials,
+				pullRequestPath,
+				{ signal: options.signal, cache: false },
+			);
+		}
+		if (status.task_status !== 'PENDING') {
+			throw createApiError(
+				`Bitbucket reported merge task status ${status.task_status}`,
+			);
+		}
+	}
+
+	throw createTimeoutError(
+		`Bitbucket was still merging the pull request after ${timeoutMs}ms. Check the pull request state before trying again.`,
+	);
+}
+
+/**
+ * Look up a workspace member to add as a reviewer.
+ * UUIDs (in braces) and account IDs are used as-is; email addresses are
+ * looked up through the workspace members filter (which Bitbucket only
+ * allows for workspace administrators and access tokens); nicknames are
+ * matched against the workspace members page by page.
+ * @param {ResolveUserParams} params - Parameters for the lookup
+ * @param {string} params.workspace - The workspace slug whose members are searched
+ * @param {string} params.identifier - Account ID, UUID, nickname or email address
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestUser | undefined>} The user, or undefined if no member matches
+ * @example
+ * ```typescript
+ * // Find a reviewer by email address
+ * const user = await resolveUser({
+ *   workspace: 'myworkspace',
+ *   identifier: 'jane@example.com'
+ * });
+ * ```
+ */
+async function resolveUser(
+	params: ResolveUserParams,
+	options: CallOptions = {},
+): Promise<PullRequestUser | undefined> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'resolveUser',
+	);
+	const identifier = params.identifier.trim();
+	methodLogger.debug(
+		`Resolving user "${identifier}" in workspace ${params.workspace}`,
+	);
+
+	if (!params.workspace || !identifier) {
+		throw new Error('workspace and identifier parameters are required');
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.findUser(credentials, identifier, options);
+	}
+
+	if (/^\{[0-9a-f-]+\}$/i.test(identifier)) {
+		return { type: 'user', uuid: identifier };
+	}
+	if (/^(\d+:[0-9a-f-]+|[0-9a-f]{24})$/i.test(identifier)) {
+		return { type: 'user', account_id: identifier };
+	}
+
+	const membersPath = `${API_PATH}/workspaces/${params.workspace}/members`;
+
+	if (identifier.includes('@')) {
+		const query = new URLSearchParams({
+			q: `user.email IN ("${escapeBbqlString(identifier)}")`,
+		});
+		methodLogger.debug(`Sending request to: ${membersPath}?${query}`);
+		const members = await fetchAtlassian<WorkspaceMembersResponse>(
+			credentials,
+			`${membersPath}?${query}`,
+			{ signal: options.signal },
+		);
+		return members.values[0]?.user;
+	}
+
+	const nickname = identifier.toLowerCase();
+	for (let page = 1; ; page++) {
+		const path = `${membersPath}?pagelen=100&page=${page}`;
+		methodLogger.debug(`Sending request to: ${path}`);
+		const members = await fetchAtlassian<WorkspaceMembersResponse>(
+			credentials,
+			path,
+			{ signal: options.signal },
+		);
+		const match = members.values.find(
+			(member) => member.user.nickname?.toLowerCase() === nickname,
+		);
+		if (match) {
+			return match.user;
+		}
+		if (!members.next) {
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Get the effective default reviewers of a repository, including those
+ * inherited from its project
+ * @param {GetDefaultReviewersParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {string} [params.source_branch] - Source branch (required on Data Center)
+ * @param {string} [params.destination_branch] - Destination branch (required on Data Center)
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestUser[]>} The default reviewers
+ * @example
+ * ```typescript
+ * // Get the default reviewers of a repository
+ * const reviewers = await getDefaultReviewers({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo'
+ * });
+ * ```
+ */
+async function getDefaultReviewers(
+	params: GetDefaultReviewersParams,
+	options: CallOptions = {},
+): Promise<PullRequestUser[]> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'getDefaultReviewers',
+	);
+	methodLogger.debug(
+		`Getting default reviewers of Bitbucket repository: ${params.workspace}/${params.repo_slug}`,
+	);
+
+	if (!params.workspace || !params.repo_slug) {
+		throw new Error('Both workspace and repo_slug parameters are required');
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.getDefaultReviewers(credentials, params, options);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/effective-default-reviewers?pagelen=100`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const response = await fetchAtlassian<DefaultReviewersResponse>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	return response.values.map((reviewer) => reviewer.user);
+}
+
+/**
+ * Get the user the configured credentials belong to
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestUser>} The authenticated user
+ * @example
+ * ```typescript
+ * const me = await getCurrentUser();
+ * ```
+ */
+async function getCurrentUser(
+	options: CallOptions = {},
+): Promise<PullRequestUser> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'getCurrentUser',
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.getCurrentUser(credentials, options);
+	}
+
+	const path = `${API_PATH}/user`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<PullRequestUser>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * List the tasks on a pull request
+ * @param {ListPullRequestTasksParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {PullRequestTaskState} [params.state] - Only return RESOLVED or UNRESOLVED tasks
+ * @param {number} [params.page] - Page number for pagination
+ * @param {number} [params.pagelen] - Number of items per page
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestTasksResponse>} Response containing the tasks
+ * @example
+ * ```typescript
+ * // List the open tasks of a pull request
+ * const tasks = await listTasks({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   state: 'UNRESOLVED'
+ * });
+ * ```
+ */
+async function listTasks(
+	params: ListPullRequestTasksParams,
+	options: CallOptions = {},
+): Promise<PullRequestTasksResponse> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'listTasks',
+	);
+	methodLogger.debug(
+		`Listing tasks on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.listPullRequestTasks(credentials, params, options);
+	}
+
+	const queryParams = new URLSearchParams();
+	if (params.state) {
+		queryParams.set('q', `state="${params.state}"`);
+	}
+	if (params.pagelen) {
+		queryParams.set('pagelen', params.pagelen.toString());
+	}
+	if (params.page) {
+		queryParams.set('page', params.page.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/tasks${queryString}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<PullRequestTasksResponse>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * Create a task on a pull request, optionally anchored to a comment
+ * @param {CreatePullRequestTaskParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {Object} params.content - The content of the task
+ * @param {string} params.content.raw - The raw text of the task
+ * @param {Object} [params.comment] - The comment to anchor the task to
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestTask>} The created task
+ * @example
+ * ```typescript
+ * // Add a task to a review comment
+ * const task = await createTask({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   content: { raw: 'Add a test for the empty case' },
+ *   comment: { id: 456 }
+ * });
+ * ```
+ */
+async function createTask(
+	params: CreatePullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<PullRequestTask> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'createTask',
+	);
+	methodLogger.debug(
+		`Creating task on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (!params.workspace || !params.repo_slug || !params.pull_request_id) {
+		throw new Error(
+			'workspace, repo_slug, and pull_request_id parameters are all required',
+		);
+	}
+
+	if (!params.content || !params.content.raw) {
+		throw new Error('Task content is required');
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.createPullRequestTask(
+			credentials,
+			params,
+			options,
+		);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/tasks`;
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	return fetchAtlassian<PullRequestTask>(credentials, path, {
+		method: 'POST',
+		body: {
+			content: params.content,
+			comment: params.comment,
+		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Update a pull request task: change its content, or resolve or reopen it
+ * @param {UpdatePullRequestTaskParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.task_id - The ID of the task
+ * @param {Object} [params.content] - Updated content of the task
+ * @param {PullRequestTaskState} [params.state] - RESOLVED to resolve, UNRESOLVED to reopen
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<PullRequestTask>} The updated task
+ * @example
+ * ```typescript
+ * // Resolve a task
+ * const task = await updateTask({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   task_id: 7,
+ *   state: 'RESOLVED'
+ * });
+ * ```
+ */
+async function updateTask(
+	params: UpdatePullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<PullRequestTask> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'updateTask',
+	);
+	methodLogger.debug(
+		`Updating task ${params.task_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.task_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and task_id parameters are all required',
+		);
+	}
+
+	if (!params.content && !params.state) {
+		throw new Error('Either content or state must be provided');
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		return serverService.updatePullRequestTask(
+			credentials,
+			params,
+			options,
+		);
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/tasks/${params.task_id}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`);
+	return fetchAtlassian<PullRequestTask>(credentials, path, {
+		method: 'PUT',
+		body: {
+			content: params.content,
+			state: params.state,
+		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Delete a pull request task
+ * @param {PullRequestTaskParams} params - Parameters for the request
+ * @param {string} params.workspace - The workspace slug or UUID
+ * @param {string} params.repo_slug - The repository slug or UUID
+ * @param {number} params.pull_request_id - The ID of the pull request
+ * @param {number} params.task_id - The ID of the task to delete
+ * @param {CallOptions} [options] - Call options (abort signal)
+ * @returns {Promise<void>} Resolves once the task is deleted
+ * @example
+ * ```typescript
+ * // Delete a task
+ * await deleteTask({
+ *   workspace: 'myworkspace',
+ *   repo_slug: 'myrepo',
+ *   pull_request_id: 123,
+ *   task_id: 7
+ * });
+ * ```
+ */
+async function deleteTask(
+	params: PullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = Logger.forContext(
+		'services/vendor.atlassian.pullrequests.service.ts',
+		'deleteTask',
+	);
+	methodLogger.debug(
+		`Deleting task ${params.task_id} on Bitbucket pull request: ${params.workspace}/${params.repo_slug}/${params.pull_request_id}`,
+	);
+
+	if (
+		!params.workspace ||
+		!params.repo_slug ||
+		!params.pull_request_id ||
+		!params.task_id
+	) {
+		throw new Error(
+			'workspace, repo_slug, pull_request_id, and task_id parameters are all required',
+		);
+	}
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(
+			'Atlassian credentials are required for this operation',
+		);
+	}
+
+	if (isBitbucketServer()) {
+		await serverService.deletePullRequestTask(credentials, params, options);
+		return;
+	}
+
+	const path = `${API_PATH}/repositories/${params.workspace}/${params.repo_slug}/pullrequests/${params.pull_request_id}/tasks/${params.task_id}`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
 	});
 }
 
@@ -756,10 +2037,26 @@ export default {
 	get,
 	getComments,
 	createComment,
+	getComment,
+	updateComment,
+	deleteComment,
+	resolveComment,
+	reopenComment,
 	create,
 	update,
 	approve,
 	reject,
+	unapprove,
+	withdrawChangeRequest,
+	decline,
+	merge,
+	listTasks,
+	createTask,
+	updateTask,
+	deleteTask,
+	resolveUser,
+	getDefaultReviewers,
+	getCurrentUser,
 	getRawDiff,
 	getDiffstat,
 	getDiffForUrl,
@@ -3,6 +3,8 @@ import atlassianWorkspacesService from './vendor.atlassian.workspaces.service.js
 import atlassianRepositoriesService from './vendor.atlassian.repositories.service.js';
 import { getAtlassianCredentials } from '../utils/transport.util.js';
 import { config } from '../utils/config.util.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 
 describe('Vendor Atlassian Pull Requests Service', () => {
 	// Variables to store valid test data
@@ -481,5 +483,696 @@ describe('Vendor Atlassian Pull Requests Service', () => {
 		}, 15000); // Increase timeout for API call
 	});
 
+	describe('review actions', () => {
+		const originalEnv = { ...process.env };
+		let server: http.Server;
+		let requests: string[];
+
+		beforeAll(async () => {
+			// A Bitbucket stand-in that answers DELETEs with 204 No Content
+			// and everything else with a declined pull request
+			server = http.createServer((req, res) => {
+				requests.push(`${req.method} ${req.url}`);
+				if (req.method === 'DELETE') {
+					res.writeHead(204);
+					res.end();
+					return;
+				}
+				res.setHeader('Content-Type', 'application/json');
+				res.end(
+					JSON.stringify({
+						type: 'pullrequest',
+						id: 7,
+						state: 'DECLINED',
+					}),
+				);
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_ACCESS_TOKEN = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		const params = {
+			workspace: 'team',
+			repo_slug: 'api',
+			pull_request_id: 7,
+		};
+
+		it('should remove an approval', async () => {
+			await expect(
+				atlassianPullRequestsService.unapprove(params),
+			).resolves.toBeUndefined();
+			expect(requests).toEqual([
+				'DELETE /2.0/repositories/team/api/pullrequests/7/approve',
+			]);
+		});
+
+		it('should withdraw a change request', async () => {
+			await expect(
+				atlassianPullRequestsService.withdrawChangeRequest(params),
+			).resolves.toBeUndefined();
+			expect(requests).toEqual([
+				'DELETE /2.0/repositories/team/api/pullrequests/7/request-changes',
+			]);
+		});
+
+		it('should decline a pull request', async () => {
+			const declined = await atlassianPullRequestsService.decline(params);
+
+			expect(declined.state).toBe('DECLINED');
+			expect(requests).toEqual([
+				'POST /2.0/repositories/team/api/pullrequests/7/decline',
+			]);
+		});
+	});
+
+	describe('Data Center change requests', () => {
+		const originalEnv = { ...process.env };
+		let server: http.Server;
+		let requests: string[];
+		let status: string;
+
+		beforeAll(async () => {
+			// A Data Center stand-in whose pull request lists the
+			// authenticated user as a reviewer with the current `status`
+			server = http.createServer((req, res) => {
+				requests.push(`${req.method} ${req.url}`);
+				const reviewer = {
+					user: { name: 'jdoe', slug: 'jdoe' },
+					role: 'REVIEWER',
+					approved: status === 'APPROVED',
+					status,
+				};
+				res.setHeader('Content-Type', 'application/json');
+				res.end(
+					JSON.stringify(
+						req.method === 'PUT'
+							? { ...reviewer, status: 'UNAPPROVED' }
+							: { id: 7, version: 1, reviewers: [reviewer] },
+					),
+				);
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			delete process.env.BITBUCKET_ACCESS_TOKEN;
+			delete process.env.ATLASSIAN_API_TOKEN;
+			process.env.BITBUCKET_BACKEND = 'server';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.ATLASSIAN_BITBUCKET_USERNAME = 'JDoe';
+			process.env.ATLASSIAN_BITBUCKET_APP_PASSWORD = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		const params = {
+			workspace: 'PROJ',
+			repo_slug: 'api',
+			pull_request_id: 7,
+		};
+
+		it('should reset a "needs work" status', async () => {
+			status = 'NEEDS_WORK';
+
+			await atlassianPullRequestsService.withdrawChangeRequest(params);
+
+			expect(requests).toEqual([
+				'GET /rest/api/1.0/projects/PROJ/repos/api/pull-requests/7',
+				'PUT /rest/api/1.0/projects/PROJ/repos/api/pull-requests/7/participants/jdoe',
+			]);
+		});
+
+		it('should keep an approval', async () => {
+			status = 'APPROVED';
+
+			await expect(
+				atlassianPullRequestsService.withdrawChangeRequest(params),
+			).rejects.toThrow('your review status is APPROVED');
+			expect(requests).toHaveLength(1);
+		});
+	});
+
+	describe('merge', () => {
+		const originalEnv = { ...process.env };
+		const mergeResult = {
+			type: 'pullrequest',
+			id: 7,
+			state: 'MERGED',
+			merge_commit: { hash: 'def456' },
+		};
+		let server: http.Server;
+		let requests: Array<{ method?: string; url?: string; body: string }>;
+		let taskChecks: number;
+		let omitMergeResult: boolean;
+
+		beforeAll(async () => {
+			// A Bitbucket stand-in that merges in the background: the merge
+			// is accepted with a task-status link that reports PENDING once,
+			// then SUCCESS with or without the merged pull request
+			server = http.createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', () => {
+					requests.push({ method: req.method, url: req.url, body });
+					if (req.method === 'POST') {
+						res.writeHead(202, {
+							Location: `http://${req.headers.host}/2.0/repositories/team/api/pullrequests/7/merge/task-status/abc`,
+							'Content-Length': '0',
+						});
+						res.end();
+						return;
+					}
+					res.setHeader('Content-Type', 'application/json');
+					if (!req.url?.includes('/task-status/')) {
+						res.end(JSON.stringify(mergeResult));
+						return;
+					}
+					taskChecks++;
+					res.end(
+						JSON.stringify(
+							taskChecks < 2
+								? { task_status: 'PENDING' }
+								: {
+										task_status: 'SUCCESS',
+										...(!omitMergeResult && {
+											merge_result: mergeResult,
+										}),
+									},
+						),
+					);
+				});
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_ACCESS_TOKEN = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+			taskChecks = 0;
+			omitMergeResult = false;
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should send the merge options and wait for an asynchronous merge', async () => {
+			const onProgress = jest.fn();
+
+			const merged = await atlassianPullRequestsService.merge(
+				{
+					workspace: 'team',
+					repo_slug: 'api',
+					pull_request_id: 7,
+					merge_strategy: 'squash',
+					message: 'Add login page',
+					close_source_branch: true,
+				},
+				{ onProgress },
+			);
+
+			expect(merged).toEqual(mergeResult);
+			expect(requests[0]).toEqual({
+				method: 'POST',
+				url: '/2.0/repositories/team/api/pullrequests/7/merge',
+				body: JSON.stringify({
+					type: 'pullrequest',
+					merge_strategy: 'squash',
+					message: 'Add login page',
+					close_source_branch: true,
+				}),
+			});
+			expect(requests.slice(1).map((request) => request.url)).toEqual([
+				'/2.0/repositories/team/api/pullrequests/7/merge/task-status/abc',
+				'/2.0/repositories/team/api/pullrequests/7/merge/task-status/abc',
+			]);
+			expect(onProgress).toHaveBeenCalledTimes(2);
+		}, 15000);
+
+		it('should fetch the pull request when the finished task has no result', async () => {
+			omitMergeResult = true;
+
+			const merged = await atlassianPullRequestsService.merge({
+				workspace: 'team',
+				repo_slug: 'api',
+				pull_request_id: 7,
+			});
+
+			expect(merged).toEqual(mergeResult);
+			expect(requests.slice(1).map((request) => request.url)).toEqual([
+				'/2.0/repositories/team/api/pullrequests/7/merge/task-status/abc',
+				'/2.0/repositories/team/api/pullrequests/7/merge/task-status/abc',
+				'/2.0/repositories/team/api/pullrequests/7',
+			]);
+		}, 15000);
+	});
+
+	describe('tasks', () => {
+		const originalEnv = { ...process.env };
+		const task = {
+			id: 3,
+			state: 'UNRESOLVED',
+			content: { raw: 'Add a test' },
+		};
+		let server: http.Server;
+		let requests: Array<{ method?: string; url?: string; body: string }>;
+
+		beforeAll(async () => {
+			// A Bitbucket stand-in that answers DELETEs with 204 No Content,
+			// lists with a page holding one task, and everything else with it
+			server = http.createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', () => {
+					requests.push({ method: req.method, url: req.url, body });
+					if (req.method === 'DELETE') {
+						res.writeHead(204);
+						res.end();
+						return;
+					}
+					res.setHeader('Content-Type', 'application/json');
+					res.end(
+						JSON.stringify(
+							req.method === 'GET'
+								? {
+										pagelen: 10,
+										page: 1,
+										size: 1,
+										values: [task],
+									}
+								: task,
+						),
+					);
+				});
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_ACCESS_TOKEN = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		const params = {
+			workspace: 'team',
+			repo_slug: 'api',
+			pull_request_id: 7,
+		};
+
+		it('should list tasks filtered by state', async () => {
+			const result = await atlassianPullRequestsService.listTasks({
+				...params,
+				state: 'UNRESOLVED',
+				pagelen: 10,
+			});
+
+			expect(result.values).toEqual([task]);
+			expect(requests[0].url).toBe(
+				'/2.0/repositories/team/api/pullrequests/7/tasks?q=state%3D%22UNRESOLVED%22&pagelen=10',
+			);
+		});
+
+		it('should create a task anchored to a comment', async () => {
+			await atlassianPullRequestsService.createTask({
+				...params,
+				content: { raw: 'Add a test' },
+				comment: { id: 42 },
+			});
+
+			expect(requests[0]).toEqual({
+				method: 'POST',
+				url: '/2.0/repositories/team/api/pullrequests/7/tasks',
+				body: JSON.stringify({
+					content: { raw: 'Add a test' },
+					comment: { id: 42 },
+				}),
+			});
+		});
+
+		it('should resolve a task', async () => {
+			await atlassianPullRequestsService.updateTask({
+				...params,
+				task_id: 3,
+				state: 'RESOLVED',
+			});
+
+			expect(requests[0]).toEqual({
+				method: 'PUT',
+				url: '/2.0/repositories/team/api/pullrequests/7/tasks/3',
+				body: JSON.stringify({ state: 'RESOLVED' }),
+			});
+		});
+
+		it('should require content or state to update a task', async () => {
+			await expect(
+				atlassianPullRequestsService.updateTask({
+					...params,
+					task_id: 3,
+				}),
+			).rejects.toThrow('Either content or state must be provided');
+			expect(requests).toEqual([]);
+		});
+
+		it('should delete a task', async () => {
+			await expect(
+				atlassianPullRequestsService.deleteTask({
+					...params,
+					task_id: 3,
+				}),
+			).resolves.toBeUndefined();
+			expect(requests.map((request) => request.method)).toEqual([
+				'DELETE',
+			]);
+		});
+	});
+
+	describe('comment lifecycle', () => {
+		const originalEnv = { ...process.env };
+		const comment = {
+			type: 'pullrequest_comment',
+			id: 42,
+			content: { raw: 'Use a constant' },
+		};
+		const resolution = {
+			type: 'comment_resolution',
+			user: { type: 'user', nickname: 'jdoe' },
+			created_on: '2024-01-01T00:00:00.000Z',
+		};
+		let server: http.Server;
+		let requests: Array<{ method?: string; url?: string; body: string }>;
+
+		beforeAll(async () => {
+			// A Bitbucket stand-in that answers DELETEs with 204 No Content,
+			// resolve requests with the resolution and edits with the comment
+			server = http.createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', () => {
+					requests.push({ method: req.method, url: req.url, body });
+					if (req.method === 'DELETE') {
+						res.writeHead(204);
+						res.end();
+						return;
+					}
+					res.setHeader('Content-Type', 'application/json');
+					res.end(
+						JSON.stringify(
+							req.url?.endsWith('/resolve')
+								? resolution
+								: comment,
+						),
+					);
+				});
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_ACCESS_TOKEN = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		const params = {
+			workspace: 'team',
+			repo_slug: 'api',
+			pull_request_id: 7,
+			comment_id: 42,
+		};
+
+		it('should edit a comment', async () => {
+			const result = await atlassianPullRequestsService.updateComment({
+				...params,
+				content: { raw: 'Use a constant' },
+			});
+
+			expect(result.id).toBe(42);
+			expect(requests[0]).toEqual({
+				method: 'PUT',
+				url: '/2.0/repositories/team/api/pullrequests/7/comments/42',
+				body: JSON.stringify({ content: { raw: 'Use a constant' } }),
+			});
+		});
+
+		it('should require content to edit a comment', async () => {
+			await expect(
+				atlassianPullRequestsService.updateComment({
+					...params,
+					content: { raw: '' },
+				}),
+			).rejects.toThrow('Comment content is required');
+			expect(requests).toEqual([]);
+		});
+
+		it('should delete a comment', async () => {
+			await expect(
+				atlassianPullRequestsService.deleteComment(params),
+			).resolves.toBeUndefined();
+			expect(requests[0]).toMatchObject({
+				method: 'DELETE',
+				url: '/2.0/repositories/team/api/pullrequests/7/comments/42',
+			});
+		});
+
+		it('should resolve and reopen a thread', async () => {
+			await expect(
+				atlassianPullRequestsService.resolveComment(params),
+			).resolves.toEqual(resolution);
+			await expect(
+				atlassianPullRequestsService.reopenComment(params),
+			).resolves.toBeUndefined();
+
+			expect(
+				requests.map((request) => `${request.method} ${request.url}`),
+			).toEqual([
+				'POST /2.0/repositories/team/api/pullrequests/7/comments/42/resolve',
+				'DELETE /2.0/repositories/team/api/pullrequests/7/comments/42/resolve',
+			]);
+		});
+	});
+
+	describe('reviewers', () => {
+		const originalEnv = { ...process.env };
+		const jdoe = {
+			type: 'user',
+			uuid: '{11111111-1111-1111-1111-111111111111}',
+			nickname: 'jdoe',
+		};
+		const asmith = {
+			type: 'user',
+			uuid: '{22222222-2222-2222-2222-222222222222}',
+			nickname: 'asmith',
+		};
+		let server: http.Server;
+		let requests: Array<{ method?: string; url?: string; body: string }>;
+
+		beforeAll(async () => {
+			// A Bitbucket stand-in with two pages of workspace members,
+			// one default reviewer, and pull requests echoing the request
+			server = http.createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', () => {
+					requests.push({ method: req.method, url: req.url, body });
+					const url = new URL(req.url || '/', 'http://localhost');
+					let response: unknown = { type: 'pullrequest', id: 7 };
+					if (url.pathname.endsWith('/members')) {
+						if (url.searchParams.get('q')) {
+							response = {
+								pagelen: 10,
+								values: [{ user: jdoe }],
+							};
+						} else if (url.searchParams.get('page') === '1') {
+							response = {
+								pagelen: 100,
+								values: [{ user: jdoe }],
+								next: 'more',
+							};
+						} else {
+							response = {
+								pagelen: 100,
+								values: [{ user: asmith }],
+							};
+						}
+					} else if (
+						url.pathname.endsWith('/effective-default-reviewers')
+					) {
+						response = {
+							pagelen: 100,
+							values: [
+								{ user: asmith, reviewer_type: 'project' },
+							],
+						};
+					}
+					res.setHeader('Content-Type', 'application/json');
+					res.end(JSON.stringify(response));
+				});
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_ACCESS_TOKEN = 'token';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		beforeEach(() => {
+			requests = [];
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should use UUIDs and account IDs without a lookup', async () => {
+			await expect(
+				atlassianPullRequestsService.resolveUser({
+					workspace: 'team',
+					identifier: jdoe.uuid,
+				}),
+			).resolves.toEqual({ type: 'user', uuid: jdoe.uuid });
+			await expect(
+				atlassianPullRequestsService.resolveUser({
+					workspace: 'team',
+					identifier: '557058:0c2d0e4a-1b2c-4d5e-8f90-1234567890ab',
+				}),
+			).resolves.toEqual({
+				type: 'user',
+				account_id: '557058:0c2d0e4a-1b2c-4d5e-8f90-1234567890ab',
+			});
+			expect(requests).toEqual([]);
+		});
+
+		it('should look up email addresses with the members filter', async () => {
+			const user = await atlassianPullRequestsService.resolveUser({
+				workspace: 'team',
+				identifier: 'jdoe@example.com',
+			});
+
+			expect(user).toEqual(jdoe);
+			expect(requests[0].url).toBe(
+				`/2.0/workspaces/team/members?${new URLSearchParams({ q: 'user.email IN ("jdoe@example.com")' })}`,
+			);
+		});
+
+		it('should escape quotes in the email filter', async () => {
+			await atlassianPullRequestsService.resolveUser({
+				workspace: 'team',
+				identifier: 'x") OR user.email IN ("a\\"@example.com',
+			});
+
+			expect(
+				new URL(
+					requests[0].url as string,
+					'http://localhost',
+				).searchParams.get('q'),
+			).toBe(
+				'user.email IN ("x\\") OR user.email IN (\\"a\\\\\\"@example.com")',
+			);
+		});
+
+		it('should page through the members to match a nickname', async () => {
+			const user = await atlassianPullRequestsService.resolveUser({
+				workspace: 'team',
+				identifier: 'ASmith',
+			});
+
+			expect(user).toEqual(asmith);
+			expect(requests.map((request) => request.url)).toEqual([
+				'/2.0/workspaces/team/members?pagelen=100&page=1',
+				'/2.0/workspaces/team/members?pagelen=100&page=2',
+			]);
+		});
+
+		it('should return the effective default reviewers', async () => {
+			await expect(
+				atlassianPullRequestsService.getDefaultReviewers({
+					workspace: 'team',
+					repo_slug: 'api',
+				}),
+			).resolves.toEqual([asmith]);
+		});
+
+		it('should send reviewers by UUID or account ID', async () => {
+			await atlassianPullRequestsService.update({
+				workspace: 'team',
+				repo_slug: 'api',
+				pull_request_id: 7,
+				reviewers: [jdoe as never, { type: 'user', account_id: 'abc' }],
+			});
+
+			expect(requests[0].method).toBe('PUT');
+			expect(JSON.parse(requests[0].body)).toEqual({
+				reviewers: [{ uuid: jdoe.uuid }, { account_id: 'abc' }],
+			});
+		});
+	});
+
 	// Note: addComment test suite has been removed to avoid creating comments on real PRs during tests
 });
@@ -107,7 +107,7 @@ export interface PullRequest {
 	created_on: string;
 	updated_on: string;
 	reviewers?: PullRequestUser[];
-	participants?: PullRequestUser[];
+	participants?: PullRequestParticipant[];
 	links: PullRequestLinks;
 }
 
@@ -238,6 +238,67 @@ export interface CreatePullRequestCommentParams {
 	};
 }
 
+/**
+ * Parameters for acting on a single pull request comment
+ */
+export interface PullRequestCommentParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+
+	/**
+	 * The comment ID
+	 */
+	comment_id: number;
+}
+
+/**
+ * Parameters for editing a pull request comment
+ */
+export interface UpdatePullRequestCommentParams
+	extends PullRequestCommentParams {
+	/**
+	 * The new content of the comment
+	 */
+	content: {
+		/**
+		 * Raw comment text (can contain markdown)
+		 */
+		raw: string;
+	};
+}
+
+/**
+ * Resolution of a comment thread
+ */
+export interface PullRequestCommentResolution {
+	/**
+	 * Type of the object
+	 */
+	type?: 'comment_resolution';
+
+	/**
+	 * User who resolved the thread
+	 */
+	user?: PullRequestUser;
+
+	/**
+	 * When the thread was resolved
+	 */
+	created_on?: string;
+}
+
 /**
  * Inline comment position information
  */
@@ -302,6 +363,12 @@ export interface PullRequestComment {
 	 */
 	deleted?: boolean;
 
+	/**
+	 * Resolution of the thread this comment starts; null or absent while
+	 * the thread is open. Only top-level comments carry it.
+	 */
+	resolution?: PullRequestCommentResolution | null;
+
 	/**
 	 * For inline comments, contains file and line information
 	 */
@@ -418,6 +485,12 @@ export interface CreatePullRequestParams {
 	 * Whether to close the source branch after merge
 	 */
 	close_source_branch?: boolean;
+
+	/**
+	 * Reviewers to request, identified by UUID or account ID
+	 * (by user name on Data Center)
+	 */
+	reviewers?: PullRequestUser[];
 }
 
 /**
@@ -475,6 +548,11 @@ export interface UpdatePullRequestParams {
 	 * Updated description for the pull request
 	 */
 	description?: string;
+
+	/**
+	 * The complete new list of reviewers; replaces the current reviewers
+	 */
+	reviewers?: PullRequestUser[];
 }
 
 /**
@@ -517,6 +595,85 @@ export interface RejectPullRequestParams {
 	pull_request_id: number;
 }
 
+/**
+ * Parameters for declining a pull request
+ */
+export interface DeclinePullRequestParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+}
+
+/**
+ * How a pull request is merged
+ * - `merge_commit`: merge commit joining both branches
+ * - `squash`: a single commit with all changes
+ * - `fast_forward`: move the destination branch to the source commit
+ */
+export type MergeStrategy = 'merge_commit' | 'squash' | 'fast_forward';
+
+/**
+ * Parameters for merging a pull request
+ */
+export interface MergePullRequestParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+
+	/**
+	 * Merge strategy; the repository default when omitted
+	 */
+	merge_strategy?: MergeStrategy;
+
+	/**
+	 * Commit message for the merge or squash commit
+	 */
+	message?: string;
+
+	/**
+	 * Whether to delete the source branch after merging
+	 */
+	close_source_branch?: boolean;
+}
+
+/**
+ * Status of a merge Bitbucket finishes asynchronously
+ * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-merge-task-status-task-id-get
+ */
+export interface MergeTaskStatus {
+	/**
+	 * PENDING while the merge runs, then SUCCESS
+	 */
+	task_status: string;
+
+	/**
+	 * The merged pull request, once the task succeeded
+	 */
+	merge_result?: PullRequestDetailed;
+}
+
 /**
  * Pull request participant representing approval/rejection status
  */
@@ -547,7 +704,288 @@ export interface PullRequestParticipant {
 	state: 'approved' | 'changes_requested' | null;
 
 	/**
-	 * When the participant last participated
+	 * When the participant last participated (not reported by Data Center)
+	 */
+	participated_on?: string;
+}
+
+/**
+ * State of a pull request task
+ */
+export type PullRequestTaskState = 'RESOLVED' | 'UNRESOLVED';
+
+/**
+ * Pull request task (a checklist item that must be resolved before merging)
+ * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-pullrequests-pull-request-id-tasks-get
+ */
+export interface PullRequestTask {
+	/**
+	 * Task ID
+	 */
+	id: number;
+
+	/**
+	 * Whether the task is resolved
+	 */
+	state: PullRequestTaskState;
+
+	/**
+	 * Task content
+	 */
+	content: {
+		raw: string;
+		markup?: string;
+		html?: string;
+	};
+
+	/**
+	 * User who created the task
+	 */
+	creator?: PullRequestUser;
+
+	/**
+	 * When the task was created
+	 */
+	created_on?: string;
+
+	/**
+	 * When the task was last updated
+	 */
+	updated_on?: string;
+
+	/**
+	 * When the task was resolved, if it is
+	 */
+	resolved_on?: string | null;
+
+	/**
+	 * User who resolved the task, if it is resolved
+	 */
+	resolved_by?: PullRequestUser | null;
+
+	/**
+	 * Whether the task is still pending (not yet visible to others)
+	 */
+	pending?: boolean;
+
+	/**
+	 * The comment the task is anchored to, if any
+	 */
+	comment?: {
+		id: number;
+	};
+
+	/**
+	 * Links related to this task
 	 */
-	participated_on: string;
+	links?: {
+		self?: { href: string };
+		html?: { href: string };
+	};
+}
+
+/**
+ * API response for listing pull request tasks
+ */
+export interface PullRequestTasksResponse {
+	pagelen: number;
+	page: number;
+	size?: number;
+	next?: string;
+	previous?: string;
+	values: PullRequestTask[];
+}
+
+/**
+ * Parameters for listing pull request tasks
+ */
+export interface ListPullRequestTasksParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+
+	/**
+	 * Only return tasks in this state
+	 */
+	state?: PullRequestTaskState;
+
+	/**
+	 * Page number for pagination
+	 */
+	page?: number;
+
+	/**
+	 * Number of items per page
+	 */
+	pagelen?: number;
+}
+
+/**
+ * Parameters for creating a pull request task
+ */
+export interface CreatePullRequestTaskParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+
+	/**
+	 * The content of the task
+	 */
+	content: {
+		/**
+		 * Raw task text (can contain markdown)
+		 */
+		raw: string;
+	};
+
+	/**
+	 * Comment to anchor the task to
+	 */
+	comment?: {
+		id: number;
+	};
+}
+
+/**
+ * Parameters for addressing a single pull request task
+ */
+export interface PullRequestTaskParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * The pull request ID
+	 */
+	pull_request_id: number;
+
+	/**
+	 * The task ID
+	 */
+	task_id: number;
+}
+
+/**
+ * Parameters for updating a pull request task
+ */
+export interface UpdatePullRequestTaskParams extends PullRequestTaskParams {
+	/**
+	 * Updated content of the task
+	 */
+	content?: {
+		raw: string;
+	};
+
+	/**
+	 * Updated state, to resolve or reopen the task
+	 */
+	state?: PullRequestTaskState;
+}
+
+/**
+ * Parameters for looking up a user who can review pull requests
+ */
+export interface ResolveUserParams {
+	/**
+	 * The workspace slug (project key on Data Center) whose members are searched
+	 */
+	workspace: string;
+
+	/**
+	 * Account ID, UUID (in braces), nickname or email address of the user
+	 */
+	identifier: string;
+}
+
+/**
+ * Parameters for getting the default reviewers of a repository
+ */
+export interface GetDefaultReviewersParams {
+	/**
+	 * The workspace slug or UUID
+	 */
+	workspace: string;
+
+	/**
+	 * The repository slug or UUID
+	 */
+	repo_slug: string;
+
+	/**
+	 * Source branch of the pull request (required on Data Center, where
+	 * default reviewers depend on the branches)
+	 */
+	source_branch?: string;
+
+	/**
+	 * Destination branch of the pull request (required on Data Center)
+	 */
+	destination_branch?: string;
+}
+
+/**
+ * Entry of a repository's effective default reviewers
+ * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#api-repositories-workspace-repo-slug-effective-default-reviewers-get
+ */
+export interface DefaultReviewer {
+	/**
+	 * The default reviewer
+	 */
+	user: PullRequestUser;
+
+	/**
+	 * Whether the reviewer is set on the repository or inherited from the project
+	 */
+	reviewer_type?: 'repository' | 'project';
+}
+
+/**
+ * API response for listing a repository's effective default reviewers
+ */
+export interface DefaultReviewersResponse {
+	pagelen: number;
+	page?: number;
+	size?: number;
+	next?: string;
+	values: DefaultReviewer[];
+}
+
+/**
+ * API response for listing the members of a workspace
+ * @see https://developer.atlassian.com/cloud/bitbucket/rest/api-group-workspaces/#api-workspaces-workspace-members-get
+ */
+export interface WorkspaceMembersResponse {
+	pagelen: number;
+	page?: number;
+	size?: number;
+	next?: string;
+	values: Array<{ user: PullRequestUser }>;
 }
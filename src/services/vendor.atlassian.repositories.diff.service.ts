@@ -1,9 +1,12 @@
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
 import {
+	CallOptions,
 	fetchAtlassian,
 	getAtlassianCredentials,
+	isBitbucketServer,
 } from '../utils/transport.util.js';
+import serverService from './vendor.atlassian.server.service.js';
 import {
 	createApiError,
 	createAuthMissingError,
@@ -35,6 +38,7 @@ serviceLogger.debug('Bitbucket diff service initialised');
  */
 export async function getDiffstat(
 	params: GetDiffstatParams,
+	options: CallOptions = {},
 ): Promise<DiffstatResponse> {
 	const methodLogger = serviceLogger.forMethod('getDiffstat');
 	methodLogger.debug('Fetching diffstat with params', params);
@@ -69,7 +73,12 @@ export async function getDiffstat(
 
 	methodLogger.debug(`Requesting: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = isBitbucketServer()
+			? await serverService.getDiffstat(credentials, params, options)
+			: await fetchAtlassian(credentials, path, {
+					signal: options.signal,
+					timeout: 'diff',
+				});
 		try {
 			const validated = DiffstatResponseSchema.parse(rawData);
 			return validated;
@@ -101,7 +110,10 @@ export async function getDiffstat(
  * Retrieve raw unified diff between two refs.
  * Endpoint: /diff/{spec}
  */
-export async function getRawDiff(params: GetRawDiffParams): Promise<string> {
+export async function getRawDiff(
+	params: GetRawDiffParams,
+	options: CallOptions = {},
+): Promise<string> {
 	const methodLogger = serviceLogger.forMethod('getRawDiff');
 	methodLogger.debug('Fetching raw diff', params);
 	try {
@@ -126,7 +138,12 @@ export async function getRawDiff(params: GetRawDiffParams): Promise<string> {
 	methodLogger.debug(`Requesting: ${path}`);
 	try {
 		// fetchAtlassian will return string for text/plain
-		const diffText = await fetchAtlassian<string>(credentials, path);
+		const diffText = isBitbucketServer()
+			? await serverService.getRawDiff(credentials, params, options)
+			: await fetchAtlassian<string>(credentials, path, {
+					signal: options.signal,
+					timeout: 'diff',
+				});
 		return diffText;
 	} catch (error) {
 		if (error instanceof McpError) throw error;
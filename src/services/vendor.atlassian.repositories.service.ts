@@ -6,9 +6,12 @@ import {
 } from '../utils/error.util.js';
 import { Logger } from '../utils/logger.util.js';
 import {
+	CallOptions,
 	fetchAtlassian,
 	getAtlassianCredentials,
+	isBitbucketServer,
 } from '../utils/transport.util.js';
+import serverService from './vendor.atlassian.server.service.js';
 import {
 	ListRepositoriesParamsSchema,
 	GetRepositoryParamsSchema,
@@ -62,6 +65,7 @@ serviceLogger.debug('Bitbucket repositories service initialized');
  * @param {string} [params.sort] - Property to sort by (e.g., 'name', '-created_on')
  * @param {number} [params.page] - Page number for pagination
  * @param {number} [params.pagelen] - Number of items per page
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<RepositoriesResponse>} Response containing repositories
  * @example
  * ```typescript
@@ -75,6 +79,7 @@ serviceLogger.debug('Bitbucket repositories service initialized');
  */
 async function list(
 	params: ListRepositoriesParams,
+	options: CallOptions = {},
 ): Promise<z.infer<typeof RepositoriesResponseSchema>> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
@@ -134,7 +139,13 @@ async function list(
 
 	methodLogger.debug(`Sending request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		// Data Center responses are mapped onto the Cloud shape by the adapter
+		const rawData = isBitbucketServer()
+			? await serverService.listRepositories(credentials, params, options)
+			: await fetchAtlassian(credentials, path, {
+					signal: options.signal,
+					cache: options.cache,
+				});
 		// Validate response with Zod schema
 		try {
 			const validatedData = RepositoriesResponseSchema.parse(rawData);
@@ -175,6 +186,7 @@ async function list(
  * @param {GetRepositoryParams} params - Parameters for the request
  * @param {string} params.workspace - The workspace slug
  * @param {string} params.repo_slug - The repository slug
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<Repository>} Promise containing the detailed repository information
  * @throws {Error} If Atlassian credentials are missing or API request fails
  * @example
@@ -184,7 +196,10 @@ async function list(
  *   repo_slug: 'my-repo'
  * });
  */
-async function get(params: GetRepositoryParams): Promise<Repository> {
+async function get(
+	params: GetRepositoryParams,
+	options: CallOptions = {},
+): Promise<Repository> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
 		'get',
@@ -222,7 +237,11 @@ async function get(params: GetRepositoryParams): Promise<Repository> {
 
 	methodLogger.debug(`Sending request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = isBitbucketServer()
+			? await serverService.getRepository(credentials, params, options)
+			: await fetchAtlassian(credentials, path, {
+					signal: options.signal,
+				});
 
 		// Validate response with Zod schema
 		try {
@@ -264,11 +283,13 @@ async function get(params: GetRepositoryParams): Promise<Repository> {
  * Lists commits for a specific repository and optional revision/path.
  *
  * @param params Parameters including workspace, repo slug, and optional filters.
+ * @param options Call options (abort signal)
  * @returns Promise resolving to paginated commit data.
  * @throws {Error} If workspace or repo_slug are missing, or if credentials are not found.
  */
 async function listCommits(
 	params: ListCommitsParams,
+	options: CallOptions = {},
 ): Promise<z.infer<typeof PaginatedCommitsSchema>> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
@@ -328,7 +349,11 @@ async function listCommits(
 
 	methodLogger.debug(`Sending commit history request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = isBitbucketServer()
+			? await serverService.listCommits(credentials, params, options)
+			: await fetchAtlassian(credentials, path, {
+					signal: options.signal,
+				});
 		// Validate response with Zod schema
 		try {
 			const validatedData = PaginatedCommitsSchema.parse(rawData);
@@ -363,10 +388,14 @@ async function listCommits(
  * Creates a new branch in the specified repository.
  *
  * @param params Parameters including workspace, repo slug, new branch name, and source target.
+ * @param options Call options (abort signal)
  * @returns Promise resolving to details about the newly created branch reference.
  * @throws {Error} If required parameters are missing or API request fails.
  */
-async function createBranch(params: CreateBranchParams): Promise<BranchRef> {
+async function createBranch(
+	params: CreateBranchParams,
+	options: CallOptions = {},
+): Promise<BranchRef> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
 		'createBranch',
@@ -408,10 +437,14 @@ async function createBranch(params: CreateBranchParams): Promise<BranchRef> {
 
 	methodLogger.debug(`Sending POST request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian<BranchRef>(credentials, path, {
-			method: 'POST',
-			body: requestBody,
-		});
+		const rawData = isBitbucketServer()
+			? await serverService.createBranch(credentials, params, options)
+			: await fetchAtlassian<BranchRef>(credentials, path, {
+					method: 'POST',
+					body: requestBody,
+					signal: options.signal,
+					dryRun: options.dryRun,
+				});
 
 		// Validate response with Zod schema
 		try {
@@ -454,6 +487,7 @@ async function createBranch(params: CreateBranchParams): Promise<BranchRef> {
  * @param {string} params.repo_slug - The repository slug or UUID
  * @param {string} params.commit - The commit, branch name, or tag to get the file from
  * @param {string} params.path - The file path within the repository
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<string>} Promise containing the file content as a string
  * @throws {Error} If parameters are invalid, credentials are missing, or API request fails
  * @example
@@ -465,7 +499,10 @@ async function createBranch(params: CreateBranchParams): Promise<BranchRef> {
  *   path: 'README.md'
  * });
  */
-async function getFileContent(params: GetFileContentParams): Promise<string> {
+async function getFileContent(
+	params: GetFileContentParams,
+	options: CallOptions = {},
+): Promise<string> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
 		'getFileContent',
@@ -505,7 +542,12 @@ async function getFileContent(params: GetFileContentParams): Promise<string> {
 	try {
 		// Use fetchAtlassian to get the file content directly as string
 		// The function already detects text/plain content type and returns it appropriately
-		const fileContent = await fetchAtlassian<string>(credentials, path);
+		const fileContent = isBitbucketServer()
+			? await serverService.getFileContent(credentials, params, options)
+			: await fetchAtlassian<string>(credentials, path, {
+					signal: options.signal,
+					timeout: 'file',
+				});
 
 		methodLogger.debug(
 			`Successfully retrieved file content (${fileContent.length} characters)`,
@@ -537,11 +579,13 @@ async function getFileContent(params: GetFileContentParams): Promise<string> {
  * Lists branches for a specific repository.
  *
  * @param params Parameters including workspace, repo slug, and optional filters.
+ * @param options Call options (abort signal)
  * @returns Promise resolving to paginated branches data.
  * @throws {Error} If workspace or repo_slug are missing, or if credentials are not found.
  */
 async function listBranches(
 	params: ListBranchesParams,
+	options: CallOptions = {},
 ): Promise<BranchesResponse> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.repositories.service.ts',
@@ -598,7 +642,11 @@ async function listBranches(
 
 	methodLogger.debug(`Sending branches request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = isBitbucketServer()
+			? await serverService.listBranches(credentials, params, options)
+			: await fetchAtlassian(credentials, path, {
+					signal: options.signal,
+				});
 		// Validate response with Zod schema
 		try {
 			const validatedData = BranchesResponseSchema.parse(rawData);
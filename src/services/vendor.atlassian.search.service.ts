@@ -1,4 +1,8 @@
-import { fetchAtlassian } from '../utils/transport.util.js';
+import {
+	ensureBitbucketCloud,
+	CallOptions,
+	fetchAtlassian,
+} from '../utils/transport.util.js';
 import { Logger } from '../utils/logger.util.js';
 import { URLSearchParams } from 'url';
 import { getAtlassianCredentials } from '../utils/transport.util.js';
@@ -136,10 +140,12 @@ export interface PathMatch {
  * Search for commits in a repository using the Bitbucket API
  *
  * @param {SearchCommitsParams} params - Parameters for the commit search
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<CommitsResponse>} The search results from the Bitbucket API
  */
 export async function searchCommits(
 	params: SearchCommitsParams,
+	options: CallOptions = {},
 ): Promise<CommitsResponse> {
 	// Build the query parameters - the Bitbucket API allows searching commits by message
 	const queryParams = new URLSearchParams();
@@ -164,14 +170,13 @@ export async function searchCommits(
 	}
 
 	// Get credentials for API call
+	ensureBitbucketCloud('Commit search');
+
 	const credentials = getAtlassianCredentials();
 	if (!credentials) {
 		throw new Error('No Atlassian credentials available');
 	}
 
-	// Set useBitbucketAuth to true since we're calling the Bitbucket API
-	credentials.useBitbucketAuth = true;
-
 	// Create API path for Bitbucket commits
 	const path = `/2.0/repositories/${params.workspaceSlug}/${params.repoSlug}/commits${
 		queryParams.toString() ? '?' + queryParams.toString() : ''
@@ -187,17 +192,22 @@ export async function searchCommits(
 	);
 
 	// Call Bitbucket API with credentials and path
-	return fetchAtlassian(credentials, path);
+	return fetchAtlassian(credentials, path, {
+		signal: options.signal,
+		timeout: 'search',
+	});
 }
 
 /**
  * Search for code in a workspace using the Bitbucket API
  *
  * @param {SearchCodeParams} params - Parameters for the code search
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<CodeSearchResponse>} The search results from the Bitbucket API
  */
 export async function searchCode(
 	params: SearchCodeParams,
+	options: CallOptions = {},
 ): Promise<CodeSearchResponse> {
 	// If repoSlug is provided, enhance the search query with repo: syntax
 	const searchQuery = params.repoSlug
@@ -250,14 +260,13 @@ export async function searchCode(
 	}
 
 	// Get credentials for API call
+	ensureBitbucketCloud('Code search');
+
 	const credentials = getAtlassianCredentials();
 	if (!credentials) {
 		throw new Error('No Atlassian credentials available');
 	}
 
-	// Set useBitbucketAuth to true since we're calling the Bitbucket API
-	credentials.useBitbucketAuth = true;
-
 	// Create API path for Bitbucket code search
 	const path = `/2.0/workspaces/${params.workspaceSlug}/search/code?${queryParams.toString()}`;
 
@@ -268,17 +277,22 @@ export async function searchCode(
 	});
 
 	// Call Bitbucket API with credentials and path
-	return fetchAtlassian(credentials, path);
+	return fetchAtlassian(credentials, path, {
+		signal: options.signal,
+		timeout: 'search',
+	});
 }
 
 /**
  * Search for content in Bitbucket
  *
  * @param params Search parameters
+ * @param options Call options (abort signal)
  * @returns Content search response
  */
 async function searchContent(
 	params: ContentSearchParams,
+	options: CallOptions = {},
 ): Promise<ContentSearchResponse> {
 	const logger = Logger.forContext(
 		'services/vendor.atlassian.search.service.ts',
@@ -286,6 +300,8 @@ async function searchContent(
 	);
 
 	try {
+		ensureBitbucketCloud('Content search');
+
 		const credentials = getAtlassianCredentials();
 		if (!credentials) {
 			throw new Error(
@@ -323,6 +339,7 @@ async function searchContent(
 		const response = await fetchAtlassian<ContentSearchResponse>(
 			credentials,
 			url,
+			{ signal: options.signal, timeout: 'search' },
 		);
 
 		return response;
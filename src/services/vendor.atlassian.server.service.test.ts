@@ -0,0 +1,493 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import serverService, {
+	extractFilterText,
+	mapComments,
+	mapCommit,
+	mapParticipant,
+	mapPullRequest,
+	mapRepository,
+	mapTask,
+	renderUnifiedDiff,
+	toDiffstat,
+} from './vendor.atlassian.server.service.js';
+import {
+	ServerDiffResponse,
+	ServerPullRequest,
+	ServerRepository,
+} from './vendor.atlassian.server.types.js';
+import {
+	CommitSchema,
+	RepositorySchema,
+} from './vendor.atlassian.repositories.types.js';
+import { AtlassianCredentials } from '../utils/transport.util.js';
+import { ErrorType } from '../utils/error.util.js';
+
+describe('Vendor Atlassian Data Center Adapter', () => {
+	const originalEnv = { ...process.env };
+
+	beforeAll(() => {
+		process.env.BITBUCKET_BASE_URL = 'https://bitbucket.example.com';
+	});
+
+	afterAll(() => {
+		process.env = originalEnv;
+	});
+
+	const repository: ServerRepository = {
+		slug: 'api',
+		id: 7,
+		name: 'API',
+		public: false,
+		project: { key: 'PROJ', id: 3, name: 'Project' },
+		links: {
+			self: [
+				{
+					href: 'https://bitbucket.example.com/projects/PROJ/repos/api/browse',
+				},
+			],
+			clone: [
+				{
+					href: 'https://bitbucket.example.com/scm/proj/api.git',
+					name: 'http',
+				},
+				{
+					href: 'ssh://git@bitbucket.example.com:7999/proj/api.git',
+					name: 'ssh',
+				},
+			],
+		},
+	};
+
+	const pullRequest: ServerPullRequest = {
+		id: 12,
+		version: 4,
+		title: 'Add endpoint',
+		description: 'Adds the endpoint',
+		state: 'OPEN',
+		createdDate: 1700000000000,
+		updatedDate: 1700000600000,
+		fromRef: {
+			id: 'refs/heads/feature',
+			displayId: 'feature',
+			latestCommit: 'abc123',
+			repository,
+		},
+		toRef: {
+			id: 'refs/heads/main',
+			displayId: 'main',
+			latestCommit: 'def456',
+			repository,
+		},
+		author: {
+			user: { name: 'jdoe', displayName: 'J. Doe', id: 1 },
+			role: 'AUTHOR',
+			approved: false,
+			status: 'UNAPPROVED',
+		},
+		reviewers: [
+			{
+				user: { name: 'asmith', displayName: 'A. Smith', id: 2 },
+				role: 'REVIEWER',
+				approved: true,
+				status: 'APPROVED',
+			},
+		],
+		properties: { commentCount: 2, openTaskCount: 1 },
+	};
+
+	describe('extractFilterText', () => {
+		it('should extract fuzzy and exact name filters', () => {
+			expect(extractFilterText('name ~ "api"')).toEqual({
+				text: 'api',
+				exact: false,
+			});
+			expect(extractFilterText('name="feature/x"')).toEqual({
+				text: 'feature/x',
+				exact: true,
+			});
+		});
+
+		it('should ignore conditions Data Center cannot express', () => {
+			expect(extractFilterText('project.key = "PROJ"')).toBeUndefined();
+			expect(extractFilterText(undefined)).toBeUndefined();
+		});
+	});
+
+	describe('mapRepository', () => {
+		it('should produce a valid Cloud repository', () => {
+			const mapped = mapRepository(repository, 'main');
+
+			expect(RepositorySchema.parse(mapped)).toBeTruthy();
+			expect(mapped.full_name).toBe('PROJ/api');
+			expect(mapped.mainbranch?.name).toBe('main');
+			expect(mapped.links.clone?.map((link) => link.name)).toEqual([
+				'https',
+				'ssh',
+			]);
+		});
+	});
+
+	describe('mapCommit', () => {
+		it('should produce a valid Cloud commit', () => {
+			const mapped = mapCommit(
+				{
+					id: 'abc123',
+					author: {
+						name: 'jdoe',
+						displayName: 'J. Doe',
+						emailAddress: 'jdoe@example.com',
+					},
+					authorTimestamp: 1700000000000,
+					message: 'Fix bug',
+					parents: [{ id: 'def456' }],
+				},
+				'PROJ',
+				'api',
+			);
+
+			expect(CommitSchema.parse(mapped)).toBeTruthy();
+			expect(mapped.author.raw).toBe('J. Doe <jdoe@example.com>');
+			expect(mapped.date).toBe('2023-11-14T22:13:20.000Z');
+			expect(mapped.links.html?.href).toBe(
+				'https://bitbucket.example.com/projects/PROJ/repos/api/commits/abc123',
+			);
+		});
+	});
+
+	describe('mapPullRequest', () => {
+		it('should map refs, users and counts', () => {
+			const mapped = mapPullRequest(pullRequest);
+
+			expect(mapped.type).toBe('pullrequest');
+			expect(mapped.source.branch.name).toBe('feature');
+			expect(mapped.destination.repository.full_name).toBe('PROJ/api');
+			expect(mapped.author.display_name).toBe('J. Doe');
+			expect(mapped.reviewers?.[0].nickname).toBe('asmith');
+			expect(mapped.summary?.raw).toBe('Adds the endpoint');
+			expect(mapped.task_count).toBe(1);
+			expect(mapped.links.html?.href).toBe(
+				'https://bitbucket.example.com/projects/PROJ/repos/api/pull-requests/12',
+			);
+		});
+
+		it('should list reviewers among the participants with their review state', () => {
+			const mapped = mapPullRequest(pullRequest);
+
+			expect(mapped.participants).toEqual([
+				expect.objectContaining({
+					role: 'REVIEWER',
+					approved: true,
+					state: 'approved',
+				}),
+			]);
+			expect(mapped.participants?.[0].user.nickname).toBe('asmith');
+		});
+	});
+
+	describe('mapParticipant', () => {
+		it('should translate NEEDS_WORK into changes_requested', () => {
+			const mapped = mapParticipant({
+				user: { name: 'asmith' },
+				role: 'REVIEWER',
+				approved: false,
+				status: 'NEEDS_WORK',
+			});
+
+			expect(mapped.state).toBe('changes_requested');
+			expect(mapped.role).toBe('REVIEWER');
+			// Data Center reports no participation time
+			expect(mapped.participated_on).toBeUndefined();
+		});
+	});
+
+	describe('mapComments', () => {
+		it('should flatten nested replies with parent references', () => {
+			const mapped = mapComments({
+				id: 1,
+				text: 'Why?',
+				author: { name: 'asmith' },
+				createdDate: 1700000000000,
+				updatedDate: 1700000000000,
+				anchor: { path: 'src/a.ts', line: 10, fileType: 'TO' },
+				comments: [
+					{
+						id: 2,
+						text: 'Because.',
+						author: { name: 'jdoe' },
+						createdDate: 1700000100000,
+						updatedDate: 1700000100000,
+					},
+				],
+			});
+
+			expect(mapped).toHaveLength(2);
+			expect(mapped[0].inline).toEqual({
+				path: 'src/a.ts',
+				from_path: undefined,
+				to: 10,
+			});
+			expect(mapped[1].parent).toEqual({ id: 1 });
+			expect(mapped[1].inline?.path).toBe('src/a.ts');
+		});
+
+		it('should map resolved threads onto the Cloud resolution', () => {
+			const [resolved] = mapComments({
+				id: 1,
+				text: 'Why?',
+				author: { name: 'asmith' },
+				createdDate: 1700000000000,
+				updatedDate: 1700000000000,
+				threadResolved: true,
+				threadResolvedDate: 1700000100000,
+				threadResolver: { name: 'jdoe', displayName: 'J. Doe' },
+			});
+			const [open] = mapComments({
+				id: 2,
+				text: 'How?',
+				author: { name: 'asmith' },
+				createdDate: 1700000000000,
+				updatedDate: 1700000000000,
+				threadResolved: false,
+			});
+
+			expect(resolved.resolution).toEqual({
+				type: 'comment_resolution',
+				user: expect.objectContaining({ display_name: 'J. Doe' }),
+				created_on: '2023-11-14T22:15:00.000Z',
+			});
+			expect(open.resolution).toBeUndefined();
+		});
+	});
+
+	describe('mapTask', () => {
+		it('should map blocker comments onto Cloud task states', () => {
+			const open = mapTask({
+				id: 5,
+				text: 'Add a test',
+				author: { name: 'asmith' },
+				createdDate: 1700000000000,
+				updatedDate: 1700000000000,
+				severity: 'BLOCKER',
+				state: 'OPEN',
+				parent: { id: 1 },
+			});
+			const resolved = mapTask({
+				id: 6,
+				text: 'Fix the typo',
+				author: { name: 'asmith' },
+				createdDate: 1700000000000,
+				updatedDate: 1700000100000,
+				severity: 'BLOCKER',
+				state: 'RESOLVED',
+				resolvedDate: 1700000100000,
+				resolver: { name: 'jdoe', displayName: 'J. Doe' },
+			});
+
+			expect(open.state).toBe('UNRESOLVED');
+			expect(open.comment).toEqual({ id: 1 });
+			expect(open.resolved_on).toBeNull();
+			expect(resolved.state).toBe('RESOLVED');
+			expect(resolved.resolved_on).toBe('2023-11-14T22:15:00.000Z');
+			expect(resolved.resolved_by?.display_name).toBe('J. Doe');
+			expect(resolved.comment).toBeUndefined();
+		});
+	});
+
+	describe('diff rendering', () => {
+		const diff: ServerDiffResponse = {
+			diffs: [
+				{
+					source: { toString: 'src/a.ts' },
+					destination: { toString: 'src/a.ts' },
+					hunks: [
+						{
+							sourceLine: 1,
+							sourceSpan: 2,
+							destinationLine: 1,
+							destinationSpan: 2,
+							segments: [
+								{
+									type: 'CONTEXT',
+									lines: [
+										{
+											source: 1,
+											destination: 1,
+											line: 'a',
+										},
+									],
+								},
+								{
+									type: 'REMOVED',
+									lines: [
+										{
+											source: 2,
+											destination: 2,
+											line: 'b',
+										},
+									],
+								},
+								{
+									type: 'ADDED',
+									lines: [
+										{
+											source: 2,
+											destination: 2,
+											line: 'c',
+										},
+									],
+								},
+							],
+						},
+					],
+				},
+				{
+					source: null,
+					destination: { toString: 'src/new.ts' },
+					hunks: [],
+				},
+			],
+		};
+
+		it('should render a unified diff', () => {
+			expect(renderUnifiedDiff(diff)).toBe(
+				[
+					'diff --git a/src/a.ts b/src/a.ts',
+					'--- a/src/a.ts',
+					'+++ b/src/a.ts',
+					'@@ -1,2 +1,2 @@',
+					' a',
+					'-b',
+					'+c',
+					'diff --git a/src/new.ts b/src/new.ts',
+					'--- /dev/null',
+					'+++ b/src/new.ts',
+					'',
+				].join('\n'),
+			);
+		});
+
+		it('should summarise changes as diffstat entries', () => {
+			expect(toDiffstat(diff)).toEqual([
+				{
+					status: 'modified',
+					old: { path: 'src/a.ts' },
+					new: { path: 'src/a.ts' },
+					lines_added: 1,
+					lines_removed: 1,
+				},
+				{
+					status: 'added',
+					new: { path: 'src/new.ts' },
+					lines_added: 0,
+					lines_removed: 0,
+				},
+			]);
+		});
+	});
+
+	describe('authenticated user', () => {
+		let server: http.Server;
+		let requests: string[];
+		let username: string | undefined;
+		let baseUrl: string;
+
+		beforeAll(async () => {
+			// A Data Center stand-in that names the user of every request in
+			// X-AUSERNAME, as Data Center does
+			server = http.createServer((req, res) => {
+				requests.push(`${req.method} ${req.url}`);
+				if (username) {
+					res.setHeader('X-AUSERNAME', username);
+				}
+				res.setHeader('Content-Type', 'application/json');
+				res.end(
+					JSON.stringify(
+						req.method === 'PUT'
+							? {
+									user: { name: 'jdoe', slug: 'jdoe' },
+									role: 'REVIEWER',
+									approved: true,
+									status: 'APPROVED',
+								}
+							: {},
+					),
+				);
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			baseUrl = `http://127.0.0.1:${port}`;
+		});
+
+		beforeEach(() => {
+			requests = [];
+			username = 'JDoe';
+			process.env.BITBUCKET_BASE_URL = baseUrl;
+			process.env.BITBUCKET_BACKEND = 'server';
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+			delete process.env.ATLASSIAN_BITBUCKET_USERNAME;
+		});
+
+		afterAll(async () => {
+			process.env.BITBUCKET_BASE_URL = 'https://bitbucket.example.com';
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		const params = {
+			workspace: 'PROJ',
+			repo_slug: 'api',
+			pull_request_id: 7,
+		};
+		const participantPath =
+			'/rest/api/1.0/projects/PROJ/repos/api/pull-requests/7/participants/jdoe';
+
+		it('should resolve an access token user once from X-AUSERNAME', async () => {
+			const credentials: AtlassianCredentials = {
+				authType: 'access-token',
+				accessToken: 'first-token',
+			};
+
+			const participant = await serverService.approvePullRequest(
+				credentials,
+				params,
+			);
+			await serverService.approvePullRequest(credentials, params);
+
+			expect(participant.state).toBe('approved');
+			expect(requests).toEqual([
+				'GET /rest/api/1.0/application-properties',
+				`PUT ${participantPath}`,
+				`PUT ${participantPath}`,
+			]);
+		});
+
+		it('should prefer ATLASSIAN_BITBUCKET_USERNAME', async () => {
+			process.env.ATLASSIAN_BITBUCKET_USERNAME = 'JDoe';
+
+			await serverService.approvePullRequest(
+				{ authType: 'access-token', accessToken: 'second-token' },
+				params,
+			);
+
+			expect(requests).toEqual([`PUT ${participantPath}`]);
+		});
+
+		it('should report missing credentials when Data Center names no user', async () => {
+			username = undefined;
+
+			await expect(
+				serverService.approvePullRequest(
+					{ authType: 'access-token', accessToken: 'third-token' },
+					params,
+				),
+			).rejects.toMatchObject({ type: ErrorType.AUTH_MISSING });
+			expect(requests).toEqual([
+				'GET /rest/api/1.0/application-properties',
+			]);
+		});
+	});
+});
@@ -0,0 +1,1710 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError, createAuthMissingError } from '../utils/error.util.js';
+import {
+	AtlassianCredentials,
+	CallOptions,
+	fetchAtlassian,
+	getBitbucketBaseUrl,
+	getCredentialFingerprint,
+} from '../utils/transport.util.js';
+import {
+	PullRequest,
+	PullRequestsResponse,
+	PullRequestUser,
+	PullRequestBranchRef,
+	PullRequestComment,
+	PullRequestCommentsResponse,
+	PullRequestParticipant,
+	ListPullRequestsParams,
+	GetPullRequestParams,
+	GetPullRequestCommentsParams,
+	CreatePullRequestCommentParams,
+	PullRequestCommentParams,
+	UpdatePullRequestCommentParams,
+	PullRequestCommentResolution,
+	CreatePullRequestParams,
+	UpdatePullRequestParams,
+	ApprovePullRequestParams,
+	RejectPullRequestParams,
+	DeclinePullRequestParams,
+	MergePullRequestParams,
+	MergeStrategy,
+	DiffstatFileChange,
+	PullRequestTask,
+	PullRequestTasksResponse,
+	ListPullRequestTasksParams,
+	CreatePullRequestTaskParams,
+	UpdatePullRequestTaskParams,
+	PullRequestTaskParams,
+	GetDefaultReviewersParams,
+} from './vendor.atlassian.pullrequests.types.js';
+import {
+	Repository,
+	Commit,
+	BranchRef,
+	ListRepositoriesParams,
+	GetRepositoryParams,
+	ListCommitsParams,
+	CreateBranchParams,
+	GetFileContentParams,
+	ListBranchesParams,
+} from './vendor.atlassian.repositories.types.js';
+import {
+	GetDiffstatParams,
+	GetRawDiffParams,
+} from './vendor.atlassian.repositories.diff.types.js';
+import {
+	ServerPagedResponse,
+	ServerUser,
+	ServerRepository,
+	ServerRef,
+	ServerCommit,
+	ServerParticipant,
+	ServerPullRequest,
+	ServerComment,
+	ServerActivity,
+	ServerDiffResponse,
+} from './vendor.atlassian.server.types.js';
+
+/**
+ * Base API path for Bitbucket Data Center / Server REST API
+ * @see https://developer.atlassian.com/server/bitbucket/rest/
+ * @constant {string}
+ */
+const API_PATH = '/rest/api/1.0';
+
+/**
+ * Base path of the default reviewers plugin REST API
+ * @see https://developer.atlassian.com/server/bitbucket/rest/v811/api-group-default-reviewers/
+ * @constant {string}
+ */
+const DEFAULT_REVIEWERS_API_PATH = '/rest/default-reviewers/1.0';
+
+/**
+ * Most credentials whose user slug {@link getUserSlug} remembers
+ */
+const MAX_CACHED_USER_SLUGS = 100;
+
+/**
+ * Slug of the authenticated user, by credential fingerprint
+ */
+const userSlugs = new Map<string, string>();
+
+/**
+ * Default page size used by Data Center when no limit is given
+ * @constant {number}
+ */
+const SERVER_DEFAULT_LIMIT = 25;
+
+/**
+ * Data Center merge strategy IDs for the Cloud merge strategies
+ * @constant {Record<MergeStrategy, string>}
+ */
+const SERVER_MERGE_STRATEGIES: Record<MergeStrategy, string> = {
+	merge_commit: 'no-ff',
+	squash: 'squash',
+	fast_forward: 'ff-only',
+};
+
+/**
+ * @namespace VendorAtlassianServerService
+ * @description Adapter for Bitbucket Data Center / Server.
+ * Translates the Cloud-shaped service calls into `/rest/api/1.0` requests and
+ * maps the responses back onto the Cloud types, so controllers and formatters
+ * work unchanged. In Data Center terms the `workspace` parameter is the
+ * project key.
+ */
+
+// Create a contextualized logger for this file
+const serviceLogger = Logger.forContext(
+	'services/vendor.atlassian.server.service.ts',
+);
+
+// Log service initialization
+serviceLogger.debug('Bitbucket Data Center adapter initialized');
+
+/**
+ * Cloud-style paginated envelope produced from a Data Center page
+ */
+interface CloudPage<T> {
+	pagelen: number;
+	page: number;
+	size: number;
+	next?: string;
+	values: T[];
+}
+
+/**
+ * Build the repository path prefix for a project key and repository slug
+ */
+function repoPath(workspace: string, repoSlug: string): string {
+	return `${API_PATH}/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(repoSlug)}`;
+}
+
+/**
+ * Build a browser URL on the Data Center instance
+ */
+function webUrl(path: string): string {
+	return `${getBitbucketBaseUrl()}${path}`;
+}
+
+/**
+ * Convert a Data Center epoch-millisecond timestamp into an ISO string
+ */
+function toIsoDate(timestamp?: number): string {
+	return new Date(timestamp ?? 0).toISOString();
+}
+
+/**
+ * Translate Cloud `page`/`pagelen` pagination into Data Center `start`/`limit`
+ * query parameters.
+ */
+function toPagingParams(
+	page?: number,
+	pagelen?: number,
+): { start: number; limit: number; page: number } {
+	const limit = pagelen || SERVER_DEFAULT_LIMIT;
+	const currentPage = page && page > 0 ? page : 1;
+	return { start: (currentPage - 1) * limit, limit, page: currentPage };
+}
+
+/**
+ * Build a query string from optional values, skipping empty entries
+ */
+function buildQueryString(
+	params: Record<string, string | number | undefined>,
+): string {
+	const queryParams = new URLSearchParams();
+	Object.entries(params).forEach(([key, value]) => {
+		if (value !== undefined && value !== '') {
+			queryParams.set(key, String(value));
+		}
+	});
+	return queryParams.toString() ? `?${queryParams.toString()}` : '';
+}
+
+/**
+ * Wrap a Data Center page into the Cloud pagination envelope.
+ * Data Center does not report a total count, so `size` is the number of
+ * items seen up to and including this page. `next` uses the `available`
+ * marker understood by the pagination utility.
+ */
+function toCloudPage<T>(
+	data: ServerPagedResponse<unknown>,
+	values: T[],
+	page: number,
+	limit: number,
+): CloudPage<T> {
+	return {
+		pagelen: limit,
+		page,
+		size: data.start + data.values.length,
+		...(!data.isLastPage && { next: 'available' }),
+		values,
+	};
+}
+
+/**
+ * Extract the text filter from a Cloud BBQL query such as `name ~ "api"`.
+ * Data Center only supports plain text filters, so the first `name` or
+ * `title` condition is used and whether it was an exact match (`=`) is
+ * reported. Other conditions (e.g. `project.key = "X"`) are ignored.
+ */
+export function extractFilterText(
+	q?: string,
+): { text: string; exact: boolean } | undefined {
+	if (!q) {
+		return undefined;
+	}
+	const match = q.match(/\b(?:name|title)\s*(~|=)\s*"([^"]*)"/);
+	if (match) {
+		return { text: match[2], exact: match[1] === '=' };
+	}
+	// Plain text without any BBQL operators is used as-is
+	return /[~=!<>]/.test(q) ? undefined : { text: q, exact: false };
+}
+
+/**
+ * Map a Data Center user onto the Cloud user shape
+ */
+export function mapUser(user?: ServerUser): PullRequestUser {
+	return {
+		type: 'user',
+		uuid: user?.id !== undefined ? String(user.id) : undefined,
+		display_name: user?.displayName || user?.name,
+		nickname: user?.name,
+		account_id: user?.slug,
+		links: user?.links?.self?.[0]
+			? { html: { href: user.links.self[0].href } }
+			: undefined,
+	};
+}
+
+/**
+ * Map a Data Center repository onto the Cloud repository shape
+ */
+export function mapRepository(
+	repo: ServerRepository,
+	defaultBranch?: string,
+): Repository {
+	const projectKey = repo.project.key;
+	const htmlHref =
+		repo.links?.self?.[0]?.href ||
+		webUrl(`/projects/${projectKey}/repos/${repo.slug}/browse`);
+
+	return {
+		type: 'repository',
+		uuid:
+			repo.id !== undefined
+				? String(repo.id)
+				: `${projectKey}/${repo.slug}`,
+		full_name: `${projectKey}/${repo.slug}`,
+		name: repo.name,
+		description: repo.description,
+		is_private: !repo.public,
+		fork_policy: repo.forkable === false ? 'no_forks' : 'allow_forks',
+		scm: 'git',
+		owner: {
+			type: 'team',
+			username: projectKey,
+			display_name: repo.project.name || projectKey,
+		},
+		...(defaultBranch && {
+			mainbranch: { type: 'branch' as const, name: defaultBranch },
+		}),
+		project: {
+			type: 'project',
+			key: projectKey,
+			uuid:
+				repo.project.id !== undefined
+					? String(repo.project.id)
+					: projectKey,
+			name: repo.project.name || projectKey,
+		},
+		links: {
+			self: { href: htmlHref },
+			html: { href: htmlHref },
+			// Cloud names the HTTP clone link "https"
+			clone: (repo.links?.clone || []).map((link) => ({
+				href: link.href,
+				name: link.name === 'http' ? 'https' : link.name,
+			})),
+		},
+	};
+}
+
+/**
+ * Map a Data Center commit onto the Cloud commit shape
+ */
+export function mapCommit(
+	commit: ServerCommit,
+	workspace: string,
+	repoSlug: string,
+): Commit {
+	const author = commit.author;
+	return {
+		hash: commit.id,
+		type: 'commit',
+		author: {
+			raw: author.emailAddress
+				? `${author.displayName || author.name} <${author.emailAddress}>`
+				: author.displayName || author.name,
+			type: 'author',
+			user: {
+				display_name: author.displayName || author.name,
+				nickname: author.name,
+				uuid: author.id !== undefined ? String(author.id) : undefined,
+				type: 'user',
+			},
+		},
+		date: toIsoDate(commit.authorTimestamp),
+		message: commit.message,
+		links: {
+			html: {
+				href: webUrl(
+					`/projects/${workspace}/repos/${repoSlug}/commits/${commit.id}`,
+				),
+			},
+		},
+		summary: { raw: commit.message },
+		parents: (commit.parents || []).map((parent) => ({
+			hash: parent.id,
+			type: 'commit',
+			links: {},
+		})),
+	};
+}
+
+/**
+ * Map a Data Center branch onto the Cloud branch shape
+ */
+export function mapBranch(ref: ServerRef): BranchRef {
+	return {
+		type: 'branch',
+		name: ref.displayId,
+		target: {
+			hash: ref.latestCommit || '',
+			type: 'commit',
+		},
+	};
+}
+
+/**
+ * Map a Data Center pull request ref onto the Cloud branch reference shape
+ */
+function mapPullRequestRef(ref: ServerRef): PullRequestBranchRef {
+	return {
+		repository: ref.repository ? mapRepository(ref.repository) : {},
+		branch: { name: ref.displayId },
+		...(ref.latestCommit && { commit: { hash: ref.latestCommit } }),
+	};
+}
+
+/**
+ * Map a Data Center pull request onto the Cloud pull request shape
+ */
+export function mapPullRequest(pr: ServerPullRequest): PullRequest {
+	const repository = pr.toRef.repository;
+	const prPath = repository
+		? `/projects/${repository.project.key}/repos/${repository.slug}/pull-requests/${pr.id}`
+		: undefined;
+	const htmlHref = pr.links?.self?.[0]?.href || (prPath && webUrl(prPath));
+
+	return {
+		type: 'pullrequest',
+		id: pr.id,
+		title: pr.title,
+		summary: {
+			raw: pr.description || '',
+			markup: 'markdown',
+			html: '',
+		},
+		state: pr.state,
+		author: mapUser(pr.author.user),
+		source: mapPullRequestRef(pr.fromRef),
+		destination: mapPullRequestRef(pr.toRef),
+		...(pr.properties?.mergeCommit && {
+			merge_commit: { hash: pr.properties.mergeCommit.id },
+		}),
+		comment_count: pr.properties?.commentCount,
+		task_count: pr.properties?.openTaskCount,
+		created_on: toIsoDate(pr.createdDate),
+		updated_on: toIsoDate(pr.updatedDate),
+		reviewers: (pr.reviewers || []).map((reviewer) =>
+			mapUser(reviewer.user),
+		),
+		// Cloud lists reviewers among the participants, with their review state
+		participants: [...(pr.reviewers || []), ...(pr.participants || [])].map(
+			mapParticipant,
+		),
+		links: {
+			...(htmlHref && { html: { href: htmlHref } }),
+			...(prPath && {
+				commits: { href: webUrl(`${prPath}/commits`) },
+				diff: { href: webUrl(`${prPath}/diff`) },
+				activity: { href: webUrl(`${prPath}/overview`) },
+			}),
+		},
+	};
+}
+
+/**
+ * Map a Data Center participant onto the Cloud participant shape
+ */
+export function mapParticipant(
+	participant: ServerParticipant,
+): PullRequestParticipant {
+	let state: PullRequestParticipant['state'] = null;
+	if (participant.status === 'APPROVED') {
+		state = 'approved';
+	} else if (participant.status === 'NEEDS_WORK') {
+		state = 'changes_requested';
+	}
+
+	return {
+		type: 'participant',
+		user: mapUser(participant.user),
+		role: participant.role === 'REVIEWER' ? 'REVIEWER' : 'PARTICIPANT',
+		approved: participant.approved,
+		state,
+	};
+}
+
+/**
+ * Map a Data Center comment onto the Cloud comment shape.
+ * Data Center nests replies inside their parent; they are flattened with a
+ * `parent` reference so the Cloud threading logic applies unchanged.
+ */
+export function mapComments(
+	comment: ServerComment,
+	parentId?: number,
+): PullRequestComment[] {
+	const anchor = comment.anchor;
+	const mapped: PullRequestComment = {
+		type: 'pullrequest_comment',
+		id: comment.id,
+		content: { raw: comment.text, markup: 'markdown' },
+		user: mapUser(comment.author),
+		created_on: toIsoDate(comment.createdDate),
+		updated_on: toIsoDate(comment.updatedDate),
+		...(anchor && {
+			inline: {
+				path: anchor.path,
+				from_path: anchor.srcPath,
+				...(anchor.fileType === 'FROM'
+					? { from: anchor.line }
+					: { to: anchor.line }),
+			},
+		}),
+		...(parentId !== undefined && { parent: { id: parentId } }),
+		...(comment.threadResolved && { resolution: mapResolution(comment) }),
+	};
+
+	return [
+		mapped,
+		...(comment.comments || []).flatMap((reply) =>
+			mapComments(
+				{ ...reply, anchor: reply.anchor || anchor },
+				comment.id,
+			),
+		),
+	];
+}
+
+/**
+ * Map the resolution of a Data Center comment thread onto the Cloud shape
+ */
+function mapResolution(comment: ServerComment): PullRequestCommentResolution {
+	return {
+		type: 'comment_resolution',
+		...(comment.threadResolver && {
+			user: mapUser(comment.threadResolver),
+		}),
+		...(comment.threadResolvedDate !== undefined && {
+			created_on: toIsoDate(comment.threadResolvedDate),
+		}),
+	};
+}
+
+/**
+ * Map a Data Center blocker comment onto the Cloud task shape
+ */
+export function mapTask(comment: ServerComment): PullRequestTask {
+	return {
+		id: comment.id,
+		state: comment.state === 'RESOLVED' ? 'RESOLVED' : 'UNRESOLVED',
+		content: { raw: comment.text, markup: 'markdown' },
+		creator: mapUser(comment.author),
+		created_on: toIsoDate(comment.createdDate),
+		updated_on: toIsoDate(comment.updatedDate),
+		resolved_on:
+			comment.resolvedDate !== undefined
+				? toIsoDate(comment.resolvedDate)
+				: null,
+		resolved_by: comment.resolver ? mapUser(comment.resolver) : null,
+		pending: comment.state === 'PENDING',
+		...(comment.parent && { comment: { id: comment.parent.id } }),
+	};
+}
+
+/**
+ * Render a Data Center JSON diff as a unified diff
+ */
+export function renderUnifiedDiff(diff: ServerDiffResponse): string {
+	const lines: string[] = [];
+
+	diff.diffs.forEach((fileDiff) => {
+		const source = fileDiff.source?.toString;
+		const destination = fileDiff.destination?.toString;
+		lines.push(
+			`diff --git a/${source || destination} b/${destination || source}`,
+		);
+		if (fileDiff.binary) {
+			lines.push(
+				`Binary files ${source ? `a/${source}` : '/dev/null'} and ${destination ? `b/${destination}` : '/dev/null'} differ`,
+			);
+			return;
+		}
+		lines.push(source ? `--- a/${source}` : '--- /dev/null');
+		lines.push(destination ? `+++ b/${destination}` : '+++ /dev/null');
+
+		(fileDiff.hunks || []).forEach((hunk) => {
+			lines.push(
+				`@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`,
+			);
+			hunk.segments.forEach((segment) => {
+				const prefix =
+					segment.type === 'ADDED'
+						? '+'
+						: segment.type === 'REMOVED'
+							? '-'
+							: ' ';
+				segment.lines.forEach((line) => {
+					lines.push(`${prefix}${line.line}`);
+				});
+			});
+		});
+	});
+
+	return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Summarise a Data Center JSON diff as Cloud diffstat entries
+ */
+export function toDiffstat(diff: ServerDiffResponse): DiffstatFileChange[] {
+	return diff.diffs.map((fileDiff) => {
+		const source = fileDiff.source?.toString;
+		const destination = fileDiff.destination?.toString;
+
+		let status = 'modified';
+		if (!source) {
+			status = 'added';
+		} else if (!destination) {
+			status = 'removed';
+		} else if (source !== destination) {
+			status = 'renamed';
+		}
+
+		let linesAdded = 0;
+		let linesRemoved = 0;
+		(fileDiff.hunks || []).forEach((hunk) => {
+			hunk.segments.forEach((segment) => {
+				if (segment.type === 'ADDED') {
+					linesAdded += segment.lines.length;
+				} else if (segment.type === 'REMOVED') {
+					linesRemoved += segment.lines.length;
+				}
+			});
+		});
+
+		return {
+			status,
+			...(source && { old: { path: source } }),
+			...(destination && { new: { path: destination } }),
+			lines_added: linesAdded,
+			lines_removed: linesRemoved,
+		};
+	});
+}
+
+/**
+ * Resolve the slug of the authenticated user, used by the participants and
+ * users endpoints. ATLASSIAN_BITBUCKET_USERNAME is taken as given; otherwise
+ * Data Center names the user in the X-AUSERNAME header of any authenticated
+ * response, which is remembered per credential.
+ * @throws {McpError} If Data Center does not name the user
+ */
+async function getUserSlug(
+	credentials: AtlassianCredentials,
+	options: CallOptions = {},
+): Promise<string> {
+	// Also honoured next to an access token, which carries no user name
+	const configured =
+		credentials.bitbucketUsername ||
+		config.get('ATLASSIAN_BITBUCKET_USERNAME');
+	if (configured) {
+		return encodeURIComponent(configured.toLowerCase());
+	}
+
+	const key = getCredentialFingerprint(credentials);
+	const cached = userSlugs.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	const path = `${API_PATH}/application-properties`;
+	serviceLogger.debug(`Resolving the authenticated user from: ${path}`);
+	const response: { username?: string | null } = {};
+	await fetchAtlassian(credentials, path, {
+		signal: options.signal,
+		cache: false,
+		onResponse: (_status, headers) => {
+			response.username = headers.get('x-ausername');
+		},
+	});
+	if (!response.username) {
+		throw createAuthMissingError(
+			'Could not determine the Data Center user of these credentials. Set ATLASSIAN_BITBUCKET_USERNAME to your Bitbucket user name.',
+		);
+	}
+
+	const slug = encodeURIComponent(response.username.toLowerCase());
+	if (userSlugs.size >= MAX_CACHED_USER_SLUGS) {
+		// Forget the oldest entry
+		userSlugs.delete(userSlugs.keys().next().value as string);
+	}
+	userSlugs.set(key, slug);
+	return slug;
+}
+
+/**
+ * List repositories in a Data Center project
+ */
+async function listRepositories(
+	credentials: AtlassianCredentials,
+	params: ListRepositoriesParams,
+	options: CallOptions = {},
+): Promise<CloudPage<Repository>> {
+	const methodLogger = serviceLogger.forMethod('listRepositories');
+	const paging = toPagingParams(params.page, params.pagelen);
+	const filter = extractFilterText(params.q);
+
+	const path = filter
+		? `${API_PATH}/repos${buildQueryString({
+				name: filter.text,
+				start: paging.start,
+				limit: paging.limit,
+			})}`
+		: `${API_PATH}/projects/${encodeURIComponent(params.workspace)}/repos${buildQueryString(
+				{ start: paging.start, limit: paging.limit },
+			)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerRepository>>(
+		credentials,
+		path,
+		{ signal: options.signal, cache: options.cache },
+	);
+	// The global repository search spans all projects; keep this project only
+	const values = data.values
+		.filter(
+			(repo) =>
+				!filter ||
+				repo.project.key.toUpperCase() ===
+					params.workspace.toUpperCase(),
+		)
+		.map((repo) => mapRepository(repo));
+	return toCloudPage(data, values, paging.page, paging.limit);
+}
+
+/**
+ * Get a single Data Center repository, including its default branch
+ */
+async function getRepository(
+	credentials: AtlassianCredentials,
+	params: GetRepositoryParams,
+	options: CallOptions = {},
+): Promise<Repository> {
+	const methodLogger = serviceLogger.forMethod('getRepository');
+	const path = repoPath(params.workspace, params.repo_slug);
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const repo = await fetchAtlassian<ServerRepository>(credentials, path, {
+		signal: options.signal,
+	});
+
+	let defaultBranch: string | undefined;
+	try {
+		const ref = await fetchAtlassian<ServerRef>(
+			credentials,
+			`${path}/branches/default`,
+			{ signal: options.signal },
+		);
+		defaultBranch = ref.displayId;
+	} catch (error) {
+		// Empty repositories have no default branch
+		methodLogger.debug('Could not resolve default branch', error);
+	}
+
+	return mapRepository(repo, defaultBranch);
+}
+
+/**
+ * List commits in a Data Center repository
+ */
+async function listCommits(
+	credentials: AtlassianCredentials,
+	params: ListCommitsParams,
+	options: CallOptions = {},
+): Promise<CloudPage<Commit>> {
+	const methodLogger = serviceLogger.forMethod('listCommits');
+	const paging = toPagingParams(params.page, params.pagelen);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/commits${buildQueryString(
+		{
+			until: params.include,
+			since: params.exclude,
+			path: params.path,
+			start: paging.start,
+			limit: paging.limit,
+		},
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerCommit>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	const values = data.values.map((commit) =>
+		mapCommit(commit, params.workspace, params.repo_slug),
+	);
+	return toCloudPage(data, values, paging.page, paging.limit);
+}
+
+/**
+ * Create a branch in a Data Center repository
+ */
+async function createBranch(
+	credentials: AtlassianCredentials,
+	params: CreateBranchParams,
+	options: CallOptions = {},
+): Promise<BranchRef> {
+	const methodLogger = serviceLogger.forMethod('createBranch');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/branches`;
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const ref = await fetchAtlassian<ServerRef>(credentials, path, {
+		method: 'POST',
+		body: {
+			name: params.name,
+			startPoint: params.target.hash,
+		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapBranch(ref);
+}
+
+/**
+ * Get raw file content from a Data Center repository
+ */
+async function getFileContent(
+	credentials: AtlassianCredentials,
+	params: GetFileContentParams,
+	options: CallOptions = {},
+): Promise<string> {
+	const methodLogger = serviceLogger.forMethod('getFileContent');
+	const filePath = params.path
+		.split('/')
+		.map((segment) => encodeURIComponent(segment))
+		.join('/');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/raw/${filePath}${buildQueryString(
+		{ at: params.commit },
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const content = await fetchAtlassian<unknown>(credentials, path, {
+		headers: {
+			Accept: 'text/plain',
+		},
+		signal: options.signal,
+		timeout: 'file',
+	});
+	// JSON files are parsed by the transport; return them as text again
+	return typeof content === 'string'
+		? content
+		: JSON.stringify(content, null, 2);
+}
+
+/**
+ * List branches in a Data Center repository
+ */
+async function listBranches(
+	credentials: AtlassianCredentials,
+	params: ListBranchesParams,
+	options: CallOptions = {},
+): Promise<CloudPage<BranchRef>> {
+	const methodLogger = serviceLogger.forMethod('listBranches');
+	const paging = toPagingParams(params.page, params.pagelen);
+	const filter = extractFilterText(params.q);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/branches${buildQueryString(
+		{
+			filterText: filter?.text,
+			orderBy:
+				params.sort && params.sort.replace(/^-/, '') === 'name'
+					? 'ALPHABETICAL'
+					: 'MODIFICATION',
+			start: paging.start,
+			limit: paging.limit,
+		},
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerRef>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	// filterText is a substring match; honour exact-name lookups locally
+	const values = data.values
+		.filter((ref) => !filter?.exact || ref.displayId === filter.text)
+		.map(mapBranch);
+	return toCloudPage(data, values, paging.page, paging.limit);
+}
+
+/**
+ * List pull requests in a Data Center repository
+ */
+async function listPullRequests(
+	credentials: AtlassianCredentials,
+	params: ListPullRequestsParams,
+	options: CallOptions = {},
+): Promise<PullRequestsResponse> {
+	const methodLogger = serviceLogger.forMethod('listPullRequests');
+	const paging = toPagingParams(params.page, params.pagelen);
+
+	// Data Center accepts a single state; several states means ALL
+	let state: string | undefined;
+	if (Array.isArray(params.state)) {
+		state = params.state.length === 1 ? params.state[0] : 'ALL';
+	} else {
+		state = params.state;
+	}
+	if (state === 'SUPERSEDED') {
+		state = 'DECLINED';
+	}
+
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests${buildQueryString(
+		{
+			state,
+			filterText: extractFilterText(params.q)?.text,
+			order: params.sort?.startsWith('-') ? 'NEWEST' : undefined,
+			start: paging.start,
+			limit: paging.limit,
+		},
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerPullRequest>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	return toCloudPage(
+		data,
+		data.values.map(mapPullRequest),
+		paging.page,
+		paging.limit,
+	);
+}
+
+/**
+ * Fetch the raw Data Center pull request (used where the version is needed)
+ */
+async function fetchServerPullRequest(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<ServerPullRequest> {
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}`;
+	serviceLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<ServerPullRequest>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * Get a single Data Center pull request
+ */
+async function getPullRequest(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequest> {
+	return mapPullRequest(
+		await fetchServerPullRequest(credentials, params, options),
+	);
+}
+
+/**
+ * List comments on a Data Center pull request.
+ * Comments are read from the activity stream, which pages over top-level
+ * comment activities with their replies nested.
+ */
+async function getPullRequestComments(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestCommentsParams,
+	options: CallOptions = {},
+): Promise<PullRequestCommentsResponse> {
+	const methodLogger = serviceLogger.forMethod('getPullRequestComments');
+	const paging = toPagingParams(params.page, params.pagelen);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/activities${buildQueryString(
+		{ start: paging.start, limit: paging.limit },
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerActivity>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	const comments = data.values
+		.filter(
+			(activity) =>
+				activity.action === 'COMMENTED' &&
+				activity.commentAction === 'ADDED' &&
+				activity.comment,
+		)
+		.flatMap((activity) =>
+			mapComments({
+				...(activity.comment as ServerComment),
+				anchor: activity.comment?.anchor || activity.commentAnchor,
+			}),
+		);
+
+	return toCloudPage(data, comments, paging.page, paging.limit);
+}
+
+/**
+ * Add a comment to a Data Center pull request
+ */
+async function createPullRequestComment(
+	credentials: AtlassianCredentials,
+	params: CreatePullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestComment> {
+	const methodLogger = serviceLogger.forMethod('createPullRequestComment');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/comments`;
+
+	const requestBody: Record<string, unknown> = {
+		text: params.content.raw,
+	};
+	if (params.parent) {
+		requestBody.parent = { id: params.parent.id };
+	}
+	if (params.inline) {
+		requestBody.anchor = {
+			path: params.inline.path,
+			line: params.inline.to,
+			lineType: 'ADDED',
+			fileType: 'TO',
+			diffType: 'EFFECTIVE',
+		};
+	}
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const comment = await fetchAtlassian<ServerComment>(credentials, path, {
+		method: 'POST',
+		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapComments(comment, params.parent?.id)[0];
+}
+
+/**
+ * Fetch a raw Data Center comment (used where the version is needed)
+ */
+async function fetchServerComment(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<ServerComment> {
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/comments/${params.comment_id}`;
+	serviceLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<ServerComment>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * Get a comment on a Data Center pull request
+ */
+async function getPullRequestComment(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestComment> {
+	const comment = await fetchServerComment(credentials, params, options);
+	return mapComments(comment, comment.parent?.id)[0];
+}
+
+/**
+ * Edit a comment on a Data Center pull request. Updates need the current
+ * comment version.
+ */
+async function updatePullRequestComment(
+	credentials: AtlassianCredentials,
+	params: UpdatePullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestComment> {
+	const methodLogger = serviceLogger.forMethod('updatePullRequestComment');
+	const existing = await fetchServerComment(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/comments/${params.comment_id}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`);
+	const comment = await fetchAtlassian<ServerComment>(credentials, path, {
+		method: 'PUT',
+		body: { version: existing.version, text: params.content.raw },
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapComments(comment, existing.parent?.id)[0];
+}
+
+/**
+ * Delete a comment from a Data Center pull request. Deletion needs the
+ * current comment version, and Data Center refuses it while the comment
+ * has replies.
+ */
+async function deletePullRequestComment(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = serviceLogger.forMethod('deletePullRequestComment');
+	const existing = await fetchServerComment(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/comments/${params.comment_id}${buildQueryString(
+		{ version: existing.version },
+	)}`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Resolve or reopen a Data Center comment thread by updating the
+ * `threadResolved` flag of its comment
+ */
+async function setPullRequestCommentResolved(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	threadResolved: boolean,
+	options: CallOptions = {},
+): Promise<ServerComment> {
+	const methodLogger = serviceLogger.forMethod(
+		'setPullRequestCommentResolved',
+	);
+	const existing = await fetchServerComment(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/comments/${params.comment_id}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`, { threadResolved });
+	return fetchAtlassian<ServerComment>(credentials, path, {
+		method: 'PUT',
+		body: { version: existing.version, threadResolved },
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Resolve a comment thread on a Data Center pull request
+ */
+async function resolvePullRequestComment(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<PullRequestCommentResolution> {
+	const comment = await setPullRequestCommentResolved(
+		credentials,
+		params,
+		true,
+		options,
+	);
+	return mapResolution(comment);
+}
+
+/**
+ * Reopen a resolved comment thread on a Data Center pull request
+ */
+async function reopenPullRequestComment(
+	credentials: AtlassianCredentials,
+	params: PullRequestCommentParams,
+	options: CallOptions = {},
+): Promise<void> {
+	await setPullRequestCommentResolved(credentials, params, false, options);
+}
+
+/**
+ * Create a Data Center pull request
+ */
+async function createPullRequest(
+	credentials: AtlassianCredentials,
+	params: CreatePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequest> {
+	const methodLogger = serviceLogger.forMethod('createPullRequest');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests`;
+	const repository = {
+		slug: params.repo_slug,
+		project: { key: params.workspace },
+	};
+
+	if (params.close_source_branch) {
+		methodLogger.debug(
+			'close_source_branch is not supported by Data Center and is ignored',
+		);
+	}
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const pr = await fetchAtlassian<ServerPullRequest>(credentials, path, {
+		method: 'POST',
+		body: {
+			title: params.title,
+			description: params.description || '',
+			fromRef: {
+				id: `refs/heads/${params.source.branch.name}`,
+				repository,
+			},
+			toRef: {
+				id: `refs/heads/${params.destination.branch.name}`,
+				repository,
+			},
+			...(params.reviewers && {
+				reviewers: params.reviewers.map(toServerReviewer),
+			}),
+		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapPullRequest(pr);
+}
+
+/**
+ * Reference a reviewer in a Data Center request body by user name
+ */
+function toServerReviewer(user: PullRequestUser): { user: { name?: string } } {
+	return { user: { name: user.nickname ?? user.account_id } };
+}
+
+/**
+ * Update the title, description and/or reviewers of a Data Center pull
+ * request. Data Center requires the current version and replaces the
+ * reviewer list on update, so both are carried over from the existing pull
+ * request unless new reviewers are given.
+ */
+async function updatePullRequest(
+	credentials: AtlassianCredentials,
+	params: UpdatePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequest> {
+	const methodLogger = serviceLogger.forMethod('updatePullRequest');
+	const existing = await fetchServerPullRequest(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`);
+	const pr = await fetchAtlassian<ServerPullRequest>(credentials, path, {
+		method: 'PUT',
+		body: {
+			version: existing.version,
+			title: params.title ?? existing.title,
+			description: params.description ?? existing.description,
+			reviewers: params.reviewers
+				? params.reviewers.map(toServerReviewer)
+				: (existing.reviewers || []).map((reviewer) => ({
+						user: { name: reviewer.user.name },
+					})),
+		},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapPullRequest(pr);
+}
+
+/**
+ * Find a Data Center user by user name, slug or email address
+ */
+async function findUser(
+	credentials: AtlassianCredentials,
+	identifier: string,
+	options: CallOptions = {},
+): Promise<PullRequestUser | undefined> {
+	const methodLogger = serviceLogger.forMethod('findUser');
+	const path = `${API_PATH}/users${buildQueryString({
+		filter: identifier,
+		limit: SERVER_DEFAULT_LIMIT,
+	})}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerUser>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	const wanted = identifier.toLowerCase();
+	const user = data.values.find((candidate) =>
+		[candidate.name, candidate.slug, candidate.emailAddress].some(
+			(value) => value?.toLowerCase() === wanted,
+		),
+	);
+	return user && mapUser(user);
+}
+
+/**
+ * Get the default reviewers for a pull request between two branches of a
+ * Data Center repository. Default reviewer conditions depend on the
+ * branches, so both are required.
+ */
+async function getDefaultReviewers(
+	credentials: AtlassianCredentials,
+	params: GetDefaultReviewersParams,
+	options: CallOptions = {},
+): Promise<PullRequestUser[]> {
+	const methodLogger = serviceLogger.forMethod('getDefaultReviewers');
+	if (!params.source_branch || !params.destination_branch) {
+		throw createApiError(
+			'Source and destination branches are required to get default reviewers on Data Center',
+			400,
+		);
+	}
+
+	const repo = await fetchAtlassian<ServerRepository>(
+		credentials,
+		repoPath(params.workspace, params.repo_slug),
+		{ signal: options.signal },
+	);
+	const path = `${DEFAULT_REVIEWERS_API_PATH}/projects/${encodeURIComponent(params.workspace)}/repos/${encodeURIComponent(params.repo_slug)}/reviewers${buildQueryString(
+		{
+			sourceRepoId: repo.id,
+			targetRepoId: repo.id,
+			sourceRefId: `refs/heads/${params.source_branch}`,
+			targetRefId: `refs/heads/${params.destination_branch}`,
+		},
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const users = await fetchAtlassian<ServerUser[]>(credentials, path, {
+		signal: options.signal,
+	});
+	return users.map(mapUser);
+}
+
+/**
+ * Get the Data Center user the configured credentials belong to
+ */
+async function getCurrentUser(
+	credentials: AtlassianCredentials,
+	options: CallOptions = {},
+): Promise<PullRequestUser> {
+	const methodLogger = serviceLogger.forMethod('getCurrentUser');
+	const path = `${API_PATH}/users/${await getUserSlug(credentials, options)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const user = await fetchAtlassian<ServerUser>(credentials, path, {
+		signal: options.signal,
+	});
+	return mapUser(user);
+}
+
+/**
+ * Set the authenticated user's review status on a Data Center pull request
+ */
+async function setParticipantStatus(
+	credentials: AtlassianCredentials,
+	params: ApprovePullRequestParams | RejectPullRequestParams,
+	status: ServerParticipant['status'],
+	options: CallOptions = {},
+): Promise<PullRequestParticipant> {
+	const methodLogger = serviceLogger.forMethod('setParticipantStatus');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/participants/${await getUserSlug(credentials, options)}`;
+
+	methodLogger.debug(`Sending PUT request to: ${path}`, { status });
+	const participant = await fetchAtlassian<ServerParticipant>(
+		credentials,
+		path,
+		{
+			method: 'PUT',
+			body: { status },
+			signal: options.signal,
+			dryRun: options.dryRun,
+		},
+	);
+	return mapParticipant(participant);
+}
+
+/**
+ * Approve a Data Center pull request
+ */
+async function approvePullRequest(
+	credentials: AtlassianCredentials,
+	params: ApprovePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestParticipant> {
+	return setParticipantStatus(credentials, params, 'APPROVED', options);
+}
+
+/**
+ * Mark a Data Center pull request as "needs work"
+ */
+async function rejectPullRequest(
+	credentials: AtlassianCredentials,
+	params: RejectPullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestParticipant> {
+	return setParticipantStatus(credentials, params, 'NEEDS_WORK', options);
+}
+
+/**
+ * Remove the authenticated user's approval from a Data Center pull request
+ */
+async function unapprovePullRequest(
+	credentials: AtlassianCredentials,
+	params: ApprovePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestParticipant> {
+	return setParticipantStatus(credentials, params, 'UNAPPROVED', options);
+}
+
+/**
+ * Withdraw the authenticated user's "needs work" on a Data Center pull
+ * request. Data Center has no separate endpoint for this, and resetting the
+ * status would also drop an approval, so the status must be NEEDS_WORK.
+ */
+async function withdrawPullRequestChangeRequest(
+	credentials: AtlassianCredentials,
+	params: RejectPullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequestParticipant> {
+	const slug = await getUserSlug(credentials, options);
+	const pr = await fetchServerPullRequest(credentials, params, options);
+	const own = [...(pr.reviewers ?? []), ...(pr.participants ?? [])].find(
+		(participant) =>
+			[
+				participant.user.slug,
+				participant.user.name,
+				participant.user.emailAddress,
+			].some(
+				(name) =>
+					name !== undefined &&
+					encodeURIComponent(name.toLowerCase()) === slug,
+			),
+	);
+	if (own?.status !== 'NEEDS_WORK') {
+		throw createApiError(
+			`You have not requested changes on pull request #${params.pull_request_id} (your review status is ${own?.status ?? 'none'}), so there is no change request to withdraw.`,
+			409,
+		);
+	}
+	return setParticipantStatus(credentials, params, 'UNAPPROVED', options);
+}
+
+/**
+ * Decline a Data Center pull request. Declining needs the current pull
+ * request version.
+ */
+async function declinePullRequest(
+	credentials: AtlassianCredentials,
+	params: DeclinePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequest> {
+	const methodLogger = serviceLogger.forMethod('declinePullRequest');
+	const existing = await fetchServerPullRequest(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/decline${buildQueryString(
+		{ version: existing.version },
+	)}`;
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const pr = await fetchAtlassian<ServerPullRequest>(credentials, path, {
+		method: 'POST',
+		body: {},
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapPullRequest(pr);
+}
+
+/**
+ * List tasks on a Data Center pull request. Tasks are blocker comments,
+ * whose OPEN state corresponds to Cloud's UNRESOLVED.
+ */
+async function listPullRequestTasks(
+	credentials: AtlassianCredentials,
+	params: ListPullRequestTasksParams,
+	options: CallOptions = {},
+): Promise<PullRequestTasksResponse> {
+	const methodLogger = serviceLogger.forMethod('listPullRequestTasks');
+	const paging = toPagingParams(params.page, params.pagelen);
+	let state: string | undefined;
+	if (params.state) {
+		state = params.state === 'RESOLVED' ? 'RESOLVED' : 'OPEN';
+	}
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/blocker-comments${buildQueryString(
+		{ state, start: paging.start, limit: paging.limit },
+	)}`;
+
+	methodLogger.debug(`Sending request to: ${path}`);
+	const data = await fetchAtlassian<ServerPagedResponse<ServerComment>>(
+		credentials,
+		path,
+		{ signal: options.signal },
+	);
+	return toCloudPage(
+		data,
+		data.values.map(mapTask),
+		paging.page,
+		paging.limit,
+	);
+}
+
+/**
+ * Create a task (blocker comment) on a Data Center pull request. A task
+ * anchored to a comment is created as a reply to it.
+ */
+async function createPullRequestTask(
+	credentials: AtlassianCredentials,
+	params: CreatePullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<PullRequestTask> {
+	const methodLogger = serviceLogger.forMethod('createPullRequestTask');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/blocker-comments`;
+
+	const requestBody: Record<string, unknown> = {
+		text: params.content.raw,
+	};
+	if (params.comment) {
+		requestBody.parent = { id: params.comment.id };
+	}
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const comment = await fetchAtlassian<ServerComment>(credentials, path, {
+		method: 'POST',
+		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapTask({ parent: params.comment, ...comment });
+}
+
+/**
+ * Fetch a raw Data Center blocker comment (used where the version is needed)
+ */
+async function fetchServerTask(
+	credentials: AtlassianCredentials,
+	params: PullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<ServerComment> {
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/blocker-comments/${params.task_id}`;
+	serviceLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<ServerComment>(credentials, path, {
+		signal: options.signal,
+	});
+}
+
+/**
+ * Update, resolve or reopen a task on a Data Center pull request. Updates
+ * need the current comment version.
+ */
+async function updatePullRequestTask(
+	credentials: AtlassianCredentials,
+	params: UpdatePullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<PullRequestTask> {
+	const methodLogger = serviceLogger.forMethod('updatePullRequestTask');
+	const existing = await fetchServerTask(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/blocker-comments/${params.task_id}`;
+
+	const requestBody: Record<string, unknown> = {
+		version: existing.version,
+	};
+	if (params.content) {
+		requestBody.text = params.content.raw;
+	}
+	if (params.state) {
+		requestBody.state = params.state === 'RESOLVED' ? 'RESOLVED' : 'OPEN';
+	}
+
+	methodLogger.debug(`Sending PUT request to: ${path}`);
+	const comment = await fetchAtlassian<ServerComment>(credentials, path, {
+		method: 'PUT',
+		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+	return mapTask(comment);
+}
+
+/**
+ * Delete a task from a Data Center pull request. Deletion needs the
+ * current comment version.
+ */
+async function deletePullRequestTask(
+	credentials: AtlassianCredentials,
+	params: PullRequestTaskParams,
+	options: CallOptions = {},
+): Promise<void> {
+	const methodLogger = serviceLogger.forMethod('deletePullRequestTask');
+	const existing = await fetchServerTask(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/blocker-comments/${params.task_id}${buildQueryString(
+		{ version: existing.version },
+	)}`;
+
+	methodLogger.debug(`Sending DELETE request to: ${path}`);
+	await fetchAtlassian<void>(credentials, path, {
+		method: 'DELETE',
+		signal: options.signal,
+		dryRun: options.dryRun,
+	});
+}
+
+/**
+ * Merge a Data Center pull request. The merge runs synchronously and needs
+ * the current pull request version.
+ */
+async function mergePullRequest(
+	credentials: AtlassianCredentials,
+	params: MergePullRequestParams,
+	options: CallOptions = {},
+): Promise<PullRequest> {
+	const methodLogger = serviceLogger.forMethod('mergePullRequest');
+	const existing = await fetchServerPullRequest(credentials, params, options);
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/merge${buildQueryString(
+		{ version: existing.version },
+	)}`;
+
+	if (params.close_source_branch) {
+		methodLogger.debug(
+			'close_source_branch is not supported by Data Center and is ignored',
+		);
+	}
+
+	const requestBody: Record<string, unknown> = {};
+	if (params.merge_strategy) {
+		requestBody.strategyId = SERVER_MERGE_STRATEGIES[params.merge_strategy];
+	}
+	if (params.message) {
+		requestBody.message = params.message;
+	}
+
+	methodLogger.debug(`Sending POST request to: ${path}`);
+	const pr = await fetchAtlassian<ServerPullRequest>(credentials, path, {
+		method: 'POST',
+		body: requestBody,
+		signal: options.signal,
+		dryRun: options.dryRun,
+		timeout: 'merge',
+	});
+	return mapPullRequest(pr);
+}
+
+/**
+ * Fetch the JSON diff of a Data Center pull request
+ */
+async function fetchPullRequestDiff(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<ServerDiffResponse> {
+	const path = `${repoPath(params.workspace, params.repo_slug)}/pull-requests/${params.pull_request_id}/diff`;
+	serviceLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<ServerDiffResponse>(credentials, path, {
+		signal: options.signal,
+		timeout: 'diff',
+	});
+}
+
+/**
+ * Get the unified diff of a Data Center pull request
+ */
+async function getPullRequestRawDiff(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<string> {
+	return renderUnifiedDiff(
+		await fetchPullRequestDiff(credentials, params, options),
+	);
+}
+
+/**
+ * Get the diffstat of a Data Center pull request
+ */
+async function getPullRequestDiffstat(
+	credentials: AtlassianCredentials,
+	params: GetPullRequestParams,
+	options: CallOptions = {},
+): Promise<{ values: DiffstatFileChange[]; size: number }> {
+	const values = toDiffstat(
+		await fetchPullRequestDiff(credentials, params, options),
+	);
+	return { values, size: values.length };
+}
+
+/**
+ * Fetch the JSON diff between two refs given as a Cloud `a..b` spec.
+ * Cloud shows the changes in `a` since `b`, which Data Center's compare
+ * endpoint expresses as `from=a&to=b`.
+ */
+async function fetchCompareDiff(
+	credentials: AtlassianCredentials,
+	params: GetRawDiffParams,
+	options: CallOptions = {},
+): Promise<ServerDiffResponse> {
+	const [from, to] = params.spec.split('..');
+	const path = `${repoPath(params.workspace, params.repo_slug)}/compare/diff${buildQueryString(
+		{ from, to },
+	)}`;
+	serviceLogger.debug(`Sending request to: ${path}`);
+	return fetchAtlassian<ServerDiffResponse>(credentials, path, {
+		signal: options.signal,
+		timeout: 'diff',
+	});
+}
+
+/**
+ * Get the diffstat between two refs in a Data Center repository.
+ * The whole comparison is fetched once and paged locally.
+ */
+async function getDiffstat(
+	credentials: AtlassianCredentials,
+	params: GetDiffstatParams,
+	options: CallOptions = {},
+): Promise<CloudPage<DiffstatFileChange>> {
+	const all = toDiffstat(
+		await fetchCompareDiff(credentials, params, options),
+	);
+	const paging = toPagingParams(params.cursor, params.pagelen);
+	const values = all.slice(paging.start, paging.start + paging.limit);
+	return {
+		pagelen: paging.limit,
+		page: paging.page,
+		size: all.length,
+		...(paging.start + paging.limit < all.length && { next: 'available' }),
+		values,
+	};
+}
+
+/**
+ * Get the unified diff between two refs in a Data Center repository
+ */
+async function getRawDiff(
+	credentials: AtlassianCredentials,
+	params: GetRawDiffParams,
+	options: CallOptions = {},
+): Promise<string> {
+	return renderUnifiedDiff(
+		await fetchCompareDiff(credentials, params, options),
+	);
+}
+
+export default {
+	listRepositories,
+	getRepository,
+	listCommits,
+	createBranch,
+	getFileContent,
+	listBranches,
+	listPullRequests,
+	getPullRequest,
+	getPullRequestComments,
+	createPullRequestComment,
+	getPullRequestComment,
+	updatePullRequestComment,
+	deletePullRequestComment,
+	resolvePullRequestComment,
+	reopenPullRequestComment,
+	createPullRequest,
+	updatePullRequest,
+	approvePullRequest,
+	rejectPullRequest,
+	unapprovePullRequest,
+	withdrawPullRequestChangeRequest,
+	declinePullRequest,
+	mergePullRequest,
+	listPullRequestTasks,
+	createPullRequestTask,
+	updatePullRequestTask,
+	deletePullRequestTask,
+	findUser,
+	getDefaultReviewers,
+	getCurrentUser,
+	getPullRequestRawDiff,
+	getPullRequestDiffstat,
+	getDiffstat,
+	getRawDiff,
+};
@@ -0,0 +1,243 @@
+/**
+ * Types for the Bitbucket Data Center / Server REST API (`/rest/api/1.0`).
+ * Only the fields needed to map responses onto the Cloud types are declared.
+ */
+
+/**
+ * Link entry as returned by Data Center (`links.self` is an array)
+ */
+export interface ServerLink {
+	href: string;
+	name?: string;
+}
+
+/**
+ * Links object attached to most Data Center entities
+ */
+export interface ServerLinks {
+	self?: ServerLink[];
+	clone?: ServerLink[];
+}
+
+/**
+ * Paged response envelope used by every Data Center list endpoint
+ */
+export interface ServerPagedResponse<T> {
+	size: number;
+	limit: number;
+	isLastPage: boolean;
+	start: number;
+	nextPageStart?: number;
+	values: T[];
+}
+
+/**
+ * Data Center user
+ */
+export interface ServerUser {
+	name: string;
+	emailAddress?: string;
+	id?: number;
+	displayName?: string;
+	slug?: string;
+	type?: 'NORMAL' | 'SERVICE';
+	links?: ServerLinks;
+}
+
+/**
+ * Data Center project (the equivalent of a Cloud workspace)
+ */
+export interface ServerProject {
+	key: string;
+	id?: number;
+	name?: string;
+	description?: string;
+	public?: boolean;
+	type?: 'NORMAL' | 'PERSONAL';
+	links?: ServerLinks;
+}
+
+/**
+ * Data Center repository
+ */
+export interface ServerRepository {
+	slug: string;
+	id?: number;
+	name: string;
+	description?: string;
+	scmId?: string;
+	state?: string;
+	forkable?: boolean;
+	public?: boolean;
+	project: ServerProject;
+	links?: ServerLinks;
+}
+
+/**
+ * Data Center branch or tag reference
+ */
+export interface ServerRef {
+	id: string;
+	displayId: string;
+	type?: 'BRANCH' | 'TAG';
+	latestCommit?: string;
+	isDefault?: boolean;
+	repository?: ServerRepository;
+}
+
+/**
+ * Data Center commit
+ */
+export interface ServerCommit {
+	id: string;
+	displayId?: string;
+	author: ServerUser;
+	authorTimestamp: number;
+	committer?: ServerUser;
+	committerTimestamp?: number;
+	message: string;
+	parents?: Array<{ id: string; displayId?: string }>;
+}
+
+/**
+ * Data Center pull request participant (author, reviewer or participant)
+ */
+export interface ServerParticipant {
+	user: ServerUser;
+	role: 'AUTHOR' | 'REVIEWER' | 'PARTICIPANT';
+	approved: boolean;
+	status: 'APPROVED' | 'NEEDS_WORK' | 'UNAPPROVED';
+	lastReviewedCommit?: string;
+}
+
+/**
+ * Data Center pull request
+ */
+export interface ServerPullRequest {
+	id: number;
+	version: number;
+	title: string;
+	description?: string;
+	state: 'OPEN' | 'MERGED' | 'DECLINED';
+	open?: boolean;
+	closed?: boolean;
+	createdDate: number;
+	updatedDate: number;
+	closedDate?: number;
+	fromRef: ServerRef;
+	toRef: ServerRef;
+	author: ServerParticipant;
+	reviewers?: ServerParticipant[];
+	participants?: ServerParticipant[];
+	properties?: {
+		commentCount?: number;
+		openTaskCount?: number;
+		resolvedTaskCount?: number;
+		mergeResult?: { outcome?: string; current?: boolean };
+		mergeCommit?: { id: string; displayId?: string };
+	};
+	links?: ServerLinks;
+}
+
+/**
+ * Anchor describing where an inline comment is attached
+ */
+export interface ServerCommentAnchor {
+	path: string;
+	srcPath?: string;
+	line?: number;
+	lineType?: 'ADDED' | 'REMOVED' | 'CONTEXT';
+	fileType?: 'FROM' | 'TO';
+	diffType?: 'EFFECTIVE' | 'RANGE' | 'COMMIT';
+}
+
+/**
+ * Data Center pull request comment (replies are nested in `comments`)
+ */
+export interface ServerComment {
+	id: number;
+	version?: number;
+	text: string;
+	author: ServerUser;
+	createdDate: number;
+	updatedDate: number;
+	comments?: ServerComment[];
+	anchor?: ServerCommentAnchor;
+	state?: 'OPEN' | 'RESOLVED' | 'PENDING';
+	severity?: 'NORMAL' | 'BLOCKER';
+	threadResolved?: boolean;
+	/** Set on comments whose thread is resolved */
+	threadResolvedDate?: number;
+	threadResolver?: ServerUser;
+	/** Set on resolved tasks (blocker comments) */
+	resolvedDate?: number;
+	resolver?: ServerUser;
+	/** Comment a task (blocker comment) replies to */
+	parent?: { id: number };
+}
+
+/**
+ * Data Center pull request activity entry
+ */
+export interface ServerActivity {
+	id: number;
+	createdDate: number;
+	user: ServerUser;
+	action: string;
+	commentAction?: 'ADDED' | 'EDITED' | 'DELETED' | 'REPLIED';
+	comment?: ServerComment;
+	commentAnchor?: ServerCommentAnchor;
+}
+
+/**
+ * Single line of a Data Center diff segment
+ */
+export interface ServerDiffLine {
+	source: number;
+	destination: number;
+	line: string;
+	truncated?: boolean;
+}
+
+/**
+ * Run of added, removed or context lines within a hunk
+ */
+export interface ServerDiffSegment {
+	type: 'ADDED' | 'REMOVED' | 'CONTEXT';
+	lines: ServerDiffLine[];
+	truncated?: boolean;
+}
+
+/**
+ * Diff hunk as returned by Data Center
+ */
+export interface ServerDiffHunk {
+	sourceLine: number;
+	sourceSpan: number;
+	destinationLine: number;
+	destinationSpan: number;
+	segments: ServerDiffSegment[];
+	truncated?: boolean;
+}
+
+/**
+ * Per-file diff as returned by Data Center
+ */
+export interface ServerDiff {
+	source?: { toString: string } | null;
+	destination?: { toString: string } | null;
+	hunks?: ServerDiffHunk[];
+	binary?: boolean;
+	truncated?: boolean;
+}
+
+/**
+ * Response of the Data Center JSON diff endpoints
+ */
+export interface ServerDiffResponse {
+	fromHash?: string;
+	toHash?: string;
+	contextLines?: number;
+	diffs: ServerDiff[];
+	truncated?: boolean;
+}
@@ -6,6 +6,8 @@ import {
 } from '../utils/error.util.js';
 import { Logger } from '../utils/logger.util.js';
 import {
+	ensureBitbucketCloud,
+	CallOptions,
 	fetchAtlassian,
 	getAtlassianCredentials,
 } from '../utils/transport.util.js';
@@ -53,6 +55,7 @@ serviceLogger.debug('Bitbucket workspaces service initialized');
  * @param {string} [params.q] - Filter by workspace name
  * @param {number} [params.page] - Page number
  * @param {number} [params.pagelen] - Number of items per page
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<z.infer<typeof WorkspacePermissionsResponseSchema>>} Promise containing the validated workspaces response
  * @throws {McpError} If validation fails, credentials are missing, or API request fails
  * @example
@@ -63,6 +66,7 @@ serviceLogger.debug('Bitbucket workspaces service initialized');
  */
 async function list(
 	params: ListWorkspacesParams = {},
+	options: CallOptions = {},
 ): Promise<z.infer<typeof WorkspacePermissionsResponseSchema>> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.workspaces.service.ts',
@@ -88,6 +92,8 @@ async function list(
 		throw error;
 	}
 
+	ensureBitbucketCloud('Listing workspaces');
+
 	const credentials = getAtlassianCredentials();
 	if (!credentials) {
 		throw createAuthMissingError(
@@ -118,7 +124,10 @@ async function list(
 
 	methodLogger.debug(`Sending request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = await fetchAtlassian(credentials, path, {
+			signal: options.signal,
+			cache: options.cache,
+		});
 		// Validate response with Zod schema
 		try {
 			const validatedData =
@@ -158,6 +167,7 @@ async function list(
  * @async
  * @memberof VendorAtlassianWorkspacesService
  * @param {string} workspace - The workspace slug
+ * @param {CallOptions} [options] - Call options (abort signal)
  * @returns {Promise<z.infer<typeof WorkspaceDetailedSchema>>} Promise containing the validated workspace information
  * @throws {McpError} If validation fails, credentials are missing, or API request fails
  * @example
@@ -166,6 +176,7 @@ async function list(
  */
 async function get(
 	workspace: string,
+	options: CallOptions = {},
 ): Promise<z.infer<typeof WorkspaceDetailedSchema>> {
 	const methodLogger = Logger.forContext(
 		'services/vendor.atlassian.workspaces.service.ts',
@@ -173,6 +184,8 @@ async function get(
 	);
 	methodLogger.debug(`Getting Bitbucket workspace with slug: ${workspace}`);
 
+	ensureBitbucketCloud('Getting workspace details');
+
 	const credentials = getAtlassianCredentials();
 	if (!credentials) {
 		throw createAuthMissingError(
@@ -185,7 +198,9 @@ async function get(
 
 	methodLogger.debug(`Sending request to: ${path}`);
 	try {
-		const rawData = await fetchAtlassian(credentials, path);
+		const rawData = await fetchAtlassian(credentials, path, {
+			signal: options.signal,
+		});
 		// Validate response with Zod schema
 		try {
 			const validatedData = WorkspaceDetailedSchema.parse(rawData);
@@ -0,0 +1,79 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import {
+	AuditLogToolArgs,
+	AuditLogToolArgsType,
+	AuditLogToolOutput,
+} from './atlassian.audit.types.js';
+
+import atlassianAuditController from '../controllers/atlassian.audit.controller.js';
+
+// Create a contextualized logger for this file
+const toolLogger = Logger.forContext('tools/atlassian.audit.tool.ts');
+
+// Log tool initialization
+toolLogger.debug('Bitbucket audit log tool initialized');
+
+/**
+ * MCP Tool: Query the Bitbucket Audit Log
+ *
+ * Lists write operations made through this server, newest first.
+ *
+ * @param args - Tool arguments with time range, repository and action filters
+ * @returns MCP response with formatted audit log entries
+ * @throws Will return error message if the audit log cannot be read
+ */
+async function getAuditLog(args: AuditLogToolArgsType) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.audit.tool.ts',
+		'getAuditLog',
+	);
+	methodLogger.debug('Querying audit log:', args);
+
+	try {
+		// Pass args directly to controller without any logic
+		const result = await atlassianAuditController.list(args);
+
+		methodLogger.debug('Successfully read audit log');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to read audit log', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register the Bitbucket audit log tool with the MCP server.
+ */
+function registerTools(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'tools/atlassian.audit.tool.ts',
+		'registerTools',
+	);
+	registerLogger.debug('Registering Audit tools...');
+
+	server.registerTool(
+		'bb_audit_log',
+		{
+			description: `Lists write operations (POST/PUT/DELETE requests) made in Bitbucket through this server, by AI tools and CLI commands alike, newest first. Each entry shows the time, tool or command, credential identity, target workspace/repository/pull request, request and result. Filter by time range (\`since\`, \`until\`), \`workspaceSlug\`, \`repoSlug\` or \`action\` (tool or CLI command name). In HTTP mode, a session that supplied its own Bitbucket credentials sees only its own operations. Reads the local audit log only; makes no Bitbucket requests. Returns formatted Markdown.`,
+			inputSchema: AuditLogToolArgs.shape,
+			outputSchema: AuditLogToolOutput.shape,
+		},
+		withProfile(getAuditLog),
+	);
+
+	registerLogger.debug('Successfully registered Audit tools');
+}
+
+export default { registerTools };
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { ProfileArgs } from './atlassian.common.types.js';
+
+/**
+ * Schema for audit-log tool arguments
+ */
+export const AuditLogToolArgs = z.object({
+	/**
+	 * Earliest entry to include
+	 */
+	since: z
+		.string()
+		.optional()
+		.describe(
+			'Only include operations at or after this time: an ISO date/time (e.g. "2024-05-01T09:00:00Z") or a duration before now such as "30m", "24h" or "7d".',
+		),
+	/**
+	 * Latest entry to include
+	 */
+	until: z
+		.string()
+		.optional()
+		.describe(
+			'Only include operations at or before this time, in the same formats as since.',
+		),
+	/**
+	 * Workspace filter
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Only include operations on this workspace (or Data Center project key). Example: "myteam"',
+		),
+	/**
+	 * Repository filter
+	 */
+	repoSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Only include operations on this repository. Example: "project-api"',
+		),
+	/**
+	 * Action filter
+	 */
+	action: z
+		.string()
+		.optional()
+		.describe(
+			'Only include operations made by this tool or CLI command, e.g. "bb_add_pr" or "add-pr" (either matches both).',
+		),
+	/**
+	 * Maximum number of entries
+	 */
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(1000)
+		.optional()
+		.describe(
+			'Maximum number of entries to return, newest first (1-1000). Defaults to 50.',
+		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type AuditLogToolArgsType = z.infer<typeof AuditLogToolArgs>;
+
+/**
+ * Structured output of the audit-log tool
+ */
+export const AuditLogToolOutput = z.object({
+	entries: z.array(
+		z.object({
+			timestamp: z.string(),
+			source: z.enum(['mcp', 'cli']).optional(),
+			action: z.string().optional(),
+			profile: z.string().optional(),
+			identity: z.string(),
+			method: z.string(),
+			path: z.string(),
+			workspace: z.string().optional(),
+			repo: z.string().optional(),
+			pullRequestId: z.number().optional(),
+			summary: z.string().optional(),
+			status: z.enum(['success', 'failure']),
+			statusCode: z.number().optional(),
+			error: z.string().optional(),
+			durationMs: z.number(),
+		}),
+	),
+	file: z.string().describe('Path of the audit log'),
+	enabled: z.boolean().describe('Whether write operations are recorded'),
+});
+
+export type AuditLogToolOutputType = z.infer<typeof AuditLogToolOutput>;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { DEFAULT_MAX_ITEMS, MAX_ITEMS_LIMIT } from '../utils/defaults.util.js';
+
+/**
+ * Profile selection argument shared by all tools
+ */
+export const ProfileArgs = {
+	profile: z
+		.string()
+		.optional()
+		.describe(
+			'Name of the credential profile from ~/.mcp/configs.json to use for this call (credentials, default workspace and base URL). Uses the default configuration if omitted.',
+		),
+};
+
+/**
+ * Arguments for fetching every page of a list, shared by list tools
+ */
+export const AllPagesArgs = {
+	all: z
+		.boolean()
+		.optional()
+		.describe(
+			'Fetch every page of results (starting at cursor, if given) instead of a single page. Stops after maxItems items. Defaults to false.',
+		),
+
+	maxItems: z
+		.number()
+		.int()
+		.positive()
+		.max(MAX_ITEMS_LIMIT)
+		.optional()
+		.describe(
+			`Maximum total number of items to return when all is true (1-${MAX_ITEMS_LIMIT}). Defaults to ${DEFAULT_MAX_ITEMS}. If the cap is reached, the response includes a cursor to continue from (use it with all: true).`,
+		),
+};
+
+/**
+ * Dry-run argument shared by tools that change data in Bitbucket
+ */
+export const DryRunArgs = {
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			'Validate the arguments and resolve defaults, then return the HTTP method, path and JSON body that would be sent, without changing anything in Bitbucket. Defaults to false.',
+		),
+};
+
+/**
+ * Pagination details returned in the structured output of list tools
+ */
+export const PaginationOutput = z
+	.object({
+		hasMore: z.boolean().describe('Whether more results are available'),
+		nextCursor: z
+			.string()
+			.optional()
+			.describe('Cursor to pass to get the next page'),
+		count: z
+			.number()
+			.optional()
+			.describe('Number of items in this response'),
+		total: z
+			.number()
+			.optional()
+			.describe('Total number of items, if Bitbucket reports it'),
+		page: z.number().optional().describe('Page number of this response'),
+		size: z.number().optional().describe('Page size of this response'),
+	})
+	.describe('Pagination details');
+
+/**
+ * Structured output shared by tools that support `dryRun`
+ */
+export const DryRunOutput = {
+	plannedRequest: z
+		.object({
+			method: z.string(),
+			path: z.string(),
+			url: z.string(),
+			body: z.unknown().optional(),
+		})
+		.optional()
+		.describe(
+			'Request that would have been sent. Only set for a dry run, in which case nothing was changed.',
+		),
+};
+
+/**
+ * Bitbucket user in structured output
+ */
+export const UserOutput = z.object({
+	displayName: z.string().optional(),
+	nickname: z.string().optional(),
+	accountId: z.string().optional(),
+	uuid: z.string().optional(),
+});
+
+export type UserOutputType = z.infer<typeof UserOutput>;
+
+/**
+ * File changed by a pull request, commit range or branch comparison
+ */
+export const ChangedFileOutput = z.object({
+	path: z.string().describe('Path after the change (before it, if deleted)'),
+	oldPath: z
+		.string()
+		.optional()
+		.describe('Path before the change, if the file was renamed'),
+	status: z
+		.string()
+		.describe('Type of change, e.g. added, modified, removed or renamed'),
+	linesAdded: z.number().optional(),
+	linesRemoved: z.number().optional(),
+});
+
+export type ChangedFileOutputType = z.infer<typeof ChangedFileOutput>;
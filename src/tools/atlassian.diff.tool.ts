@@ -1,10 +1,14 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Logger } from '../utils/logger.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 import diffController from '../controllers/atlassian.diff.controller.js';
 import {
 	BranchDiffArgsSchema,
+	BranchDiffOutputSchema,
 	CommitDiffArgsSchema,
+	CommitDiffOutputSchema,
 	type BranchDiffArgsType,
 	type CommitDiffArgsType,
 } from './atlassian.diff.types.js';
@@ -18,15 +22,22 @@ toolLogger.debug('Bitbucket diff tool initialized');
 /**
  * Handles branch diff requests
  * @param args - Arguments for the branch diff operation
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP tool response
  */
-async function branchDiff(args: BranchDiffArgsType) {
+async function branchDiff(
+	args: BranchDiffArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = toolLogger.forMethod('branchDiff');
 	try {
 		methodLogger.debug('Processing branch diff tool request', args);
 
 		// Pass args directly to controller without any business logic
-		const result = await diffController.branchDiff(args);
+		const result = await diffController.branchDiff(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved branch diff from controller',
@@ -39,6 +50,7 @@ async function branchDiff(args: BranchDiffArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to retrieve branch diff', error);
@@ -49,15 +61,22 @@ async function branchDiff(args: BranchDiffArgsType) {
 /**
  * Handles commit diff requests
  * @param args - Arguments for the commit diff operation
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP tool response
  */
-async function commitDiff(args: CommitDiffArgsType) {
+async function commitDiff(
+	args: CommitDiffArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = toolLogger.forMethod('commitDiff');
 	try {
 		methodLogger.debug('Processing commit diff tool request', args);
 
 		// Pass args directly to controller without any business logic
-		const result = await diffController.commitDiff(args);
+		const result = await diffController.commitDiff(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved commit diff from controller',
@@ -70,6 +89,7 @@ async function commitDiff(args: CommitDiffArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to retrieve commit diff', error);
@@ -88,19 +108,25 @@ function registerTools(server: McpServer) {
 	registerLogger.debug('Registering Diff tools...');
 
 	// Register the branch diff tool
-	server.tool(
+	server.registerTool(
 		'bb_diff_branches',
-		`Shows changes between branches in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Compares changes in \`sourceBranch\` relative to \`destinationBranch\`. Limits the number of files to show with \`limit\`. Returns the diff as formatted Markdown showing file changes, additions, and deletions. Requires Bitbucket credentials to be configured.`,
-		BranchDiffArgsSchema.shape,
-		branchDiff,
+		{
+			description: `Shows changes between branches in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Compares changes in \`sourceBranch\` relative to \`destinationBranch\`. Limits the number of files to show with \`limit\`, or set \`all: true\` to list every changed file (up to \`maxItems\`). Returns the diff as formatted Markdown showing file changes, additions, and deletions. Requires Bitbucket credentials to be configured.`,
+			inputSchema: BranchDiffArgsSchema.shape,
+			outputSchema: BranchDiffOutputSchema.shape,
+		},
+		withProfile(branchDiff),
 	);
 
 	// Register the commit diff tool
-	server.tool(
+	server.registerTool(
 		'bb_diff_commits',
-		`Shows changes between commits in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Requires \`sinceCommit\` and \`untilCommit\` to identify the specific commits to compare. Returns the diff as formatted Markdown showing file changes, additions, and deletions between the commits. Requires Bitbucket credentials to be configured.`,
-		CommitDiffArgsSchema.shape,
-		commitDiff,
+		{
+			description: `Shows changes between commits in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Requires \`sinceCommit\` and \`untilCommit\` to identify the specific commits to compare. Set \`all: true\` to list every changed file (up to \`maxItems\`). Returns the diff as formatted Markdown showing file changes, additions, and deletions between the commits. Requires Bitbucket credentials to be configured.`,
+			inputSchema: CommitDiffArgsSchema.shape,
+			outputSchema: CommitDiffOutputSchema.shape,
+		},
+		withProfile(commitDiff),
 	);
 
 	registerLogger.debug('Successfully registered Diff tools');
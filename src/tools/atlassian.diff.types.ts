@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import {
+	AllPagesArgs,
+	ChangedFileOutput,
+	PaginationOutput,
+	ProfileArgs,
+} from './atlassian.common.types.js';
 
 /**
  * Schema for the branch diff tool arguments
@@ -68,11 +74,27 @@ export const BranchDiffArgsSchema = z.object({
 	 * Pagination cursor for retrieving additional results
 	 */
 	cursor: z
-		.number()
-		.int()
-		.positive()
+		.union([
+			z.number().int().positive(),
+			z
+				.string()
+				.regex(
+					/^\d+(:\d+)?$/,
+					'Cursor must be a page number, or a cursor returned by an earlier call',
+				),
+		])
 		.optional()
-		.describe('Pagination cursor for retrieving additional results'),
+		.describe(
+			'Pagination cursor for retrieving additional results: a page number, or the cursor returned by an earlier call',
+		),
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type BranchDiffArgsType = z.infer<typeof BranchDiffArgsSchema>;
@@ -116,11 +138,57 @@ export const CommitDiffArgsSchema = z.object({
 		.optional()
 		.describe('Maximum number of changed files to return in results'),
 	cursor: z
-		.number()
-		.int()
-		.positive()
+		.union([
+			z.number().int().positive(),
+			z
+				.string()
+				.regex(
+					/^\d+(:\d+)?$/,
+					'Cursor must be a page number, or a cursor returned by an earlier call',
+				),
+		])
 		.optional()
-		.describe('Pagination cursor for retrieving additional results'),
+		.describe(
+			'Pagination cursor for retrieving additional results: a page number, or the cursor returned by an earlier call',
+		),
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type CommitDiffArgsType = z.infer<typeof CommitDiffArgsSchema>;
+
+/**
+ * Structured output of the branch diff tool. The full diff, if requested,
+ * is part of the text content only.
+ */
+export const BranchDiffOutputSchema = z.object({
+	sourceBranch: z.string(),
+	destinationBranch: z.string(),
+	files: z
+		.array(ChangedFileOutput)
+		.describe('Files changed between the branches'),
+	pagination: PaginationOutput.optional(),
+});
+
+export type BranchDiffOutputType = z.infer<typeof BranchDiffOutputSchema>;
+
+/**
+ * Structured output of the commit diff tool. The full diff, if requested,
+ * is part of the text content only.
+ */
+export const CommitDiffOutputSchema = z.object({
+	sinceCommit: z.string(),
+	untilCommit: z.string(),
+	files: z
+		.array(ChangedFileOutput)
+		.describe('Files changed between the commits'),
+	pagination: PaginationOutput.optional(),
+});
+
+export type CommitDiffOutputType = z.infer<typeof CommitDiffOutputSchema>;
@@ -1,23 +1,54 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Logger } from '../utils/logger.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 import {
 	ListPullRequestsToolArgs,
 	ListPullRequestsToolArgsType,
+	ListPullRequestsToolOutput,
 	GetPullRequestToolArgs,
 	GetPullRequestToolArgsType,
+	GetPullRequestToolOutput,
 	ListPullRequestCommentsToolArgs,
 	ListPullRequestCommentsToolArgsType,
+	ListPullRequestCommentsToolOutput,
 	CreatePullRequestCommentToolArgs,
 	CreatePullRequestCommentToolArgsType,
+	CreatePullRequestCommentToolOutput,
+	ManagePullRequestCommentToolArgs,
+	ManagePullRequestCommentToolArgsType,
+	ManagePullRequestCommentToolOutput,
 	CreatePullRequestToolArgs,
 	CreatePullRequestToolArgsType,
+	CreatePullRequestToolOutput,
 	UpdatePullRequestToolArgs,
 	UpdatePullRequestToolArgsType,
+	UpdatePullRequestToolOutput,
 	ApprovePullRequestToolArgs,
 	ApprovePullRequestToolArgsType,
+	ApprovePullRequestToolOutput,
 	RejectPullRequestToolArgs,
 	RejectPullRequestToolArgsType,
+	RejectPullRequestToolOutput,
+	UnapprovePullRequestToolArgs,
+	UnapprovePullRequestToolArgsType,
+	UnapprovePullRequestToolOutput,
+	WithdrawChangeRequestToolArgs,
+	WithdrawChangeRequestToolArgsType,
+	WithdrawChangeRequestToolOutput,
+	DeclinePullRequestToolArgs,
+	DeclinePullRequestToolArgsType,
+	DeclinePullRequestToolOutput,
+	MergePullRequestToolArgs,
+	MergePullRequestToolArgsType,
+	MergePullRequestToolOutput,
+	ListPullRequestTasksToolArgs,
+	ListPullRequestTasksToolArgsType,
+	ListPullRequestTasksToolOutput,
+	ManagePullRequestTaskToolArgs,
+	ManagePullRequestTaskToolArgsType,
+	ManagePullRequestTaskToolOutput,
 } from './atlassian.pullrequests.types.js';
 import atlassianPullRequestsController from '../controllers/atlassian.pullrequests.controller.js';
 
@@ -34,10 +65,14 @@ toolLogger.debug('Bitbucket pull requests tool initialized');
  * Returns a formatted markdown response with pull request details.
  *
  * @param args - Tool arguments for filtering pull requests
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP response with formatted pull requests list
  * @throws Will return error message if pull request listing fails
  */
-async function listPullRequests(args: ListPullRequestsToolArgsType) {
+async function listPullRequests(
+	args: ListPullRequestsToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'listPullRequests',
@@ -46,7 +81,10 @@ async function listPullRequests(args: ListPullRequestsToolArgsType) {
 
 	try {
 		// Pass args directly to controller without any logic
-		const result = await atlassianPullRequestsController.list(args);
+		const result = await atlassianPullRequestsController.list(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved pull requests from controller',
@@ -59,6 +97,7 @@ async function listPullRequests(args: ListPullRequestsToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to list pull requests', error);
@@ -73,10 +112,14 @@ async function listPullRequests(args: ListPullRequestsToolArgsType) {
  * Returns a formatted markdown response with pull request details.
  *
  * @param args - Tool arguments containing the workspace, repository, and pull request identifiers
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP response with formatted pull request details
  * @throws Will return error message if pull request retrieval fails
  */
-async function getPullRequest(args: GetPullRequestToolArgsType) {
+async function getPullRequest(
+	args: GetPullRequestToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'getPullRequest',
@@ -85,7 +128,10 @@ async function getPullRequest(args: GetPullRequestToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.get(args);
+		const result = await atlassianPullRequestsController.get(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved pull request details from controller',
@@ -98,6 +144,7 @@ async function getPullRequest(args: GetPullRequestToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get pull request details', error);
@@ -112,11 +159,13 @@ async function getPullRequest(args: GetPullRequestToolArgsType) {
  * Returns a formatted markdown response with comment details.
  *
  * @param args - Tool arguments containing workspace, repository, and PR identifiers
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP response with formatted pull request comments
  * @throws Will return error message if comment retrieval fails
  */
 async function listPullRequestComments(
 	args: ListPullRequestCommentsToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
 ) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
@@ -126,7 +175,10 @@ async function listPullRequestComments(
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.listComments(args);
+		const result = await atlassianPullRequestsController.listComments(
+			args,
+			{ signal, onProgress },
+		);
 
 		methodLogger.debug(
 			'Successfully retrieved pull request comments from controller',
@@ -139,6 +191,7 @@ async function listPullRequestComments(
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get pull request comments', error);
@@ -153,11 +206,13 @@ async function listPullRequestComments(
  * Returns a success message as markdown.
  *
  * @param args - Tool arguments containing workspace, repository, PR ID, and comment content
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted success message
  * @throws Will return error message if comment creation fails
  */
 async function addPullRequestComment(
 	args: CreatePullRequestCommentToolArgsType,
+	{ signal }: CallOptions = {},
 ) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
@@ -170,7 +225,9 @@ async function addPullRequestComment(
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.addComment(args);
+		const result = await atlassianPullRequestsController.addComment(args, {
+			signal,
+		});
 
 		methodLogger.debug(
 			'Successfully added pull request comment via controller',
@@ -183,6 +240,7 @@ async function addPullRequestComment(
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to add pull request comment', error);
@@ -190,6 +248,59 @@ async function addPullRequestComment(
 	}
 }
 
+/**
+ * MCP Tool: Manage Bitbucket Pull Request Comment
+ *
+ * Edits, deletes, resolves or reopens a comment on a pull request.
+ * Returns a confirmation as markdown.
+ *
+ * @param args - Tool arguments containing workspace, repository, PR ID, action and comment details
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with formatted confirmation
+ * @throws Will return error message if the comment action fails
+ */
+async function managePullRequestComment(
+	args: ManagePullRequestCommentToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'managePullRequestComment',
+	);
+	methodLogger.debug('Managing pull request comment:', {
+		...args,
+		content:
+			args.content !== undefined
+				? `(length: ${args.content.length})`
+				: undefined,
+	});
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.manageComment(
+			args,
+			{ signal },
+		);
+
+		methodLogger.debug(
+			'Successfully managed pull request comment via controller',
+		);
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to manage pull request comment', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
 /**
  * MCP Tool: Create Bitbucket Pull Request
  *
@@ -197,10 +308,14 @@ async function addPullRequestComment(
  * Returns a formatted markdown response with the newly created pull request details.
  *
  * @param args - Tool arguments containing workspace, repository, source branch, destination branch, and title
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted pull request details
  * @throws Will return error message if pull request creation fails
  */
-async function addPullRequest(args: CreatePullRequestToolArgsType) {
+async function addPullRequest(
+	args: CreatePullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'addPullRequest',
@@ -214,7 +329,9 @@ async function addPullRequest(args: CreatePullRequestToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.add(args);
+		const result = await atlassianPullRequestsController.add(args, {
+			signal,
+		});
 
 		methodLogger.debug('Successfully created pull request via controller');
 
@@ -225,6 +342,7 @@ async function addPullRequest(args: CreatePullRequestToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to create pull request', error);
@@ -239,10 +357,14 @@ async function addPullRequest(args: CreatePullRequestToolArgsType) {
  * Returns a formatted markdown response with updated pull request details.
  *
  * @param args - Tool arguments for updating pull request
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted updated pull request details
  * @throws Will return error message if pull request update fails
  */
-async function updatePullRequest(args: UpdatePullRequestToolArgsType) {
+async function updatePullRequest(
+	args: UpdatePullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'updatePullRequest',
@@ -256,7 +378,9 @@ async function updatePullRequest(args: UpdatePullRequestToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.update(args);
+		const result = await atlassianPullRequestsController.update(args, {
+			signal,
+		});
 
 		methodLogger.debug('Successfully updated pull request via controller');
 
@@ -267,6 +391,7 @@ async function updatePullRequest(args: UpdatePullRequestToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to update pull request', error);
@@ -281,10 +406,14 @@ async function updatePullRequest(args: UpdatePullRequestToolArgsType) {
  * Returns a formatted markdown response with approval confirmation.
  *
  * @param args - Tool arguments for approving pull request
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted approval confirmation
  * @throws Will return error message if pull request approval fails
  */
-async function approvePullRequest(args: ApprovePullRequestToolArgsType) {
+async function approvePullRequest(
+	args: ApprovePullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'approvePullRequest',
@@ -293,7 +422,9 @@ async function approvePullRequest(args: ApprovePullRequestToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.approve(args);
+		const result = await atlassianPullRequestsController.approve(args, {
+			signal,
+		});
 
 		methodLogger.debug('Successfully approved pull request via controller');
 
@@ -304,6 +435,7 @@ async function approvePullRequest(args: ApprovePullRequestToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to approve pull request', error);
@@ -318,10 +450,14 @@ async function approvePullRequest(args: ApprovePullRequestToolArgsType) {
  * Returns a formatted markdown response with rejection confirmation.
  *
  * @param args - Tool arguments for requesting changes on pull request
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted rejection confirmation
  * @throws Will return error message if pull request rejection fails
  */
-async function rejectPullRequest(args: RejectPullRequestToolArgsType) {
+async function rejectPullRequest(
+	args: RejectPullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.pullrequests.tool.ts',
 		'rejectPullRequest',
@@ -330,7 +466,9 @@ async function rejectPullRequest(args: RejectPullRequestToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await atlassianPullRequestsController.reject(args);
+		const result = await atlassianPullRequestsController.reject(args, {
+			signal,
+		});
 
 		methodLogger.debug(
 			'Successfully requested changes on pull request via controller',
@@ -343,6 +481,7 @@ async function rejectPullRequest(args: RejectPullRequestToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to request changes on pull request', error);
@@ -350,6 +489,283 @@ async function rejectPullRequest(args: RejectPullRequestToolArgsType) {
 	}
 }
 
+/**
+ * MCP Tool: Remove Approval From Bitbucket Pull Request
+ *
+ * Withdraws the current user's approval and shows the resulting review state.
+ *
+ * @param args - Tool arguments containing workspace, repository and PR ID
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with the review state of the pull request
+ * @throws Will return error message if removing the approval fails
+ */
+async function unapprovePullRequest(
+	args: UnapprovePullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'unapprovePullRequest',
+	);
+	methodLogger.debug('Removing approval from pull request:', args);
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.unapprove(args, {
+			signal,
+		});
+
+		methodLogger.debug('Successfully removed approval via controller');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error(
+			'Failed to remove approval from pull request',
+			error,
+		);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Withdraw Change Request on Bitbucket Pull Request
+ *
+ * Withdraws the current user's change request and shows the resulting review state.
+ *
+ * @param args - Tool arguments containing workspace, repository and PR ID
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with the review state of the pull request
+ * @throws Will return error message if withdrawing the change request fails
+ */
+async function withdrawChangeRequest(
+	args: WithdrawChangeRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'withdrawChangeRequest',
+	);
+	methodLogger.debug('Withdrawing change request on pull request:', args);
+
+	try {
+		// Pass args directly to controller
+		const result =
+			await atlassianPullRequestsController.withdrawChangeRequest(args, {
+				signal,
+			});
+
+		methodLogger.debug(
+			'Successfully withdrew change request via controller',
+		);
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error(
+			'Failed to withdraw change request on pull request',
+			error,
+		);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Decline Bitbucket Pull Request
+ *
+ * Declines a pull request, leaving the reason as a comment when one is given.
+ *
+ * @param args - Tool arguments containing workspace, repository and PR ID
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with formatted decline confirmation
+ * @throws Will return error message if declining the pull request fails
+ */
+async function declinePullRequest(
+	args: DeclinePullRequestToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'declinePullRequest',
+	);
+	methodLogger.debug('Declining pull request:', args);
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.decline(args, {
+			signal,
+		});
+
+		methodLogger.debug('Successfully declined pull request via controller');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to decline pull request', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Merge Bitbucket Pull Request
+ *
+ * Merges a pull request with the chosen strategy, waiting for Bitbucket to
+ * finish merges it runs asynchronously.
+ * Returns a formatted markdown response with the resulting merge commit.
+ *
+ * @param args - Tool arguments containing workspace, repository, PR ID and merge options
+ * @param options - Request options, including the abort signal and progress callback
+ * @returns MCP response with formatted merge confirmation
+ * @throws Will return error message if merging the pull request fails
+ */
+async function mergePullRequest(
+	args: MergePullRequestToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'mergePullRequest',
+	);
+	methodLogger.debug('Merging pull request:', args);
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.merge(args, {
+			signal,
+			onProgress,
+		});
+
+		methodLogger.debug('Successfully merged pull request via controller');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to merge pull request', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: List Bitbucket Pull Request Tasks
+ *
+ * Lists the tasks on a specific pull request, optionally only open or resolved ones.
+ * Returns a formatted markdown checklist of the tasks.
+ *
+ * @param args - Tool arguments containing workspace, repository, PR ID and state filter
+ * @param options - Request options, including the abort signal and progress callback
+ * @returns MCP response with formatted pull request tasks
+ * @throws Will return error message if task retrieval fails
+ */
+async function listPullRequestTasks(
+	args: ListPullRequestTasksToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'listPullRequestTasks',
+	);
+	methodLogger.debug('Listing pull request tasks:', args);
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.listTasks(args, {
+			signal,
+			onProgress,
+		});
+
+		methodLogger.debug(
+			'Successfully retrieved pull request tasks from controller',
+		);
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to list pull request tasks', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Manage Bitbucket Pull Request Task
+ *
+ * Creates, updates, resolves, reopens or deletes a task on a pull request.
+ * Returns a confirmation as markdown.
+ *
+ * @param args - Tool arguments containing workspace, repository, PR ID, action and task details
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with formatted confirmation
+ * @throws Will return error message if the task action fails
+ */
+async function managePullRequestTask(
+	args: ManagePullRequestTaskToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pullrequests.tool.ts',
+		'managePullRequestTask',
+	);
+	methodLogger.debug('Managing pull request task:', args);
+
+	try {
+		// Pass args directly to controller
+		const result = await atlassianPullRequestsController.manageTask(args, {
+			signal,
+		});
+
+		methodLogger.debug(
+			'Successfully managed pull request task via controller',
+		);
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to manage pull request task', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
 /**
  * Register Atlassian Pull Requests MCP Tools
  *
@@ -366,67 +782,168 @@ function registerTools(server: McpServer) {
 	methodLogger.debug('Registering Atlassian Pull Requests tools...');
 
 	// Register the list pull requests tool
-	server.tool(
+	server.registerTool(
 		'bb_ls_prs',
-		`Lists pull requests within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Filters by \`state\` (OPEN, MERGED, DECLINED, SUPERSEDED) and supports text search via \`query\`. Supports pagination via \`limit\` and \`cursor\`. Pagination details are included at the end of the text content. Returns a formatted Markdown list with each PR's title, status, author, reviewers, and creation date. Requires Bitbucket credentials to be configured.`,
-		ListPullRequestsToolArgs.shape,
-		listPullRequests,
+		{
+			description: `Lists pull requests within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Filters by \`state\` (OPEN, MERGED, DECLINED, SUPERSEDED) and supports text search via \`query\`. Supports pagination via \`limit\` and \`cursor\`. Set \`all: true\` to fetch every page (up to \`maxItems\`). Pagination details are included at the end of the text content. Returns a formatted Markdown list with each PR's title, status, author, reviewers, and creation date. Requires Bitbucket credentials to be configured.`,
+			inputSchema: ListPullRequestsToolArgs.shape,
+			outputSchema: ListPullRequestsToolOutput.shape,
+		},
+		withProfile(listPullRequests),
 	);
 
 	// Register the get pull request tool
-	server.tool(
+	server.registerTool(
 		'bb_get_pr',
-		`Retrieves detailed information about a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Includes PR details, status, reviewers, and diff statistics. Set \`includeFullDiff\` to true (default) for the complete code changes. Set \`includeComments\` to true to also retrieve comments (default: false; Note: Enabling this may increase response time for pull requests with many comments). Returns rich information as formatted Markdown, including PR summary, code changes, and optionally comments. Requires Bitbucket credentials to be configured.`,
-		GetPullRequestToolArgs.shape,
-		getPullRequest,
+		{
+			description: `Retrieves detailed information about a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Includes PR details, status, reviewers and open tasks (with their count). Set \`includeFullDiff\` to true (default) for the changed files and the complete code changes, or to false for a quicker summary. Set \`includeComments\` to true to also retrieve comments (default: false; Note: Enabling this may increase response time for pull requests with many comments). Returns rich information as formatted Markdown, including PR summary, code changes, and optionally comments. Requires Bitbucket credentials to be configured.`,
+			inputSchema: GetPullRequestToolArgs.shape,
+			outputSchema: GetPullRequestToolOutput.shape,
+		},
+		withProfile(getPullRequest),
 	);
 
 	// Register the list pull request comments tool
-	server.tool(
+	server.registerTool(
 		'bb_ls_pr_comments',
-		`Lists comments on a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Retrieves both general PR comments and inline code comments, indicating their location if applicable. Supports pagination via \`limit\` and \`cursor\`. Pagination details are included at the end of the text content. Returns a formatted Markdown list with each comment's author, timestamp, content, and location for inline comments. Requires Bitbucket credentials to be configured.`,
-		ListPullRequestCommentsToolArgs.shape,
-		listPullRequestComments,
+		{
+			description: `Lists comments on a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Retrieves both general PR comments and inline code comments, indicating their location if applicable, grouped into threads with replies nested under the comment they answer. Each thread shows whether it is open or resolved; set \`unresolvedOnly\` to true to list only open threads (this reads every page of comments, up to \`maxItems\`). Supports pagination via \`limit\` and \`cursor\`. Set \`all: true\` to fetch every page (up to \`maxItems\`). Pagination details are included at the end of the text content. Returns formatted Markdown with each comment's ID, author, timestamp, content, and location for inline comments. Requires Bitbucket credentials to be configured.`,
+			inputSchema: ListPullRequestCommentsToolArgs.shape,
+			outputSchema: ListPullRequestCommentsToolOutput.shape,
+		},
+		withProfile(listPullRequestComments),
 	);
 
 	// Register the add pull request comment tool
-	server.tool(
+	server.registerTool(
 		'bb_add_pr_comment',
-		`Adds a comment to a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. The \`content\` parameter accepts Markdown-formatted text for the comment body. To reply to an existing comment, provide its ID in the \`parentId\` parameter. For inline code comments, provide both \`inline.path\` (file path) and \`inline.line\` (line number). Returns a success message as formatted Markdown. Requires Bitbucket credentials with write permissions to be configured.`,
-		CreatePullRequestCommentToolArgs.shape,
-		addPullRequestComment,
+		{
+			description: `Adds a comment to a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. The \`content\` parameter accepts Markdown-formatted text for the comment body. To reply to an existing comment, provide its ID in the \`parentId\` parameter. For inline code comments, provide both \`inline.path\` (file path) and \`inline.line\` (line number). Returns a success message as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: CreatePullRequestCommentToolArgs.shape,
+			outputSchema: CreatePullRequestCommentToolOutput.shape,
+		},
+		withProfile(addPullRequestComment),
+	);
+
+	// Register the manage pull request comment tool
+	server.registerTool(
+		'bb_manage_pr_comment',
+		{
+			description: `Edits, deletes, resolves or reopens a comment on a pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Set \`action\` to "update" (with new Markdown \`content\`), "delete", "resolve" or "reopen", and \`commentId\` to the comment to act on. Resolving or reopening applies to the whole thread, so use the ID of its top-level comment. Comment IDs are shown by \`bb_ls_pr_comments\`. Returns a confirmation as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: ManagePullRequestCommentToolArgs.shape,
+			outputSchema: ManagePullRequestCommentToolOutput.shape,
+		},
+		withProfile(managePullRequestComment),
 	);
 
 	// Register the create pull request tool
-	server.tool(
+	server.registerTool(
 		'bb_add_pr',
-		`Creates a new pull request in a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Required parameters include \`title\`, \`sourceBranch\` (branch with changes), and optionally \`destinationBranch\` (target branch, defaults to main/master). The \`description\` parameter accepts Markdown-formatted text for the PR description. Set \`closeSourceBranch\` to true to automatically delete the source branch after merging. Returns the newly created pull request details as formatted Markdown. Requires Bitbucket credentials with write permissions to be configured.`,
-		CreatePullRequestToolArgs.shape,
-		addPullRequest,
+		{
+			description: `Creates a new pull request in a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Required parameters include \`title\`, \`sourceBranch\` (branch with changes), and optionally \`destinationBranch\` (target branch, defaults to the repository's main branch). The \`description\` parameter accepts Markdown-formatted text for the PR description. Set \`closeSourceBranch\` to true to automatically delete the source branch after merging. Request reviewers with \`reviewers\` (account IDs, UUIDs, nicknames or email addresses) and set \`includeDefaultReviewers\` to true to add the repository's default reviewers. Returns the newly created pull request details as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: CreatePullRequestToolArgs.shape,
+			outputSchema: CreatePullRequestToolOutput.shape,
+		},
+		withProfile(addPullRequest),
 	);
 
 	// Register the update pull request tool
-	server.tool(
+	server.registerTool(
 		'bb_update_pr',
-		`Updates an existing pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. You can update the \`title\` and/or \`description\` fields. At least one field must be provided. The \`description\` parameter accepts Markdown-formatted text. Returns the updated pull request details as formatted Markdown. Requires Bitbucket credentials with write permissions to be configured.`,
-		UpdatePullRequestToolArgs.shape,
-		updatePullRequest,
+		{
+			description: `Updates an existing pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. You can update the \`title\` and/or \`description\` fields, add reviewers with \`reviewers\` or \`includeDefaultReviewers\`, and remove them with \`removeReviewers\`; reviewers you do not mention are kept. At least one change must be provided. The \`description\` parameter accepts Markdown-formatted text. Returns the updated pull request details as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: UpdatePullRequestToolArgs.shape,
+			outputSchema: UpdatePullRequestToolOutput.shape,
+		},
+		withProfile(updatePullRequest),
 	);
 
 	// Register the approve pull request tool
-	server.tool(
+	server.registerTool(
 		'bb_approve_pr',
-		`Approves a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. This marks the pull request as approved by the current user, indicating that the changes are ready for merge (pending any other required approvals or checks). Returns an approval confirmation as formatted Markdown. Requires Bitbucket credentials with appropriate permissions to be configured.`,
-		ApprovePullRequestToolArgs.shape,
-		approvePullRequest,
+		{
+			description: `Approves a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. This marks the pull request as approved by the current user, indicating that the changes are ready for merge (pending any other required approvals or checks). Returns an approval confirmation as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with appropriate permissions to be configured.`,
+			inputSchema: ApprovePullRequestToolArgs.shape,
+			outputSchema: ApprovePullRequestToolOutput.shape,
+		},
+		withProfile(approvePullRequest),
 	);
 
 	// Register the reject pull request tool
-	server.tool(
+	server.registerTool(
 		'bb_reject_pr',
-		`Requests changes on a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. This marks the pull request as requiring changes by the current user, indicating that the author should address feedback before the pull request can be merged. Returns a rejection confirmation as formatted Markdown. Requires Bitbucket credentials with appropriate permissions to be configured.`,
-		RejectPullRequestToolArgs.shape,
-		rejectPullRequest,
+		{
+			description: `Requests changes on a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. This marks the pull request as requiring changes by the current user, indicating that the author should address feedback before the pull request can be merged. Returns a rejection confirmation as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with appropriate permissions to be configured.`,
+			inputSchema: RejectPullRequestToolArgs.shape,
+			outputSchema: RejectPullRequestToolOutput.shape,
+		},
+		withProfile(rejectPullRequest),
+	);
+
+	// Register the remove approval tool
+	server.registerTool(
+		'bb_unapprove_pr',
+		{
+			description: `Removes your approval from a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`, undoing \`bb_approve_pr\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. Returns the review state of every reviewer and participant afterwards as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with appropriate permissions to be configured.`,
+			inputSchema: UnapprovePullRequestToolArgs.shape,
+			outputSchema: UnapprovePullRequestToolOutput.shape,
+		},
+		withProfile(unapprovePullRequest),
+	);
+
+	// Register the withdraw change request tool
+	server.registerTool(
+		'bb_withdraw_change_request',
+		{
+			description: `Withdraws your change request from a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`, undoing \`bb_reject_pr\`. Fails if you have not requested changes, so an approval is never removed. If \`workspaceSlug\` is not provided, the system will use your default workspace. Returns the review state of every reviewer and participant afterwards as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with appropriate permissions to be configured.`,
+			inputSchema: WithdrawChangeRequestToolArgs.shape,
+			outputSchema: WithdrawChangeRequestToolOutput.shape,
+		},
+		withProfile(withdrawChangeRequest),
+	);
+
+	// Register the decline pull request tool
+	server.registerTool(
+		'bb_decline_pr',
+		{
+			description: `Declines a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`, closing it without merging. If \`workspaceSlug\` is not provided, the system will use your default workspace. An optional \`reason\` (Markdown) is added to the pull request as a comment. Branches are left unchanged. Returns the declined pull request as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: DeclinePullRequestToolArgs.shape,
+			outputSchema: DeclinePullRequestToolOutput.shape,
+		},
+		withProfile(declinePullRequest),
+	);
+
+	// Register the merge pull request tool
+	server.registerTool(
+		'bb_merge_pr',
+		{
+			description: `Merges a pull request in a repository (\`repoSlug\`) identified by \`pullRequestId\`. If \`workspaceSlug\` is not provided, the system will use your default workspace. Choose \`mergeStrategy\` ("merge_commit", "squash" or "fast_forward"; defaults to the repository's default strategy), an optional commit \`message\`, and \`closeSourceBranch\` to delete the source branch after merging. Waits for Bitbucket to finish merges it runs in the background. Returns the merged pull request and its resulting merge commit as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: MergePullRequestToolArgs.shape,
+			outputSchema: MergePullRequestToolOutput.shape,
+		},
+		withProfile(mergePullRequest),
+	);
+
+	// Register the list pull request tasks tool
+	server.registerTool(
+		'bb_ls_pr_tasks',
+		{
+			description: `Lists tasks on a specific pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Filter by \`state\` ("UNRESOLVED" for open tasks, "RESOLVED" for done ones). Supports pagination via \`limit\` and \`cursor\`. Set \`all: true\` to fetch every page (up to \`maxItems\`). Returns a formatted Markdown checklist with each task's ID, text, creator and the comment it is anchored to, if any. Requires Bitbucket credentials to be configured.`,
+			inputSchema: ListPullRequestTasksToolArgs.shape,
+			outputSchema: ListPullRequestTasksToolOutput.shape,
+		},
+		withProfile(listPullRequestTasks),
+	);
+
+	// Register the manage pull request task tool
+	server.registerTool(
+		'bb_manage_pr_task',
+		{
+			description: `Creates, updates, resolves, reopens or deletes a task on a pull request identified by \`prId\` within a repository (\`repoSlug\`). If \`workspaceSlug\` is not provided, the system will use your default workspace. Set \`action\` to "create" (with Markdown \`content\`, and optionally \`commentId\` to anchor the task to a comment), "update" (with \`taskId\` and new \`content\`), "resolve", "reopen" or "delete" (each with \`taskId\`). Returns the task after the change as formatted Markdown. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires Bitbucket credentials with write permissions to be configured.`,
+			inputSchema: ManagePullRequestTaskToolArgs.shape,
+			outputSchema: ManagePullRequestTaskToolOutput.shape,
+		},
+		withProfile(managePullRequestTask),
 	);
 
 	methodLogger.debug('Successfully registered Pull Requests tools');
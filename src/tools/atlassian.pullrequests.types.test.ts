@@ -1,4 +1,12 @@
-import { CreatePullRequestCommentToolArgs } from './atlassian.pullrequests.types';
+import {
+	CreatePullRequestCommentToolArgs,
+	CreatePullRequestToolOutput,
+	GetPullRequestToolOutput,
+	MergePullRequestToolArgs,
+} from './atlassian.pullrequests.types';
+import { toPullRequestOutput } from '../controllers/atlassian.pullrequests.formatter.js';
+import { formatDryRunResponse } from '../utils/dry-run.util.js';
+import { PullRequest } from '../services/vendor.atlassian.pullrequests.types.js';
 
 describe('Atlassian Pull Requests Tool Types', () => {
 	describe('CreatePullRequestCommentToolArgs Schema', () => {
@@ -91,4 +99,84 @@ describe('Atlassian Pull Requests Tool Types', () => {
 			}
 		});
 	});
+
+	describe('MergePullRequestToolArgs Schema', () => {
+		it('should accept the supported merge strategies', () => {
+			for (const mergeStrategy of [
+				'merge_commit',
+				'squash',
+				'fast_forward',
+			]) {
+				const result = MergePullRequestToolArgs.safeParse({
+					repoSlug: 'test-repo',
+					pullRequestId: 1,
+					mergeStrategy,
+					message: 'Merge feature',
+					closeSourceBranch: true,
+				});
+				expect(result.success).toBe(true);
+			}
+		});
+
+		it('should reject unknown merge strategies', () => {
+			const result = MergePullRequestToolArgs.safeParse({
+				repoSlug: 'test-repo',
+				pullRequestId: 1,
+				mergeStrategy: 'rebase',
+			});
+			expect(result.success).toBe(false);
+		});
+	});
+
+	describe('Output Schemas', () => {
+		const pullRequest = {
+			type: 'pullrequest',
+			id: 7,
+			title: 'Add login page',
+			summary: { raw: '' },
+			state: 'OPEN',
+			author: { display_name: 'Jane Doe', uuid: '{1}' },
+			source: {
+				branch: { name: 'feature/login' },
+				commit: { hash: 'abc123' },
+			},
+			destination: { branch: { name: 'main' } },
+			merge_commit: null,
+			created_on: '2024-01-01T00:00:00Z',
+			updated_on: '2024-01-02T00:00:00Z',
+			links: {
+				html: { href: 'https://bitbucket.org/t/r/pull-requests/7' },
+			},
+		} as unknown as PullRequest;
+
+		it('should accept a pull request converted from the API shape', () => {
+			const output = toPullRequestOutput(pullRequest);
+
+			const result = GetPullRequestToolOutput.safeParse({
+				pullRequest: output,
+			});
+			expect(result.success).toBe(true);
+			expect(output).toMatchObject({
+				id: 7,
+				sourceBranch: 'feature/login',
+				destinationBranch: 'main',
+				url: 'https://bitbucket.org/t/r/pull-requests/7',
+			});
+			expect(output.description).toBeUndefined();
+			expect(output.mergeCommit).toBeUndefined();
+		});
+
+		it('should accept the planned request of a dry run', () => {
+			const response = formatDryRunResponse({
+				method: 'POST',
+				path: '/2.0/repositories/t/r/pullrequests',
+				url: 'https://api.bitbucket.org/2.0/repositories/t/r/pullrequests',
+				body: { title: 'Add login page' },
+			});
+
+			const result = CreatePullRequestToolOutput.safeParse(response.data);
+			expect(result.success).toBe(true);
+			expect(response.data.plannedRequest.method).toBe('POST');
+		});
+	});
 });
@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import {
+	AllPagesArgs,
+	DryRunArgs,
+	DryRunOutput,
+	PaginationOutput,
+	ProfileArgs,
+	UserOutput,
+} from './atlassian.common.types.js';
 
 /**
  * Base pagination arguments for all tools
@@ -70,6 +78,14 @@ export const ListPullRequestsToolArgs = z.object({
 	 * Maximum number of pull requests to return (default: 50)
 	 */
 	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ListPullRequestsToolArgsType = z.infer<
@@ -131,6 +147,10 @@ export const GetPullRequestToolArgs = z.object({
 			'Set to true to retrieve comments for the pull request. Default: false. Note: Enabling this may increase response time for pull requests with many comments due to additional API calls.',
 		)
 		.default(false),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type GetPullRequestToolArgsType = z.infer<typeof GetPullRequestToolArgs>;
@@ -169,10 +189,28 @@ export const ListPullRequestCommentsToolArgs = z.object({
 			'Numeric ID of the pull request to retrieve comments from as a string. Must be a valid pull request ID in the specified repository. Example: "42"',
 		),
 
+	/**
+	 * Only show threads that are still open
+	 */
+	unresolvedOnly: z
+		.boolean()
+		.optional()
+		.describe(
+			'Only show comment threads that have not been resolved. Reads every page of comments (up to maxItems, as with "all") to tell which threads are open.',
+		),
+
 	/**
 	 * Pagination parameters
 	 */
 	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ListPullRequestCommentsToolArgsType = z.infer<
@@ -249,6 +287,14 @@ export const CreatePullRequestCommentToolArgs = z.object({
 		.describe(
 			'The ID of the parent comment to reply to. If not provided, the comment will be a top-level comment.',
 		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 /**
@@ -258,6 +304,82 @@ export type CreatePullRequestCommentToolArgsType = z.infer<
 	typeof CreatePullRequestCommentToolArgs
 >;
 
+/**
+ * Schema for manage-pr-comment tool arguments
+ */
+export const ManagePullRequestCommentToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace. Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request identifier
+	 */
+	prId: z
+		.string()
+		.min(1, 'Pull request ID is required')
+		.describe(
+			'Numeric ID of the pull request the comment belongs to as a string. Example: "42"',
+		),
+
+	/**
+	 * What to do with the comment
+	 */
+	action: z
+		.enum(['update', 'delete', 'resolve', 'reopen'])
+		.describe(
+			'What to do: "update" replaces the comment text, "delete" removes the comment, "resolve" marks the thread it starts as resolved, "reopen" marks that thread open again.',
+		),
+
+	/**
+	 * Comment to act on
+	 */
+	commentId: z
+		.string()
+		.min(1, 'Comment ID is required')
+		.describe(
+			'ID of the comment to act on as a string. To resolve or reopen a thread, use the ID of its top-level comment. Example: "456"',
+		),
+
+	/**
+	 * New comment text
+	 */
+	content: z
+		.string()
+		.optional()
+		.describe(
+			'New text of the comment in Markdown format. Required for "update".',
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type ManagePullRequestCommentToolArgsType = z.infer<
+	typeof ManagePullRequestCommentToolArgs
+>;
+
 /**
  * Arguments schema for the pull_requests_create tool
  */
@@ -307,7 +429,7 @@ export const CreatePullRequestToolArgs = z.object({
 		.string()
 		.optional()
 		.describe(
-			'Destination branch name (the branch you want to merge into, defaults to main). Example: "develop"',
+			'Destination branch name (the branch you want to merge into, defaults to the repository main branch). Example: "develop"',
 		),
 
 	/**
@@ -329,6 +451,34 @@ export const CreatePullRequestToolArgs = z.object({
 		.describe(
 			'Whether to close the source branch after the pull request is merged. Default: false',
 		),
+
+	/**
+	 * Reviewers to request
+	 */
+	reviewers: z
+		.array(z.string().min(1))
+		.optional()
+		.describe(
+			'Reviewers to request, each given as an account ID, a UUID in braces, a nickname or an email address (looked up among the workspace members; email lookup needs workspace admin rights or an access token). On Data Center, use user names or email addresses. Example: ["jdoe", "{a1b2c3d4-...}"]',
+		),
+
+	/**
+	 * Also request the repository's default reviewers
+	 */
+	includeDefaultReviewers: z
+		.boolean()
+		.optional()
+		.describe(
+			"Also request the repository's effective default reviewers (including those inherited from the project). You are left out, as authors cannot review their own pull requests. Default: false",
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type CreatePullRequestToolArgsType = z.infer<
@@ -387,6 +537,44 @@ export const UpdatePullRequestToolArgs = z.object({
 		.describe(
 			'Updated description for the pull request in Markdown format. Supports standard Markdown syntax including headings, lists, code blocks, and links.',
 		),
+
+	/**
+	 * Reviewers to add
+	 */
+	reviewers: z
+		.array(z.string().min(1))
+		.optional()
+		.describe(
+			'Reviewers to add, each given as an account ID, a UUID in braces, a nickname or an email address (looked up among the workspace members). Existing reviewers are kept. On Data Center, use user names or email addresses. Example: ["jdoe"]',
+		),
+
+	/**
+	 * Reviewers to remove
+	 */
+	removeReviewers: z
+		.array(z.string().min(1))
+		.optional()
+		.describe(
+			'Reviewers to remove, identified the same way as `reviewers`. Other reviewers are kept.',
+		),
+
+	/**
+	 * Also add the repository's default reviewers
+	 */
+	includeDefaultReviewers: z
+		.boolean()
+		.optional()
+		.describe(
+			"Also add the repository's effective default reviewers that are not reviewing yet. The pull request author is left out. Default: false",
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type UpdatePullRequestToolArgsType = z.infer<
@@ -425,6 +613,14 @@ export const ApprovePullRequestToolArgs = z.object({
 		.int()
 		.positive()
 		.describe('Pull request ID to approve. Example: 123'),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ApprovePullRequestToolArgsType = z.infer<
@@ -463,8 +659,705 @@ export const RejectPullRequestToolArgs = z.object({
 		.int()
 		.positive()
 		.describe('Pull request ID to request changes on. Example: 123'),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type RejectPullRequestToolArgsType = z.infer<
 	typeof RejectPullRequestToolArgs
 >;
+
+/**
+ * Schema for unapprove-pull-request tool arguments
+ */
+export const UnapprovePullRequestToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request ID
+	 */
+	pullRequestId: z
+		.number()
+		.int()
+		.positive()
+		.describe('Pull request ID to remove your approval from. Example: 123'),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type UnapprovePullRequestToolArgsType = z.infer<
+	typeof UnapprovePullRequestToolArgs
+>;
+
+/**
+ * Schema for withdraw-change-request tool arguments
+ */
+export const WithdrawChangeRequestToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request ID
+	 */
+	pullRequestId: z
+		.number()
+		.int()
+		.positive()
+		.describe(
+			'Pull request ID to withdraw your change request from. Example: 123',
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type WithdrawChangeRequestToolArgsType = z.infer<
+	typeof WithdrawChangeRequestToolArgs
+>;
+
+/**
+ * Schema for decline-pull-request tool arguments
+ */
+export const DeclinePullRequestToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request ID
+	 */
+	pullRequestId: z
+		.number()
+		.int()
+		.positive()
+		.describe('Pull request ID to decline. Example: 123'),
+
+	/**
+	 * Why the pull request is declined
+	 */
+	reason: z
+		.string()
+		.optional()
+		.describe(
+			'Why the pull request is declined, in Markdown. Added to the pull request as a comment so the author sees it. Example: "Superseded by #124"',
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type DeclinePullRequestToolArgsType = z.infer<
+	typeof DeclinePullRequestToolArgs
+>;
+
+/**
+ * Schema for merge-pull-request tool arguments
+ */
+export const MergePullRequestToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request ID
+	 */
+	pullRequestId: z
+		.number()
+		.int()
+		.positive()
+		.describe('Pull request ID to merge. Example: 123'),
+
+	/**
+	 * Merge strategy
+	 */
+	mergeStrategy: z
+		.enum(['merge_commit', 'squash', 'fast_forward'])
+		.optional()
+		.describe(
+			'How to merge: "merge_commit" creates a merge commit, "squash" combines all changes into one commit, "fast_forward" moves the destination branch to the source commit (fails if the branches have diverged). If omitted, the repository\'s default strategy is used.',
+		),
+
+	/**
+	 * Commit message for the merge
+	 */
+	message: z
+		.string()
+		.optional()
+		.describe(
+			'Commit message for the merge or squash commit. If omitted, Bitbucket generates one from the pull request title.',
+		),
+
+	/**
+	 * Delete the source branch after merging
+	 */
+	closeSourceBranch: z
+		.boolean()
+		.optional()
+		.describe(
+			'Whether to delete the source branch after merging. If omitted, the setting chosen when the pull request was created applies. Not supported on Bitbucket Data Center.',
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type MergePullRequestToolArgsType = z.infer<
+	typeof MergePullRequestToolArgs
+>;
+
+/**
+ * Schema for list-pr-tasks tool arguments
+ */
+export const ListPullRequestTasksToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace. Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request identifier
+	 */
+	prId: z
+		.string()
+		.min(1, 'Pull request ID is required')
+		.describe(
+			'Numeric ID of the pull request to list tasks of as a string. Must be a valid pull request ID in the specified repository. Example: "42"',
+		),
+
+	/**
+	 * Filter by task state
+	 */
+	state: z
+		.enum(['RESOLVED', 'UNRESOLVED'])
+		.optional()
+		.describe(
+			'Filter tasks by state: "UNRESOLVED" (open tasks) or "RESOLVED" (done tasks). If omitted, all tasks are listed.',
+		),
+
+	/**
+	 * Pagination parameters
+	 */
+	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type ListPullRequestTasksToolArgsType = z.infer<
+	typeof ListPullRequestTasksToolArgs
+>;
+
+/**
+ * Schema for manage-pr-task tool arguments
+ */
+export const ManagePullRequestTaskToolArgs = z.object({
+	/**
+	 * Workspace slug containing the repository
+	 */
+	workspaceSlug: z
+		.string()
+		.optional()
+		.describe(
+			'Workspace slug containing the repository. If not provided, the system will use your default workspace. Example: "myteam"',
+		),
+
+	/**
+	 * Repository slug containing the pull request
+	 */
+	repoSlug: z
+		.string()
+		.min(1, 'Repository slug is required')
+		.describe(
+			'Repository slug containing the pull request. This must be a valid repository in the specified workspace. Example: "project-api"',
+		),
+
+	/**
+	 * Pull request identifier
+	 */
+	prId: z
+		.string()
+		.min(1, 'Pull request ID is required')
+		.describe(
+			'Numeric ID of the pull request the task belongs to as a string. Example: "42"',
+		),
+
+	/**
+	 * What to do with the task
+	 */
+	action: z
+		.enum(['create', 'update', 'resolve', 'reopen', 'delete'])
+		.describe(
+			'What to do: "create" adds a task, "update" changes its text, "resolve" marks it done, "reopen" marks it open again, "delete" removes it.',
+		),
+
+	/**
+	 * Task to act on
+	 */
+	taskId: z
+		.string()
+		.optional()
+		.describe(
+			'ID of the task to act on as a string. Required for every action except "create". Example: "7"',
+		),
+
+	/**
+	 * Task text
+	 */
+	content: z
+		.string()
+		.optional()
+		.describe(
+			'Text of the task in Markdown format. Required for "create" and "update".',
+		),
+
+	/**
+	 * Comment to anchor a new task to
+	 */
+	commentId: z
+		.string()
+		.optional()
+		.describe(
+			'ID of the comment to anchor a new task to, as a string. Only used with "create"; if omitted, the task is added to the pull request itself.',
+		),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type ManagePullRequestTaskToolArgsType = z.infer<
+	typeof ManagePullRequestTaskToolArgs
+>;
+
+/**
+ * Pull request in the structured output of pull request tools
+ */
+export const PullRequestOutput = z.object({
+	id: z.number(),
+	title: z.string(),
+	state: z
+		.string()
+		.describe('Pull request state: OPEN, MERGED, DECLINED or SUPERSEDED'),
+	description: z.string().optional(),
+	author: UserOutput.optional(),
+	sourceBranch: z.string().optional(),
+	sourceCommit: z.string().optional(),
+	sourceRepository: z
+		.string()
+		.optional()
+		.describe('Full name of the source repository, e.g. "myteam/api"'),
+	destinationBranch: z.string().optional(),
+	destinationCommit: z.string().optional(),
+	destinationRepository: z.string().optional(),
+	mergeCommit: z.string().optional(),
+	closeSourceBranch: z.boolean().optional(),
+	commentCount: z.number().optional(),
+	taskCount: z.number().optional(),
+	reviewers: z.array(UserOutput).optional(),
+	createdOn: z.string(),
+	updatedOn: z.string(),
+	url: z.string().optional().describe('Web URL of the pull request'),
+});
+
+export type PullRequestOutputType = z.infer<typeof PullRequestOutput>;
+
+/**
+ * Pull request comment in the structured output of comment tools
+ */
+export const CommentOutput = z.object({
+	id: z.number(),
+	content: z.string().describe('Comment text (Markdown)'),
+	author: UserOutput.optional(),
+	createdOn: z.string(),
+	updatedOn: z.string().optional(),
+	deleted: z.boolean().optional(),
+	parentId: z
+		.number()
+		.optional()
+		.describe('ID of the comment this one replies to'),
+	inline: z
+		.object({
+			path: z.string(),
+			fromLine: z.number().optional(),
+			toLine: z.number().optional(),
+		})
+		.optional()
+		.describe('File and line of an inline comment'),
+	resolved: z
+		.boolean()
+		.optional()
+		.describe(
+			'Whether the thread this comment starts is resolved; only set on top-level comments',
+		),
+	resolvedBy: UserOutput.optional(),
+	resolvedOn: z.string().optional(),
+	url: z.string().optional(),
+});
+
+export type CommentOutputType = z.infer<typeof CommentOutput>;
+
+/**
+ * Reviewer or participant of a pull request
+ */
+export const ParticipantOutput = z.object({
+	user: UserOutput,
+	role: z.string().optional().describe('PARTICIPANT or REVIEWER'),
+	approved: z.boolean(),
+	state: z
+		.string()
+		.nullable()
+		.optional()
+		.describe('approved, changes_requested, or null'),
+	participatedOn: z.string().optional(),
+});
+
+export type ParticipantOutputType = z.infer<typeof ParticipantOutput>;
+
+/**
+ * Pull request task in the structured output of task tools
+ */
+export const TaskOutput = z.object({
+	id: z.number(),
+	content: z.string().describe('Task text (Markdown)'),
+	state: z.string().describe('RESOLVED or UNRESOLVED'),
+	creator: UserOutput.optional(),
+	createdOn: z.string().optional(),
+	updatedOn: z.string().optional(),
+	resolvedOn: z.string().optional(),
+	resolvedBy: UserOutput.optional(),
+	commentId: z
+		.number()
+		.optional()
+		.describe('ID of the comment the task is anchored to'),
+});
+
+export type TaskOutputType = z.infer<typeof TaskOutput>;
+
+/**
+ * Structured output of the list-pull-requests tool
+ */
+export const ListPullRequestsToolOutput = z.object({
+	pullRequests: z.array(PullRequestOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListPullRequestsToolOutputType = z.infer<
+	typeof ListPullRequestsToolOutput
+>;
+
+/**
+ * Structured output of the get-pull-request tool
+ */
+export const GetPullRequestToolOutput = z.object({
+	pullRequest: PullRequestOutput,
+	openTaskCount: z
+		.number()
+		.optional()
+		.describe('Number of unresolved tasks on the pull request'),
+});
+
+export type GetPullRequestToolOutputType = z.infer<
+	typeof GetPullRequestToolOutput
+>;
+
+/**
+ * Structured output of the list-pull-request-comments tool
+ */
+export const ListPullRequestCommentsToolOutput = z.object({
+	comments: z.array(CommentOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListPullRequestCommentsToolOutputType = z.infer<
+	typeof ListPullRequestCommentsToolOutput
+>;
+
+/**
+ * Structured output of the add-pull-request-comment tool
+ */
+export const CreatePullRequestCommentToolOutput = z.object({
+	comment: CommentOutput.optional().describe('The new comment'),
+	...DryRunOutput,
+});
+
+export type CreatePullRequestCommentToolOutputType = z.infer<
+	typeof CreatePullRequestCommentToolOutput
+>;
+
+/**
+ * Structured output of the manage-pull-request-comment tool
+ */
+export const ManagePullRequestCommentToolOutput = z.object({
+	action: z.string().optional().describe('update, delete, resolve or reopen'),
+	commentId: z.number().optional(),
+	comment: CommentOutput.optional().describe('The comment after "update"'),
+	resolvedBy: UserOutput.optional().describe(
+		'Who resolved the thread, after "resolve"',
+	),
+	resolvedOn: z.string().optional(),
+	...DryRunOutput,
+});
+
+export type ManagePullRequestCommentToolOutputType = z.infer<
+	typeof ManagePullRequestCommentToolOutput
+>;
+
+/**
+ * Structured output of the create-pull-request tool
+ */
+export const CreatePullRequestToolOutput = z.object({
+	pullRequest: PullRequestOutput.optional().describe('The new pull request'),
+	...DryRunOutput,
+});
+
+export type CreatePullRequestToolOutputType = z.infer<
+	typeof CreatePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the update-pull-request tool
+ */
+export const UpdatePullRequestToolOutput = z.object({
+	pullRequest: PullRequestOutput.optional().describe(
+		'The updated pull request',
+	),
+	...DryRunOutput,
+});
+
+export type UpdatePullRequestToolOutputType = z.infer<
+	typeof UpdatePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the approve-pull-request tool
+ */
+export const ApprovePullRequestToolOutput = z.object({
+	participant: ParticipantOutput.optional().describe(
+		'Your participation after approving',
+	),
+	...DryRunOutput,
+});
+
+export type ApprovePullRequestToolOutputType = z.infer<
+	typeof ApprovePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the request-changes tool
+ */
+export const RejectPullRequestToolOutput = z.object({
+	participant: ParticipantOutput.optional().describe(
+		'Your participation after requesting changes',
+	),
+	...DryRunOutput,
+});
+
+export type RejectPullRequestToolOutputType = z.infer<
+	typeof RejectPullRequestToolOutput
+>;
+
+/**
+ * Structured output of the unapprove-pull-request tool
+ */
+export const UnapprovePullRequestToolOutput = z.object({
+	participants: z
+		.array(ParticipantOutput)
+		.optional()
+		.describe('Review state of every participant after the change'),
+	...DryRunOutput,
+});
+
+export type UnapprovePullRequestToolOutputType = z.infer<
+	typeof UnapprovePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the withdraw-change-request tool
+ */
+export const WithdrawChangeRequestToolOutput = z.object({
+	participants: z
+		.array(ParticipantOutput)
+		.optional()
+		.describe('Review state of every participant after the change'),
+	...DryRunOutput,
+});
+
+export type WithdrawChangeRequestToolOutputType = z.infer<
+	typeof WithdrawChangeRequestToolOutput
+>;
+
+/**
+ * Structured output of the decline-pull-request tool
+ */
+export const DeclinePullRequestToolOutput = z.object({
+	pullRequest: PullRequestOutput.optional().describe(
+		'The declined pull request',
+	),
+	...DryRunOutput,
+});
+
+export type DeclinePullRequestToolOutputType = z.infer<
+	typeof DeclinePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the merge-pull-request tool
+ */
+export const MergePullRequestToolOutput = z.object({
+	pullRequest: PullRequestOutput.optional().describe(
+		'The merged pull request; mergeCommit holds the resulting commit',
+	),
+	...DryRunOutput,
+});
+
+export type MergePullRequestToolOutputType = z.infer<
+	typeof MergePullRequestToolOutput
+>;
+
+/**
+ * Structured output of the list-pull-request-tasks tool
+ */
+export const ListPullRequestTasksToolOutput = z.object({
+	tasks: z.array(TaskOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListPullRequestTasksToolOutputType = z.infer<
+	typeof ListPullRequestTasksToolOutput
+>;
+
+/**
+ * Structured output of the manage-pull-request-task tool
+ */
+export const ManagePullRequestTaskToolOutput = z.object({
+	action: z
+		.string()
+		.optional()
+		.describe('create, update, resolve, reopen or delete'),
+	task: TaskOutput.optional().describe(
+		'The task after the change; absent after "delete"',
+	),
+	...DryRunOutput,
+});
+
+export type ManagePullRequestTaskToolOutputType = z.infer<
+	typeof ManagePullRequestTaskToolOutput
+>;
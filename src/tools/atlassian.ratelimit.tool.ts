@@ -0,0 +1,87 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
+import {
+	RateLimitStatusToolArgs,
+	RateLimitStatusToolArgsType,
+	RateLimitStatusToolOutput,
+} from './atlassian.ratelimit.types.js';
+
+import atlassianRateLimitController from '../controllers/atlassian.ratelimit.controller.js';
+
+// Create a contextualized logger for this file
+const toolLogger = Logger.forContext('tools/atlassian.ratelimit.tool.ts');
+
+// Log tool initialization
+toolLogger.debug('Bitbucket rate limit tool initialized');
+
+/**
+ * MCP Tool: Get Bitbucket Rate Limit Status
+ *
+ * Reports the remaining hourly request budget and request queue of each
+ * Bitbucket host this server has contacted.
+ *
+ * @param args - Tool arguments controlling whether to refresh the budget
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with formatted rate limit status
+ * @throws Will return error message if the status cannot be retrieved
+ */
+async function getRateLimitStatus(
+	args: RateLimitStatusToolArgsType,
+	{ signal }: CallOptions = {},
+) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.ratelimit.tool.ts',
+		'getRateLimitStatus',
+	);
+	methodLogger.debug('Getting rate limit status:', args);
+
+	try {
+		// Pass args directly to controller without any logic
+		const result = await atlassianRateLimitController.status(args, {
+			signal,
+		});
+
+		methodLogger.debug('Successfully retrieved rate limit status');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to get rate limit status', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register the Bitbucket rate limit tool with the MCP server.
+ */
+function registerTools(server: McpServer) {
+	const registerLogger = Logger.forContext(
+		'tools/atlassian.ratelimit.tool.ts',
+		'registerTools',
+	);
+	registerLogger.debug('Registering Rate Limit tools...');
+
+	server.registerTool(
+		'bb_rate_limit_status',
+		{
+			description: `Reports the remaining hourly Bitbucket API request budget of your credentials for each host they have been used with, based on rate limit response headers (or estimated from requests made when the API does not report them). Also shows the concurrency limit and how many requests are in flight or queued. Set \`refresh\` to query Bitbucket for up-to-date numbers. Use this before large operations such as \`all: true\` listings. Returns formatted Markdown.`,
+			inputSchema: RateLimitStatusToolArgs.shape,
+			outputSchema: RateLimitStatusToolOutput.shape,
+		},
+		withProfile(getRateLimitStatus),
+	);
+
+	registerLogger.debug('Successfully registered Rate Limit tools');
+}
+
+export default { registerTools };
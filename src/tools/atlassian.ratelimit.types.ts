@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { ProfileArgs } from './atlassian.common.types.js';
+
+/**
+ * Schema for rate-limit-status tool arguments
+ */
+export const RateLimitStatusToolArgs = z.object({
+	/**
+	 * Whether to query the API for fresh rate limit headers
+	 */
+	refresh: z
+		.boolean()
+		.optional()
+		.describe(
+			'Send one lightweight request to Bitbucket to refresh the reported budget. Done automatically when no request has been made yet. Defaults to false.',
+		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
+});
+
+export type RateLimitStatusToolArgsType = z.infer<
+	typeof RateLimitStatusToolArgs
+>;
+
+/**
+ * Structured output of the rate-limit-status tool
+ */
+export const RateLimitStatusToolOutput = z.object({
+	hosts: z.array(
+		z.object({
+			host: z.string(),
+			limit: z.number().describe('Requests allowed per hour'),
+			remaining: z.number().describe('Requests left this hour'),
+			estimated: z
+				.boolean()
+				.describe(
+					'Whether remaining is counted locally rather than reported by Bitbucket',
+				),
+			resource: z.string().optional(),
+			nearLimit: z.boolean(),
+			requestsLastHour: z.number(),
+			rateLimitedUntil: z
+				.string()
+				.optional()
+				.describe('Time until which Bitbucket asked for no requests'),
+			updatedAt: z.string().optional(),
+			inFlight: z.number(),
+			queued: z.number(),
+		}),
+	),
+	maxConcurrency: z
+		.number()
+		.describe('Concurrent requests allowed per host; 0 means unlimited'),
+});
+
+export type RateLimitStatusToolOutputType = z.infer<
+	typeof RateLimitStatusToolOutput
+>;
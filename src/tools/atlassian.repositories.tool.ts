@@ -1,21 +1,30 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Logger } from '../utils/logger.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 import {
 	ListRepositoriesToolArgs,
 	ListRepositoriesToolArgsType,
+	ListRepositoriesToolOutput,
 	GetRepositoryToolArgs,
 	GetRepositoryToolArgsType,
+	GetRepositoryToolOutput,
 	GetCommitHistoryToolArgs,
 	GetCommitHistoryToolArgsType,
+	GetCommitHistoryToolOutput,
 	CreateBranchToolArgsSchema,
+	CreateBranchToolOutput,
 	CreateBranchToolArgsType,
 	CloneRepositoryToolArgs,
 	CloneRepositoryToolArgsType,
+	CloneRepositoryToolOutput,
 	GetFileContentToolArgs,
 	GetFileContentToolArgsType,
+	GetFileContentToolOutput,
 	ListBranchesToolArgs,
 	ListBranchesToolArgsType,
+	ListBranchesToolOutput,
 } from './atlassian.repositories.types.js';
 
 // Import directly from specialized controllers
@@ -44,10 +53,14 @@ toolLogger.debug('Bitbucket repositories tool initialized');
  * Returns a formatted markdown response with repository details.
  *
  * @param args - Tool arguments for filtering repositories
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP response with formatted repositories list
  * @throws Will return error message if repository listing fails
  */
-async function listRepositories(args: ListRepositoriesToolArgsType) {
+async function listRepositories(
+	args: ListRepositoriesToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'listRepositories',
@@ -56,7 +69,10 @@ async function listRepositories(args: ListRepositoriesToolArgsType) {
 
 	try {
 		// Pass args directly to controller without any logic
-		const result = await handleRepositoriesList(args);
+		const result = await handleRepositoriesList(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved repositories from controller',
@@ -69,6 +85,7 @@ async function listRepositories(args: ListRepositoriesToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to list repositories', error);
@@ -83,10 +100,14 @@ async function listRepositories(args: ListRepositoriesToolArgsType) {
  * Returns a formatted markdown response with repository metadata.
  *
  * @param args - Tool arguments containing the workspace and repository slug
+ * @param options - Request options, including the abort signal
  * @returns MCP response with formatted repository details
  * @throws Will return error message if repository retrieval fails
  */
-async function getRepository(args: GetRepositoryToolArgsType) {
+async function getRepository(
+	args: GetRepositoryToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'getRepository',
@@ -95,7 +116,7 @@ async function getRepository(args: GetRepositoryToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await handleRepositoryDetails(args);
+		const result = await handleRepositoryDetails(args, { signal });
 
 		methodLogger.debug(
 			'Successfully retrieved repository details from controller',
@@ -108,6 +129,7 @@ async function getRepository(args: GetRepositoryToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get repository details', error);
@@ -121,10 +143,14 @@ async function getRepository(args: GetRepositoryToolArgsType) {
  * Retrieves the commit history for a specific repository.
  *
  * @param args Tool arguments including workspace/repo slugs and optional filters.
+ * @param options Request options, including the abort signal and progress callback.
  * @returns MCP response with formatted commit history.
  * @throws Will return error message if history retrieval fails.
  */
-async function handleGetCommitHistory(args: GetCommitHistoryToolArgsType) {
+async function handleGetCommitHistory(
+	args: GetCommitHistoryToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'handleGetCommitHistory',
@@ -133,7 +159,7 @@ async function handleGetCommitHistory(args: GetCommitHistoryToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await handleCommitHistory(args);
+		const result = await handleCommitHistory(args, { signal, onProgress });
 
 		methodLogger.debug(
 			'Successfully retrieved commit history from controller',
@@ -141,6 +167,7 @@ async function handleGetCommitHistory(args: GetCommitHistoryToolArgsType) {
 
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get commit history', error);
@@ -151,7 +178,10 @@ async function handleGetCommitHistory(args: GetCommitHistoryToolArgsType) {
 /**
  * Handler for adding a new branch.
  */
-async function handleAddBranch(args: CreateBranchToolArgsType) {
+async function handleAddBranch(
+	args: CreateBranchToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'handleAddBranch',
@@ -160,12 +190,13 @@ async function handleAddBranch(args: CreateBranchToolArgsType) {
 		methodLogger.debug('Creating new branch:', args);
 
 		// Pass args directly to controller
-		const result = await handleCreateBranch(args);
+		const result = await handleCreateBranch(args, { signal });
 
 		methodLogger.debug('Successfully created branch via controller');
 
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to create branch', error);
@@ -176,7 +207,10 @@ async function handleAddBranch(args: CreateBranchToolArgsType) {
 /**
  * Handler for cloning a repository.
  */
-async function handleRepoClone(args: CloneRepositoryToolArgsType) {
+async function handleRepoClone(
+	args: CloneRepositoryToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'handleRepoClone',
@@ -185,12 +219,16 @@ async function handleRepoClone(args: CloneRepositoryToolArgsType) {
 		methodLogger.debug('Cloning repository:', args);
 
 		// Pass args directly to controller
-		const result = await handleCloneRepository(args);
+		const result = await handleCloneRepository(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug('Successfully cloned repository via controller');
 
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to clone repository', error);
@@ -201,18 +239,24 @@ async function handleRepoClone(args: CloneRepositoryToolArgsType) {
 /**
  * Handler for getting file content.
  */
-async function getFileContent(args: GetFileContentToolArgsType) {
+async function getFileContent(
+	args: GetFileContentToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = toolLogger.forMethod('getFileContent');
 	try {
 		methodLogger.debug('Getting file content:', args);
 
 		// Pass args directly to controller without any transformation
-		const result = await handleGetFileContent({
-			workspaceSlug: args.workspaceSlug,
-			repoSlug: args.repoSlug,
-			path: args.filePath,
-			ref: args.revision,
-		});
+		const result = await handleGetFileContent(
+			{
+				workspaceSlug: args.workspaceSlug,
+				repoSlug: args.repoSlug,
+				path: args.filePath,
+				ref: args.revision,
+			},
+			{ signal },
+		);
 
 		methodLogger.debug(
 			'Successfully retrieved file content via controller',
@@ -220,6 +264,7 @@ async function getFileContent(args: GetFileContentToolArgsType) {
 
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get file content', error);
@@ -234,10 +279,14 @@ async function getFileContent(args: GetFileContentToolArgsType) {
  * Returns a formatted markdown response with branch details.
  *
  * @param args - Tool arguments for identifying the repository and filtering branches
+ * @param options - Request options, including the abort signal and progress callback
  * @returns MCP response with formatted branches list
  * @throws Will return error message if branch listing fails
  */
-async function listBranches(args: ListBranchesToolArgsType) {
+async function listBranches(
+	args: ListBranchesToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.repositories.tool.ts',
 		'listBranches',
@@ -246,7 +295,7 @@ async function listBranches(args: ListBranchesToolArgsType) {
 
 	try {
 		// Pass args directly to controller
-		const result = await handleListBranches(args);
+		const result = await handleListBranches(args, { signal, onProgress });
 
 		methodLogger.debug('Successfully retrieved branches from controller');
 
@@ -257,6 +306,7 @@ async function listBranches(args: ListBranchesToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to list branches', error);
@@ -275,41 +325,54 @@ function registerTools(server: McpServer) {
 	registerLogger.debug('Registering Repository tools...');
 
 	// Register the list repositories tool
-	server.tool(
+	server.registerTool(
 		'bb_ls_repos',
-		`Lists repositories within a workspace. If \`workspaceSlug\` is not provided, uses your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Filters repositories by the user\`s \`role\`, project key \`projectKey\`, or a \`query\` string (searches name/description). Supports sorting via \`sort\` and pagination via \`limit\` and \`cursor\`. Pagination details are included at the end of the text content. Returns a formatted Markdown list with comprehensive details. Requires Bitbucket credentials.`,
-		ListRepositoriesToolArgs.shape,
-		listRepositories,
+		{
+			description: `Lists repositories within a workspace. If \`workspaceSlug\` is not provided, uses your default workspace (either configured via BITBUCKET_DEFAULT_WORKSPACE or the first workspace in your account). Filters repositories by the user\`s \`role\`, project key \`projectKey\`, or a \`query\` string (searches name/description). Supports sorting via \`sort\` and pagination via \`limit\` and \`cursor\`. Set \`all: true\` to fetch every page (up to \`maxItems\`). Pagination details are included at the end of the text content. Returns a formatted Markdown list with comprehensive details. Requires Bitbucket credentials.`,
+			inputSchema: ListRepositoriesToolArgs.shape,
+			outputSchema: ListRepositoriesToolOutput.shape,
+		},
+		withProfile(listRepositories),
 	);
 
 	// Register the get repository details tool
-	server.tool(
+	server.registerTool(
 		'bb_get_repo',
-		`Retrieves detailed information for a specific repository identified by \`workspaceSlug\` and \`repoSlug\`. Returns comprehensive repository details as formatted Markdown, including owner, main branch, comment/task counts, recent pull requests, and relevant links. Requires Bitbucket credentials.`,
-		GetRepositoryToolArgs.shape,
-		getRepository,
+		{
+			description: `Retrieves detailed information for a specific repository identified by \`workspaceSlug\` and \`repoSlug\`. Returns comprehensive repository details as formatted Markdown, including owner, main branch, comment/task counts, recent pull requests, and relevant links. Requires Bitbucket credentials.`,
+			inputSchema: GetRepositoryToolArgs.shape,
+			outputSchema: GetRepositoryToolOutput.shape,
+		},
+		withProfile(getRepository),
 	);
 
 	// Register the get commit history tool
-	server.tool(
+	server.registerTool(
 		'bb_get_commit_history',
-		`Retrieves the commit history for a repository identified by \`workspaceSlug\` and \`repoSlug\`. Supports pagination via \`limit\` (number of commits per page) and \`cursor\` (which acts as the page number for this endpoint). Optionally filters history starting from a specific branch, tag, or commit hash using \`revision\`, or shows only commits affecting a specific file using \`path\`. Returns the commit history as formatted Markdown, including commit hash, author, date, and message. Pagination details are included at the end of the text content. Requires Bitbucket credentials to be configured.`,
-		GetCommitHistoryToolArgs.shape,
-		handleGetCommitHistory,
+		{
+			description: `Retrieves the commit history for a repository identified by \`workspaceSlug\` and \`repoSlug\`. Supports pagination via \`limit\` (number of commits per page) and \`cursor\` (which acts as the page number for this endpoint). Optionally filters history starting from a specific branch, tag, or commit hash using \`revision\`, or shows only commits affecting a specific file using \`path\`. Returns the commit history as formatted Markdown, including commit hash, author, date, and message. Set \`all: true\` to fetch every page (up to \`maxItems\`). Pagination details are included at the end of the text content. Requires Bitbucket credentials to be configured.`,
+			inputSchema: GetCommitHistoryToolArgs.shape,
+			outputSchema: GetCommitHistoryToolOutput.shape,
+		},
+		withProfile(handleGetCommitHistory),
 	);
 
 	// Add the new branch tool
-	server.tool(
+	server.registerTool(
 		'bb_add_branch',
-		`Creates a new branch in a specified Bitbucket repository. Requires the workspace slug (\`workspaceSlug\`), repository slug (\`repoSlug\`), the desired new branch name (\`newBranchName\`), and the source branch or commit hash (\`sourceBranchOrCommit\`) to branch from. Requires repository write permissions. Returns a success message.`,
-		CreateBranchToolArgsSchema.shape,
-		handleAddBranch,
+		{
+			description: `Creates a new branch in a specified Bitbucket repository. Requires the workspace slug (\`workspaceSlug\`), repository slug (\`repoSlug\`), the desired new branch name (\`newBranchName\`), and the source branch or commit hash (\`sourceBranchOrCommit\`) to branch from. Set \`dryRun\` to true to get the HTTP request that would be sent, without making any change. Requires repository write permissions. Returns a success message.`,
+			inputSchema: CreateBranchToolArgsSchema.shape,
+			outputSchema: CreateBranchToolOutput.shape,
+		},
+		withProfile(handleAddBranch),
 	);
 
 	// Register the clone repository tool
-	server.tool(
+	server.registerTool(
 		'bb_clone_repo',
-		`Clones a Bitbucket repository to your local filesystem using SSH (preferred) or HTTPS. Requires Bitbucket credentials and proper SSH key setup for optimal usage.
+		{
+			description: `Clones a Bitbucket repository to your local filesystem using SSH (preferred) or HTTPS. Requires Bitbucket credentials and proper SSH key setup for optimal usage.
 
 **Parameters:**
 - \`workspaceSlug\`: The Bitbucket workspace containing the repository (optional - will use default if not provided)
@@ -326,6 +389,7 @@ function registerTools(server: McpServer) {
 - SSH keys must be properly configured for Bitbucket
 - SSH agent should be running with your keys added
 - Will automatically fall back to HTTPS if SSH is unavailable
+- Uses HTTPS instead when HTTPS_PROXY applies to the repository host
 
 **Example Usage:**
 \`\`\`
@@ -337,24 +401,32 @@ bb_clone_repo({workspaceSlug: "my-team", repoSlug: "api-service", targetPath: ".
 \`\`\`
 
 **Returns:** Success message with clone details or an error message with troubleshooting steps.`,
-		CloneRepositoryToolArgs.shape,
-		handleRepoClone,
+			inputSchema: CloneRepositoryToolArgs.shape,
+			outputSchema: CloneRepositoryToolOutput.shape,
+		},
+		withProfile(handleRepoClone),
 	);
 
 	// Register the get file content tool
-	server.tool(
+	server.registerTool(
 		'bb_get_file',
-		`Retrieves the content of a file from a Bitbucket repository identified by \`workspaceSlug\` and \`repoSlug\`. Specify the file to retrieve using the \`filePath\` parameter. Optionally, you can specify a \`revision\` (branch name, tag, or commit hash) to retrieve the file from - if omitted, the repository's default branch is used. Returns the raw content of the file as text. Requires Bitbucket credentials.`,
-		GetFileContentToolArgs.shape,
-		getFileContent,
+		{
+			description: `Retrieves the content of a file from a Bitbucket repository identified by \`workspaceSlug\` and \`repoSlug\`. Specify the file to retrieve using the \`filePath\` parameter. Optionally, you can specify a \`revision\` (branch name, tag, or commit hash) to retrieve the file from - if omitted, the repository's default branch is used. Returns the raw content of the file as text. Requires Bitbucket credentials.`,
+			inputSchema: GetFileContentToolArgs.shape,
+			outputSchema: GetFileContentToolOutput.shape,
+		},
+		withProfile(getFileContent),
 	);
 
 	// Register the list branches tool
-	server.tool(
+	server.registerTool(
 		'bb_list_branches',
-		`Lists branches in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Filters branches by an optional text \`query\` and supports custom \`sort\` order. Provides pagination via \`limit\` and \`cursor\`. Pagination details are included at the end of the text content. Returns branch details as Markdown with each branch's name, latest commit, and default merge strategy. Requires Bitbucket credentials.`,
-		ListBranchesToolArgs.shape,
-		listBranches,
+		{
+			description: `Lists branches in a repository identified by \`workspaceSlug\` and \`repoSlug\`. Filters branches by an optional text \`query\` and supports custom \`sort\` order. Provides pagination via \`limit\` and \`cursor\`. Set \`all: true\` to fetch every page (up to \`maxItems\`). Pagination details are included at the end of the text content. Returns branch details as Markdown with each branch's name, latest commit, and default merge strategy. Requires Bitbucket credentials.`,
+			inputSchema: ListBranchesToolArgs.shape,
+			outputSchema: ListBranchesToolOutput.shape,
+		},
+		withProfile(listBranches),
 	);
 
 	registerLogger.debug('Successfully registered Repository tools');
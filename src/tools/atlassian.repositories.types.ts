@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import {
+	AllPagesArgs,
+	DryRunArgs,
+	DryRunOutput,
+	PaginationOutput,
+	ProfileArgs,
+	UserOutput,
+} from './atlassian.common.types.js';
+import { PullRequestOutput } from './atlassian.pullrequests.types.js';
 
 /**
  * Base pagination arguments for all tools
@@ -78,6 +87,14 @@ export const ListRepositoriesToolArgs = z.object({
 	 * Maximum number of repositories to return (default: 25)
 	 */
 	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ListRepositoriesToolArgsType = z.infer<
@@ -107,6 +124,10 @@ export const GetRepositoryToolArgs = z.object({
 		.describe(
 			'Repository slug to retrieve. This must be a valid repository in the specified workspace. Example: "project-api"',
 		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type GetRepositoryToolArgsType = z.infer<typeof GetRepositoryToolArgs>;
@@ -133,6 +154,12 @@ export const GetCommitHistoryToolArgs = z.object({
 		.describe(
 			'Optional branch name, tag, or commit hash to view history from. If omitted, uses the default branch.',
 		),
+	excludeRevision: z
+		.string()
+		.optional()
+		.describe(
+			'Optional branch name, tag, or commit hash whose history is left out, to list only the commits between it and `revision`. Example: "v1.2.0"',
+		),
 	path: z
 		.string()
 		.optional()
@@ -140,6 +167,14 @@ export const GetCommitHistoryToolArgs = z.object({
 			'Optional file path to filter commit history. Only shows commits affecting this file.',
 		),
 	...PaginationArgs, // Includes limit and cursor
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type GetCommitHistoryToolArgsType = z.infer<
@@ -168,6 +203,14 @@ export const CreateBranchToolArgsSchema = z.object({
 		.string()
 		.min(1, 'Source branch or commit is required')
 		.describe('The name of the branch or the commit hash to branch from.'),
+	/**
+	 * Plan the request without sending it
+	 */
+	...DryRunArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type CreateBranchToolArgsType = z.infer<
@@ -196,6 +239,10 @@ export const CloneRepositoryToolArgs = z.object({
 		.describe(
 			'Directory path where the repository will be cloned. IMPORTANT: Absolute paths are strongly recommended (e.g., "/home/user/projects" or "C:\\Users\\name\\projects"). Relative paths will be resolved relative to the server\'s working directory, which may not be what you expect. The repository will be cloned into a subdirectory at targetPath/repoSlug. Make sure you have write permissions to this location.',
 		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type CloneRepositoryToolArgsType = z.infer<
@@ -230,6 +277,10 @@ export const GetFileContentToolArgs = z.object({
 		.describe(
 			'Optional branch name, tag, or commit hash to retrieve the file from. If omitted, uses the default branch.',
 		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type GetFileContentToolArgsType = z.infer<typeof GetFileContentToolArgs>;
@@ -282,6 +333,175 @@ export const ListBranchesToolArgs = z.object({
 	 * Maximum number of branches to return (default: 25)
 	 */
 	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ListBranchesToolArgsType = z.infer<typeof ListBranchesToolArgs>;
+
+/**
+ * Repository in the structured output of repository tools
+ */
+export const RepositoryOutput = z.object({
+	fullName: z
+		.string()
+		.describe('Workspace and repository slug, e.g. "myteam/api"'),
+	name: z.string(),
+	uuid: z.string(),
+	description: z.string().optional(),
+	isPrivate: z.boolean(),
+	language: z.string().optional(),
+	mainBranch: z.string().optional(),
+	project: z
+		.object({
+			key: z.string(),
+			name: z.string(),
+		})
+		.optional(),
+	owner: UserOutput.optional(),
+	size: z.number().optional().describe('Size in bytes'),
+	createdOn: z.string().optional(),
+	updatedOn: z.string().optional(),
+	url: z.string().optional().describe('Web URL of the repository'),
+	cloneUrls: z
+		.record(z.string())
+		.optional()
+		.describe('Clone URLs by protocol (https, ssh)'),
+});
+
+export type RepositoryOutputType = z.infer<typeof RepositoryOutput>;
+
+/**
+ * Commit in the structured output of repository tools
+ */
+export const CommitOutput = z.object({
+	hash: z.string(),
+	message: z.string(),
+	date: z.string(),
+	author: UserOutput.extend({
+		raw: z
+			.string()
+			.describe(
+				'Author as recorded in git, e.g. "Jane <jane@example.com>"',
+			),
+	}),
+	parents: z.array(z.string()).describe('Hashes of the parent commits'),
+	url: z.string().optional(),
+});
+
+export type CommitOutputType = z.infer<typeof CommitOutput>;
+
+/**
+ * Branch in the structured output of repository tools
+ */
+export const BranchOutput = z.object({
+	name: z.string(),
+	targetHash: z.string().describe('Commit the branch points to'),
+	defaultMergeStrategy: z.string().optional(),
+	mergeStrategies: z.array(z.string()).optional(),
+});
+
+export type BranchOutputType = z.infer<typeof BranchOutput>;
+
+/**
+ * Structured output of the list-repositories tool
+ */
+export const ListRepositoriesToolOutput = z.object({
+	repositories: z.array(RepositoryOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListRepositoriesToolOutputType = z.infer<
+	typeof ListRepositoriesToolOutput
+>;
+
+/**
+ * Structured output of the get-repository tool
+ */
+export const GetRepositoryToolOutput = z.object({
+	repository: RepositoryOutput,
+	openPullRequests: z
+		.array(PullRequestOutput)
+		.optional()
+		.describe('Most recently updated open pull requests (up to 5)'),
+});
+
+export type GetRepositoryToolOutputType = z.infer<
+	typeof GetRepositoryToolOutput
+>;
+
+/**
+ * Structured output of the commit-history tool
+ */
+export const GetCommitHistoryToolOutput = z.object({
+	commits: z.array(CommitOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type GetCommitHistoryToolOutputType = z.infer<
+	typeof GetCommitHistoryToolOutput
+>;
+
+/**
+ * Structured output of the create-branch tool
+ */
+export const CreateBranchToolOutput = z.object({
+	branch: BranchOutput.optional().describe(
+		'The new branch, or the existing branch of that name',
+	),
+	alreadyExists: z
+		.boolean()
+		.optional()
+		.describe('True if a branch with that name already existed'),
+	...DryRunOutput,
+});
+
+export type CreateBranchToolOutputType = z.infer<typeof CreateBranchToolOutput>;
+
+/**
+ * Structured output of the clone-repository tool
+ */
+export const CloneRepositoryToolOutput = z.object({
+	repository: z.string().describe('Full name of the repository'),
+	targetDir: z.string().describe('Directory the repository is cloned into'),
+	protocol: z.enum(['SSH', 'HTTPS']).optional(),
+	cloned: z
+		.boolean()
+		.describe('False if the target directory already existed'),
+});
+
+export type CloneRepositoryToolOutputType = z.infer<
+	typeof CloneRepositoryToolOutput
+>;
+
+/**
+ * Structured output of the get-file tool. The file itself is the text
+ * content of the result.
+ */
+export const GetFileContentToolOutput = z.object({
+	workspaceSlug: z.string(),
+	repoSlug: z.string(),
+	path: z.string(),
+	revision: z.string().describe('Branch, tag or commit the file was read at'),
+	size: z.number().describe('Length of the content in characters'),
+});
+
+export type GetFileContentToolOutputType = z.infer<
+	typeof GetFileContentToolOutput
+>;
+
+/**
+ * Structured output of the list-branches tool
+ */
+export const ListBranchesToolOutput = z.object({
+	branches: z.array(BranchOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListBranchesToolOutputType = z.infer<typeof ListBranchesToolOutput>;
@@ -3,9 +3,12 @@ import { Logger } from '../utils/logger.util.js';
 import {
 	SearchToolArgsSchema,
 	SearchToolArgsType,
+	SearchToolOutput,
 } from './atlassian.search.types.js';
 import atlassianSearchController from '../controllers/atlassian.search.controller.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 import { getDefaultWorkspace } from '../utils/workspace.util.js';
 
 // Set up logger
@@ -14,7 +17,10 @@ const logger = Logger.forContext('tools/atlassian.search.tool.ts');
 /**
  * Handle search command in MCP
  */
-async function handleSearch(args: SearchToolArgsType) {
+async function handleSearch(
+	args: SearchToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	// Create a method-scoped logger
 	const methodLogger = logger.forMethod('handleSearch');
 
@@ -53,12 +59,15 @@ async function handleSearch(args: SearchToolArgsType) {
 		};
 
 		// Call the controller
-		const result =
-			await atlassianSearchController.search(controllerOptions);
+		const result = await atlassianSearchController.search(
+			controllerOptions,
+			{ signal },
+		);
 
 		// Return the result content in MCP format
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		// Log the error
@@ -74,11 +83,15 @@ async function handleSearch(args: SearchToolArgsType) {
  */
 function registerTools(server: McpServer) {
 	// Register the search tool using the schema shape
-	server.tool(
+	server.registerTool(
 		'bb_search',
-		'Searches Bitbucket for content matching the provided query. Use this tool to find repositories, code, pull requests, or other content in Bitbucket. Specify `scope` to narrow your search ("code", "repositories", "pullrequests", or "content"). Filter code searches by `language` or `extension`. Filter content searches by `contentType`. Only searches within the specified `workspaceSlug` and optionally within a specific `repoSlug`. Supports pagination via `limit` and `cursor`. Requires Atlassian Bitbucket credentials configured. Returns search results as Markdown.',
-		SearchToolArgsSchema.shape,
-		handleSearch,
+		{
+			description:
+				'Searches Bitbucket for content matching the provided query. Use this tool to find repositories, code, pull requests, or other content in Bitbucket. Specify `scope` to narrow your search ("code", "repositories", "pullrequests", or "content"). Filter code searches by `language` or `extension`. Filter content searches by `contentType`. Only searches within the specified `workspaceSlug` and optionally within a specific `repoSlug`. Supports pagination via `limit` and `cursor`. Requires Atlassian Bitbucket credentials configured. Returns search results as Markdown.',
+			inputSchema: SearchToolArgsSchema.shape,
+			outputSchema: SearchToolOutput.shape,
+		},
+		withProfile(handleSearch),
 	);
 
 	logger.debug('Successfully registered Bitbucket search tools');
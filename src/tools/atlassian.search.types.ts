@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { PaginationOutput, ProfileArgs } from './atlassian.common.types.js';
+import { PullRequestOutput } from './atlassian.pullrequests.types.js';
+import { RepositoryOutput } from './atlassian.repositories.types.js';
 
 /**
  * Pagination arguments
@@ -115,6 +118,10 @@ export const SearchToolArgsBase = z
 			.describe(
 				'Filter code search by file extension. Equivalent to --extension in CLI.',
 			),
+		/**
+		 * Credential profile to use
+		 */
+		...ProfileArgs,
 	})
 	.merge(PaginationArgs);
 
@@ -136,3 +143,45 @@ export const SearchToolArgs = SearchToolArgsBase.superRefine((data, ctx) => {
 export const SearchToolArgsSchema = SearchToolArgsBase;
 
 export type SearchToolArgsType = z.infer<typeof SearchToolArgs>;
+
+/**
+ * File matched by a code search
+ */
+export const CodeSearchMatchOutput = z.object({
+	path: z.string(),
+	matchCount: z.number().describe('Number of matches in the file'),
+	lines: z
+		.array(z.object({ line: z.number(), text: z.string() }))
+		.describe('Matching lines with their line numbers'),
+	url: z.string().optional(),
+});
+
+export type CodeSearchMatchOutputType = z.infer<typeof CodeSearchMatchOutput>;
+
+/**
+ * Item matched by a content search
+ */
+export const ContentSearchMatchOutput = z.object({
+	type: z.string().optional(),
+	title: z.string(),
+	url: z.string().optional(),
+	updatedOn: z.string().optional(),
+});
+
+export type ContentSearchMatchOutputType = z.infer<
+	typeof ContentSearchMatchOutput
+>;
+
+/**
+ * Structured output of the search tool. Only the field for the searched
+ * scope is set.
+ */
+export const SearchToolOutput = z.object({
+	code: z.array(CodeSearchMatchOutput).optional(),
+	content: z.array(ContentSearchMatchOutput).optional(),
+	repositories: z.array(RepositoryOutput).optional(),
+	pullRequests: z.array(PullRequestOutput).optional(),
+	pagination: PaginationOutput.optional(),
+});
+
+export type SearchToolOutputType = z.infer<typeof SearchToolOutput>;
@@ -1,11 +1,15 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Logger } from '../utils/logger.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withProfile } from '../utils/profile.util.js';
+import { CallOptions } from '../utils/transport.util.js';
 import {
 	ListWorkspacesToolArgs,
 	ListWorkspacesToolArgsType,
+	ListWorkspacesToolOutput,
 	GetWorkspaceToolArgsType,
 	GetWorkspaceToolArgs,
+	GetWorkspaceToolOutput,
 } from './atlassian.workspaces.types.js';
 
 import atlassianWorkspacesController from '../controllers/atlassian.workspaces.controller.js';
@@ -23,10 +27,14 @@ toolLogger.debug('Bitbucket workspaces tool initialized');
  * Returns a formatted markdown response with workspace details.
  *
  * @param args - Tool arguments for filtering workspaces
- * @returns MCP response with formatted workspaces list
+ * @param options - Request options, including the abort signal and progress callback
+ * @returns MCP response with formatted workspaces list and structured data
  * @throws Will return error message if workspace listing fails
  */
-async function listWorkspaces(args: ListWorkspacesToolArgsType) {
+async function listWorkspaces(
+	args: ListWorkspacesToolArgsType,
+	{ signal, onProgress }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.workspaces.tool.ts',
 		'listWorkspaces',
@@ -35,7 +43,10 @@ async function listWorkspaces(args: ListWorkspacesToolArgsType) {
 
 	try {
 		// Pass args directly to controller without any logic
-		const result = await atlassianWorkspacesController.list(args);
+		const result = await atlassianWorkspacesController.list(args, {
+			signal,
+			onProgress,
+		});
 
 		methodLogger.debug('Successfully retrieved workspaces from controller');
 
@@ -46,6 +57,7 @@ async function listWorkspaces(args: ListWorkspacesToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to list workspaces', error);
@@ -60,10 +72,14 @@ async function listWorkspaces(args: ListWorkspacesToolArgsType) {
  * Returns a formatted markdown response with workspace metadata.
  *
  * @param args - Tool arguments containing the workspace slug
- * @returns MCP response with formatted workspace details
+ * @param options - Request options, including the abort signal
+ * @returns MCP response with formatted workspace details and structured data
  * @throws Will return error message if workspace retrieval fails
  */
-async function getWorkspace(args: GetWorkspaceToolArgsType) {
+async function getWorkspace(
+	args: GetWorkspaceToolArgsType,
+	{ signal }: CallOptions = {},
+) {
 	const methodLogger = Logger.forContext(
 		'tools/atlassian.workspaces.tool.ts',
 		'getWorkspace',
@@ -72,7 +88,9 @@ async function getWorkspace(args: GetWorkspaceToolArgsType) {
 
 	try {
 		// Pass args directly to controller without any logic
-		const result = await atlassianWorkspacesController.get(args);
+		const result = await atlassianWorkspacesController.get(args, {
+			signal,
+		});
 
 		methodLogger.debug(
 			'Successfully retrieved workspace details from controller',
@@ -85,6 +103,7 @@ async function getWorkspace(args: GetWorkspaceToolArgsType) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Failed to get workspace details', error);
@@ -103,19 +122,25 @@ function registerTools(server: McpServer) {
 	registerLogger.debug('Registering Workspace tools...');
 
 	// Register the list workspaces tool
-	server.tool(
+	server.registerTool(
 		'bb_ls_workspaces',
-		`Lists workspaces within your Bitbucket account. Returns a formatted Markdown list showing workspace slugs, names, and membership role. Requires Bitbucket credentials to be configured.`,
-		ListWorkspacesToolArgs.shape,
-		listWorkspaces,
+		{
+			description: `Lists workspaces within your Bitbucket account. Supports pagination via \`limit\` and \`cursor\`; set \`all: true\` to fetch every page (up to \`maxItems\`). Returns a formatted Markdown list showing workspace slugs, names, and membership role. Requires Bitbucket credentials to be configured.`,
+			inputSchema: ListWorkspacesToolArgs.shape,
+			outputSchema: ListWorkspacesToolOutput.shape,
+		},
+		withProfile(listWorkspaces),
 	);
 
 	// Register the get workspace details tool
-	server.tool(
+	server.registerTool(
 		'bb_get_workspace',
-		`Retrieves detailed information for a workspace identified by \`workspaceSlug\`. Returns comprehensive workspace details as formatted Markdown, including membership, projects, and key metadata. Requires Bitbucket credentials to be configured.`,
-		GetWorkspaceToolArgs.shape,
-		getWorkspace,
+		{
+			description: `Retrieves detailed information for a workspace identified by \`workspaceSlug\`. Returns comprehensive workspace details as formatted Markdown, including membership, projects, and key metadata. Requires Bitbucket credentials to be configured.`,
+			inputSchema: GetWorkspaceToolArgs.shape,
+			outputSchema: GetWorkspaceToolOutput.shape,
+		},
+		withProfile(getWorkspace),
 	);
 
 	registerLogger.debug('Successfully registered Workspace tools');
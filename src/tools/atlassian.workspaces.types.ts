@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import {
+	AllPagesArgs,
+	PaginationOutput,
+	ProfileArgs,
+} from './atlassian.common.types.js';
 
 /**
  * Base pagination arguments for all tools
@@ -30,6 +35,14 @@ export const ListWorkspacesToolArgs = z.object({
 	 * Maximum number of workspaces to return and pagination
 	 */
 	...PaginationArgs,
+	/**
+	 * Fetch every page, up to maxItems
+	 */
+	...AllPagesArgs,
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type ListWorkspacesToolArgsType = z.infer<typeof ListWorkspacesToolArgs>;
@@ -47,6 +60,49 @@ export const GetWorkspaceToolArgs = z.object({
 		.describe(
 			'Workspace slug to retrieve detailed information for. Must be a valid workspace slug from your Bitbucket account. Example: "myteam"',
 		),
+	/**
+	 * Credential profile to use
+	 */
+	...ProfileArgs,
 });
 
 export type GetWorkspaceToolArgsType = z.infer<typeof GetWorkspaceToolArgs>;
+
+/**
+ * Workspace in the structured output of workspace tools
+ */
+export const WorkspaceOutput = z.object({
+	slug: z.string(),
+	name: z.string(),
+	uuid: z.string(),
+	isPrivate: z.boolean().optional(),
+	createdOn: z.string().optional(),
+	url: z.string().optional().describe('Web URL of the workspace'),
+	permission: z
+		.string()
+		.optional()
+		.describe('Your permission level (owner, collaborator or member)'),
+});
+
+export type WorkspaceOutputType = z.infer<typeof WorkspaceOutput>;
+
+/**
+ * Structured output of the list-workspaces tool
+ */
+export const ListWorkspacesToolOutput = z.object({
+	workspaces: z.array(WorkspaceOutput),
+	pagination: PaginationOutput.optional(),
+});
+
+export type ListWorkspacesToolOutputType = z.infer<
+	typeof ListWorkspacesToolOutput
+>;
+
+/**
+ * Structured output of the get-workspace tool
+ */
+export const GetWorkspaceToolOutput = z.object({
+	workspace: WorkspaceOutput,
+});
+
+export type GetWorkspaceToolOutputType = z.infer<typeof GetWorkspaceToolOutput>;
@@ -48,8 +48,11 @@ export interface ResponsePagination {
 /**
  * Common response structure for controller operations.
  * All controller methods should return this structure.
+ * @typeParam TData - Shape of the structured data, declared as the tool's output schema
  */
-export interface ControllerResponse {
+export interface ControllerResponse<
+	TData extends Record<string, unknown> = Record<string, unknown>,
+> {
 	/**
 	 * Formatted content to be displayed to the user.
 	 * Contains a comprehensive Markdown-formatted string that includes all information:
@@ -58,4 +61,11 @@ export interface ControllerResponse {
 	 * - Pagination information (previously in pagination field)
 	 */
 	content: string;
+
+	/**
+	 * The same result as structured data with stable field names, returned
+	 * to MCP clients as `structuredContent` so that they do not need to
+	 * parse the Markdown content.
+	 */
+	data: TData;
 }
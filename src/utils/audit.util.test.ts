@@ -0,0 +1,195 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	applyAuditContext,
+	parseAuditTarget,
+	readAuditLog,
+	recordAudit,
+	runWithAuditContext,
+	setAuditContext,
+} from './audit.util.js';
+import { createApiError } from './error.util.js';
+import { config } from './config.util.js';
+
+describe('Audit Utility', () => {
+	const originalEnv = { ...process.env };
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-audit-'));
+		process.env.BITBUCKET_AUDIT_FILE = path.join(directory, 'audit.jsonl');
+		delete process.env.BITBUCKET_AUDIT_ENABLED;
+		setAuditContext(undefined);
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	afterAll(() => {
+		process.env = { ...originalEnv };
+	});
+
+	const write = (apiPath: string, error?: unknown) =>
+		recordAudit({
+			identity: 'dev@example.com',
+			method: 'POST',
+			path: apiPath,
+			body: { title: 'Add login' },
+			error,
+			durationMs: 12,
+		});
+
+	describe('parseAuditTarget', () => {
+		it('should read Cloud and Data Center paths', () => {
+			expect(
+				parseAuditTarget(
+					'/2.0/repositories/team/api/pullrequests/7/comments',
+				),
+			).toEqual({ workspace: 'team', repo: 'api', pullRequestId: 7 });
+			expect(
+				parseAuditTarget(
+					'/rest/api/1.0/projects/PRJ/repos/api/pull-requests/3/participants/dev',
+				),
+			).toEqual({ workspace: 'PRJ', repo: 'api', pullRequestId: 3 });
+			expect(parseAuditTarget('/2.0/user')).toEqual({});
+		});
+	});
+
+	describe('recordAudit', () => {
+		it('should append entries with their context and outcome', () => {
+			runWithAuditContext({ source: 'mcp', action: 'bb_add_pr' }, () =>
+				write('/2.0/repositories/team/api/pullrequests'),
+			);
+			setAuditContext({ source: 'cli', action: 'add-pr-comment' });
+			write(
+				'/2.0/repositories/team/api/pullrequests/7/comments',
+				createApiError('Bitbucket API: Permission denied', 403),
+			);
+
+			const lines = fs
+				.readFileSync(
+					process.env.BITBUCKET_AUDIT_FILE as string,
+					'utf8',
+				)
+				.trim()
+				.split('\n');
+			expect(lines).toHaveLength(2);
+			expect(JSON.parse(lines[0])).toMatchObject({
+				source: 'mcp',
+				action: 'bb_add_pr',
+				identity: 'dev@example.com',
+				method: 'POST',
+				workspace: 'team',
+				repo: 'api',
+				summary: '{"title":"Add login"}',
+				status: 'success',
+			});
+			expect(JSON.parse(lines[1])).toMatchObject({
+				source: 'cli',
+				action: 'add-pr-comment',
+				pullRequestId: 7,
+				status: 'failure',
+				statusCode: 403,
+				error: 'Bitbucket API: Permission denied',
+			});
+		});
+
+		it('should write nothing when disabled', () => {
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+			write('/2.0/repositories/team/api/pullrequests');
+
+			expect(
+				fs.existsSync(process.env.BITBUCKET_AUDIT_FILE as string),
+			).toBe(false);
+		});
+	});
+
+	describe('readAuditLog', () => {
+		it('should filter by repository, action and time, newest first', () => {
+			runWithAuditContext({ source: 'mcp', action: 'bb_add_pr' }, () => {
+				write('/2.0/repositories/team/api/pullrequests');
+				write('/2.0/repositories/team/web/pullrequests');
+			});
+			runWithAuditContext({ source: 'cli', action: 'add-pr' }, () =>
+				write('/2.0/repositories/team/api/pullrequests'),
+			);
+			runWithAuditContext({ source: 'cli', action: 'add-branch' }, () =>
+				write('/2.0/repositories/team/api/refs/branches'),
+			);
+
+			const entries = readAuditLog({ repo: 'api', action: 'bb_add_pr' });
+			expect(entries.map((entry) => entry.action)).toEqual([
+				'add-pr',
+				'bb_add_pr',
+			]);
+			expect(readAuditLog({ since: '1h' })).toHaveLength(4);
+			expect(readAuditLog({ until: '2000-01-01' })).toEqual([]);
+			expect(readAuditLog({ limit: 1 })[0].action).toBe('add-branch');
+			expect(() => readAuditLog({ since: 'yesterday' })).toThrow(
+				'Invalid time "yesterday"',
+			);
+		});
+
+		it('should find recent entries across read blocks of a large log', () => {
+			const older = JSON.stringify({
+				timestamp: '2020-01-01T00:00:00.000Z',
+				action: 'bb_add_branch',
+				summary: 'x'.repeat(200),
+			});
+			fs.writeFileSync(
+				process.env.BITBUCKET_AUDIT_FILE as string,
+				`${older}\n`.repeat(2000),
+			);
+			runWithAuditContext({ source: 'mcp', action: 'bb_add_pr' }, () =>
+				write('/2.0/repositories/team/api/pullrequests'),
+			);
+
+			expect(readAuditLog({ since: '1h' })).toHaveLength(1);
+			const entries = readAuditLog({ limit: 1000 });
+			expect(entries).toHaveLength(1000);
+			expect(entries[0].action).toBe('bb_add_pr');
+			expect(entries[999].action).toBe('bb_add_branch');
+			expect(readAuditLog({ action: 'bb_add_branch' })).toHaveLength(50);
+		});
+
+		it('should show the entries of a client session only to that session', () => {
+			const session = (id: string, operation: () => void) =>
+				config.runWithSessionConfig(id, {}, operation);
+			const repos = () =>
+				readAuditLog().map((entry) => entry.path.split('/')[4]);
+
+			write('/2.0/repositories/team/server/pullrequests');
+			session('alice', () =>
+				write('/2.0/repositories/team/alice/pullrequests'),
+			);
+			session('bob', () =>
+				write('/2.0/repositories/team/bob/pullrequests'),
+			);
+
+			expect(repos()).toEqual(['server']);
+			session('alice', () => expect(repos()).toEqual(['alice']));
+			session('bob', () => expect(repos()).toEqual(['bob']));
+		});
+	});
+
+	describe('applyAuditContext', () => {
+		it('should run tool handlers with the tool name as action', async () => {
+			const tool = jest.fn();
+			const server = applyAuditContext({ tool } as unknown as McpServer);
+
+			server.tool('bb_add_branch', 'Branch', {}, async () => {
+				write('/2.0/repositories/team/api/refs/branches');
+				return { content: [] };
+			});
+			await tool.mock.calls[0][3]({});
+
+			expect(readAuditLog()[0]).toMatchObject({
+				source: 'mcp',
+				action: 'bb_add_branch',
+			});
+		});
+	});
+});
@@ -0,0 +1,371 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { createApiError } from './error.util.js';
+import { TOOL_CATALOG } from './tool-policy.util.js';
+
+/**
+ * Maximum length of the request body summary stored in an audit entry
+ */
+const SUMMARY_MAX_LENGTH = 200;
+
+/**
+ * Default number of entries returned by {@link readAuditLog}
+ */
+export const DEFAULT_AUDIT_LIMIT = 50;
+
+/**
+ * Where a write operation came from
+ */
+export interface AuditContext {
+	/** MCP tool call or CLI command */
+	source: 'mcp' | 'cli';
+	/** Tool name (e.g. "bb_add_pr") or CLI command (e.g. "add-pr") */
+	action: string;
+}
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+	/** When the request finished (ISO 8601) */
+	timestamp: string;
+	source?: AuditContext['source'];
+	action?: string;
+	/** Credential profile in effect */
+	profile?: string;
+	/** User name, email or token fingerprint of the credentials used */
+	identity: string;
+	method: string;
+	/** API path (without base URL) */
+	path: string;
+	/** Workspace slug (Cloud) or project key (Data Center) */
+	workspace?: string;
+	repo?: string;
+	pullRequestId?: number;
+	/** Truncated JSON of the request body */
+	summary?: string;
+	/** Whether Bitbucket accepted the request */
+	status: 'success' | 'failure';
+	/** HTTP status of a failed request, when one was received */
+	statusCode?: number;
+	/** Error message of a failed request */
+	error?: string;
+	durationMs: number;
+}
+
+/**
+ * Filters for {@link readAuditLog}
+ */
+export interface AuditQuery {
+	/** Earliest entry: ISO date/time or a relative duration such as "24h" */
+	since?: string;
+	/** Latest entry: ISO date/time or a relative duration such as "1h" */
+	until?: string;
+	workspace?: string;
+	repo?: string;
+	/** Tool name or CLI command; each matches its counterpart too */
+	action?: string;
+	/** Maximum number of entries, newest first */
+	limit?: number;
+}
+
+// Create a contextualized logger for this file
+const auditLogger = Logger.forContext('utils/audit.util.ts');
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+let defaultContext: AuditContext | undefined;
+
+/**
+ * Check whether write operations are recorded (BITBUCKET_AUDIT_ENABLED,
+ * default true)
+ */
+export function isAuditEnabled(): boolean {
+	return config.getBoolean('BITBUCKET_AUDIT_ENABLED', true);
+}
+
+/**
+ * Get the path of the audit log
+ * (BITBUCKET_AUDIT_FILE, default ~/.mcp/data/bitbucket-audit.jsonl)
+ */
+export function getAuditLogPath(): string {
+	return (
+		config.get('BITBUCKET_AUDIT_FILE') ||
+		path.join(os.homedir(), '.mcp', 'data', 'bitbucket-audit.jsonl')
+	);
+}
+
+/**
+ * Set the context recorded for operations outside {@link runWithAuditContext}
+ * (used by the CLI, which runs one command per process)
+ * @param context The operation's source and action
+ */
+export function setAuditContext(context: AuditContext | undefined): void {
+	defaultContext = context;
+}
+
+/**
+ * Run an operation with the given context recorded for every write it makes,
+ * including across awaits.
+ * @param context The operation's source and action
+ * @param operation The operation to run
+ * @returns The operation result
+ */
+export function runWithAuditContext<T>(
+	context: AuditContext,
+	operation: () => T,
+): T {
+	return contextStorage.run(context, operation);
+}
+
+/**
+ * Wrap an MCP server so that every tool registered through it records its
+ * name as the audit action. All other server methods are passed through.
+ * @param server The MCP server
+ * @returns A view of the server for registering tools
+ */
+export function applyAuditContext(server: McpServer): McpServer {
+	return new Proxy(server, {
+		get(target, property) {
+			if (property === 'tool' || property === 'registerTool') {
+				return (name: string, ...rest: unknown[]) => {
+					const handler = rest.pop() as (
+						...args: unknown[]
+					) => unknown;
+					return (
+						target[property] as (...args: unknown[]) => unknown
+					).apply(target, [
+						name,
+						...rest,
+						(...args: unknown[]) =>
+							runWithAuditContext(
+								{ source: 'mcp', action: name },
+								() => handler(...args),
+							),
+					]);
+				};
+			}
+			const value = Reflect.get(target, property);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	});
+}
+
+/**
+ * Extract the workspace, repository and pull request an API path targets.
+ * Understands Cloud (/2.0/repositories/...) and Data Center
+ * (/rest/api/1.0/projects/.../repos/...) paths.
+ * @param apiPath API path
+ * @returns The target; fields are missing when not part of the path
+ */
+export function parseAuditTarget(
+	apiPath: string,
+): Pick<AuditEntry, 'workspace' | 'repo' | 'pullRequestId'> {
+	const match =
+		/^\/2\.0\/repositories\/([^/?]+)(?:\/([^/?]+))?(?:\/pullrequests\/(\d+))?/.exec(
+			apiPath,
+		) ||
+		/^\/rest\/api\/[^/]+\/projects\/([^/?]+)(?:\/repos\/([^/?]+))?(?:\/pull-requests\/(\d+))?/.exec(
+			apiPath,
+		);
+	if (!match) {
+		return {};
+	}
+	return {
+		workspace: decodeURIComponent(match[1]),
+		repo: match[2] ? decodeURIComponent(match[2]) : undefined,
+		pullRequestId: match[3] ? parseInt(match[3], 10) : undefined,
+	};
+}
+
+/**
+ * Append a write operation to the audit log. Failures to write are logged
+ * and never fail the operation itself.
+ * @param request The request that was sent and its outcome
+ */
+export function recordAudit(request: {
+	identity: string;
+	method: string;
+	path: string;
+	body?: unknown;
+	error?: unknown;
+	durationMs: number;
+}): void {
+	if (!isAuditEnabled()) {
+		return;
+	}
+
+	const context = contextStorage.getStore() ?? defaultContext;
+	const summary =
+		request.body === undefined ? undefined : JSON.stringify(request.body);
+	const error = request.error as
+		| { message?: string; statusCode?: number }
+		| undefined;
+	const entry: AuditEntry = {
+		timestamp: new Date().toISOString(),
+		source: context?.source,
+		action: context?.action,
+		profile: config.getActiveProfile(),
+		identity: request.identity,
+		method: request.method,
+		path: request.path,
+		...parseAuditTarget(request.path),
+		summary:
+			summary && summary.length > SUMMARY_MAX_LENGTH
+				? `${summary.substring(0, SUMMARY_MAX_LENGTH)}...`
+				: summary,
+		status: request.error ? 'failure' : 'success',
+		statusCode: error?.statusCode,
+		error: error ? (error.message ?? String(request.error)) : undefined,
+		durationMs: request.durationMs,
+	};
+
+	const file = getAuditLogPath();
+	try {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.appendFileSync(file, `${JSON.stringify(entry)}\n`, 'utf8');
+	} catch (writeError) {
+		auditLogger.warn(`Could not write audit log ${file}`, writeError);
+	}
+}
+
+/**
+ * Parse a time filter: an ISO date/time, or a duration before now such as
+ * "30m", "24h" or "7d"
+ * @throws {McpError} If the value is neither
+ */
+function parseAuditTime(value: string, now: number): number {
+	const relative = /^(\d+)\s*([mhd])$/i.exec(value.trim());
+	if (relative) {
+		const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[
+			relative[2].toLowerCase() as 'm' | 'h' | 'd'
+		];
+		return now - parseInt(relative[1], 10) * unitMs;
+	}
+	const time = Date.parse(value);
+	if (isNaN(time)) {
+		throw createApiError(
+			`Invalid time "${value}". Use an ISO date/time (e.g. 2024-05-01T12:00:00Z) or a duration such as 30m, 24h or 7d.`,
+			400,
+		);
+	}
+	return time;
+}
+
+/**
+ * Check whether an entry's action matches a filter, treating a tool and its
+ * CLI command as the same action
+ */
+function matchesAction(action: string | undefined, filter: string): boolean {
+	if (!action) {
+		return false;
+	}
+	return (
+		action === filter ||
+		TOOL_CATALOG[filter]?.command === action ||
+		TOOL_CATALOG[action]?.command === filter
+	);
+}
+
+/**
+ * Size of the blocks in which the audit log is read from its end
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Read the lines of a file from the last to the first, one block at a time,
+ * so that recent entries are found without loading the whole file
+ */
+function* readLinesBackward(file: string): Generator<string> {
+	const fd = fs.openSync(file, 'r');
+	try {
+		const chunk = Buffer.alloc(READ_CHUNK_SIZE);
+		let position = fs.fstatSync(fd).size;
+		let rest = Buffer.alloc(0);
+		while (position > 0) {
+			const length = Math.min(READ_CHUNK_SIZE, position);
+			position -= length;
+			fs.readSync(fd, chunk, 0, length, position);
+			const data = Buffer.concat([chunk.subarray(0, length), rest]);
+			// Split on the newline byte so multi-byte characters stay intact
+			let end = data.length;
+			for (let index = data.length - 1; index >= 0; index--) {
+				if (data[index] === 0x0a) {
+					yield data.toString('utf8', index + 1, end);
+					end = index;
+				}
+			}
+			rest = data.subarray(0, end);
+		}
+		if (rest.length > 0) {
+			yield rest.toString('utf8');
+		}
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+/**
+ * Read the audit log, newest entries first, stopping once `limit` entries
+ * match or entries are older than `since`.
+ *
+ * Entries written for an HTTP client session that supplied its own
+ * credentials are visible only within that session, and such a session sees
+ * only its own entries.
+ * @param query Filters to apply
+ * @returns Matching entries, newest first
+ * @throws {McpError} If a time filter cannot be parsed
+ */
+export function readAuditLog(query: AuditQuery = {}): AuditEntry[] {
+	const now = Date.now();
+	const since = query.since ? parseAuditTime(query.since, now) : undefined;
+	const until = query.until ? parseAuditTime(query.until, now) : undefined;
+	const limit = query.limit ?? DEFAULT_AUDIT_LIMIT;
+	const profile = config.getActiveProfile();
+	const session = config.isSessionProfile(profile) ? profile : undefined;
+
+	const file = getAuditLogPath();
+	if (!fs.existsSync(file)) {
+		return [];
+	}
+
+	const entries: AuditEntry[] = [];
+	for (const line of readLinesBackward(file)) {
+		if (entries.length >= limit) {
+			break;
+		}
+		if (!line.trim()) {
+			continue;
+		}
+		let entry: AuditEntry;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			auditLogger.warn('Skipping unreadable audit log line');
+			continue;
+		}
+		const time = Date.parse(entry.timestamp);
+		if (since !== undefined && time < since) {
+			// Entries are appended in time order, so the rest are older
+			break;
+		}
+		if (
+			(session
+				? entry.profile !== session
+				: config.isSessionProfile(entry.profile)) ||
+			(until !== undefined && time > until) ||
+			(query.workspace && entry.workspace !== query.workspace) ||
+			(query.repo && entry.repo !== query.repo) ||
+			(query.action && !matchesAction(entry.action, query.action))
+		) {
+			continue;
+		}
+		entries.push(entry);
+	}
+
+	return entries;
+}
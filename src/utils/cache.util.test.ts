@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	buildCacheKey,
+	CacheEntry,
+	DiskCacheStore,
+	getCacheTtl,
+	getInvalidationScope,
+	invalidateCacheFor,
+	MemoryCacheStore,
+	setCacheStore,
+} from './cache.util.js';
+
+describe('Cache Utility', () => {
+	const entry = (entryPath: string): CacheEntry => ({
+		path: entryPath,
+		body: { value: entryPath },
+		expiresAt: Date.now() + 60000,
+	});
+
+	describe('MemoryCacheStore', () => {
+		it('should evict the least recently used entry', () => {
+			const store = new MemoryCacheStore(2);
+			store.set('a', entry('/a'));
+			store.set('b', entry('/b'));
+			store.get('a');
+			store.set('c', entry('/c'));
+
+			expect(store.get('a')).toBeDefined();
+			expect(store.get('b')).toBeUndefined();
+			expect(store.get('c')).toBeDefined();
+		});
+	});
+
+	describe('DiskCacheStore', () => {
+		let directory: string;
+
+		beforeEach(() => {
+			directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-cache-'));
+		});
+
+		afterEach(() => {
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		it('should persist entries across store instances', () => {
+			new DiskCacheStore(directory).set('key', entry('/x'));
+
+			const reopened = new DiskCacheStore(directory);
+			expect(reopened.get('key')?.body).toEqual({ value: '/x' });
+			expect(reopened.entries().map(([key]) => key)).toEqual(['key']);
+
+			reopened.delete('key');
+			expect(reopened.get('key')).toBeUndefined();
+		});
+	});
+
+	describe('getCacheTtl', () => {
+		const originalEnv = { ...process.env };
+
+		afterEach(() => {
+			process.env = { ...originalEnv };
+		});
+
+		it('should use the endpoint group TTL', () => {
+			expect(getCacheTtl('/2.0/workspaces?pagelen=10')).toBe(600);
+			expect(
+				getCacheTtl(
+					'/2.0/repositories/ws/repo/pullrequests/1/comments',
+				),
+			).toBe(30);
+			expect(getCacheTtl('/2.0/repositories/ws/repo/diff/a..b')).toBe(
+				120,
+			);
+			expect(getCacheTtl('/2.0/repositories/ws/repo')).toBe(300);
+		});
+
+		it('should apply configured overrides', () => {
+			process.env.BITBUCKET_CACHE_TTLS =
+				'pullrequests=0, repositories=900';
+			process.env.BITBUCKET_CACHE_TTL_SECONDS = '5';
+
+			expect(getCacheTtl('/2.0/repositories/ws/repo/pullrequests')).toBe(
+				0,
+			);
+			expect(getCacheTtl('/2.0/repositories/ws/repo')).toBe(900);
+			expect(getCacheTtl('/2.0/snippets')).toBe(5);
+		});
+	});
+
+	describe('buildCacheKey', () => {
+		it('should separate identities without exposing them', () => {
+			const first = buildCacheKey('Basic abc', '/x', 'application/json');
+			const second = buildCacheKey('Basic def', '/x', 'application/json');
+
+			expect(first).not.toBe(second);
+			expect(first).not.toContain('abc');
+		});
+	});
+
+	describe('invalidation', () => {
+		afterEach(() => {
+			setCacheStore(null);
+		});
+
+		it('should scope invalidation to the repository', () => {
+			expect(
+				getInvalidationScope(
+					'/2.0/repositories/ws/repo/pullrequests/1',
+				),
+			).toBe('/2.0/repositories/ws/repo');
+			expect(
+				getInvalidationScope(
+					'/rest/api/1.0/projects/PROJ/repos/api/pull-requests',
+				),
+			).toBe('/rest/api/1.0/projects/PROJ/repos/api');
+			expect(getInvalidationScope('/2.0/workspaces')).toBeUndefined();
+		});
+
+		it('should drop entries of the mutated repository only', () => {
+			const store = new MemoryCacheStore();
+			setCacheStore(store);
+			store.set('pr', entry('/2.0/repositories/ws/repo/pullrequests/1'));
+			store.set('repo', entry('/2.0/repositories/ws/repo?fields=name'));
+			store.set('other', entry('/2.0/repositories/ws/repo-two'));
+
+			invalidateCacheFor(
+				'/2.0/repositories/ws/repo/pullrequests/1/comments',
+			);
+
+			expect(store.entries().map(([key]) => key)).toEqual(['other']);
+		});
+	});
+});
@@ -0,0 +1,319 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+/**
+ * Cached response for a single GET request
+ */
+export interface CacheEntry {
+	/** Request path (without base URL), used for invalidation */
+	path: string;
+	/** Parsed response body (JSON value or raw text) */
+	body: unknown;
+	/** ETag returned by the API, used for If-None-Match revalidation */
+	etag?: string;
+	/** Epoch milliseconds after which the entry must be revalidated */
+	expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses.
+ * Implementations must be safe to call synchronously from the transport.
+ */
+export interface CacheStore {
+	get(key: string): CacheEntry | undefined;
+	set(key: string, entry: CacheEntry): void;
+	delete(key: string): void;
+	entries(): Array<[string, CacheEntry]>;
+	clear(): void;
+}
+
+/**
+ * Named endpoint groups with their default time-to-live in seconds.
+ * The first matching pattern wins; unmatched paths use BITBUCKET_CACHE_TTL_SECONDS.
+ */
+const ENDPOINT_TTLS: Array<{ name: string; pattern: RegExp; ttl: number }> = [
+	{ name: 'workspaces', pattern: /^\/2\.0\/(workspaces|user)\b/, ttl: 600 },
+	{ name: 'comments', pattern: /\/(comments|activities)\b/, ttl: 30 },
+	{ name: 'diff', pattern: /\/(diff|diffstat|compare)\b/, ttl: 120 },
+	{
+		name: 'pullrequests',
+		pattern: /\/(pullrequests|pull-requests)\b/,
+		ttl: 30,
+	},
+	{ name: 'branches', pattern: /\/(refs\/branches|branches)\b/, ttl: 60 },
+	{ name: 'commits', pattern: /\/commits\b/, ttl: 60 },
+	{ name: 'files', pattern: /\/(src|raw)\//, ttl: 300 },
+	{ name: 'repositories', pattern: /\/(repositories|repos)\b/, ttl: 300 },
+];
+
+/**
+ * Default TTL for endpoints that match no named group
+ */
+const DEFAULT_TTL_SECONDS = 60;
+
+/**
+ * Default number of entries kept by the in-memory store
+ */
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Create a contextualized logger for this file
+const cacheLogger = Logger.forContext('utils/cache.util.ts');
+
+/**
+ * In-memory least-recently-used cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+	private readonly items = new Map<string, CacheEntry>();
+
+	constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+	get(key: string): CacheEntry | undefined {
+		const entry = this.items.get(key);
+		if (entry) {
+			// Re-insert to mark as most recently used
+			this.items.delete(key);
+			this.items.set(key, entry);
+		}
+		return entry;
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		this.items.delete(key);
+		this.items.set(key, entry);
+		while (this.items.size > this.maxEntries) {
+			const oldest = this.items.keys().next().value as string;
+			this.items.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.items.delete(key);
+	}
+
+	entries(): Array<[string, CacheEntry]> {
+		return Array.from(this.items.entries());
+	}
+
+	clear(): void {
+		this.items.clear();
+	}
+}
+
+/**
+ * On-disk cache store; one JSON file per entry, surviving restarts
+ */
+export class DiskCacheStore implements CacheStore {
+	constructor(private readonly directory: string) {
+		fs.mkdirSync(directory, { recursive: true });
+	}
+
+	private fileFor(key: string): string {
+		const hash = crypto.createHash('sha256').update(key).digest('hex');
+		return path.join(this.directory, `${hash}.json`);
+	}
+
+	get(key: string): CacheEntry | undefined {
+		try {
+			const stored = JSON.parse(
+				fs.readFileSync(this.fileFor(key), 'utf8'),
+			) as { key: string; entry: CacheEntry };
+			return stored.key === key ? stored.entry : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		try {
+			fs.writeFileSync(this.fileFor(key), JSON.stringify({ key, entry }));
+		} catch (error) {
+			cacheLogger.warn(`Failed to write cache entry for ${key}`, error);
+		}
+	}
+
+	delete(key: string): void {
+		fs.rmSync(this.fileFor(key), { force: true });
+	}
+
+	entries(): Array<[string, CacheEntry]> {
+		if (!fs.existsSync(this.directory)) {
+			return [];
+		}
+		return fs
+			.readdirSync(this.directory)
+			.filter((file) => file.endsWith('.json'))
+			.flatMap((file): Array<[string, CacheEntry]> => {
+				try {
+					const stored = JSON.parse(
+						fs.readFileSync(
+							path.join(this.directory, file),
+							'utf8',
+						),
+					) as { key: string; entry: CacheEntry };
+					return [[stored.key, stored.entry]];
+				} catch {
+					return [];
+				}
+			});
+	}
+
+	clear(): void {
+		fs.rmSync(this.directory, { recursive: true, force: true });
+		fs.mkdirSync(this.directory, { recursive: true });
+	}
+}
+
+// Lazily created store shared by all requests
+let activeStore: CacheStore | null = null;
+
+/**
+ * Check whether response caching is enabled (BITBUCKET_CACHE_ENABLED, default true)
+ */
+export function isCacheEnabled(): boolean {
+	return config.getBoolean('BITBUCKET_CACHE_ENABLED', true);
+}
+
+/**
+ * Get the active cache store, creating it from configuration on first use.
+ * BITBUCKET_CACHE_STORE selects `memory` (default) or `disk`;
+ * BITBUCKET_CACHE_DIR overrides the disk location (~/.mcp/data/bitbucket-cache).
+ * @returns The active cache store
+ */
+export function getCacheStore(): CacheStore {
+	if (!activeStore) {
+		const storeType = config.get('BITBUCKET_CACHE_STORE', 'memory');
+		if (storeType === 'disk') {
+			const directory =
+				config.get('BITBUCKET_CACHE_DIR') ||
+				path.join(os.homedir(), '.mcp', 'data', 'bitbucket-cache');
+			cacheLogger.debug(`Using disk cache at ${directory}`);
+			activeStore = new DiskCacheStore(directory);
+		} else {
+			const maxEntries = parseInt(
+				config.get(
+					'BITBUCKET_CACHE_MAX_ENTRIES',
+					String(DEFAULT_MAX_ENTRIES),
+				) as string,
+				10,
+			);
+			activeStore = new MemoryCacheStore(
+				isNaN(maxEntries) || maxEntries < 1
+					? DEFAULT_MAX_ENTRIES
+					: maxEntries,
+			);
+		}
+	}
+	return activeStore;
+}
+
+/**
+ * Replace the active cache store (e.g. with a custom implementation).
+ * Passing null resets it so the next request re-reads configuration.
+ * @param store The store to use
+ */
+export function setCacheStore(store: CacheStore | null): void {
+	activeStore = store;
+}
+
+/**
+ * Parse per-endpoint TTL overrides from BITBUCKET_CACHE_TTLS,
+ * e.g. "pullrequests=10,repositories=900"
+ */
+function getTtlOverrides(): Record<string, number> {
+	const raw = config.get('BITBUCKET_CACHE_TTLS');
+	if (!raw) {
+		return {};
+	}
+	return Object.fromEntries(
+		raw
+			.split(',')
+			.map((pair) => pair.split('=').map((part) => part.trim()))
+			.filter(([name, value]) => name && !isNaN(Number(value)))
+			.map(([name, value]) => [name, Number(value)]),
+	);
+}
+
+/**
+ * Resolve the time-to-live for a request path.
+ * @param requestPath API path (without base URL)
+ * @returns TTL in seconds; 0 means the response is not cached
+ */
+export function getCacheTtl(requestPath: string): number {
+	const overrides = getTtlOverrides();
+	const pathOnly = requestPath.split('?')[0];
+	const rule = ENDPOINT_TTLS.find((candidate) =>
+		candidate.pattern.test(pathOnly),
+	);
+	if (rule) {
+		return overrides[rule.name] ?? rule.ttl;
+	}
+	const fallback = Number(
+		config.get('BITBUCKET_CACHE_TTL_SECONDS', String(DEFAULT_TTL_SECONDS)),
+	);
+	return isNaN(fallback) ? DEFAULT_TTL_SECONDS : fallback;
+}
+
+/**
+ * Build the cache key for a request.
+ * The key includes a hash of the caller's identity so that different
+ * credentials never share entries, without storing the secret itself.
+ * @param identity Credential identity (e.g. the Authorization header)
+ * @param url Full request URL
+ * @param accept Accept header of the request
+ * @returns Cache key
+ */
+export function buildCacheKey(
+	identity: string,
+	url: string,
+	accept: string,
+): string {
+	const identityHash = crypto
+		.createHash('sha256')
+		.update(identity)
+		.digest('hex')
+		.substring(0, 16);
+	return `${identityHash} ${accept} ${url}`;
+}
+
+/**
+ * Determine the repository a request path belongs to, used to scope
+ * invalidation after mutations.
+ * @param requestPath API path (without base URL)
+ * @returns Repository path prefix, or undefined for non-repository paths
+ */
+export function getInvalidationScope(requestPath: string): string | undefined {
+	const pathOnly = requestPath.split('?')[0];
+	const match =
+		pathOnly.match(/^\/2\.0\/repositories\/[^/]+\/[^/]+/) ||
+		pathOnly.match(/^\/rest\/api\/[^/]+\/projects\/[^/]+\/repos\/[^/]+/);
+	return match ? match[0] : undefined;
+}
+
+/**
+ * Remove every cached response belonging to the same repository as a
+ * mutated path (repository details, branches, pull requests, comments...).
+ * @param requestPath Path of the mutating request
+ */
+export function invalidateCacheFor(requestPath: string): void {
+	const scope = getInvalidationScope(requestPath);
+	if (!scope) {
+		return;
+	}
+	const store = getCacheStore();
+	let removed = 0;
+	store.entries().forEach(([key, entry]) => {
+		if (
+			entry.path === scope ||
+			entry.path.startsWith(`${scope}/`) ||
+			entry.path.startsWith(`${scope}?`)
+		) {
+			store.delete(key);
+			removed++;
+		}
+	});
+	cacheLogger.debug(`Invalidated ${removed} cache entries under ${scope}`);
+}
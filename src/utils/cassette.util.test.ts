@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	redactBody,
+	redactHeaders,
+	redactUrl,
+	REDACTED,
+	resetCassette,
+} from './cassette.util.js';
+import { fetchAtlassian, getAtlassianCredentials } from './transport.util.js';
+
+describe('Cassette Utility', () => {
+	describe('redaction', () => {
+		it('should redact secret query parameters and URL credentials', () => {
+			expect(
+				redactUrl(
+					'https://u:p@bitbucket.org/x?access_token=abc&page=2',
+				),
+			).toBe(
+				'https://bitbucket.org/x?access_token=%5BREDACTED%5D&page=2',
+			);
+		});
+
+		it('should redact authorization and cookie headers', () => {
+			expect(
+				redactHeaders({
+					Authorization: 'Bearer abc',
+					'Set-Cookie': 'session=1',
+					Accept: 'application/json',
+				}),
+			).toEqual({
+				authorization: REDACTED,
+				'set-cookie': REDACTED,
+				accept: 'application/json',
+			});
+		});
+
+		it('should redact secret fields in JSON bodies only', () => {
+			expect(
+				JSON.parse(
+					redactBody('{"name":"x","nested":{"refresh_token":"r"}}'),
+				),
+			).toEqual({ name: 'x', nested: { refresh_token: REDACTED } });
+			expect(redactBody('+password = 1')).toBe('+password = 1');
+		});
+	});
+
+	describe('record and replay', () => {
+		const originalEnv = { ...process.env };
+		let directory: string;
+		let cassetteFile: string;
+		let server: http.Server;
+		let liveRequests = 0;
+
+		// Requests made in both phases; results must match exactly
+		const runRequests = async () => {
+			const credentials = getAtlassianCredentials();
+			if (!credentials) {
+				throw new Error('Expected credentials');
+			}
+			const projects = await fetchAtlassian(
+				credentials,
+				'/rest/api/1.0/projects',
+			);
+			const diff = await fetchAtlassian<string>(
+				credentials,
+				'/rest/api/1.0/diff',
+			);
+			const created = await fetchAtlassian(
+				credentials,
+				'/rest/api/1.0/projects',
+				{ method: 'POST', body: { key: 'NEW', password: 'hunter2' } },
+			);
+			const error = await fetchAtlassian(
+				credentials,
+				'/rest/api/1.0/missing',
+			).catch((e: Error) => e.message);
+			return { projects, diff, created, error };
+		};
+
+		beforeAll(async () => {
+			directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-cassette-'));
+			cassetteFile = path.join(directory, 'fixtures', 'cassette.json');
+
+			server = http.createServer((req, res) => {
+				liveRequests++;
+				res.setHeader('Connection', 'close');
+				if (req.url === '/rest/api/1.0/diff') {
+					res.setHeader('Content-Type', 'text/plain');
+					res.end('diff --git a/x b/x\n+added\n');
+				} else if (req.url === '/rest/api/1.0/missing') {
+					res.statusCode = 404;
+					res.setHeader('Content-Type', 'application/json');
+					res.end('{"message":"Project does not exist"}');
+				} else if (req.method === 'POST') {
+					res.statusCode = 201;
+					res.setHeader('Content-Type', 'application/json');
+					res.end('{"key":"NEW","id":7}');
+				} else {
+					res.setHeader('Content-Type', 'application/json');
+					res.end('{"values":[{"key":"PRJ"}],"isLastPage":true}');
+				}
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+		});
+
+		beforeEach(() => {
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+			process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = '1';
+			resetCassette();
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			resetCassette();
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		it('should replay recorded responses without network or credentials', async () => {
+			process.env.BITBUCKET_ACCESS_TOKEN = 'live-secret-token';
+			process.env.BITBUCKET_RECORD = cassetteFile;
+			const live = await runRequests();
+
+			const recorded = fs.readFileSync(cassetteFile, 'utf8');
+			expect(recorded).not.toContain('live-secret-token');
+			expect(recorded).not.toContain('hunter2');
+			expect(JSON.parse(recorded).interactions).toHaveLength(4);
+
+			delete process.env.BITBUCKET_RECORD;
+			delete process.env.BITBUCKET_ACCESS_TOKEN;
+			process.env.BITBUCKET_REPLAY = cassetteFile;
+			resetCassette();
+			const requestsBeforeReplay = liveRequests;
+
+			const replayed = await runRequests();
+			expect(liveRequests).toBe(requestsBeforeReplay);
+			expect(replayed).toEqual(live);
+			expect(replayed.diff).toBe('diff --git a/x b/x\n+added\n');
+			expect(replayed.error).toContain('Project does not exist');
+		});
+
+		it('should fail clearly for requests missing from the cassette', async () => {
+			process.env.BITBUCKET_REPLAY = cassetteFile;
+
+			await expect(
+				fetchAtlassian(
+					{ authType: 'access-token', accessToken: 'replay' },
+					'/rest/api/1.0/unrecorded',
+				),
+			).rejects.toThrow('No recorded response');
+		});
+	});
+});
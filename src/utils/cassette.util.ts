@@ -0,0 +1,295 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { createUnexpectedError } from './error.util.js';
+import { networkFetch } from './network.util.js';
+
+const cassetteLogger = Logger.forContext('utils/cassette.util.ts');
+
+/**
+ * Placeholder written in place of secrets
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Header, query parameter and JSON field names whose values are redacted
+ */
+const SECRET_NAME = /token|password|secret|authorization|cookie|api[-_]?key/i;
+
+/**
+ * Response headers that describe the wire encoding rather than the body,
+ * which is stored decoded
+ */
+const ENCODING_HEADERS = [
+	'content-encoding',
+	'content-length',
+	'transfer-encoding',
+	'connection',
+];
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		body?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+	};
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface Cassette {
+	version: 1;
+	interactions: CassetteInteraction[];
+}
+
+/**
+ * Whether requests are being recorded to or replayed from a cassette
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Resolve the cassette mode from BITBUCKET_RECORD / BITBUCKET_REPLAY, each of
+ * which names a cassette file.
+ * @returns The mode and cassette file, or undefined for live requests
+ * @throws {McpError} If both variables are set
+ */
+export function getCassetteMode():
+	| { mode: CassetteMode; file: string }
+	| undefined {
+	const recordFile = config.get('BITBUCKET_RECORD');
+	const replayFile = config.get('BITBUCKET_REPLAY');
+	if (recordFile && replayFile) {
+		throw createUnexpectedError(
+			'Set only one of BITBUCKET_RECORD and BITBUCKET_REPLAY',
+		);
+	}
+	if (replayFile) {
+		return { mode: 'replay', file: path.resolve(replayFile) };
+	}
+	if (recordFile) {
+		return { mode: 'record', file: path.resolve(recordFile) };
+	}
+	return undefined;
+}
+
+/**
+ * Check whether requests are replayed from a cassette
+ */
+export function isReplayMode(): boolean {
+	return getCassetteMode()?.mode === 'replay';
+}
+
+/**
+ * Redact secret query parameters from a URL
+ * @param url The request URL
+ * @returns The URL with secret values replaced
+ */
+export function redactUrl(url: string): string {
+	const parsed = new URL(url);
+	for (const name of [...parsed.searchParams.keys()]) {
+		if (SECRET_NAME.test(name)) {
+			parsed.searchParams.set(name, REDACTED);
+		}
+	}
+	parsed.username = '';
+	parsed.password = '';
+	return parsed.toString();
+}
+
+/**
+ * Redact secret headers
+ * @param headers Request or response headers
+ * @returns Headers with lower-case names and secret values replaced
+ */
+export function redactHeaders(
+	headers?: ConstructorParameters<typeof Headers>[0],
+): Record<string, string> {
+	const redacted: Record<string, string> = {};
+	new Headers(headers).forEach((value, name) => {
+		redacted[name] = SECRET_NAME.test(name) ? REDACTED : value;
+	});
+	return redacted;
+}
+
+/**
+ * Redact secret fields from a JSON body; other bodies are returned unchanged
+ * @param body The request or response body
+ * @returns The body with secret string values replaced
+ */
+export function redactBody(body: string): string {
+	if (!/^\s*[[{]/.test(body)) {
+		return body;
+	}
+	try {
+		return JSON.stringify(
+			JSON.parse(body, (key, value) =>
+				key && typeof value === 'string' && SECRET_NAME.test(key)
+					? REDACTED
+					: value,
+			),
+		);
+	} catch {
+		return body;
+	}
+}
+
+/**
+ * Key used to match a request against recorded interactions
+ */
+function matchKey(method: string, url: string, body?: string): string {
+	return `${method.toUpperCase()} ${url} ${body ?? ''}`;
+}
+
+/**
+ * Cassette loaded for the current process
+ */
+let loaded:
+	| {
+			file: string;
+			cassette: Cassette;
+			/** Replay position for each request key */
+			cursors: Map<string, number>;
+	  }
+	| undefined;
+
+/**
+ * Load a cassette file, reusing the copy already in memory
+ */
+function loadCassette(file: string, mode: CassetteMode) {
+	if (loaded?.file === file) {
+		return loaded;
+	}
+	let cassette: Cassette = { version: 1, interactions: [] };
+	if (fs.existsSync(file)) {
+		cassette = JSON.parse(fs.readFileSync(file, 'utf8')) as Cassette;
+	} else if (mode === 'replay') {
+		throw createUnexpectedError(`Cassette file not found: ${file}`);
+	}
+	loaded = { file, cassette, cursors: new Map() };
+	return loaded;
+}
+
+/**
+ * Forget the cassette held in memory, so the next request reloads it
+ */
+export function resetCassette(): void {
+	loaded = undefined;
+}
+
+/**
+ * Find the recorded response for a request. Identical requests replay their
+ * recordings in order; the last one is repeated once all have been used.
+ */
+function replay(
+	file: string,
+	method: string,
+	url: string,
+	body?: string,
+): Response {
+	const state = loadCassette(file, 'replay');
+	const key = matchKey(method, redactUrl(url), body && redactBody(body));
+	const matches = state.cassette.interactions.filter(
+		({ request }) =>
+			matchKey(request.method, request.url, request.body) === key,
+	);
+	if (matches.length === 0) {
+		throw createUnexpectedError(
+			`No recorded response in ${file} for ${method} ${redactUrl(url)}`,
+		);
+	}
+
+	const position = state.cursors.get(key) ?? 0;
+	state.cursors.set(key, position + 1);
+	const { response } = matches[Math.min(position, matches.length - 1)];
+	cassetteLogger.debug(
+		`Replaying ${response.status} for ${method} ${redactUrl(url)}`,
+	);
+
+	// Responses such as 204 and 304 must not carry a body
+	const nullBody = [101, 204, 205, 304].includes(response.status);
+	return new Response(nullBody ? null : response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+/**
+ * Append an interaction to the cassette file
+ */
+async function record(
+	file: string,
+	method: string,
+	url: string,
+	init: RequestInit,
+	response: Response,
+): Promise<void> {
+	const state = loadCassette(file, 'record');
+	const requestBody = typeof init.body === 'string' ? init.body : undefined;
+	state.cassette.interactions.push({
+		request: {
+			method,
+			url: redactUrl(url),
+			headers: redactHeaders(init.headers),
+			body: requestBody && redactBody(requestBody),
+		},
+		response: {
+			status: response.status,
+			statusText: response.statusText,
+			headers: Object.fromEntries(
+				Object.entries(redactHeaders(response.headers)).filter(
+					([name]) => !ENCODING_HEADERS.includes(name),
+				),
+			),
+			body: redactBody(await response.clone().text()),
+		},
+	});
+
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, JSON.stringify(state.cassette, null, 2));
+	cassetteLogger.debug(`Recorded ${response.status} for ${method} ${url}`);
+}
+
+/**
+ * fetch() that records to or replays from a cassette when
+ * BITBUCKET_RECORD or BITBUCKET_REPLAY is set, and goes to the network
+ * otherwise.
+ * @param url The request URL
+ * @param init Request options
+ * @returns The live or recorded response
+ */
+export async function cassetteFetch(
+	url: string,
+	init: RequestInit = {},
+): Promise<Response> {
+	const cassetteMode = getCassetteMode();
+	const method = init.method || 'GET';
+
+	if (cassetteMode?.mode === 'replay') {
+		init.signal?.throwIfAborted();
+		return replay(
+			cassetteMode.file,
+			method,
+			url,
+			typeof init.body === 'string' ? init.body : undefined,
+		);
+	}
+
+	const response = await networkFetch(url, init);
+	if (cassetteMode?.mode === 'record') {
+		await record(cassetteMode.file, method, url, init, response);
+	}
+	return response;
+}
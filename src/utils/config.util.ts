@@ -3,16 +3,77 @@ import path from 'path';
 import { Logger } from './logger.util.js';
 import dotenv from 'dotenv';
 import os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createApiError } from './error.util.js';
+
+/**
+ * Keys that belong to a profile. While a profile is active these are read
+ * only from the profile, so one account's credentials never leak into another.
+ */
+const PROFILE_KEYS = [
+	'ATLASSIAN_SITE_NAME',
+	'ATLASSIAN_USER_EMAIL',
+	'ATLASSIAN_API_TOKEN',
+	'ATLASSIAN_BITBUCKET_USERNAME',
+	'ATLASSIAN_BITBUCKET_APP_PASSWORD',
+	'BITBUCKET_ACCESS_TOKEN',
+	'BITBUCKET_OAUTH_CLIENT_ID',
+	'BITBUCKET_OAUTH_CLIENT_SECRET',
+	'BITBUCKET_OAUTH_TOKEN_FILE',
+	'BITBUCKET_BASE_URL',
+	'BITBUCKET_BACKEND',
+	'BITBUCKET_DEFAULT_WORKSPACE',
+];
+
+/**
+ * Keys holding credentials. While session configuration is active these are
+ * read only from the session, so a client never acts with the server's own
+ * credentials.
+ */
+const CREDENTIAL_KEYS = PROFILE_KEYS.filter(
+	(key) =>
+		![
+			'BITBUCKET_BASE_URL',
+			'BITBUCKET_BACKEND',
+			'BITBUCKET_DEFAULT_WORKSPACE',
+		].includes(key),
+);
+
+/**
+ * Prefix of the active profile name while an HTTP client session supplies
+ * the configuration
+ */
+const SESSION_PROFILE_PREFIX = 'session:';
+
+/**
+ * Configuration supplied by one HTTP client session
+ */
+interface SessionConfig {
+	id: string;
+	values: Record<string, string>;
+}
 
 /**
  * Configuration loader that handles multiple sources with priority:
  * 1. Direct ENV pass (process.env)
  * 2. .env file in project root
  * 3. Global config file at $HOME/.mcp/configs.json
+ *
+ * The global config file may also define named profiles, each holding its
+ * own credentials, default workspace and base URL. The active profile is
+ * chosen per call (see {@link ConfigLoader.runWithProfile}), by the CLI
+ * `--profile` flag, or by BITBUCKET_PROFILE.
+ *
+ * In HTTP mode a client session may supply its own credentials instead
+ * (see {@link ConfigLoader.runWithSessionConfig}); profiles are then off limits.
  */
 class ConfigLoader {
 	private packageName: string;
 	private configLoaded: boolean = false;
+	private profiles: Record<string, Record<string, string>> = {};
+	private defaultProfile: string | undefined;
+	private readonly profileStorage = new AsyncLocalStorage<string>();
+	private readonly sessionStorage = new AsyncLocalStorage<SessionConfig>();
 
 	/**
 	 * Create a new ConfigLoader instance
@@ -103,6 +164,7 @@ class ConfigLoader {
 			];
 			let foundConfigSection: {
 				environments?: Record<string, unknown>;
+				profiles?: Record<string, Record<string, unknown>>;
 			} | null = null;
 			let usedKey: string | null = null;
 
@@ -110,7 +172,7 @@ class ConfigLoader {
 				if (
 					config[key] &&
 					typeof config[key] === 'object' &&
-					config[key].environments
+					(config[key].environments || config[key].profiles)
 				) {
 					foundConfigSection = config[key];
 					usedKey = key;
@@ -119,7 +181,7 @@ class ConfigLoader {
 				}
 			}
 
-			if (!foundConfigSection || !foundConfigSection.environments) {
+			if (!foundConfigSection) {
 				methodLogger.debug(
 					`No configuration found for ${
 						this.packageName
@@ -128,7 +190,18 @@ class ConfigLoader {
 				return;
 			}
 
-			const environments = foundConfigSection.environments;
+			for (const [name, values] of Object.entries(
+				foundConfigSection.profiles || {},
+			)) {
+				this.profiles[name] = Object.fromEntries(
+					Object.entries(values).map(([key, value]) => [
+						key,
+						String(value),
+					]),
+				);
+			}
+
+			const environments = foundConfigSection.environments || {};
 			for (const [key, value] of Object.entries(environments)) {
 				// Only set if not already defined in process.env
 				if (process.env[key] === undefined) {
@@ -151,9 +224,134 @@ class ConfigLoader {
 	 * @returns The configuration value or the default value
 	 */
 	get(key: string, defaultValue?: string): string | undefined {
+		const session = this.sessionStorage.getStore();
+		if (session) {
+			const value = session.values[key];
+			if (value || CREDENTIAL_KEYS.includes(key)) {
+				return value || defaultValue;
+			}
+			return process.env[key] || defaultValue;
+		}
+
+		const profile = this.getActiveProfile();
+		if (profile) {
+			const value = this.profiles[profile]?.[key];
+			if (value || PROFILE_KEYS.includes(key)) {
+				return value || defaultValue;
+			}
+		}
 		return process.env[key] || defaultValue;
 	}
 
+	/**
+	 * Get the names of the profiles defined in the global config file
+	 * @returns Profile names
+	 */
+	getProfileNames(): string[] {
+		return Object.keys(this.profiles);
+	}
+
+	/**
+	 * Get the profile in effect for the current call
+	 * @returns The active profile name, or undefined for the default environment
+	 */
+	getActiveProfile(): string | undefined {
+		const session = this.sessionStorage.getStore();
+		if (session) {
+			return `${SESSION_PROFILE_PREFIX}${session.id}`;
+		}
+		return (
+			this.profileStorage.getStore() ??
+			this.defaultProfile ??
+			(process.env.BITBUCKET_PROFILE || undefined)
+		);
+	}
+
+	/**
+	 * Check whether a profile name stands for an HTTP client session
+	 * @param name Profile name, as returned by {@link getActiveProfile}
+	 * @returns True for session configuration
+	 */
+	isSessionProfile(name: string | undefined): boolean {
+		return name?.startsWith(SESSION_PROFILE_PREFIX) ?? false;
+	}
+
+	/**
+	 * Register or replace a profile (mainly for programmatic use and tests)
+	 * @param name Profile name
+	 * @param values Configuration values of the profile
+	 */
+	setProfile(name: string, values: Record<string, string>): void {
+		this.profiles[name] = { ...values };
+	}
+
+	/**
+	 * Select the profile used when a call does not name one
+	 * @param name Profile name, or undefined for the default environment
+	 * @throws {McpError} If the profile is not defined
+	 */
+	setDefaultProfile(name: string | undefined): void {
+		this.assertProfile(name);
+		this.defaultProfile = name;
+	}
+
+	/**
+	 * Run an operation with the given profile active for every configuration
+	 * lookup it makes, including across awaits.
+	 * @param name Profile name; undefined keeps the current profile
+	 * @param operation The operation to run
+	 * @returns The operation result
+	 * @throws {McpError} If the profile is not defined
+	 */
+	runWithProfile<T>(name: string | undefined, operation: () => T): T {
+		if (!name) {
+			return operation();
+		}
+		if (this.sessionStorage.getStore()) {
+			throw createApiError(
+				`Profile "${name}" cannot be used: this session supplied its own Bitbucket credentials`,
+				403,
+			);
+		}
+		this.assertProfile(name);
+		return this.profileStorage.run(name, operation);
+	}
+
+	/**
+	 * Run an operation with configuration supplied by an HTTP client session.
+	 * Credentials are read only from `values`; other keys fall back to the
+	 * environment. Profiles cannot be selected inside the operation.
+	 * @param id Session ID, used as the active profile name ("session:<id>")
+	 * @param values Configuration values of the session
+	 * @param operation The operation to run
+	 * @returns The operation result
+	 */
+	runWithSessionConfig<T>(
+		id: string,
+		values: Record<string, string>,
+		operation: () => T,
+	): T {
+		return this.sessionStorage.run({ id, values }, operation);
+	}
+
+	/**
+	 * Ensure a profile exists
+	 * @throws {McpError} If the profile is not defined
+	 */
+	private assertProfile(name: string | undefined): void {
+		if (name && !this.profiles[name]) {
+			const available = this.getProfileNames();
+			throw createApiError(
+				`Unknown profile "${name}". ${
+					available.length
+						? `Available profiles: ${available.join(', ')}`
+						: 'No profiles are defined in ~/.mcp/configs.json'
+				}`,
+				400,
+			);
+		}
+	}
+
 	/**
 	 * Get a boolean configuration value
 	 * @param key The configuration key
@@ -9,6 +9,22 @@
  */
 export const DEFAULT_PAGE_SIZE = 25;
 
+/**
+ * Page size used when fetching every page of a list.
+ * Larger pages mean fewer requests; 100 is the Bitbucket Cloud maximum.
+ */
+export const ALL_PAGES_PAGE_SIZE = 100;
+
+/**
+ * Default cap on the total number of items fetched across all pages.
+ */
+export const DEFAULT_MAX_ITEMS = 500;
+
+/**
+ * Hard upper limit for the total number of items fetched across all pages.
+ */
+export const MAX_ITEMS_LIMIT = 5000;
+
 /**
  * Apply default values to options object.
  * This utility ensures that default values are consistently applied.
@@ -0,0 +1,92 @@
+import { ErrorType, McpError } from './error.util.js';
+import {
+	formatBulletList,
+	formatHeading,
+	formatSeparator,
+} from './formatter.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+
+/**
+ * A request that a dry run stopped before it was sent
+ */
+export interface PlannedRequest {
+	/** HTTP method */
+	method: string;
+	/** API path (without base URL) */
+	path: string;
+	/** Full request URL */
+	url: string;
+	/** JSON request body, if any */
+	body?: unknown;
+}
+
+/**
+ * Thrown by the transport instead of sending a POST/PUT/DELETE when
+ * `dryRun` is set. It is an McpError so that services rethrow it unchanged
+ * and it is never retried; controllers catch it and report the request.
+ */
+export class DryRunInterrupt extends McpError {
+	request: PlannedRequest;
+
+	constructor(request: PlannedRequest) {
+		super(
+			`Dry run: ${request.method} ${request.path} was not sent`,
+			ErrorType.UNEXPECTED_ERROR,
+		);
+		this.name = 'DryRunInterrupt';
+		this.request = request;
+	}
+}
+
+/**
+ * Format a planned request for display
+ * @param request - The request the dry run stopped
+ * @param followUp - What the operation would do after this request, if anything
+ * @returns Formatted string with the request in markdown format
+ */
+export function formatDryRun(
+	request: PlannedRequest,
+	followUp?: string,
+): string {
+	const lines: string[] = [
+		formatHeading('Dry Run', 1),
+		'',
+		'No changes were made. This is the request that would be sent to Bitbucket:',
+		'',
+		formatBulletList({
+			Method: request.method,
+			Path: `\`${request.path}\``,
+			URL: request.url,
+		}),
+	];
+
+	if (request.body !== undefined) {
+		lines.push('', formatHeading('Request Body', 2), '');
+		lines.push('```json', JSON.stringify(request.body, null, 2), '```');
+	}
+
+	if (followUp) {
+		lines.push('', `**Then:** ${followUp}`);
+	}
+
+	lines.push('\n' + formatSeparator());
+	lines.push('*Run again without dry run to apply the change.*');
+
+	return lines.join('\n');
+}
+
+/**
+ * Build the controller response for a dry run
+ * @param request - The request the dry run stopped
+ * @param followUp - What the operation would do after this request, if anything
+ * @returns The formatted request, and the request as structured data
+ */
+export function formatDryRunResponse(
+	request: PlannedRequest,
+	followUp?: string,
+): ControllerResponse<{ plannedRequest: PlannedRequest }> {
+	return {
+		content: formatDryRun(request, followUp),
+		data: { plannedRequest: request },
+	};
+}
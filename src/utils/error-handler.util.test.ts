@@ -6,7 +6,13 @@ import {
 	createUserFriendlyErrorMessage,
 	handleControllerError,
 } from './error-handler.util.js';
-import { McpError, ErrorType, createApiError } from './error.util.js';
+import {
+	McpError,
+	ErrorType,
+	createApiError,
+	createCancelledError,
+	createTimeoutError,
+} from './error.util.js';
 
 describe('Error Handler Utilities', () => {
 	describe('buildErrorContext function', () => {
@@ -46,6 +52,17 @@ describe('Error Handler Utilities', () => {
 	});
 
 	describe('detectErrorType function', () => {
+		test('detects timeout and cancellation errors', () => {
+			expect(detectErrorType(createTimeoutError())).toEqual({
+				code: ErrorCode.TIMEOUT_ERROR,
+				statusCode: 408,
+			});
+			expect(detectErrorType(createCancelledError())).toEqual({
+				code: ErrorCode.CANCELLED,
+				statusCode: 499,
+			});
+		});
+
 		test('detects network errors', () => {
 			const error = new Error('network error: connection refused');
 			const result = detectErrorType(error);
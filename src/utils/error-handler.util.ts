@@ -1,7 +1,13 @@
-import { createApiError } from './error.util.js';
+import {
+	createApiError,
+	createCancelledError,
+	createTimeoutError,
+	ErrorType,
+} from './error.util.js';
 import { Logger } from './logger.util.js';
 import { getDeepOriginalError } from './error.util.js';
 import { McpError } from './error.util.js';
+import { controllerErrors } from './metrics.util.js';
 
 /**
  * Standard error codes for consistent handling
@@ -14,6 +20,8 @@ export enum ErrorCode {
 	UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
 	NETWORK_ERROR = 'NETWORK_ERROR',
 	RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
+	TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+	CANCELLED = 'CANCELLED',
 	PRIVATE_IP_ERROR = 'PRIVATE_IP_ERROR',
 	RESERVED_RANGE_ERROR = 'RESERVED_RANGE_ERROR',
 }
@@ -95,6 +103,14 @@ export function detectErrorType(
 			? (error as { statusCode: number }).statusCode
 			: undefined;
 
+	// Timeouts and cancellations raised by the transport
+	if (error instanceof McpError && error.type === ErrorType.TIMEOUT) {
+		return { code: ErrorCode.TIMEOUT_ERROR, statusCode: 408 };
+	}
+	if (error instanceof McpError && error.type === ErrorType.CANCELLED) {
+		return { code: ErrorCode.CANCELLED, statusCode: 499 };
+	}
+
 	// PR ID validation error detection
 	if (
 		errorMessage.includes('Invalid pull request ID') ||
@@ -461,6 +477,14 @@ export function createUserFriendlyErrorMessage(
 			message += ` Bitbucket's API has rate limits per IP address and additional limits for authenticated users.`;
 			break;
 
+		case ErrorCode.TIMEOUT_ERROR:
+			message = `Bitbucket did not respond in time while ${operation || 'processing'} ${entity.toLowerCase()}. Try a narrower request, or raise BITBUCKET_TIMEOUT_MS / BITBUCKET_TIMEOUTS.`;
+			break;
+
+		case ErrorCode.CANCELLED:
+			message = `The request was cancelled while ${operation || 'processing'} ${entity.toLowerCase()}.`;
+			break;
+
 		default:
 			message = `An unexpected error occurred while ${operation || 'processing'} ${entity.toLowerCase()}.`;
 	}
@@ -512,6 +536,8 @@ export function handleControllerError(
 	// Combine detected status with explicit status
 	const finalStatusCode = statusCode || detectedStatus;
 
+	controllerErrors.inc({ code, entity: context.entityType || 'resource' });
+
 	// Format entity information for logging
 	const { entityType, entityId, operation } = context;
 	const entity = entityType || 'resource';
@@ -536,6 +562,14 @@ export function handleControllerError(
 			? errorMessage
 			: createUserFriendlyErrorMessage(code, context, errorMessage);
 
+	// Timeouts and cancellations keep their distinct error type
+	if (error instanceof McpError && code === ErrorCode.TIMEOUT_ERROR) {
+		throw createTimeoutError(message, error);
+	}
+	if (error instanceof McpError && code === ErrorCode.CANCELLED) {
+		throw createCancelledError(message, error);
+	}
+
 	// Throw an appropriate API error with the user-friendly message
 	throw createApiError(message, finalStatusCode, error);
 }
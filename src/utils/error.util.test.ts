@@ -140,6 +140,7 @@ describe('Error Utilities', () => {
 			expect(formatted).toHaveProperty('content');
 			expect(formatted.content[0].type).toBe('text');
 			expect(formatted.content[0].text).toBe('Error: Resource not found');
+			expect(formatted.isError).toBe(true);
 
 			expect(formatted).toHaveProperty('metadata');
 			expect(formatted.metadata?.errorType).toBe(ErrorType.API_ERROR);
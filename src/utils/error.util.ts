@@ -9,6 +9,8 @@ export type McpErrorType =
 	| 'NOT_FOUND'
 	| 'VALIDATION_ERROR'
 	| 'RATE_LIMIT_EXCEEDED'
+	| 'TIMEOUT'
+	| 'CANCELLED'
 	| 'API_ERROR'
 	| 'UNEXPECTED_ERROR';
 
@@ -19,9 +21,21 @@ export enum ErrorType {
 	AUTH_MISSING = 'AUTH_MISSING',
 	AUTH_INVALID = 'AUTH_INVALID',
 	API_ERROR = 'API_ERROR',
+	TIMEOUT = 'TIMEOUT',
+	CANCELLED = 'CANCELLED',
 	UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
 }
 
+/**
+ * Record of a failed request attempt that was retried
+ */
+export interface RetryAttempt {
+	attempt: number;
+	statusCode?: number;
+	message: string;
+	delayMs: number;
+}
+
 /**
  * Custom error class with type classification
  */
@@ -30,6 +44,8 @@ export class McpError extends Error {
 	errorType?: McpErrorType; // Add errorType property used by error-handler.util.ts
 	statusCode?: number;
 	originalError?: unknown;
+	retryAfterMs?: number; // Server-requested wait before retrying (Retry-After / X-RateLimit-Reset)
+	retryHistory?: RetryAttempt[]; // Earlier attempts when the request was retried
 
 	constructor(
 		message: string,
@@ -57,6 +73,12 @@ export class McpError extends Error {
 							? 'RATE_LIMIT_EXCEEDED'
 							: 'API_ERROR';
 				break;
+			case ErrorType.TIMEOUT:
+				this.errorType = 'TIMEOUT';
+				break;
+			case ErrorType.CANCELLED:
+				this.errorType = 'CANCELLED';
+				break;
 			case ErrorType.UNEXPECTED_ERROR:
 			default:
 				this.errorType = 'UNEXPECTED_ERROR';
@@ -133,6 +155,26 @@ export function createApiError(
 	);
 }
 
+/**
+ * Create a timeout error (the request exceeded its configured time limit)
+ */
+export function createTimeoutError(
+	message: string = 'The request timed out',
+	originalError?: unknown,
+): McpError {
+	return new McpError(message, ErrorType.TIMEOUT, 408, originalError);
+}
+
+/**
+ * Create a cancellation error (the caller aborted the request)
+ */
+export function createCancelledError(
+	message: string = 'The request was cancelled',
+	originalError?: unknown,
+): McpError {
+	return new McpError(message, ErrorType.CANCELLED, undefined, originalError);
+}
+
 /**
  * Create an unexpected error
  */
@@ -164,14 +206,30 @@ export function ensureMcpError(error: unknown): McpError {
 }
 
 /**
- * Format error for MCP tool response
+ * Describe retried attempts, one line per attempt
+ */
+export function formatRetryHistory(history: RetryAttempt[]): string[] {
+	return [
+		`Retried ${history.length} time${history.length === 1 ? '' : 's'} before giving up:`,
+		...history.map(
+			(entry) =>
+				`- Attempt ${entry.attempt}: ${entry.statusCode ? `HTTP ${entry.statusCode} - ` : ''}${entry.message} (waited ${(entry.delayMs / 1000).toFixed(1)}s)`,
+		),
+	];
+}
+
+/**
+ * Format error for MCP tool response. The result is flagged with `isError`
+ * so that clients (and the output schema check) treat it as a failure.
  */
 export function formatErrorForMcpTool(error: unknown): {
 	content: Array<{ type: 'text'; text: string }>;
+	isError: true;
 	metadata?: {
 		errorType: ErrorType;
 		statusCode?: number;
 		errorDetails?: unknown;
+		retryHistory?: RetryAttempt[];
 	};
 } {
 	const methodLogger = Logger.forContext(
@@ -190,17 +248,26 @@ export function formatErrorForMcpTool(error: unknown): {
 			? { message: originalError.message }
 			: originalError;
 
+	const lines = [`Error: ${mcpError.message}`];
+	if (mcpError.retryHistory?.length) {
+		lines.push('', ...formatRetryHistory(mcpError.retryHistory));
+	}
+
 	return {
 		content: [
 			{
 				type: 'text' as const,
-				text: `Error: ${mcpError.message}`,
+				text: lines.join('\n'),
 			},
 		],
+		isError: true,
 		metadata: {
 			errorType: mcpError.type,
 			statusCode: mcpError.statusCode,
 			errorDetails,
+			...(mcpError.retryHistory?.length && {
+				retryHistory: mcpError.retryHistory,
+			}),
 		},
 	};
 }
@@ -263,6 +330,11 @@ export function handleCliError(error: unknown): never {
 		cliLines.push(`HTTP Status: ${mcpError.statusCode}`);
 	}
 
+	// Retry history (if the request was retried)
+	if (mcpError.retryHistory?.length) {
+		cliLines.push(...formatRetryHistory(mcpError.retryHistory));
+	}
+
 	// Separator
 	cliLines.push(formatSeparator());
 
@@ -271,6 +343,12 @@ export function handleCliError(error: unknown): never {
 		cliLines.push(
 			'Tip: Make sure to set up your Atlassian credentials in the configuration file or environment variables:',
 		);
+		cliLines.push(
+			'- BITBUCKET_ACCESS_TOKEN (repository, project or workspace access token); or',
+		);
+		cliLines.push(
+			'- BITBUCKET_OAUTH_CLIENT_ID and BITBUCKET_OAUTH_CLIENT_SECRET, then run `login`; or',
+		);
 		cliLines.push(
 			'- ATLASSIAN_SITE_NAME, ATLASSIAN_USER_EMAIL, and ATLASSIAN_API_TOKEN; or',
 		);
@@ -279,15 +357,19 @@ export function handleCliError(error: unknown): never {
 		);
 	} else if (mcpError.type === ErrorType.AUTH_INVALID) {
 		cliLines.push(
-			'Tip: Check that your Atlassian API token or app password is correct and has not expired.',
+			'Tip: Check that your Atlassian API token, app password or access token is correct and has not expired. For OAuth, run `login` again.',
 		);
 		cliLines.push(
 			'Also verify that the configured user has access to the requested resource.',
 		);
+	} else if (mcpError.type === ErrorType.TIMEOUT) {
+		cliLines.push(
+			'Tip: Bitbucket did not respond in time. Raise BITBUCKET_TIMEOUT_MS, or the per-operation limits in BITBUCKET_TIMEOUTS (e.g. "diff=300000").',
+		);
 	} else if (mcpError.type === ErrorType.API_ERROR) {
 		if (mcpError.statusCode === 429) {
 			cliLines.push(
-				'Tip: You may have exceeded your Bitbucket API rate limits. Try again later.',
+				'Tip: You may have exceeded your Bitbucket API rate limits. Try again later, or raise BITBUCKET_RETRY_MAX_ATTEMPTS / BITBUCKET_RETRY_MAX_DELAY_MS to wait longer automatically.',
 			);
 		}
 	}
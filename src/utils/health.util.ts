@@ -0,0 +1,90 @@
+import { Logger } from './logger.util.js';
+import { VERSION } from './constants.util.js';
+import { config } from './config.util.js';
+import { isBitbucketServer } from './transport.util.js';
+import { createApiError } from './error.util.js';
+import atlassianWorkspacesService from '../services/vendor.atlassian.workspaces.service.js';
+import atlassianRepositoriesService from '../services/vendor.atlassian.repositories.service.js';
+
+/**
+ * Longest time the readiness check waits for Bitbucket
+ */
+const READINESS_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Result of a readiness check
+ */
+export interface ReadinessStatus {
+	status: 'ready' | 'unavailable';
+	version: string;
+	/** Why the server is not ready */
+	error?: string;
+	durationMs: number;
+}
+
+// Create a contextualized logger for this file
+const healthLogger = Logger.forContext('utils/health.util.ts');
+
+const startedAt = Date.now();
+
+/**
+ * Describe the running process (liveness)
+ * @param details Extra fields to report, e.g. the number of open sessions
+ * @returns Liveness status
+ */
+export function getLiveness(details: Record<string, unknown> = {}) {
+	return {
+		status: 'ok',
+		version: VERSION,
+		uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+		...details,
+	};
+}
+
+/**
+ * Check that the server can reach Bitbucket with its configured credentials
+ * (readiness). Lists one workspace on Cloud, or one repository of the
+ * default project on Data Center, which has no workspaces.
+ * @returns Readiness status
+ */
+export async function checkReadiness(): Promise<ReadinessStatus> {
+	const methodLogger = healthLogger.forMethod('checkReadiness');
+	const checkStartedAt = Date.now();
+
+	try {
+		// Always ask Bitbucket, so that revoked credentials are noticed
+		const callOptions = {
+			signal: AbortSignal.timeout(READINESS_TIMEOUT_MS),
+			cache: false,
+		};
+		if (isBitbucketServer()) {
+			const workspace = config.get('BITBUCKET_DEFAULT_WORKSPACE');
+			if (!workspace) {
+				throw createApiError(
+					'Set BITBUCKET_DEFAULT_WORKSPACE to a project key so that readiness can be checked on Data Center / Server',
+					400,
+				);
+			}
+			await atlassianRepositoriesService.list(
+				{ workspace, pagelen: 1 },
+				callOptions,
+			);
+		} else {
+			await atlassianWorkspacesService.list({ pagelen: 1 }, callOptions);
+		}
+		return {
+			status: 'ready',
+			version: VERSION,
+			durationMs: Date.now() - checkStartedAt,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		methodLogger.warn(`Readiness check failed: ${message}`);
+		return {
+			status: 'unavailable',
+			version: VERSION,
+			error: message,
+			durationMs: Date.now() - checkStartedAt,
+		};
+	}
+}
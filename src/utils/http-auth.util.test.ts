@@ -0,0 +1,122 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+	HttpAuthOptions,
+	authenticateRequest,
+	getProtectedResourceMetadata,
+	getProtectedResourceMetadataUrl,
+	getSessionConfig,
+} from './http-auth.util.js';
+
+describe('HTTP Auth Utility', () => {
+	const request = (headers: http.IncomingHttpHeaders) =>
+		({ headers }) as http.IncomingMessage;
+
+	const options = (overrides: Partial<HttpAuthOptions> = {}) => ({
+		tokens: [],
+		resourceUrl: 'https://mcp.example.com/mcp',
+		...overrides,
+	});
+
+	describe('authenticateRequest', () => {
+		it('should accept every request when no tokens are configured', async () => {
+			await expect(
+				authenticateRequest(request({}), options()),
+			).resolves.toEqual({ ok: true });
+		});
+
+		it('should check static bearer tokens', async () => {
+			const tokens = options({ tokens: ['team-secret'] });
+
+			const accepted = await authenticateRequest(
+				request({ authorization: 'Bearer team-secret' }),
+				tokens,
+			);
+			expect(accepted.ok).toBe(true);
+			expect(accepted.ok && accepted.principal).toMatch(/^token:/);
+
+			await expect(
+				authenticateRequest(request({}), tokens),
+			).resolves.toMatchObject({ ok: false, error: 'invalid_request' });
+			await expect(
+				authenticateRequest(
+					request({ authorization: 'Bearer wrong' }),
+					tokens,
+				),
+			).resolves.toMatchObject({ ok: false, error: 'invalid_token' });
+		});
+
+		it('should introspect OAuth access tokens', async () => {
+			const server = http.createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', () => {
+					const active = body === 'token=good-token';
+					res.writeHead(200, { 'Content-Type': 'application/json' });
+					res.end(
+						JSON.stringify(
+							active
+								? { active, sub: 'dev@example.com' }
+								: { active },
+						),
+					);
+				});
+			});
+			server.listen(0);
+			await new Promise((resolve) => server.once('listening', resolve));
+			const introspection = options({
+				introspectionUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/introspect`,
+			});
+
+			try {
+				await expect(
+					authenticateRequest(
+						request({ authorization: 'Bearer good-token' }),
+						introspection,
+					),
+				).resolves.toEqual({ ok: true, principal: 'dev@example.com' });
+				await expect(
+					authenticateRequest(
+						request({ authorization: 'Bearer bad-token' }),
+						introspection,
+					),
+				).resolves.toMatchObject({ ok: false, error: 'invalid_token' });
+			} finally {
+				await new Promise((resolve) => server.close(resolve));
+			}
+		});
+	});
+
+	describe('protected resource metadata', () => {
+		it('should point clients to the authorization server', () => {
+			const metadata = options({ issuer: 'https://auth.example.com' });
+
+			expect(getProtectedResourceMetadataUrl(metadata)).toBe(
+				'https://mcp.example.com/.well-known/oauth-protected-resource/mcp',
+			);
+			expect(getProtectedResourceMetadata(metadata)).toMatchObject({
+				resource: 'https://mcp.example.com/mcp',
+				authorization_servers: ['https://auth.example.com'],
+			});
+		});
+	});
+
+	describe('getSessionConfig', () => {
+		it('should map Bitbucket headers to configuration keys', () => {
+			expect(
+				getSessionConfig(
+					request({
+						'x-bitbucket-username': 'tenant-user',
+						'x-bitbucket-app-password': 'tenant-secret',
+						'x-bitbucket-workspace': 'tenant',
+					}),
+				),
+			).toEqual({
+				ATLASSIAN_BITBUCKET_USERNAME: 'tenant-user',
+				ATLASSIAN_BITBUCKET_APP_PASSWORD: 'tenant-secret',
+				BITBUCKET_DEFAULT_WORKSPACE: 'tenant',
+			});
+			expect(getSessionConfig(request({}))).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,299 @@
+import * as crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { networkFetch } from './network.util.js';
+
+/**
+ * Longest time an introspected OAuth token is trusted without asking the
+ * authorization server again
+ */
+const INTROSPECTION_CACHE_MS = 60 * 1000;
+
+/**
+ * Request headers through which a client session supplies its own
+ * Bitbucket configuration, and the configuration key each one sets
+ */
+export const SESSION_CONFIG_HEADERS: Record<string, string> = {
+	'x-bitbucket-access-token': 'BITBUCKET_ACCESS_TOKEN',
+	'x-bitbucket-username': 'ATLASSIAN_BITBUCKET_USERNAME',
+	'x-bitbucket-app-password': 'ATLASSIAN_BITBUCKET_APP_PASSWORD',
+	'x-atlassian-site-name': 'ATLASSIAN_SITE_NAME',
+	'x-atlassian-user-email': 'ATLASSIAN_USER_EMAIL',
+	'x-atlassian-api-token': 'ATLASSIAN_API_TOKEN',
+	'x-bitbucket-workspace': 'BITBUCKET_DEFAULT_WORKSPACE',
+};
+
+/**
+ * How HTTP clients authenticate to the MCP endpoint
+ */
+export interface HttpAuthOptions {
+	/** Static bearer tokens accepted (MCP_AUTH_TOKENS) */
+	tokens: string[];
+	/** OAuth 2.0 token introspection endpoint (MCP_AUTH_INTROSPECTION_URL) */
+	introspectionUrl?: string;
+	/** Credentials of this server at the introspection endpoint */
+	clientId?: string;
+	clientSecret?: string;
+	/** Authorization server advertised in the protected resource metadata (MCP_AUTH_ISSUER) */
+	issuer?: string;
+	/** Public URL of the MCP endpoint (MCP_PUBLIC_URL) */
+	resourceUrl: string;
+}
+
+/**
+ * Outcome of authenticating a request
+ */
+export type HttpAuthResult =
+	| {
+			ok: true;
+			/** Who the token belongs to; undefined when auth is disabled */
+			principal?: string;
+	  }
+	| {
+			ok: false;
+			/** OAuth error code for the WWW-Authenticate header */
+			error: 'invalid_request' | 'invalid_token';
+			description: string;
+	  };
+
+// Create a contextualized logger for this file
+const authLogger = Logger.forContext('utils/http-auth.util.ts');
+
+const introspectionCache = new Map<
+	string,
+	{ principal: string; expiresAt: number }
+>();
+
+/**
+ * Read the HTTP authentication settings
+ * @param port Port the server listens on, for the default public URL
+ * @returns The settings
+ */
+export function getHttpAuthOptions(port: number): HttpAuthOptions {
+	return {
+		tokens: (config.get('MCP_AUTH_TOKENS') || '')
+			.split(',')
+			.map((token) => token.trim())
+			.filter(Boolean),
+		introspectionUrl: config.get('MCP_AUTH_INTROSPECTION_URL'),
+		clientId: config.get('MCP_AUTH_CLIENT_ID'),
+		clientSecret: config.get('MCP_AUTH_CLIENT_SECRET'),
+		issuer: config.get('MCP_AUTH_ISSUER'),
+		resourceUrl:
+			config.get('MCP_PUBLIC_URL') || `http://localhost:${port}/mcp`,
+	};
+}
+
+/**
+ * Check whether requests to the MCP endpoint must carry a bearer token
+ */
+export function isHttpAuthEnabled(options: HttpAuthOptions): boolean {
+	return options.tokens.length > 0 || Boolean(options.introspectionUrl);
+}
+
+/**
+ * URL of the OAuth 2.0 Protected Resource Metadata document (RFC 9728)
+ * for the MCP endpoint, e.g.
+ * https://mcp.example.com/.well-known/oauth-protected-resource/mcp
+ */
+export function getProtectedResourceMetadataUrl(
+	options: HttpAuthOptions,
+): string {
+	const url = new URL(options.resourceUrl);
+	const suffix = url.pathname === '/' ? '' : url.pathname;
+	return `${url.origin}/.well-known/oauth-protected-resource${suffix}`;
+}
+
+/**
+ * Build the OAuth 2.0 Protected Resource Metadata document, which tells
+ * clients which authorization server issues tokens for this server
+ */
+export function getProtectedResourceMetadata(options: HttpAuthOptions) {
+	return {
+		resource: options.resourceUrl,
+		authorization_servers: options.issuer ? [options.issuer] : [],
+		bearer_methods_supported: ['header'],
+		resource_name: 'Bitbucket MCP Server',
+	};
+}
+
+/**
+ * Short, non-reversible fingerprint of a token
+ */
+function fingerprint(token: string): string {
+	return crypto
+		.createHash('sha256')
+		.update(token)
+		.digest('hex')
+		.substring(0, 8);
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+	const digestA = crypto.createHash('sha256').update(a).digest();
+	const digestB = crypto.createHash('sha256').update(b).digest();
+	return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Ask the authorization server whether a token is active (RFC 7662)
+ * @returns Who the token belongs to, or undefined if it is not active
+ */
+async function introspect(
+	token: string,
+	options: HttpAuthOptions,
+): Promise<string | undefined> {
+	const methodLogger = authLogger.forMethod('introspect');
+	const key = fingerprint(token);
+	const now = Date.now();
+
+	const cached = introspectionCache.get(key);
+	if (cached && cached.expiresAt > now) {
+		return cached.principal;
+	}
+	introspectionCache.forEach((entry, cachedKey) => {
+		if (entry.expiresAt <= now) {
+			introspectionCache.delete(cachedKey);
+		}
+	});
+
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/x-www-form-urlencoded',
+		Accept: 'application/json',
+	};
+	if (options.clientId) {
+		headers.Authorization = `Basic ${Buffer.from(
+			`${options.clientId}:${options.clientSecret ?? ''}`,
+		).toString('base64')}`;
+	}
+	const response = await networkFetch(options.introspectionUrl as string, {
+		method: 'POST',
+		headers,
+		body: new URLSearchParams({ token }).toString(),
+	});
+	if (!response.ok) {
+		methodLogger.warn(
+			`Token introspection failed: ${response.status} ${response.statusText}`,
+		);
+		return undefined;
+	}
+
+	const data = (await response.json()) as {
+		active?: boolean;
+		sub?: string;
+		username?: string;
+		client_id?: string;
+		exp?: number;
+	};
+	if (!data.active || (data.exp && data.exp * 1000 <= now)) {
+		return undefined;
+	}
+
+	const principal =
+		data.sub || data.username || data.client_id || `token:${key}`;
+	introspectionCache.set(key, {
+		principal,
+		expiresAt: Math.min(
+			now + INTROSPECTION_CACHE_MS,
+			data.exp ? data.exp * 1000 : Infinity,
+		),
+	});
+	return principal;
+}
+
+/**
+ * Authenticate a request to the MCP endpoint. Static tokens are checked
+ * first, then the introspection endpoint. When neither is configured every
+ * request is accepted.
+ * @param req HTTP request
+ * @param options Authentication settings
+ * @returns The principal, or why the request was refused
+ */
+export async function authenticateRequest(
+	req: IncomingMessage,
+	options: HttpAuthOptions,
+): Promise<HttpAuthResult> {
+	if (!isHttpAuthEnabled(options)) {
+		return { ok: true };
+	}
+
+	const header = req.headers.authorization;
+	if (!header) {
+		return {
+			ok: false,
+			error: 'invalid_request',
+			description: 'Missing Authorization header',
+		};
+	}
+	const [scheme, token] = header.split(' ');
+	if (scheme.toLowerCase() !== 'bearer' || !token) {
+		return {
+			ok: false,
+			error: 'invalid_request',
+			description: "Expected 'Authorization: Bearer <token>'",
+		};
+	}
+
+	if (options.tokens.some((allowed) => safeEqual(allowed, token))) {
+		return { ok: true, principal: `token:${fingerprint(token)}` };
+	}
+
+	if (options.introspectionUrl) {
+		const principal = await introspect(token, options);
+		if (principal) {
+			return { ok: true, principal };
+		}
+	}
+
+	return {
+		ok: false,
+		error: 'invalid_token',
+		description: 'The access token is invalid or has expired',
+	};
+}
+
+/**
+ * Refuse a request with 401 and a WWW-Authenticate challenge pointing to
+ * the protected resource metadata
+ * @param res HTTP response
+ * @param options Authentication settings
+ * @param result The failed authentication
+ */
+export function sendAuthChallenge(
+	res: ServerResponse,
+	options: HttpAuthOptions,
+	result: Extract<HttpAuthResult, { ok: false }>,
+): void {
+	res.writeHead(401, {
+		'Content-Type': 'application/json',
+		'WWW-Authenticate': `Bearer error="${result.error}", error_description="${result.description}", resource_metadata="${getProtectedResourceMetadataUrl(options)}"`,
+	});
+	res.end(
+		JSON.stringify({
+			error: result.error,
+			error_description: result.description,
+		}),
+	);
+}
+
+/**
+ * Read the Bitbucket configuration a client supplies in request headers
+ * (see {@link SESSION_CONFIG_HEADERS})
+ * @param req HTTP request
+ * @returns Configuration values, or undefined if none were supplied
+ */
+export function getSessionConfig(
+	req: IncomingMessage,
+): Record<string, string> | undefined {
+	const values: Record<string, string> = {};
+	for (const [header, key] of Object.entries(SESSION_CONFIG_HEADERS)) {
+		const value = req.headers[header];
+		if (typeof value === 'string' && value.trim()) {
+			values[key] = value.trim();
+		}
+	}
+	return Object.keys(values).length > 0 ? values : undefined;
+}
@@ -0,0 +1,223 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { config } from './config.util.js';
+import {
+	HttpSessionClient,
+	HttpSessionManager,
+	HttpSessionOptions,
+} from './http-session.util.js';
+import { getDefaultWorkspace } from './workspace.util.js';
+
+describe('HTTP Session Manager', () => {
+	let server: http.Server;
+	let sessions: HttpSessionManager;
+	let url: string;
+
+	const start = async (options: HttpSessionOptions) => {
+		sessions = new HttpSessionManager(() => {
+			const mcpServer = new McpServer({ name: 'test', version: '1.0.0' });
+			mcpServer.tool('whoami', 'Configured user', async () => ({
+				content: [
+					{
+						type: 'text',
+						text: `user=${config.get('ATLASSIAN_BITBUCKET_USERNAME')}`,
+					},
+				],
+			}));
+			return mcpServer;
+		}, options);
+		server = http.createServer((req, res) => {
+			let data = '';
+			req.on('data', (chunk) => (data += chunk));
+			req.on('end', () => {
+				const client: HttpSessionClient = {
+					principal: req.headers['x-principal'] as string | undefined,
+					config: req.headers['x-user']
+						? {
+								ATLASSIAN_BITBUCKET_USERNAME: req.headers[
+									'x-user'
+								] as string,
+							}
+						: undefined,
+				};
+				sessions
+					.handleRequest(
+						req,
+						res,
+						data ? JSON.parse(data) : undefined,
+						client,
+					)
+					.catch(() => res.writeHead(500).end());
+			});
+		});
+		server.listen(0);
+		await new Promise((resolve) => server.once('listening', resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+	};
+
+	afterEach(async () => {
+		await sessions.closeAll();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	const post = (
+		body: unknown,
+		sessionId?: string,
+		headers: Record<string, string> = {},
+	) =>
+		fetch(url, {
+			method: 'POST',
+			headers: {
+				'content-type': 'application/json',
+				accept: 'application/json, text/event-stream',
+				...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+				...headers,
+			},
+			body: JSON.stringify(body),
+		});
+
+	const initialize = async (headers: Record<string, string> = {}) => {
+		const response = await post(
+			{
+				jsonrpc: '2.0',
+				id: 1,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-03-26',
+					capabilities: {},
+					clientInfo: { name: 'test-client', version: '1.0.0' },
+				},
+			},
+			undefined,
+			headers,
+		);
+		await response.text();
+		return response;
+	};
+
+	it('should give each client its own session', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 0 });
+
+		const first = await initialize();
+		const second = await initialize();
+		const sessionId = first.headers.get('mcp-session-id') as string;
+
+		expect(first.status).toBe(200);
+		expect(sessionId).toBeTruthy();
+		expect(second.headers.get('mcp-session-id')).not.toBe(sessionId);
+		expect(sessions.size).toBe(2);
+
+		const ping = await post(
+			{ jsonrpc: '2.0', id: 2, method: 'ping' },
+			sessionId,
+		);
+		expect(ping.status).toBe(200);
+		expect(await ping.text()).toContain('"result":{}');
+	});
+
+	it('should reject requests without a known session', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 0 });
+
+		const missing = await post({ jsonrpc: '2.0', id: 2, method: 'ping' });
+		expect(missing.status).toBe(400);
+
+		const unknown = await post(
+			{ jsonrpc: '2.0', id: 2, method: 'ping' },
+			'no-such-session',
+		);
+		expect(unknown.status).toBe(404);
+	});
+
+	it('should end a session on DELETE', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 0 });
+		const sessionId = (await initialize()).headers.get(
+			'mcp-session-id',
+		) as string;
+
+		const response = await fetch(url, {
+			method: 'DELETE',
+			headers: { 'mcp-session-id': sessionId },
+		});
+
+		expect(response.status).toBe(200);
+		expect(sessions.size).toBe(0);
+	});
+
+	it('should refuse sessions beyond the limit', async () => {
+		await start({ maxSessions: 1, idleTimeoutMs: 0 });
+
+		expect((await initialize()).status).toBe(200);
+		const response = await initialize();
+
+		expect(response.status).toBe(503);
+		expect(response.headers.get('retry-after')).toBe('60');
+	});
+
+	it('should bind a session to its principal and configuration', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 0 });
+		const sessionId = (
+			await initialize({ 'x-principal': 'alice', 'x-user': 'alice-bb' })
+		).headers.get('mcp-session-id') as string;
+		const call = { jsonrpc: '2.0', id: 2, method: 'tools/call' };
+		const params = { name: 'whoami', arguments: {} };
+
+		const own = await post({ ...call, params }, sessionId, {
+			'x-principal': 'alice',
+		});
+		expect(await own.text()).toContain('user=alice-bb');
+
+		const other = await post({ ...call, params }, sessionId, {
+			'x-principal': 'bob',
+		});
+		expect(other.status).toBe(403);
+	});
+
+	it('should require client credentials when configured', async () => {
+		await start({
+			maxSessions: 10,
+			idleTimeoutMs: 0,
+			requireClientConfig: true,
+		});
+
+		expect((await initialize()).status).toBe(403);
+		expect((await initialize({ 'x-user': 'alice-bb' })).status).toBe(200);
+	});
+
+	it('should forget cached workspaces when a session ends', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 0 });
+		const sessionId = (
+			await initialize({ 'x-user': 'alice-bb' })
+		).headers.get('mcp-session-id') as string;
+		const workspaceOf = (values: Record<string, string>) =>
+			config.runWithSessionConfig(sessionId, values, getDefaultWorkspace);
+
+		expect(
+			await workspaceOf({ BITBUCKET_DEFAULT_WORKSPACE: 'first' }),
+		).toBe('first');
+		expect(
+			await workspaceOf({ BITBUCKET_DEFAULT_WORKSPACE: 'second' }),
+		).toBe('first');
+
+		await sessions.closeSession(sessionId);
+
+		expect(
+			await workspaceOf({ BITBUCKET_DEFAULT_WORKSPACE: 'second' }),
+		).toBe('second');
+	});
+
+	it('should close idle sessions', async () => {
+		await start({ maxSessions: 10, idleTimeoutMs: 60_000 });
+		await initialize();
+
+		expect(await sessions.closeIdleSessions()).toBe(0);
+
+		jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+		try {
+			expect(await sessions.closeIdleSessions()).toBe(1);
+		} finally {
+			jest.restoreAllMocks();
+		}
+		expect(sessions.size).toBe(0);
+	});
+});
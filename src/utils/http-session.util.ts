@@ -0,0 +1,329 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { clearWorkspaceCache } from './workspace.util.js';
+
+/**
+ * Default number of concurrent HTTP sessions (MCP_MAX_SESSIONS)
+ */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Default time in seconds after which a session without requests is closed
+ * (MCP_SESSION_IDLE_TIMEOUT_SECONDS)
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 1800;
+
+/**
+ * Longest interval between checks for idle sessions
+ */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Header carrying the session ID (see the MCP Streamable HTTP specification)
+ */
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * Limits applied by {@link HttpSessionManager}
+ */
+export interface HttpSessionOptions {
+	/** Maximum number of open sessions; 0 means unlimited */
+	maxSessions: number;
+	/** Close sessions without requests for this long; 0 disables expiry */
+	idleTimeoutMs: number;
+	/** Refuse sessions that do not supply their own Bitbucket credentials */
+	requireClientConfig?: boolean;
+}
+
+/**
+ * Who is making a request, as determined by the HTTP layer
+ */
+export interface HttpSessionClient {
+	/** Authenticated principal; a session only accepts requests from its own */
+	principal?: string;
+	/** Bitbucket configuration supplied by the client (credentials, workspace) */
+	config?: Record<string, string>;
+}
+
+/**
+ * An open client session
+ */
+interface HttpSession extends HttpSessionClient {
+	server: McpServer;
+	transport: StreamableHTTPServerTransport;
+	lastActivity: number;
+}
+
+// Create a contextualized logger for this file
+const sessionLogger = Logger.forContext('utils/http-session.util.ts');
+
+/**
+ * Read a non-negative integer from configuration
+ */
+function getNumber(key: string, defaultValue: number): number {
+	const value = config.get(key);
+	if (value === undefined) {
+		return defaultValue;
+	}
+	const parsed = parseInt(value, 10);
+	return isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+}
+
+/**
+ * Session limits from MCP_MAX_SESSIONS, MCP_SESSION_IDLE_TIMEOUT_SECONDS
+ * and MCP_REQUIRE_SESSION_CREDENTIALS
+ */
+export function getHttpSessionOptions(): HttpSessionOptions {
+	return {
+		maxSessions: getNumber('MCP_MAX_SESSIONS', DEFAULT_MAX_SESSIONS),
+		idleTimeoutMs:
+			getNumber(
+				'MCP_SESSION_IDLE_TIMEOUT_SECONDS',
+				DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+			) * 1000,
+		requireClientConfig: config.getBoolean(
+			'MCP_REQUIRE_SESSION_CREDENTIALS',
+		),
+	};
+}
+
+/**
+ * Send a JSON-RPC error response without a request ID
+ */
+function sendError(
+	res: ServerResponse,
+	status: number,
+	message: string,
+	headers: Record<string, string> = {},
+): void {
+	res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+	res.end(
+		JSON.stringify({
+			jsonrpc: '2.0',
+			error: { code: -32000, message },
+			id: null,
+		}),
+	);
+}
+
+/**
+ * Stateful Streamable HTTP sessions. An initialize request opens a session
+ * with its own transport and MCP server, keyed by the Mcp-Session-Id header
+ * returned to the client. Later POSTs carry client messages, GET opens the
+ * SSE stream for server-to-client messages and DELETE ends the session.
+ *
+ * A session is bound to the principal that opened it, and runs every request
+ * with the Bitbucket configuration the client supplied when opening it.
+ */
+export class HttpSessionManager {
+	private readonly sessions = new Map<string, HttpSession>();
+	private sweepTimer?: NodeJS.Timeout;
+
+	/**
+	 * @param createServer Builds the MCP server for a new session
+	 * @param options Session limits
+	 */
+	constructor(
+		private readonly createServer: () => McpServer,
+		private readonly options: HttpSessionOptions = getHttpSessionOptions(),
+	) {
+		if (options.idleTimeoutMs > 0) {
+			this.sweepTimer = setInterval(
+				() =>
+					this.closeIdleSessions().catch((error: unknown) => {
+						sessionLogger.warn(
+							'Failed to close idle sessions',
+							error,
+						);
+					}),
+				Math.min(options.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS),
+			);
+			this.sweepTimer.unref();
+		}
+	}
+
+	/**
+	 * Number of open sessions
+	 */
+	get size(): number {
+		return this.sessions.size;
+	}
+
+	/**
+	 * Handle a request to the MCP endpoint
+	 * @param req HTTP request
+	 * @param res HTTP response
+	 * @param body Request body, already parsed as JSON
+	 * @param client Who is making the request
+	 */
+	async handleRequest(
+		req: IncomingMessage,
+		res: ServerResponse,
+		body?: unknown,
+		client: HttpSessionClient = {},
+	): Promise<void> {
+		const header = req.headers[SESSION_HEADER];
+		const sessionId = Array.isArray(header) ? header[0] : header;
+
+		if (sessionId) {
+			const session = this.sessions.get(sessionId);
+			if (!session) {
+				// The specification asks clients to start a new session on 404
+				sendError(res, 404, 'Session not found');
+				return;
+			}
+			if (session.principal !== client.principal) {
+				sendError(res, 403, 'Session belongs to another client');
+				return;
+			}
+			session.lastActivity = Date.now();
+			await this.runInSession(sessionId, session, () =>
+				session.transport.handleRequest(req, res, body),
+			);
+			return;
+		}
+
+		if (req.method !== 'POST' || !isInitializeRequest(body)) {
+			sendError(
+				res,
+				400,
+				'Bad Request: Mcp-Session-Id header is required',
+			);
+			return;
+		}
+
+		if (
+			this.options.maxSessions > 0 &&
+			this.sessions.size >= this.options.maxSessions
+		) {
+			sessionLogger.warn(
+				`Rejected new session: ${this.sessions.size} sessions open (MCP_MAX_SESSIONS=${this.options.maxSessions})`,
+			);
+			sendError(res, 503, 'Too many sessions; try again later', {
+				'Retry-After': '60',
+			});
+			return;
+		}
+
+		if (this.options.requireClientConfig && !client.config) {
+			sendError(
+				res,
+				403,
+				'Bitbucket credentials are required: send them in X-Bitbucket-* headers',
+			);
+			return;
+		}
+
+		await this.openSession(req, res, body, client);
+	}
+
+	/**
+	 * Run an operation with the Bitbucket configuration of a session
+	 */
+	private runInSession<T>(
+		sessionId: string,
+		session: HttpSessionClient,
+		operation: () => T,
+	): T {
+		return session.config
+			? config.runWithSessionConfig(sessionId, session.config, operation)
+			: operation();
+	}
+
+	/**
+	 * Create a session for an initialize request
+	 */
+	private async openSession(
+		req: IncomingMessage,
+		res: ServerResponse,
+		body: unknown,
+		client: HttpSessionClient,
+	): Promise<void> {
+		const newSessionId = randomUUID();
+		const server = this.createServer();
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => newSessionId,
+			onsessioninitialized: (sessionId) => {
+				this.sessions.set(sessionId, {
+					...client,
+					server,
+					transport,
+					lastActivity: Date.now(),
+				});
+				sessionLogger.info(
+					`Session ${sessionId} opened (${this.sessions.size} open)`,
+				);
+			},
+		});
+		transport.onclose = () => {
+			const sessionId = transport.sessionId;
+			if (sessionId && this.sessions.delete(sessionId)) {
+				sessionLogger.info(
+					`Session ${sessionId} closed (${this.sessions.size} open)`,
+				);
+				// Drop data cached under the session's configuration
+				if (client.config) {
+					this.runInSession(sessionId, client, clearWorkspaceCache);
+				}
+				server.close().catch((error: unknown) => {
+					sessionLogger.warn(
+						`Error closing server of session ${sessionId}`,
+						error,
+					);
+				});
+			}
+		};
+
+		await server.connect(transport);
+		await this.runInSession(newSessionId, client, () =>
+			transport.handleRequest(req, res, body),
+		);
+	}
+
+	/**
+	 * Close a session and its server
+	 * @param sessionId The session to close
+	 */
+	async closeSession(sessionId: string): Promise<void> {
+		const session = this.sessions.get(sessionId);
+		if (session) {
+			// Triggers transport.onclose, which forgets the session
+			await session.transport.close();
+		}
+	}
+
+	/**
+	 * Close the sessions that have had no requests within the idle timeout
+	 * @returns The number of sessions closed
+	 */
+	async closeIdleSessions(): Promise<number> {
+		const cutoff = Date.now() - this.options.idleTimeoutMs;
+		const idle = [...this.sessions.entries()]
+			.filter(([, session]) => session.lastActivity < cutoff)
+			.map(([sessionId]) => sessionId);
+
+		for (const sessionId of idle) {
+			sessionLogger.info(`Session ${sessionId} expired after inactivity`);
+			await this.closeSession(sessionId);
+		}
+		return idle.length;
+	}
+
+	/**
+	 * Close every session and stop checking for idle ones
+	 */
+	async closeAll(): Promise<void> {
+		if (this.sweepTimer) {
+			clearInterval(this.sweepTimer);
+			this.sweepTimer = undefined;
+		}
+		for (const sessionId of [...this.sessions.keys()]) {
+			await this.closeSession(sessionId);
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	Counter,
+	Histogram,
+	applyToolMetrics,
+	renderMetrics,
+	resetMetrics,
+	toEndpointTemplate,
+} from './metrics.util.js';
+
+describe('Metrics Utility', () => {
+	beforeEach(() => {
+		resetMetrics();
+	});
+
+	describe('Counter and Histogram', () => {
+		it('should render the Prometheus text format', () => {
+			const counter = new Counter('test_total', 'Test counter.');
+			counter.inc({ code: 'NOT_FOUND' });
+			counter.inc({ code: 'NOT_FOUND' }, 2);
+			expect(counter.render()).toEqual([
+				'# HELP test_total Test counter.',
+				'# TYPE test_total counter',
+				'test_total{code="NOT_FOUND"} 3',
+			]);
+
+			const histogram = new Histogram(
+				'test_seconds',
+				'Test histogram.',
+				[0.1, 1],
+			);
+			histogram.observe({ endpoint: '/2.0/user' }, 0.5);
+			expect(histogram.render()).toEqual([
+				'# HELP test_seconds Test histogram.',
+				'# TYPE test_seconds histogram',
+				'test_seconds_bucket{endpoint="/2.0/user",le="0.1"} 0',
+				'test_seconds_bucket{endpoint="/2.0/user",le="1"} 1',
+				'test_seconds_bucket{endpoint="/2.0/user",le="+Inf"} 1',
+				'test_seconds_sum{endpoint="/2.0/user"} 0.5',
+				'test_seconds_count{endpoint="/2.0/user"} 1',
+			]);
+		});
+	});
+
+	describe('toEndpointTemplate', () => {
+		it('should replace identifiers with placeholders', () => {
+			expect(
+				toEndpointTemplate(
+					'/2.0/repositories/team/api/pullrequests/42/comments?pagelen=50',
+				),
+			).toBe(
+				'/2.0/repositories/{workspace}/{repo}/pullrequests/{id}/comments',
+			);
+			expect(
+				toEndpointTemplate(
+					'/2.0/repositories/team/api/src/main/src/a.ts',
+				),
+			).toBe('/2.0/repositories/{workspace}/{repo}/src/{ref}');
+			expect(
+				toEndpointTemplate(
+					'/rest/api/1.0/projects/PRJ/repos/api/pull-requests/3/participants/dev',
+				),
+			).toBe(
+				'/rest/api/1.0/projects/{project}/repos/{repo}/pull-requests/{id}/participants/{user}',
+			);
+			expect(
+				toEndpointTemplate(
+					'/2.0/repositories/team/api/pullrequests/7/merge/task-status/f3a9c1',
+				),
+			).toBe(
+				'/2.0/repositories/{workspace}/{repo}/pullrequests/{id}/merge/task-status/{task}',
+			);
+			expect(toEndpointTemplate('/2.0/workspaces/{abc-123}')).toBe(
+				'/2.0/workspaces/{workspace}',
+			);
+		});
+	});
+
+	describe('applyToolMetrics', () => {
+		it('should count tool calls by outcome', async () => {
+			const handlers: Array<() => Promise<{ isError?: boolean }>> = [];
+			const tool = jest.fn((...args: unknown[]) => {
+				handlers.push(args[args.length - 1] as () => Promise<never>);
+			});
+			const server = applyToolMetrics({ tool } as unknown as McpServer);
+
+			server.tool('bb_get_repo', 'Repository', {}, async () => ({
+				content: [],
+			}));
+			server.tool('bb_add_pr', 'Create', {}, async () => ({
+				content: [],
+				isError: true,
+			}));
+			await handlers[0]();
+			await handlers[0]();
+			await handlers[1]();
+
+			const metrics = renderMetrics();
+			expect(metrics).toContain(
+				'bitbucket_mcp_tool_calls_total{tool="bb_get_repo",status="success"} 2',
+			);
+			expect(metrics).toContain(
+				'bitbucket_mcp_tool_calls_total{tool="bb_add_pr",status="error"} 1',
+			);
+			expect(metrics).toContain(
+				'bitbucket_mcp_tool_duration_seconds_count{tool="bb_get_repo"} 2',
+			);
+		});
+	});
+});
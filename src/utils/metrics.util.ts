@@ -0,0 +1,363 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+/**
+ * Label values of one time series
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Default histogram buckets in seconds, from 5ms to 30s
+ */
+const DEFAULT_BUCKETS = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/**
+ * Path segments followed by an identifier that is replaced by a placeholder
+ * in endpoint templates. Identifiers that may contain slashes (refs, file
+ * paths, diff specs) end the template.
+ */
+const IDENTIFIER_PLACEHOLDERS: Record<
+	string,
+	{ placeholder: string; last?: boolean }
+> = {
+	workspaces: { placeholder: '{workspace}' },
+	projects: { placeholder: '{project}' },
+	repos: { placeholder: '{repo}' },
+	users: { placeholder: '{user}' },
+	participants: { placeholder: '{user}' },
+	commit: { placeholder: '{commit}' },
+	commits: { placeholder: '{commit}' },
+	src: { placeholder: '{ref}', last: true },
+	raw: { placeholder: '{ref}', last: true },
+	browse: { placeholder: '{path}', last: true },
+	branches: { placeholder: '{branch}', last: true },
+	tags: { placeholder: '{tag}', last: true },
+	diff: { placeholder: '{spec}', last: true },
+	diffstat: { placeholder: '{spec}', last: true },
+	patch: { placeholder: '{spec}', last: true },
+	'task-status': { placeholder: '{task}', last: true },
+};
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/\n/g, '\\n')
+		.replace(/"/g, '\\"');
+}
+
+/**
+ * Render a label set, e.g. {tool="bb_get_pr",status="success"}
+ */
+function formatLabels(labels: Labels): string {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) {
+		return '';
+	}
+	return `{${entries
+		.map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+		.join(',')}}`;
+}
+
+/**
+ * Common shape of the metrics kept by this module
+ */
+interface Metric {
+	readonly name: string;
+	render(): string[];
+	reset(): void;
+}
+
+/**
+ * Monotonic counter with labels
+ */
+export class Counter implements Metric {
+	private readonly values = new Map<
+		string,
+		{ labels: Labels; value: number }
+	>();
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+	) {}
+
+	inc(labels: Labels = {}, value: number = 1): void {
+		const key = JSON.stringify(labels);
+		const series = this.values.get(key) ?? { labels, value: 0 };
+		series.value += value;
+		this.values.set(key, series);
+	}
+
+	render(): string[] {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+			...[...this.values.values()].map(
+				(series) =>
+					`${this.name}${formatLabels(series.labels)} ${series.value}`,
+			),
+		];
+	}
+
+	reset(): void {
+		this.values.clear();
+	}
+}
+
+/**
+ * Histogram with cumulative buckets, a sum and a count per label set
+ */
+export class Histogram implements Metric {
+	private readonly values = new Map<
+		string,
+		{ labels: Labels; buckets: number[]; sum: number; count: number }
+	>();
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+		private readonly bounds: number[] = DEFAULT_BUCKETS,
+	) {}
+
+	observe(labels: Labels, value: number): void {
+		const key = JSON.stringify(labels);
+		const series = this.values.get(key) ?? {
+			labels,
+			buckets: this.bounds.map(() => 0),
+			sum: 0,
+			count: 0,
+		};
+		this.bounds.forEach((bound, index) => {
+			if (value <= bound) {
+				series.buckets[index]++;
+			}
+		});
+		series.sum += value;
+		series.count++;
+		this.values.set(key, series);
+	}
+
+	render(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} histogram`,
+		];
+		for (const series of this.values.values()) {
+			this.bounds.forEach((bound, index) => {
+				lines.push(
+					`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets[index]}`,
+				);
+			});
+			lines.push(
+				`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`,
+				`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`,
+				`${this.name}_count${formatLabels(series.labels)} ${series.count}`,
+			);
+		}
+		return lines;
+	}
+
+	reset(): void {
+		this.values.clear();
+	}
+}
+
+/**
+ * Gauge whose value is read when metrics are rendered
+ */
+export class Gauge implements Metric {
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+		private readonly collect: () => number,
+	) {}
+
+	render(): string[] {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} gauge`,
+			`${this.name} ${this.collect()}`,
+		];
+	}
+
+	reset(): void {}
+}
+
+const registry = new Map<string, Metric>();
+
+/**
+ * Add a metric to the registry, replacing any metric of the same name
+ */
+export function registerMetric<T extends Metric>(metric: T): T {
+	registry.set(metric.name, metric);
+	return metric;
+}
+
+/**
+ * MCP tool calls by tool and outcome
+ */
+export const toolCalls = registerMetric(
+	new Counter(
+		'bitbucket_mcp_tool_calls_total',
+		'MCP tool calls by tool and status (success or error).',
+	),
+);
+
+/**
+ * MCP tool call duration by tool
+ */
+export const toolDuration = registerMetric(
+	new Histogram(
+		'bitbucket_mcp_tool_duration_seconds',
+		'Duration of MCP tool calls in seconds.',
+	),
+);
+
+/**
+ * Errors raised by controllers, by error code and entity
+ */
+export const controllerErrors = registerMetric(
+	new Counter(
+		'bitbucket_mcp_controller_errors_total',
+		'Controller errors by error code and entity type.',
+	),
+);
+
+/**
+ * Bitbucket API latency by method, endpoint template and status code
+ */
+export const apiRequestDuration = registerMetric(
+	new Histogram(
+		'bitbucket_api_request_duration_seconds',
+		'Bitbucket API request duration in seconds by method, endpoint and status code.',
+	),
+);
+
+/**
+ * Response cache lookups by result
+ */
+export const cacheLookups = registerMetric(
+	new Counter(
+		'bitbucket_api_cache_lookups_total',
+		'Response cache lookups by result (hit, miss or revalidated).',
+	),
+);
+
+/**
+ * Retried Bitbucket API requests by the status that caused the retry
+ */
+export const apiRetries = registerMetric(
+	new Counter(
+		'bitbucket_api_retries_total',
+		'Bitbucket API request retries by the status code that caused them.',
+	),
+);
+
+/**
+ * Render every registered metric in the Prometheus text exposition format
+ * @returns The metrics document
+ */
+export function renderMetrics(): string {
+	return (
+		[...registry.values()].flatMap((metric) => metric.render()).join('\n') +
+		'\n'
+	);
+}
+
+/**
+ * Clear the values of every metric (mainly for tests)
+ */
+export function resetMetrics(): void {
+	registry.forEach((metric) => metric.reset());
+}
+
+/**
+ * Reduce an API path to a template with bounded cardinality, e.g.
+ * /2.0/repositories/team/api/pullrequests/42 becomes
+ * /2.0/repositories/{workspace}/{repo}/pullrequests/{id}
+ * @param apiPath API path, with or without a query string
+ * @returns The endpoint template
+ */
+export function toEndpointTemplate(apiPath: string): string {
+	const segments = apiPath.split('?')[0].split('/');
+	const template: string[] = [];
+
+	for (let index = 0; index < segments.length; index++) {
+		const segment = segments[index];
+		template.push(
+			/^\d+$/.test(segment)
+				? '{id}'
+				: /^\{[^}]+\}$/.test(segment)
+					? '{uuid}'
+					: segment,
+		);
+
+		const hasNext = index + 1 < segments.length && segments[index + 1];
+		if (segment === 'repositories' && hasNext) {
+			// Cloud: /repositories/{workspace}/{repo}
+			template.push('{workspace}');
+			index++;
+			if (segments[index + 1]) {
+				template.push('{repo}');
+				index++;
+			}
+		} else if (IDENTIFIER_PLACEHOLDERS[segment] && hasNext) {
+			const { placeholder, last } = IDENTIFIER_PLACEHOLDERS[segment];
+			template.push(placeholder);
+			if (last) {
+				break;
+			}
+			index++;
+		}
+	}
+
+	return template.join('/');
+}
+
+/**
+ * Wrap an MCP server so that every tool registered through it counts its
+ * calls and measures their duration. All other server methods are passed
+ * through.
+ * @param server The MCP server
+ * @returns A view of the server for registering tools
+ */
+export function applyToolMetrics(server: McpServer): McpServer {
+	return new Proxy(server, {
+		get(target, property) {
+			if (property === 'tool' || property === 'registerTool') {
+				return (name: string, ...rest: unknown[]) => {
+					const handler = rest.pop() as (
+						...args: unknown[]
+					) => Promise<{ isError?: boolean }>;
+					return (
+						target[property] as (...args: unknown[]) => unknown
+					).apply(target, [
+						name,
+						...rest,
+						async (...args: unknown[]) => {
+							const startedAt = Date.now();
+							let status = 'error';
+							try {
+								const result = await handler(...args);
+								status = result?.isError ? 'error' : 'success';
+								return result;
+							} finally {
+								toolCalls.inc({ tool: name, status });
+								toolDuration.observe(
+									{ tool: name },
+									(Date.now() - startedAt) / 1000,
+								);
+							}
+						},
+					]);
+				};
+			}
+			const value = Reflect.get(target, property);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	});
+}
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { Agent, Dispatcher, ProxyAgent } from 'undici';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { createApiError, createUnexpectedError } from './error.util.js';
+
+const networkLogger = Logger.forContext('utils/network.util.ts');
+
+/**
+ * Proxy and TLS settings shared by API requests and git operations
+ */
+export interface NetworkSettings {
+	/** Proxy URL for HTTPS traffic (HTTPS_PROXY) */
+	proxyUrl?: string;
+	/** Hosts that bypass the proxy (NO_PROXY) */
+	noProxy: string[];
+	/** PEM bundle of extra trusted CA certificates */
+	caFile?: string;
+	/** PEM client certificate for mutual TLS */
+	certFile?: string;
+	/** PEM private key of the client certificate */
+	keyFile?: string;
+	/** Passphrase of the private key */
+	keyPassphrase?: string;
+}
+
+/**
+ * Read a setting in either upper or lower case, as proxy variables are
+ * conventionally set both ways
+ */
+function getEither(name: string): string | undefined {
+	return config.get(name) || config.get(name.toLowerCase()) || undefined;
+}
+
+/**
+ * Read the network settings from the environment and configuration.
+ * @returns Proxy and TLS settings
+ */
+export function getNetworkSettings(): NetworkSettings {
+	return {
+		proxyUrl: getEither('HTTPS_PROXY') || getEither('HTTP_PROXY'),
+		noProxy: (getEither('NO_PROXY') || '')
+			.split(/[,\s]+/)
+			.map((entry) => entry.trim().toLowerCase())
+			.filter(Boolean),
+		caFile: config.get('BITBUCKET_CA_FILE'),
+		certFile: config.get('BITBUCKET_CLIENT_CERT'),
+		keyFile: config.get('BITBUCKET_CLIENT_KEY'),
+		keyPassphrase: config.get('BITBUCKET_CLIENT_KEY_PASSPHRASE'),
+	};
+}
+
+/**
+ * Check whether a URL bypasses the proxy according to NO_PROXY rules:
+ * `*` matches everything, `example.com` and `.example.com` match the domain
+ * and its subdomains, and an optional `:port` restricts the match to a port.
+ * @param url The request URL
+ * @param noProxy Parsed NO_PROXY entries
+ * @returns True if the URL should be fetched directly
+ */
+export function shouldBypassProxy(url: string, noProxy: string[]): boolean {
+	const { hostname, port, protocol } = new URL(url);
+	const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+	const effectivePort = port || (protocol === 'http:' ? '80' : '443');
+
+	return noProxy.some((entry) => {
+		if (entry === '*') {
+			return true;
+		}
+		const match = entry.match(/^(.*?)(?::(\d+))?$/);
+		const entryHost = (match?.[1] || '')
+			.replace(/^\*?\./, '')
+			.replace(/^\[|\]$/g, '');
+		const entryPort = match?.[2];
+		if (!entryHost || (entryPort && entryPort !== effectivePort)) {
+			return false;
+		}
+		return host === entryHost || host.endsWith(`.${entryHost}`);
+	});
+}
+
+/**
+ * Resolve the proxy to use for a URL.
+ * @param url The request URL
+ * @param settings Network settings
+ * @returns The proxy URL, or undefined to connect directly
+ */
+export function getProxyForUrl(
+	url: string,
+	settings: NetworkSettings = getNetworkSettings(),
+): string | undefined {
+	if (!settings.proxyUrl || shouldBypassProxy(url, settings.noProxy)) {
+		return undefined;
+	}
+	return settings.proxyUrl;
+}
+
+/**
+ * Read a PEM file named by a setting
+ */
+function readPemFile(file: string, setting: string): Buffer {
+	try {
+		return fs.readFileSync(file);
+	} catch (error) {
+		throw createUnexpectedError(
+			`Cannot read ${setting} file "${file}": ${error instanceof Error ? error.message : String(error)}`,
+			error,
+		);
+	}
+}
+
+/**
+ * CA certificates to trust when BITBUCKET_CA_FILE is set: its CAs are added
+ * to Node's bundled roots rather than replacing them
+ */
+function getTrustedCas(caFile: string): string[] {
+	return [
+		...tls.rootCertificates,
+		readPemFile(caFile, 'BITBUCKET_CA_FILE').toString(),
+	];
+}
+
+/**
+ * Build the TLS options for the configured CA bundle and client certificate.
+ */
+function buildTlsOptions(settings: NetworkSettings): tls.ConnectionOptions {
+	const options: tls.ConnectionOptions = {};
+	if (settings.caFile) {
+		options.ca = getTrustedCas(settings.caFile);
+	}
+	if (settings.certFile) {
+		options.cert = readPemFile(settings.certFile, 'BITBUCKET_CLIENT_CERT');
+		options.key = readPemFile(
+			settings.keyFile || settings.certFile,
+			'BITBUCKET_CLIENT_KEY',
+		);
+		options.passphrase = settings.keyPassphrase;
+	}
+	return options;
+}
+
+/**
+ * Dispatchers by settings, so connections are pooled across requests
+ */
+const dispatchers = new Map<string, Dispatcher>();
+
+/**
+ * Get the undici dispatcher that applies the proxy and TLS settings to a
+ * request. Returns undefined when nothing is configured, so the default
+ * global dispatcher is used.
+ * @param url The request URL
+ * @returns A dispatcher to pass to fetch, or undefined
+ */
+export function getDispatcher(url: string): Dispatcher | undefined {
+	const settings = getNetworkSettings();
+	const proxyUrl = getProxyForUrl(url, settings);
+	if (!proxyUrl && !settings.caFile && !settings.certFile) {
+		return undefined;
+	}
+
+	const key = JSON.stringify({
+		proxyUrl,
+		caFile: settings.caFile,
+		certFile: settings.certFile,
+		keyFile: settings.keyFile,
+	});
+	let dispatcher = dispatchers.get(key);
+	if (!dispatcher) {
+		const tlsOptions = buildTlsOptions(settings);
+		networkLogger.debug(
+			`Creating dispatcher (proxy: ${proxyUrl ? new URL(proxyUrl).host : 'none'}, custom CA: ${Boolean(settings.caFile)}, client certificate: ${Boolean(settings.certFile)})`,
+		);
+		dispatcher = proxyUrl
+			? new ProxyAgent({
+					uri: proxyUrl,
+					requestTls: tlsOptions,
+					proxyTls: { ca: tlsOptions.ca },
+				})
+			: new Agent({ connect: tlsOptions });
+		dispatchers.set(key, dispatcher);
+	}
+	return dispatcher;
+}
+
+/**
+ * fetch() with the configured proxy and TLS settings applied.
+ * @param url The request URL
+ * @param init Request options
+ * @returns The response
+ */
+export function networkFetch(
+	url: string,
+	init: RequestInit = {},
+): Promise<Response> {
+	const dispatcher = getDispatcher(url);
+	// Node's fetch accepts an undici dispatcher, which RequestInit does not declare
+	return fetch(
+		url,
+		dispatcher ? ({ ...init, dispatcher } as RequestInit) : init,
+	);
+}
+
+/**
+ * Write the CAs trusted by API requests to a bundle git can read, because
+ * git's http.sslCAInfo replaces its CA list instead of adding to it. The
+ * file is named by its content, so it is written once per bundle.
+ * @returns Path of the bundle
+ */
+function writeGitCaBundle(caFile: string): string {
+	const bundle = `${getTrustedCas(caFile).join('\n').trim()}\n`;
+	const hash = crypto
+		.createHash('sha256')
+		.update(bundle)
+		.digest('hex')
+		.substring(0, 16);
+	const file = path.join(os.tmpdir(), `bitbucket-mcp-ca-${hash}.pem`);
+	if (!fs.existsSync(file)) {
+		// Write beside it and rename, so no git process reads half a bundle
+		const partial = `${file}.${process.pid}`;
+		fs.writeFileSync(partial, bundle);
+		fs.renameSync(partial, file);
+	}
+	return file;
+}
+
+/**
+ * Build the environment that applies the proxy and TLS settings to a git
+ * operation over HTTPS, as `GIT_CONFIG_KEY_<n>`/`GIT_CONFIG_VALUE_<n>`
+ * entries (git 2.31+). Settings travel in the environment rather than as
+ * `git -c` options so that proxy credentials stay off the command line.
+ * SSH remotes are left untouched.
+ * @param remoteUrl The git remote URL
+ * @returns Variables to add to the environment of the git process
+ * @throws {McpError} If the client key is encrypted or a PEM file is unreadable
+ */
+export function getGitConfigEnv(remoteUrl: string): Record<string, string> {
+	if (!/^https?:\/\//i.test(remoteUrl)) {
+		return {};
+	}
+
+	const settings = getNetworkSettings();
+	const entries: [string, string][] = [];
+	if (settings.proxyUrl) {
+		// An empty http.proxy also stops git from using the proxy environment
+		entries.push(['http.proxy', getProxyForUrl(remoteUrl, settings) || '']);
+	}
+	if (settings.caFile) {
+		entries.push(['http.sslCAInfo', writeGitCaBundle(settings.caFile)]);
+	}
+	if (settings.certFile) {
+		const keyFile = settings.keyFile || settings.certFile;
+		// git would prompt for the passphrase, which cannot be answered here
+		if (
+			settings.keyPassphrase ||
+			readPemFile(keyFile, 'BITBUCKET_CLIENT_KEY')
+				.toString()
+				.includes('ENCRYPTED')
+		) {
+			throw createApiError(
+				'git cannot use an encrypted client key (BITBUCKET_CLIENT_KEY_PASSPHRASE). Use an unencrypted key to clone over HTTPS, or clone over SSH.',
+				400,
+			);
+		}
+		entries.push(['http.sslCert', settings.certFile]);
+		entries.push(['http.sslKey', keyFile]);
+	}
+	if (entries.length === 0) {
+		return {};
+	}
+
+	// Keep any configuration the environment already passes this way
+	const offset = parseInt(process.env.GIT_CONFIG_COUNT ?? '', 10) || 0;
+	const env: Record<string, string> = {
+		GIT_CONFIG_COUNT: String(offset + entries.length),
+	};
+	entries.forEach(([key, value], index) => {
+		env[`GIT_CONFIG_KEY_${offset + index}`] = key;
+		env[`GIT_CONFIG_VALUE_${offset + index}`] = value;
+	});
+	return env;
+}
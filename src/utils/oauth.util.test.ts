@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	buildAuthorizeUrl,
+	clearOAuthToken,
+	createPkcePair,
+	getOAuthEndpoints,
+	isTokenExpired,
+	loadOAuthToken,
+	OAuthClientConfig,
+	saveOAuthToken,
+	waitForAuthorizationCode,
+} from './oauth.util.js';
+
+describe('OAuth Utility', () => {
+	const client: OAuthClientConfig = {
+		clientId: 'client-id',
+		clientSecret: 'client-secret',
+		redirectPort: 38765,
+	};
+
+	describe('getOAuthEndpoints', () => {
+		it('should use Bitbucket Cloud endpoints by default', () => {
+			expect(getOAuthEndpoints().tokenUrl).toBe(
+				'https://bitbucket.org/site/oauth2/access_token',
+			);
+		});
+
+		it('should use the Data Center OAuth 2.0 provider', () => {
+			expect(
+				getOAuthEndpoints('https://bitbucket.example.com').authorizeUrl,
+			).toBe(
+				'https://bitbucket.example.com/rest/oauth2/latest/authorize',
+			);
+		});
+	});
+
+	describe('buildAuthorizeUrl', () => {
+		it('should request a code with PKCE and the loopback redirect', () => {
+			const { challenge } = createPkcePair();
+			const url = new URL(
+				buildAuthorizeUrl(
+					getOAuthEndpoints(),
+					client,
+					'xyz',
+					challenge,
+				),
+			);
+
+			expect(url.searchParams.get('client_id')).toBe('client-id');
+			expect(url.searchParams.get('response_type')).toBe('code');
+			expect(url.searchParams.get('redirect_uri')).toBe(
+				'http://localhost:38765/callback',
+			);
+			expect(url.searchParams.get('state')).toBe('xyz');
+			expect(url.searchParams.get('code_challenge')).toBe(challenge);
+		});
+	});
+
+	describe('isTokenExpired', () => {
+		it('should treat tokens close to expiry as expired', () => {
+			const now = Date.now();
+
+			expect(isTokenExpired({ accessToken: 'a' }, now)).toBe(false);
+			expect(
+				isTokenExpired(
+					{ accessToken: 'a', expiresAt: now + 30000 },
+					now,
+				),
+			).toBe(true);
+			expect(
+				isTokenExpired(
+					{ accessToken: 'a', expiresAt: now + 600000 },
+					now,
+				),
+			).toBe(false);
+		});
+	});
+
+	describe('token persistence', () => {
+		const originalEnv = { ...process.env };
+		let directory: string;
+
+		beforeEach(() => {
+			directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-oauth-'));
+			process.env.BITBUCKET_OAUTH_TOKEN_FILE = path.join(
+				directory,
+				'nested',
+				'token.json',
+			);
+		});
+
+		afterEach(() => {
+			process.env = { ...originalEnv };
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		it('should save, load and clear the token', () => {
+			expect(loadOAuthToken()).toBeUndefined();
+
+			saveOAuthToken({ accessToken: 'a', refreshToken: 'r' });
+			expect(loadOAuthToken()).toEqual({
+				accessToken: 'a',
+				refreshToken: 'r',
+			});
+
+			expect(clearOAuthToken()).toBe(true);
+			expect(loadOAuthToken()).toBeUndefined();
+			expect(clearOAuthToken()).toBe(false);
+		});
+	});
+
+	describe('waitForAuthorizationCode', () => {
+		it('should resolve with the code from the loopback callback', async () => {
+			const codePromise = waitForAuthorizationCode(
+				38765,
+				'state-1',
+				5000,
+			);
+
+			const response = await fetch(
+				'http://127.0.0.1:38765/callback?code=abc&state=state-1',
+			);
+
+			expect(response.status).toBe(200);
+			await expect(codePromise).resolves.toBe('abc');
+		});
+
+		it('should reject a callback with a mismatched state', async () => {
+			const codePromise = waitForAuthorizationCode(
+				38766,
+				'state-1',
+				5000,
+			);
+			const rejection =
+				expect(codePromise).rejects.toThrow('state mismatch');
+
+			const response = await fetch(
+				'http://127.0.0.1:38766/callback?code=abc&state=other',
+			);
+
+			expect(response.status).toBe(400);
+			await rejection;
+		});
+	});
+});
@@ -0,0 +1,429 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import {
+	createAuthInvalidError,
+	createAuthMissingError,
+} from './error.util.js';
+import { networkFetch } from './network.util.js';
+
+/**
+ * OAuth 2.0 token set persisted between runs
+ */
+export interface OAuthToken {
+	accessToken: string;
+	refreshToken?: string;
+	/** Epoch milliseconds at which the access token expires */
+	expiresAt?: number;
+	/** Space-separated scopes granted by the user */
+	scopes?: string;
+}
+
+/**
+ * OAuth consumer (client) configuration
+ */
+export interface OAuthClientConfig {
+	clientId: string;
+	clientSecret?: string;
+	/** Port of the local loopback server receiving the authorization code */
+	redirectPort: number;
+}
+
+/**
+ * Authorization and token endpoints of the identity provider
+ */
+export interface OAuthEndpoints {
+	authorizeUrl: string;
+	tokenUrl: string;
+	/** How the client authenticates to the token endpoint */
+	clientAuth: 'basic' | 'body';
+}
+
+/**
+ * Default port of the loopback callback server
+ */
+const DEFAULT_REDIRECT_PORT = 8765;
+
+/**
+ * Refresh access tokens this long before they expire
+ */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Create a contextualized logger for this file
+const oauthLogger = Logger.forContext('utils/oauth.util.ts');
+
+/**
+ * Get the OAuth consumer configuration.
+ * Reads BITBUCKET_OAUTH_CLIENT_ID, BITBUCKET_OAUTH_CLIENT_SECRET and
+ * BITBUCKET_OAUTH_REDIRECT_PORT.
+ * @returns The client configuration, or null if no client ID is configured
+ */
+export function getOAuthClientConfig(): OAuthClientConfig | null {
+	const clientId = config.get('BITBUCKET_OAUTH_CLIENT_ID');
+	if (!clientId) {
+		return null;
+	}
+	const port = parseInt(
+		config.get(
+			'BITBUCKET_OAUTH_REDIRECT_PORT',
+			String(DEFAULT_REDIRECT_PORT),
+		) as string,
+		10,
+	);
+	return {
+		clientId,
+		clientSecret: config.get('BITBUCKET_OAUTH_CLIENT_SECRET'),
+		redirectPort: isNaN(port) ? DEFAULT_REDIRECT_PORT : port,
+	};
+}
+
+/**
+ * Get the OAuth endpoints for Bitbucket Cloud or a Data Center / Server instance
+ * @param serverBaseUrl Base URL of a Data Center / Server instance, if any
+ * @returns Authorization and token endpoints
+ */
+export function getOAuthEndpoints(serverBaseUrl?: string): OAuthEndpoints {
+	if (serverBaseUrl) {
+		return {
+			authorizeUrl: `${serverBaseUrl}/rest/oauth2/latest/authorize`,
+			tokenUrl: `${serverBaseUrl}/rest/oauth2/latest/token`,
+			clientAuth: 'body',
+		};
+	}
+	return {
+		authorizeUrl: 'https://bitbucket.org/site/oauth2/authorize',
+		tokenUrl: 'https://bitbucket.org/site/oauth2/access_token',
+		clientAuth: 'basic',
+	};
+}
+
+/**
+ * Get the loopback redirect URI registered with the OAuth consumer
+ * @param client OAuth client configuration
+ * @returns Redirect URI
+ */
+export function getRedirectUri(client: OAuthClientConfig): string {
+	return `http://localhost:${client.redirectPort}/callback`;
+}
+
+/**
+ * Get the path of the persisted token file
+ * (BITBUCKET_OAUTH_TOKEN_FILE, default ~/.mcp/data/bitbucket-oauth.json, or
+ * bitbucket-oauth.<profile>.json while a profile is active)
+ */
+export function getTokenFilePath(): string {
+	const profile = config.getActiveProfile();
+	return (
+		config.get('BITBUCKET_OAUTH_TOKEN_FILE') ||
+		path.join(
+			os.homedir(),
+			'.mcp',
+			'data',
+			profile
+				? `bitbucket-oauth.${profile}.json`
+				: 'bitbucket-oauth.json',
+		)
+	);
+}
+
+/**
+ * Load the persisted OAuth token
+ * @returns The stored token, or undefined if none has been saved
+ */
+export function loadOAuthToken(): OAuthToken | undefined {
+	try {
+		const stored = JSON.parse(
+			fs.readFileSync(getTokenFilePath(), 'utf8'),
+		) as OAuthToken;
+		return stored.accessToken ? stored : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Persist an OAuth token, readable only by the current user
+ * @param token Token to store
+ */
+export function saveOAuthToken(token: OAuthToken): void {
+	const filePath = getTokenFilePath();
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, JSON.stringify(token, null, 2), {
+		mode: 0o600,
+	});
+	oauthLogger.debug(`Saved OAuth token to ${filePath}`);
+}
+
+/**
+ * Remove the persisted OAuth token
+ * @returns True if a token was removed
+ */
+export function clearOAuthToken(): boolean {
+	const filePath = getTokenFilePath();
+	if (!fs.existsSync(filePath)) {
+		return false;
+	}
+	fs.rmSync(filePath);
+	return true;
+}
+
+/**
+ * Check whether an access token is expired or about to expire
+ * @param token Token to check
+ * @param now Current time in milliseconds (for testing)
+ */
+export function isTokenExpired(
+	token: OAuthToken,
+	now: number = Date.now(),
+): boolean {
+	return (
+		token.expiresAt !== undefined &&
+		token.expiresAt - EXPIRY_MARGIN_MS <= now
+	);
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+	const verifier = crypto.randomBytes(32).toString('base64url');
+	const challenge = crypto
+		.createHash('sha256')
+		.update(verifier)
+		.digest('base64url');
+	return { verifier, challenge };
+}
+
+/**
+ * Build the URL the user opens to authorize the consumer
+ * @param endpoints OAuth endpoints
+ * @param client OAuth client configuration
+ * @param state Anti-CSRF state value echoed back to the callback
+ * @param codeChallenge PKCE S256 code challenge
+ * @returns Authorization URL
+ */
+export function buildAuthorizeUrl(
+	endpoints: OAuthEndpoints,
+	client: OAuthClientConfig,
+	state: string,
+	codeChallenge: string,
+): string {
+	const params = new URLSearchParams({
+		client_id: client.clientId,
+		response_type: 'code',
+		redirect_uri: getRedirectUri(client),
+		state,
+		code_challenge: codeChallenge,
+		code_challenge_method: 'S256',
+	});
+	return `${endpoints.authorizeUrl}?${params.toString()}`;
+}
+
+/**
+ * Call the token endpoint with a form-encoded grant
+ * @param endpoints OAuth endpoints
+ * @param client OAuth client configuration
+ * @param grant Grant parameters (grant_type, code, refresh_token...)
+ * @returns The issued token
+ * @throws {McpError} If the provider rejects the grant
+ */
+async function requestToken(
+	endpoints: OAuthEndpoints,
+	client: OAuthClientConfig,
+	grant: Record<string, string>,
+): Promise<OAuthToken> {
+	const methodLogger = oauthLogger.forMethod('requestToken');
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/x-www-form-urlencoded',
+		Accept: 'application/json',
+	};
+	const body = new URLSearchParams({ ...grant, client_id: client.clientId });
+	if (client.clientSecret && endpoints.clientAuth === 'basic') {
+		headers.Authorization = `Basic ${Buffer.from(
+			`${client.clientId}:${client.clientSecret}`,
+		).toString('base64')}`;
+	} else if (client.clientSecret) {
+		body.set('client_secret', client.clientSecret);
+	}
+
+	methodLogger.debug(`Requesting ${grant.grant_type} token`);
+	const response = await networkFetch(endpoints.tokenUrl, {
+		method: 'POST',
+		headers,
+		body: body.toString(),
+	});
+	const text = await response.text();
+	if (!response.ok) {
+		throw createAuthInvalidError(
+			`OAuth token request failed: ${response.status} ${response.statusText}`,
+			text,
+		);
+	}
+
+	const data = JSON.parse(text) as {
+		access_token: string;
+		refresh_token?: string;
+		expires_in?: number;
+		scopes?: string;
+		scope?: string;
+	};
+	return {
+		accessToken: data.access_token,
+		refreshToken: data.refresh_token,
+		expiresAt: data.expires_in
+			? Date.now() + data.expires_in * 1000
+			: undefined,
+		scopes: data.scopes ?? data.scope,
+	};
+}
+
+/**
+ * Exchange an authorization code for tokens
+ * @param endpoints OAuth endpoints
+ * @param client OAuth client configuration
+ * @param code Authorization code received on the callback
+ * @param codeVerifier PKCE code verifier used for the authorization request
+ * @returns The issued token
+ */
+export function exchangeAuthorizationCode(
+	endpoints: OAuthEndpoints,
+	client: OAuthClientConfig,
+	code: string,
+	codeVerifier: string,
+): Promise<OAuthToken> {
+	return requestToken(endpoints, client, {
+		grant_type: 'authorization_code',
+		code,
+		code_verifier: codeVerifier,
+		redirect_uri: getRedirectUri(client),
+	});
+}
+
+/**
+ * Obtain a new access token using a refresh token.
+ * Providers may omit a new refresh token, in which case the old one is kept.
+ * @param endpoints OAuth endpoints
+ * @param client OAuth client configuration
+ * @param refreshToken Refresh token
+ * @returns The refreshed token
+ */
+export async function refreshOAuthToken(
+	endpoints: OAuthEndpoints,
+	client: OAuthClientConfig,
+	refreshToken: string,
+): Promise<OAuthToken> {
+	const token = await requestToken(endpoints, client, {
+		grant_type: 'refresh_token',
+		refresh_token: refreshToken,
+	});
+	return { ...token, refreshToken: token.refreshToken ?? refreshToken };
+}
+
+/**
+ * Start a loopback HTTP server and wait for the provider to redirect the
+ * browser back with an authorization code.
+ * @param port Port to listen on
+ * @param state Expected state value
+ * @param timeoutMs How long to wait for the user
+ * @returns The authorization code
+ */
+export function waitForAuthorizationCode(
+	port: number,
+	state: string,
+	timeoutMs: number = 5 * 60 * 1000,
+): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const finish = (error: Error | null, code?: string) => {
+			clearTimeout(timer);
+			server.close();
+			if (error) {
+				reject(error);
+			} else {
+				resolve(code as string);
+			}
+		};
+
+		const server = http.createServer((req, res) => {
+			const url = new URL(req.url || '/', `http://localhost:${port}`);
+			if (url.pathname !== '/callback') {
+				res.writeHead(404).end();
+				return;
+			}
+
+			const error = url.searchParams.get('error');
+			const code = url.searchParams.get('code');
+			const ok =
+				!error && code && url.searchParams.get('state') === state;
+			res.writeHead(ok ? 200 : 400, {
+				'Content-Type': 'text/plain',
+				Connection: 'close',
+			}).end(
+				ok
+					? 'Authorization complete. You can close this window.'
+					: 'Authorization failed. Return to the terminal for details.',
+			);
+
+			if (error) {
+				finish(
+					createAuthInvalidError(
+						`Authorization was denied: ${url.searchParams.get('error_description') || error}`,
+					),
+				);
+			} else if (!ok) {
+				finish(
+					createAuthInvalidError(
+						'Invalid authorization callback (missing code or state mismatch)',
+					),
+				);
+			} else {
+				finish(null, code as string);
+			}
+		});
+
+		const timer = setTimeout(
+			() =>
+				finish(
+					createAuthMissingError(
+						'Timed out waiting for the OAuth authorization callback',
+					),
+				),
+			timeoutMs,
+		);
+
+		server.on('error', (error) => finish(error));
+		server.listen(port, '127.0.0.1');
+	});
+}
+
+/**
+ * Run the full authorization code flow and persist the resulting token
+ * @param endpoints OAuth endpoints
+ * @param client OAuth client configuration
+ * @param onAuthorizeUrl Called with the URL the user must open
+ * @returns The stored token
+ */
+export async function authorizeWithLoopback(
+	endpoints: OAuthEndpoints,
+	client: OAuthClientConfig,
+	onAuthorizeUrl: (url: string) => void,
+): Promise<OAuthToken> {
+	const state = crypto.randomBytes(16).toString('hex');
+	const pkce = createPkcePair();
+	const codePromise = waitForAuthorizationCode(client.redirectPort, state);
+
+	onAuthorizeUrl(buildAuthorizeUrl(endpoints, client, state, pkce.challenge));
+
+	const code = await codePromise;
+	const token = await exchangeAuthorizationCode(
+		endpoints,
+		client,
+		code,
+		pkce.verifier,
+	);
+	saveOAuthToken(token);
+	return token;
+}
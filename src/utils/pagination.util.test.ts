@@ -0,0 +1,203 @@
+import { fetchPages, iterateItems, iteratePages } from './pagination.util.js';
+import { MAX_ITEMS_LIMIT } from './defaults.util.js';
+
+describe('Pagination Utility', () => {
+	/**
+	 * Fake list endpoint serving `total` numbered items in pages of
+	 * `pagelen`, with Bitbucket Cloud style `next` URLs
+	 */
+	const createFetcher = (total: number, pagelen: number) => {
+		const requested: (string | undefined)[] = [];
+		const fetchPage = jest.fn(async (cursor?: string) => {
+			requested.push(cursor);
+			const page = cursor ? parseInt(cursor, 10) : 1;
+			const start = (page - 1) * pagelen;
+			const values = Array.from(
+				{ length: Math.max(0, Math.min(pagelen, total - start)) },
+				(_, index) => start + index + 1,
+			);
+			return {
+				values,
+				page,
+				pagelen,
+				size: total,
+				next:
+					start + pagelen < total
+						? `https://api.bitbucket.org/2.0/x?page=${page + 1}`
+						: undefined,
+			};
+		});
+		return { fetchPage, requested };
+	};
+
+	describe('iteratePages', () => {
+		it('should follow next pages until the last one', async () => {
+			const { fetchPage, requested } = createFetcher(5, 2);
+
+			const cursors: (string | undefined)[] = [];
+			for await (const { cursor } of iteratePages(fetchPage)) {
+				cursors.push(cursor);
+			}
+
+			expect(cursors).toEqual([undefined, '2', '3']);
+			expect(requested).toEqual([undefined, '2', '3']);
+		});
+
+		it('should stop when a page points back to one already fetched', async () => {
+			const fetchPage = jest.fn(async () => ({
+				values: [1],
+				page: 1,
+				pagelen: 1,
+				next: 'available',
+			}));
+
+			const pages = [];
+			for await (const entry of iteratePages(fetchPage, '2')) {
+				pages.push(entry);
+			}
+
+			expect(fetchPage).toHaveBeenCalledTimes(1);
+			expect(pages).toHaveLength(1);
+		});
+	});
+
+	describe('iterateItems', () => {
+		it('should yield every item across pages, starting at a cursor', async () => {
+			const { fetchPage } = createFetcher(7, 3);
+
+			const items: number[] = [];
+			for await (const item of iterateItems(fetchPage, '2')) {
+				items.push(item);
+			}
+
+			expect(items).toEqual([4, 5, 6, 7]);
+		});
+	});
+
+	describe('fetchPages', () => {
+		it('should fetch a single page unless all is set', async () => {
+			const { fetchPage } = createFetcher(5, 2);
+
+			const { data, pagination } = await fetchPages(fetchPage, {
+				cursor: '2',
+			});
+
+			expect(fetchPage).toHaveBeenCalledTimes(1);
+			expect(data.values).toEqual([3, 4]);
+			expect(pagination).toMatchObject({
+				hasMore: true,
+				count: 2,
+				nextCursor: '3',
+			});
+		});
+
+		it('should combine every page into one response', async () => {
+			const { fetchPage } = createFetcher(5, 2);
+
+			const { data, pagination } = await fetchPages(fetchPage, {
+				all: true,
+			});
+
+			expect(data.values).toEqual([1, 2, 3, 4, 5]);
+			expect(data.next).toBeUndefined();
+			expect(pagination).toEqual({
+				hasMore: false,
+				count: 5,
+				total: 5,
+				nextCursor: undefined,
+			});
+		});
+
+		it('should report the items fetched after each page', async () => {
+			const { fetchPage } = createFetcher(5, 2);
+			const onProgress = jest.fn();
+
+			await fetchPages(fetchPage, { all: true }, { onProgress });
+
+			expect(onProgress.mock.calls.map(([update]) => update)).toEqual([
+				{ progress: 2, total: 5, message: 'Fetched page 1 (2 items)' },
+				{ progress: 4, total: 5, message: 'Fetched page 2 (4 items)' },
+				{ progress: 5, total: 5, message: 'Fetched page 3 (5 items)' },
+			]);
+		});
+
+		it('should stop at maxItems and resume after the items returned from a cut page', async () => {
+			const { fetchPage, requested } = createFetcher(10, 4);
+
+			const first = await fetchPages(fetchPage, {
+				all: true,
+				maxItems: 6,
+			});
+
+			expect(first.data.values).toEqual([1, 2, 3, 4, 5, 6]);
+			expect(first.pagination).toMatchObject({
+				hasMore: true,
+				nextCursor: '2:2',
+			});
+
+			const second = await fetchPages(fetchPage, {
+				all: true,
+				cursor: first.pagination?.nextCursor,
+			});
+
+			expect(second.data.values).toEqual([7, 8, 9, 10]);
+			expect(second.pagination?.hasMore).toBe(false);
+			expect(requested).toEqual([undefined, '2', '2', '3']);
+		});
+
+		it('should return every item once when resuming across several cut pages', async () => {
+			const { fetchPage } = createFetcher(10, 4);
+
+			const items: number[] = [];
+			let cursor: string | undefined;
+			do {
+				const { data, pagination } = await fetchPages(fetchPage, {
+					all: true,
+					maxItems: 3,
+					cursor,
+				});
+				items.push(...(data.values ?? []));
+				cursor = pagination?.nextCursor;
+			} while (cursor);
+
+			expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+		});
+
+		it('should skip the items already returned when a single page resumes a cut page', async () => {
+			const { fetchPage, requested } = createFetcher(10, 4);
+
+			const { data, pagination } = await fetchPages(fetchPage, {
+				cursor: '2:3',
+			});
+
+			expect(requested).toEqual(['2']);
+			expect(data.values).toEqual([8]);
+			expect(pagination?.nextCursor).toBe('3');
+		});
+
+		it('should resume from the next page when maxItems ends a page', async () => {
+			const { fetchPage } = createFetcher(10, 4);
+
+			const { data, pagination } = await fetchPages(fetchPage, {
+				all: true,
+				maxItems: 4,
+			});
+
+			expect(fetchPage).toHaveBeenCalledTimes(1);
+			expect(data.values).toEqual([1, 2, 3, 4]);
+			expect(pagination?.nextCursor).toBe('2');
+		});
+
+		it('should never exceed the hard item limit', async () => {
+			const { fetchPage } = createFetcher(MAX_ITEMS_LIMIT + 50, 100);
+
+			const { data, pagination } = await fetchPages(fetchPage, {
+				all: true,
+				maxItems: MAX_ITEMS_LIMIT * 2,
+			});
+
+			expect(data.values).toHaveLength(MAX_ITEMS_LIMIT);
+			expect(pagination?.hasMore).toBe(true);
+		});
+	});
+});
@@ -1,5 +1,7 @@
 import { Logger } from './logger.util.js';
 import { ResponsePagination } from '../types/common.types.js';
+import { DEFAULT_MAX_ITEMS, MAX_ITEMS_LIMIT } from './defaults.util.js';
+import { ProgressCallback, reportProgress } from './progress.util.js';
 
 /**
  * Represents the possible pagination types.
@@ -167,3 +169,194 @@ export function extractPaginationInfo<T extends Partial<PaginationData>>(
 
 	return pagination;
 }
+
+/**
+ * A page of a Bitbucket list response
+ */
+export type PageResponse<TItem> = Omit<PaginationData, 'values'> & {
+	values?: TItem[];
+};
+
+/**
+ * Fetches one page of a list; `cursor` is undefined for the first page
+ */
+export type PageFetcher<TResponse> = (cursor?: string) => Promise<TResponse>;
+
+/**
+ * Options for fetching one or all pages of a list
+ */
+export interface FetchPagesOptions {
+	/** Fetch every page instead of one */
+	all?: boolean;
+	/** Cap on the total number of items when `all` is set */
+	maxItems?: number;
+	/**
+	 * Cursor of the first page to fetch. A cursor returned after stopping
+	 * part-way through a page also holds how many of its items to skip.
+	 */
+	cursor?: string;
+}
+
+/**
+ * Separates the page cursor from the number of items of that page already
+ * returned, in cursors that resume part-way through a page (e.g. "3:10")
+ */
+const ITEM_OFFSET_SEPARATOR = ':';
+
+/**
+ * Split a cursor into the page cursor and the number of items to skip
+ * @param cursor Cursor from a previous response
+ * @returns The page cursor and the items of that page to skip
+ */
+function parseCursor(cursor?: string): { cursor?: string; skip: number } {
+	const separator = cursor?.lastIndexOf(ITEM_OFFSET_SEPARATOR) ?? -1;
+	const skip = cursor?.slice(separator + 1);
+	if (!cursor || separator < 0 || !skip || !/^\d+$/.test(skip)) {
+		return { cursor, skip: 0 };
+	}
+	return { cursor: cursor.slice(0, separator), skip: parseInt(skip, 10) };
+}
+
+/**
+ * Iterate over the pages of a Bitbucket list, following the `next` page of
+ * each response until the last one.
+ * @param fetchPage Fetches a page by cursor
+ * @param startCursor Cursor of the first page
+ * @yields Each page with the cursor that fetched it
+ */
+export async function* iteratePages<TResponse extends PageResponse<unknown>>(
+	fetchPage: PageFetcher<TResponse>,
+	startCursor?: string,
+): AsyncGenerator<{ page: TResponse; cursor?: string }> {
+	const seen = new Set<string | undefined>();
+	let cursor = startCursor;
+	while (!seen.has(cursor)) {
+		seen.add(cursor);
+		const page = await fetchPage(cursor);
+		yield { page, cursor };
+
+		const pagination = extractPaginationInfo(page, PaginationType.PAGE);
+		if (!pagination?.hasMore || !pagination.nextCursor) {
+			return;
+		}
+		cursor = pagination.nextCursor;
+	}
+}
+
+/**
+ * Iterate over the items of a Bitbucket list across all its pages.
+ * @param fetchPage Fetches a page by cursor
+ * @param startCursor Cursor of the first page
+ * @yields Each item in order
+ */
+export async function* iterateItems<TItem>(
+	fetchPage: PageFetcher<PageResponse<TItem>>,
+	startCursor?: string,
+): AsyncGenerator<TItem> {
+	for await (const { page } of iteratePages(fetchPage, startCursor)) {
+		yield* page.values ?? [];
+	}
+}
+
+/**
+ * Fetch one page of a list, or every page up to `maxItems` when `all` is
+ * set. Complete results are returned as a single page of the original
+ * response type, so existing formatters can render them.
+ * @param fetchPage Fetches a page by cursor
+ * @param options Paging options
+ * @param progressOptions Receives the number of items fetched after each page when `all` is set
+ * @returns The (combined) response and its pagination information
+ */
+export async function fetchPages<TItem, TResponse extends PageResponse<TItem>>(
+	fetchPage: PageFetcher<TResponse>,
+	options: FetchPagesOptions = {},
+	progressOptions: { onProgress?: ProgressCallback } = {},
+): Promise<{ data: TResponse; pagination?: ResponsePagination }> {
+	const start = parseCursor(options.cursor);
+
+	if (!options.all) {
+		const page = await fetchPage(start.cursor);
+		const data =
+			start.skip > 0
+				? { ...page, values: page.values?.slice(start.skip) }
+				: page;
+		return {
+			data,
+			pagination: extractPaginationInfo(data, PaginationType.PAGE),
+		};
+	}
+
+	const methodLogger = Logger.forContext(
+		'utils/pagination.util.ts',
+		'fetchPages',
+	);
+	const maxItems = Math.min(
+		options.maxItems ?? DEFAULT_MAX_ITEMS,
+		MAX_ITEMS_LIMIT,
+	);
+	const values: TItem[] = [];
+	let first: TResponse | undefined;
+	let last: TResponse | undefined;
+	let resumeCursor: string | undefined;
+	let pages = 0;
+	let skip = start.skip;
+
+	for await (const { page, cursor } of iteratePages(
+		fetchPage,
+		start.cursor,
+	)) {
+		first ??= page;
+		last = page;
+		pages++;
+		// Only the first page can have items already returned by an earlier call
+		const pageValues = (page.values ?? []).slice(skip);
+		const room = maxItems - values.length;
+		values.push(...pageValues.slice(0, room));
+		if (pageValues.length > 0) {
+			reportProgress(progressOptions, {
+				progress: values.length,
+				total:
+					first.size !== undefined
+						? Math.min(first.size, maxItems)
+						: undefined,
+				message: `Fetched page ${pages} (${values.length} items)`,
+			});
+		}
+		if (pageValues.length > room) {
+			// Resume part-way through this page, after the items returned now
+			resumeCursor = `${cursor ?? '1'}${ITEM_OFFSET_SEPARATOR}${skip + room}`;
+			break;
+		}
+		skip = 0;
+		if (values.length >= maxItems) {
+			resumeCursor = extractPaginationInfo(
+				page,
+				PaginationType.PAGE,
+			)?.nextCursor;
+			break;
+		}
+	}
+
+	methodLogger.debug(
+		`Fetched ${values.length} items from ${pages} page(s)${resumeCursor ? ` (stopped at maxItems ${maxItems})` : ''}`,
+	);
+
+	const firstPage = first ?? ({} as TResponse);
+	const data = {
+		...firstPage,
+		values,
+		page: 1,
+		pagelen: values.length,
+		next: undefined,
+	} as TResponse;
+
+	return {
+		data,
+		pagination: {
+			hasMore: resumeCursor !== undefined,
+			count: values.length,
+			total: last?.size ?? firstPage.size,
+			nextCursor: resumeCursor,
+		},
+	};
+}
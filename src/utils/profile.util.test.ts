@@ -0,0 +1,112 @@
+import { config } from './config.util.js';
+import { withProfile } from './profile.util.js';
+import { getAtlassianCredentials } from './transport.util.js';
+import { getDefaultWorkspace } from './workspace.util.js';
+
+describe('Credential profiles', () => {
+	const originalEnv = { ...process.env };
+
+	beforeAll(() => {
+		config.setProfile('client-a', {
+			ATLASSIAN_BITBUCKET_USERNAME: 'client-a-user',
+			ATLASSIAN_BITBUCKET_APP_PASSWORD: 'client-a-secret',
+			BITBUCKET_DEFAULT_WORKSPACE: 'client-a-workspace',
+		});
+	});
+
+	beforeEach(() => {
+		process.env.BITBUCKET_ACCESS_TOKEN = 'company-token';
+		process.env.BITBUCKET_DEFAULT_WORKSPACE = 'company-workspace';
+		process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = '7';
+	});
+
+	afterEach(() => {
+		process.env = { ...originalEnv };
+		config.setDefaultProfile(undefined);
+	});
+
+	it('should resolve credentials from the active profile only', async () => {
+		const credentials = await config.runWithProfile('client-a', async () =>
+			getAtlassianCredentials(),
+		);
+
+		expect(credentials).toEqual({
+			authType: 'app-password',
+			bitbucketUsername: 'client-a-user',
+			bitbucketAppPassword: 'client-a-secret',
+		});
+		expect(getAtlassianCredentials()?.accessToken).toBe('company-token');
+	});
+
+	it('should fall back to the environment for non-profile settings', () => {
+		config.runWithProfile('client-a', () => {
+			expect(config.get('BITBUCKET_RETRY_MAX_ATTEMPTS')).toBe('7');
+			expect(config.get('BITBUCKET_BASE_URL')).toBeUndefined();
+		});
+	});
+
+	it('should resolve the default workspace per profile', async () => {
+		await expect(
+			config.runWithProfile('client-a', () => getDefaultWorkspace()),
+		).resolves.toBe('client-a-workspace');
+		await expect(getDefaultWorkspace()).resolves.toBe('company-workspace');
+	});
+
+	it('should apply the CLI default profile', () => {
+		config.setDefaultProfile('client-a');
+
+		expect(config.getActiveProfile()).toBe('client-a');
+		expect(config.get('BITBUCKET_ACCESS_TOKEN')).toBeUndefined();
+	});
+
+	it('should reject unknown profiles', () => {
+		expect(() => config.runWithProfile('missing', () => 1)).toThrow(
+			'Unknown profile "missing". Available profiles: client-a',
+		);
+	});
+
+	it('should isolate credentials supplied by an HTTP session', async () => {
+		await config.runWithSessionConfig(
+			'abc',
+			{
+				ATLASSIAN_BITBUCKET_USERNAME: 'tenant-user',
+				ATLASSIAN_BITBUCKET_APP_PASSWORD: 'tenant-secret',
+			},
+			async () => {
+				expect(getAtlassianCredentials()).toEqual({
+					authType: 'app-password',
+					bitbucketUsername: 'tenant-user',
+					bitbucketAppPassword: 'tenant-secret',
+				});
+				expect(config.getActiveProfile()).toBe('session:abc');
+				expect(config.get('BITBUCKET_RETRY_MAX_ATTEMPTS')).toBe('7');
+				await expect(getDefaultWorkspace()).resolves.toBe(
+					'company-workspace',
+				);
+				expect(() =>
+					config.runWithProfile('client-a', () => 1),
+				).toThrow(
+					'Profile "client-a" cannot be used: this session supplied its own Bitbucket credentials',
+				);
+			},
+		);
+	});
+
+	it('should run tool handlers with the requested profile', async () => {
+		const handler = withProfile(async (args: { profile?: string }) => ({
+			content: [
+				{
+					type: 'text' as const,
+					text: `${args.profile}:${config.getActiveProfile()}`,
+				},
+			],
+		}));
+
+		await expect(handler({ profile: 'client-a' })).resolves.toEqual({
+			content: [{ type: 'text', text: 'client-a:client-a' }],
+		});
+
+		const failed = await handler({ profile: 'missing' });
+		expect(failed.content[0].text).toContain('Unknown profile "missing"');
+	});
+});
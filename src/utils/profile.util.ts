@@ -0,0 +1,38 @@
+import { config } from './config.util.js';
+import { formatErrorForMcpTool } from './error.util.js';
+import { CallOptions } from './transport.util.js';
+import {
+	createProgressNotifier,
+	ProgressRequestExtra,
+} from './progress.util.js';
+
+/**
+ * Wrap an MCP tool handler so that it runs with the profile named in its
+ * `profile` argument. Unknown profiles are reported as tool errors.
+ * The request's abort signal is forwarded to the handler, along with a
+ * progress callback when the client asked for progress notifications.
+ * @param handler The tool handler
+ * @returns A handler that activates the requested profile first
+ */
+export function withProfile<TArgs extends { profile?: string }, TResult>(
+	handler: (args: TArgs, options: CallOptions) => Promise<TResult>,
+): (
+	args: TArgs,
+	extra?: Pick<CallOptions, 'signal'> & ProgressRequestExtra,
+) => Promise<TResult | ReturnType<typeof formatErrorForMcpTool>> {
+	return async (
+		args: TArgs,
+		extra: Pick<CallOptions, 'signal'> & ProgressRequestExtra = {},
+	) => {
+		try {
+			return await config.runWithProfile(args.profile, () =>
+				handler(args, {
+					signal: extra.signal,
+					onProgress: createProgressNotifier(extra),
+				}),
+			);
+		} catch (error) {
+			return formatErrorForMcpTool(error);
+		}
+	};
+}
@@ -0,0 +1,125 @@
+import {
+	createProgressNotifier,
+	parseGitProgress,
+	reportProgress,
+	withCliProgress,
+} from './progress.util.js';
+
+describe('Progress Utility', () => {
+	describe('parseGitProgress', () => {
+		it('should map git clone phases onto overall progress', () => {
+			expect(
+				parseGitProgress(
+					'remote: Counting objects: 100% (40/40), done.',
+				),
+			).toEqual({
+				progress: 5,
+				total: 100,
+				message: 'Counting objects: 100% (40/40)',
+			});
+			expect(
+				parseGitProgress(
+					'Receiving objects:  50% (500/1000), 1.20 MiB | 2.00 MiB/s',
+				),
+			).toMatchObject({ progress: 45 });
+			expect(
+				parseGitProgress('Resolving deltas: 100% (200/200), done.'),
+			).toMatchObject({ progress: 95 });
+		});
+
+		it('should ignore lines without progress', () => {
+			expect(
+				parseGitProgress("Cloning into '/tmp/repo'..."),
+			).toBeUndefined();
+			expect(parseGitProgress('Receiving objects:  4')).toBeUndefined();
+		});
+	});
+
+	describe('createProgressNotifier', () => {
+		it('should do nothing without a progress token', () => {
+			expect(
+				createProgressNotifier({ sendNotification: jest.fn() }),
+			).toBeUndefined();
+		});
+
+		it('should send increasing progress across consecutive steps', () => {
+			const sendNotification = jest.fn().mockResolvedValue(undefined);
+			const notify = createProgressNotifier({
+				_meta: { progressToken: 'token-1' },
+				sendNotification,
+			});
+
+			notify?.({ progress: 2, total: 4, message: 'Fetched page 1' });
+			notify?.({ progress: 4, total: 4, message: 'Fetched page 2' });
+			notify?.({ progress: 1, total: 2, message: 'Compared 4 files' });
+
+			expect(
+				sendNotification.mock.calls.map(([notification]) => [
+					notification.params.progress,
+					notification.params.total,
+				]),
+			).toEqual([
+				[2, 4],
+				[4, 4],
+				[5, 6],
+			]);
+			expect(sendNotification.mock.calls[0][0]).toMatchObject({
+				method: 'notifications/progress',
+				params: { progressToken: 'token-1', message: 'Fetched page 1' },
+			});
+		});
+	});
+
+	describe('reportProgress', () => {
+		it('should never fail the operation', () => {
+			const onProgress = jest.fn(() => {
+				throw new Error('client gone');
+			});
+
+			expect(() =>
+				reportProgress({ onProgress }, { progress: 1 }),
+			).not.toThrow();
+			expect(() => reportProgress({}, { progress: 1 })).not.toThrow();
+		});
+	});
+
+	describe('withCliProgress', () => {
+		it('should draw on a terminal and clear the line when done', async () => {
+			const write = jest.fn();
+			const stream = {
+				isTTY: true,
+				columns: 80,
+				write,
+			} as unknown as NodeJS.WriteStream;
+
+			const result = await withCliProgress(async ({ onProgress }) => {
+				onProgress?.({
+					progress: 1,
+					total: 4,
+					message: 'Fetched page 1',
+				});
+				return 'done';
+			}, stream);
+
+			expect(result).toBe('done');
+			expect(write.mock.calls[0][0]).toContain(
+				'[#####...............] 25% Fetched page 1',
+			);
+			expect(write.mock.lastCall?.[0]).toBe('\r\x1b[2K');
+		});
+
+		it('should stay silent when output is not a terminal', async () => {
+			const write = jest.fn();
+			const stream = {
+				isTTY: false,
+				write,
+			} as unknown as NodeJS.WriteStream;
+
+			await withCliProgress(async ({ onProgress }) => {
+				expect(onProgress).toBeUndefined();
+			}, stream);
+
+			expect(write).not.toHaveBeenCalled();
+		});
+	});
+});
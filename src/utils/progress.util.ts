@@ -0,0 +1,200 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './logger.util.js';
+
+const progressLogger = Logger.forContext('utils/progress.util.ts');
+
+/**
+ * Progress of a long-running operation
+ */
+export interface ProgressUpdate {
+	/** Work done so far in the current step, e.g. items fetched or percent */
+	progress: number;
+	/** Total work of the current step, if known */
+	total?: number;
+	/** What is happening, e.g. "Receiving objects: 45% (450/1000)" */
+	message?: string;
+}
+
+/**
+ * Receives progress updates from controllers
+ */
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+/**
+ * Parts of an MCP request used to send progress notifications
+ */
+export type ProgressRequestExtra = Partial<
+	Pick<
+		RequestHandlerExtra<ServerRequest, ServerNotification>,
+		'_meta' | 'sendNotification'
+	>
+>;
+
+/**
+ * Report progress to the caller, if it asked for it. Failures to deliver
+ * progress never fail the operation itself.
+ * @param options - Call options holding the progress callback
+ * @param update - Progress of the current step
+ */
+export function reportProgress(
+	options: { onProgress?: ProgressCallback },
+	update: ProgressUpdate,
+): void {
+	if (!options.onProgress) {
+		return;
+	}
+	try {
+		options.onProgress(update);
+	} catch (error) {
+		progressLogger.debug('Failed to report progress', error);
+	}
+}
+
+/**
+ * Create a progress callback that sends MCP progress notifications for a
+ * tool call. MCP requires the progress value to increase with every
+ * notification, so an update that does not exceed the previous one starts
+ * a new step, counted on from where the previous step ended.
+ * @param extra - The tool call's request handler extra
+ * @returns The callback, or undefined if the client sent no progress token
+ */
+export function createProgressNotifier(
+	extra: ProgressRequestExtra = {},
+): ProgressCallback | undefined {
+	const progressToken = extra._meta?.progressToken;
+	const sendNotification = extra.sendNotification;
+	if (progressToken === undefined || !sendNotification) {
+		return undefined;
+	}
+
+	let base = 0;
+	let lastStepProgress = 0;
+	let lastSent = 0;
+	return ({ progress, total, message }) => {
+		if (progress <= lastStepProgress) {
+			base = lastSent;
+		}
+		lastStepProgress = progress;
+		lastSent = base + progress;
+		sendNotification({
+			method: 'notifications/progress',
+			params: {
+				progressToken,
+				progress: lastSent,
+				total: total !== undefined ? base + total : undefined,
+				message,
+			},
+		}).catch((error) =>
+			progressLogger.debug('Failed to send progress notification', error),
+		);
+	};
+}
+
+/**
+ * Share of overall clone progress taken by each phase git reports
+ */
+const GIT_PHASES: Array<{ name: string; start: number; end: number }> = [
+	{ name: 'Counting objects', start: 0, end: 5 },
+	{ name: 'Compressing objects', start: 5, end: 10 },
+	{ name: 'Receiving objects', start: 10, end: 80 },
+	{ name: 'Resolving deltas', start: 80, end: 95 },
+	{ name: 'Updating files', start: 95, end: 100 },
+];
+
+const GIT_PROGRESS_PATTERN =
+	/(Counting objects|Compressing objects|Receiving objects|Resolving deltas|Updating files):\s+(\d+)%/;
+
+/**
+ * Parse one line of `git clone --progress` output
+ * @param line - A line of git's stderr, e.g. "Receiving objects:  45% (450/1000)"
+ * @returns Overall clone progress in percent, or undefined if the line
+ *   reports no progress
+ */
+export function parseGitProgress(line: string): ProgressUpdate | undefined {
+	const match = GIT_PROGRESS_PATTERN.exec(line);
+	if (!match) {
+		return undefined;
+	}
+	const phase = GIT_PHASES.find(({ name }) => name === match[1]);
+	if (!phase) {
+		return undefined;
+	}
+	const percent = Math.min(parseInt(match[2], 10), 100);
+	return {
+		progress: Math.floor(
+			phase.start + ((phase.end - phase.start) * percent) / 100,
+		),
+		total: 100,
+		message: line
+			.replace(/^remote:\s*/, '')
+			.replace(/,\s*done\.?$/, '')
+			.trim(),
+	};
+}
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const BAR_WIDTH = 20;
+
+/**
+ * Render a progress update as one terminal line
+ */
+function renderProgressLine(frame: string, update?: ProgressUpdate): string {
+	if (!update) {
+		return `${frame} Working...`;
+	}
+	const parts = [frame];
+	if (update.total) {
+		const ratio = Math.min(Math.max(update.progress / update.total, 0), 1);
+		const filled = Math.round(ratio * BAR_WIDTH);
+		parts.push(
+			`[${'#'.repeat(filled)}${'.'.repeat(BAR_WIDTH - filled)}] ${Math.round(ratio * 100)}%`,
+		);
+	}
+	parts.push(update.message ?? `${update.progress}`);
+	return parts.join(' ');
+}
+
+/**
+ * Run a CLI operation while showing its progress as a spinner (and a
+ * progress bar, when the total is known) on stderr. Nothing is shown when
+ * stderr is not a terminal, so piped output stays clean.
+ * @param run - The operation, called with the progress callback to pass on
+ * @param stream - Terminal to draw on
+ * @returns The operation's result
+ */
+export async function withCliProgress<T>(
+	run: (options: { onProgress?: ProgressCallback }) => Promise<T>,
+	stream: NodeJS.WriteStream = process.stderr,
+): Promise<T> {
+	if (!stream.isTTY) {
+		return run({});
+	}
+
+	let frame = 0;
+	let latest: ProgressUpdate | undefined;
+	const draw = () => {
+		const line = renderProgressLine(
+			SPINNER_FRAMES[frame++ % SPINNER_FRAMES.length],
+			latest,
+		);
+		stream.write(`\r\x1b[2K${line.slice(0, (stream.columns || 80) - 1)}`);
+	};
+	const timer = setInterval(draw, 100);
+	timer.unref();
+
+	try {
+		return await run({
+			onProgress: (update) => {
+				latest = update;
+				draw();
+			},
+		});
+	} finally {
+		clearInterval(timer);
+		stream.write('\r\x1b[2K');
+	}
+}
@@ -0,0 +1,51 @@
+import { PROMPT_SECTION_MAX_LENGTH, buildPrompt } from './prompt.util.js';
+
+describe('Prompt Utility', () => {
+	describe('buildPrompt', () => {
+		it('should put the instructions and sections in one user message', () => {
+			const result = buildPrompt('Review of PR #7', 'Review this.', [
+				{ title: 'Pull Request', body: '# PR #7\n' },
+				{ title: 'Diff', body: 'diff --git a/x b/x', language: 'diff' },
+			]);
+
+			expect(result.description).toBe('Review of PR #7');
+			expect(result.messages).toHaveLength(1);
+			expect(result.messages[0]).toEqual({
+				role: 'user',
+				content: {
+					type: 'text',
+					text: [
+						'Review this.',
+						'',
+						'## Pull Request',
+						'',
+						'# PR #7',
+						'',
+						'## Diff',
+						'',
+						'```diff',
+						'diff --git a/x b/x',
+						'```',
+					].join('\n'),
+				},
+			});
+		});
+
+		it('should truncate long sections', () => {
+			const result = buildPrompt('Notes', 'Write notes.', [
+				{
+					title: 'Commits',
+					body: 'x'.repeat(PROMPT_SECTION_MAX_LENGTH + 10),
+				},
+			]);
+			const text = (result.messages[0].content as { text: string }).text;
+
+			expect(text).not.toContain(
+				'x'.repeat(PROMPT_SECTION_MAX_LENGTH + 1),
+			);
+			expect(text).toContain(
+				`*Truncated to the first ${PROMPT_SECTION_MAX_LENGTH} characters.*`,
+			);
+		});
+	});
+});
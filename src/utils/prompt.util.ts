@@ -0,0 +1,68 @@
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatHeading } from './formatter.util.js';
+
+/**
+ * Maximum length of a single context section in a prompt, so that a large
+ * diff or comment thread cannot crowd out the instructions
+ */
+export const PROMPT_SECTION_MAX_LENGTH = 100_000;
+
+/**
+ * Context fetched from Bitbucket for a prompt
+ */
+export interface PromptSection {
+	/** Section heading */
+	title: string;
+	/** Section content (Markdown unless `language` is set) */
+	body: string;
+	/** Fence the body as a code block in this language (e.g. "diff") */
+	language?: string;
+}
+
+/**
+ * Assemble a prompt: the instructions followed by each context section,
+ * as a single user message. Sections longer than
+ * {@link PROMPT_SECTION_MAX_LENGTH} are truncated with a note.
+ * @param description Prompt description returned to the client
+ * @param instructions What the assistant should do with the context
+ * @param sections Context fetched from Bitbucket
+ * @returns The prompt result
+ */
+export function buildPrompt(
+	description: string,
+	instructions: string,
+	sections: PromptSection[],
+): GetPromptResult {
+	const lines: string[] = [instructions];
+
+	for (const section of sections) {
+		let body = section.body.trim();
+		const truncated = body.length > PROMPT_SECTION_MAX_LENGTH;
+		if (truncated) {
+			body = body.substring(0, PROMPT_SECTION_MAX_LENGTH);
+		}
+
+		lines.push('', formatHeading(section.title, 2), '');
+		lines.push(
+			section.language
+				? ['```' + section.language, body, '```'].join('\n')
+				: body,
+		);
+		if (truncated) {
+			lines.push(
+				'',
+				`*Truncated to the first ${PROMPT_SECTION_MAX_LENGTH} characters.*`,
+			);
+		}
+	}
+
+	return {
+		description,
+		messages: [
+			{
+				role: 'user',
+				content: { type: 'text', text: lines.join('\n') },
+			},
+		],
+	};
+}
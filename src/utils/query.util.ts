@@ -50,3 +50,18 @@ export function formatBitbucketQuery(
 	// Wrap in double quotes to handle spaces and special characters
 	return `${field} ~ "${query}"`;
 }
+
+/**
+ * Escape a value for use inside a double-quoted BBQL string, so that quotes
+ * and backslashes in it cannot end the string or change the query
+ *
+ * @param value - The raw value
+ * @returns The value with `"` and `\` escaped
+ *
+ * @example
+ * // Returns: a\"b
+ * escapeBbqlString('a"b')
+ */
+export function escapeBbqlString(value: string): string {
+	return value.replace(/["\\]/g, '\\$&');
+}
@@ -0,0 +1,67 @@
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+	buildResourceUri,
+	getUriVariable,
+	textResource,
+} from './resource.util.js';
+
+describe('Resource Utility', () => {
+	describe('buildResourceUri', () => {
+		it('should encode each segment', () => {
+			expect(buildResourceUri('team', 'api', 'pr', '42')).toBe(
+				'bitbucket://team/api/pr/42',
+			);
+			expect(buildResourceUri('team', 'my repo')).toBe(
+				'bitbucket://team/my%20repo',
+			);
+		});
+	});
+
+	describe('getUriVariable', () => {
+		it('should decode variables matched by a template', () => {
+			const template = new UriTemplate(
+				'bitbucket://{workspace}/{repo}/src/{ref}/{+path}',
+			);
+			const variables = template.match(
+				'bitbucket://team/api/src/feature%2Flogin/src/index.ts',
+			);
+
+			expect(variables).not.toBeNull();
+			expect(getUriVariable(variables!, 'ref')).toBe('feature/login');
+			expect(getUriVariable(variables!, 'path')).toBe('src/index.ts');
+			expect(getUriVariable(variables!, 'missing')).toBe('');
+		});
+
+		it('should keep pull request URIs apart from their diff', () => {
+			const pr = new UriTemplate(
+				'bitbucket://{workspace}/{repo}/pr/{id}',
+			);
+
+			expect(pr.match('bitbucket://team/api/pr/7')).toEqual({
+				workspace: 'team',
+				repo: 'api',
+				id: '7',
+			});
+			expect(pr.match('bitbucket://team/api/pr/7/diff')).toBeNull();
+		});
+	});
+
+	describe('textResource', () => {
+		it('should wrap text with the URI and MIME type', () => {
+			const uri = new URL('bitbucket://team/api/pr/7/diff');
+
+			expect(textResource(uri, 'diff --git', 'text/x-diff')).toEqual({
+				contents: [
+					{
+						uri: 'bitbucket://team/api/pr/7/diff',
+						mimeType: 'text/x-diff',
+						text: 'diff --git',
+					},
+				],
+			});
+			expect(textResource(uri, '# PR').contents[0].mimeType).toBe(
+				'text/markdown',
+			);
+		});
+	});
+});
@@ -0,0 +1,42 @@
+import { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+/**
+ * URI scheme of the Bitbucket MCP resources
+ */
+export const RESOURCE_SCHEME = 'bitbucket';
+
+/**
+ * Get a decoded variable of a matched resource URI template
+ * @param variables Variables matched by the template
+ * @param name Variable name
+ * @returns The decoded value (first value if the variable repeats)
+ */
+export function getUriVariable(variables: Variables, name: string): string {
+	const value = variables[name];
+	return decodeURIComponent((Array.isArray(value) ? value[0] : value) ?? '');
+}
+
+/**
+ * Build a resource URI from path segments, encoding each one
+ * @param segments Workspace, repository and further path segments
+ * @returns The resource URI, e.g. bitbucket://team/api/pr/42
+ */
+export function buildResourceUri(...segments: string[]): string {
+	return `${RESOURCE_SCHEME}://${segments.map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Wrap text as the result of reading a resource
+ * @param uri The resource URI
+ * @param text The resource content
+ * @param mimeType Content type; Markdown by default
+ * @returns The read result
+ */
+export function textResource(
+	uri: URL,
+	text: string,
+	mimeType: string = 'text/markdown',
+): ReadResourceResult {
+	return { contents: [{ uri: uri.href, mimeType, text }] };
+}
@@ -0,0 +1,199 @@
+import {
+	computeRetryDelay,
+	getRetryPolicy,
+	isRetryableError,
+	parseRetryAfter,
+	RetryPolicy,
+	withRetry,
+} from './retry.util.js';
+import {
+	createApiError,
+	createAuthInvalidError,
+	ErrorType,
+	formatErrorForMcpTool,
+	McpError,
+} from './error.util.js';
+
+describe('Retry Utility', () => {
+	const policy: RetryPolicy = {
+		maxAttempts: 3,
+		baseDelayMs: 0,
+		maxDelayMs: 1000,
+		jitter: false,
+		retryMutations: false,
+	};
+
+	describe('getRetryPolicy', () => {
+		const originalEnv = { ...process.env };
+
+		afterEach(() => {
+			process.env = { ...originalEnv };
+		});
+
+		it('should read overrides from configuration', () => {
+			process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = '5';
+			process.env.BITBUCKET_RETRY_MUTATIONS = 'true';
+			process.env.BITBUCKET_RETRY_JITTER = 'false';
+
+			const result = getRetryPolicy();
+
+			expect(result.maxAttempts).toBe(5);
+			expect(result.retryMutations).toBe(true);
+			expect(result.jitter).toBe(false);
+		});
+
+		it('should fall back to defaults for invalid values', () => {
+			process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = 'many';
+
+			expect(getRetryPolicy().maxAttempts).toBe(3);
+		});
+	});
+
+	describe('parseRetryAfter', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z');
+
+		it('should parse Retry-After seconds and dates', () => {
+			expect(parseRetryAfter(new Headers({ 'Retry-After': '7' }))).toBe(
+				7000,
+			);
+			expect(
+				parseRetryAfter(
+					new Headers({
+						'Retry-After': 'Wed, 01 Jan 2025 00:00:30 GMT',
+					}),
+					now,
+				),
+			).toBe(30000);
+		});
+
+		it('should use X-RateLimit-Reset once the quota is exhausted', () => {
+			const headers = new Headers({
+				'X-RateLimit-Remaining': '0',
+				'X-RateLimit-Reset': String(now / 1000 + 60),
+			});
+
+			expect(parseRetryAfter(headers, now)).toBe(60000);
+		});
+
+		it('should ignore X-RateLimit-Reset while quota remains', () => {
+			const headers = new Headers({
+				'X-RateLimit-Remaining': '10',
+				'X-RateLimit-Reset': '60',
+			});
+
+			expect(parseRetryAfter(headers)).toBeUndefined();
+		});
+	});
+
+	describe('computeRetryDelay', () => {
+		const backoff = { ...policy, baseDelayMs: 100 };
+
+		it('should back off exponentially up to the maximum', () => {
+			expect(computeRetryDelay(1, backoff)).toBe(100);
+			expect(computeRetryDelay(3, backoff)).toBe(400);
+			expect(computeRetryDelay(10, backoff)).toBe(1000);
+		});
+
+		it('should apply jitter within half of the delay', () => {
+			const jittered = { ...backoff, jitter: true };
+
+			expect(computeRetryDelay(2, jittered, undefined, () => 0)).toBe(
+				100,
+			);
+			expect(computeRetryDelay(2, jittered, undefined, () => 0.5)).toBe(
+				150,
+			);
+		});
+
+		it('should prefer the server-requested wait, capped', () => {
+			expect(computeRetryDelay(1, backoff, 250)).toBe(250);
+			expect(computeRetryDelay(1, backoff, 60000)).toBe(1000);
+		});
+	});
+
+	describe('isRetryableError', () => {
+		it('should retry rate limits and server errors only', () => {
+			expect(isRetryableError(createApiError('limit', 429))).toBe(true);
+			expect(isRetryableError(createApiError('down', 503))).toBe(true);
+			expect(isRetryableError(createApiError('missing', 404))).toBe(
+				false,
+			);
+			expect(isRetryableError(createAuthInvalidError())).toBe(false);
+			expect(
+				isRetryableError(
+					createApiError('bad json', 500, new SyntaxError('x')),
+				),
+			).toBe(false);
+			expect(isRetryableError(new Error('plain'))).toBe(false);
+		});
+	});
+
+	describe('withRetry', () => {
+		it('should retry until the operation succeeds', async () => {
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(createApiError('limit', 429))
+				.mockResolvedValueOnce('ok');
+
+			await expect(withRetry(operation, policy, 'GET /x')).resolves.toBe(
+				'ok',
+			);
+			expect(operation).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not retry non-retryable errors', async () => {
+			const operation = jest
+				.fn()
+				.mockRejectedValue(createApiError('missing', 404));
+
+			await expect(
+				withRetry(operation, policy, 'GET /x'),
+			).rejects.toThrow('missing');
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it('should attach the retry history to the final error', async () => {
+			const operation = jest
+				.fn()
+				.mockRejectedValue(createApiError('Service error', 503));
+
+			const error = (await withRetry(operation, policy, 'GET /x').catch(
+				(e) => e,
+			)) as McpError;
+
+			expect(operation).toHaveBeenCalledTimes(3);
+			expect(error.message).toBe('Service error (after 3 attempts)');
+			expect(error.retryHistory).toHaveLength(2);
+			expect(error.retryHistory?.[0]).toMatchObject({
+				attempt: 1,
+				statusCode: 503,
+			});
+
+			const formatted = formatErrorForMcpTool(error);
+			expect(formatted.content[0].text).toContain(
+				'Retried 2 times before giving up',
+			);
+			expect(formatted.metadata?.retryHistory).toHaveLength(2);
+		});
+
+		it('should stop waiting for the next attempt when aborted', async () => {
+			const controller = new AbortController();
+			const operation = jest
+				.fn()
+				.mockRejectedValue(createApiError('Service error', 503));
+
+			const result = withRetry(
+				operation,
+				{ ...policy, baseDelayMs: 60000, maxDelayMs: 60000 },
+				'GET /x',
+				controller.signal,
+			);
+			controller.abort();
+
+			await expect(result).rejects.toMatchObject({
+				type: ErrorType.CANCELLED,
+			});
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+	});
+});
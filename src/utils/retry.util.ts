@@ -0,0 +1,247 @@
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { createCancelledError, McpError, RetryAttempt } from './error.util.js';
+import { apiRetries } from './metrics.util.js';
+
+/**
+ * Retry policy applied to Bitbucket API requests
+ */
+export interface RetryPolicy {
+	/** Total number of attempts, including the first one */
+	maxAttempts: number;
+	/** Delay before the first retry; doubled for every further retry */
+	baseDelayMs: number;
+	/** Upper bound for any single wait, including server-requested waits */
+	maxDelayMs: number;
+	/** Randomise delays to avoid synchronised retries */
+	jitter: boolean;
+	/** Whether POST/PUT/DELETE requests are retried */
+	retryMutations: boolean;
+}
+
+/**
+ * Default retry policy values
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 500,
+	maxDelayMs: 30000,
+	jitter: true,
+	retryMutations: false,
+};
+
+// Create a contextualized logger for this file
+const retryLogger = Logger.forContext('utils/retry.util.ts');
+
+/**
+ * Read a non-negative integer from configuration
+ */
+function getNumber(key: string, defaultValue: number): number {
+	const value = config.get(key);
+	if (value === undefined) {
+		return defaultValue;
+	}
+	const parsed = parseInt(value, 10);
+	return isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+}
+
+/**
+ * Build the retry policy from configuration.
+ * Reads BITBUCKET_RETRY_MAX_ATTEMPTS, BITBUCKET_RETRY_BASE_DELAY_MS,
+ * BITBUCKET_RETRY_MAX_DELAY_MS, BITBUCKET_RETRY_JITTER and
+ * BITBUCKET_RETRY_MUTATIONS.
+ * @returns The effective retry policy
+ */
+export function getRetryPolicy(): RetryPolicy {
+	return {
+		maxAttempts: Math.max(
+			1,
+			getNumber(
+				'BITBUCKET_RETRY_MAX_ATTEMPTS',
+				DEFAULT_RETRY_POLICY.maxAttempts,
+			),
+		),
+		baseDelayMs: getNumber(
+			'BITBUCKET_RETRY_BASE_DELAY_MS',
+			DEFAULT_RETRY_POLICY.baseDelayMs,
+		),
+		maxDelayMs: getNumber(
+			'BITBUCKET_RETRY_MAX_DELAY_MS',
+			DEFAULT_RETRY_POLICY.maxDelayMs,
+		),
+		jitter: config.getBoolean(
+			'BITBUCKET_RETRY_JITTER',
+			DEFAULT_RETRY_POLICY.jitter,
+		),
+		retryMutations: config.getBoolean(
+			'BITBUCKET_RETRY_MUTATIONS',
+			DEFAULT_RETRY_POLICY.retryMutations,
+		),
+	};
+}
+
+/**
+ * Work out how long the server asked us to wait before retrying.
+ * Honours `Retry-After` (seconds or HTTP date) and, when the remaining quota
+ * is exhausted, `X-RateLimit-Reset` (epoch seconds or seconds from now).
+ * @param headers Response headers
+ * @param now Current time in milliseconds (for testing)
+ * @returns Wait time in milliseconds, or undefined if the server gave no hint
+ */
+export function parseRetryAfter(
+	headers: Headers,
+	now: number = Date.now(),
+): number | undefined {
+	const retryAfter = headers.get('retry-after');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (!isNaN(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	const remaining = headers.get('x-ratelimit-remaining');
+	const reset = headers.get('x-ratelimit-reset');
+	if (reset && (remaining === null || Number(remaining) <= 0)) {
+		const value = Number(reset);
+		if (!isNaN(value)) {
+			// Large values are absolute epoch seconds, small ones are deltas
+			return value > 1e9
+				? Math.max(0, value * 1000 - now)
+				: Math.max(0, value * 1000);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Compute the delay before the given retry.
+ * Server-requested waits take precedence; otherwise exponential backoff with
+ * optional "equal jitter" (half fixed, half random) is used. Both are capped
+ * at `maxDelayMs`.
+ * @param retryNumber 1 for the first retry, 2 for the second, ...
+ * @param policy Retry policy
+ * @param retryAfterMs Server-requested wait, if any
+ * @param random Random source in [0, 1) (for testing)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+	retryNumber: number,
+	policy: RetryPolicy,
+	retryAfterMs?: number,
+	random: () => number = Math.random,
+): number {
+	if (retryAfterMs !== undefined) {
+		return Math.min(retryAfterMs, policy.maxDelayMs);
+	}
+	const exponential = Math.min(
+		policy.baseDelayMs * 2 ** (retryNumber - 1),
+		policy.maxDelayMs,
+	);
+	if (!policy.jitter) {
+		return exponential;
+	}
+	return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Decide whether a failed request is worth retrying.
+ * Rate limits (429), server errors (5xx) and network failures are retried;
+ * authentication, permission, not-found and parsing errors are not.
+ * @param error The error thrown by the request
+ * @returns True if the request may succeed when retried
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (!(error instanceof McpError) || error.statusCode === undefined) {
+		return false;
+	}
+	if (error.originalError instanceof SyntaxError) {
+		return false;
+	}
+	return error.statusCode === 429 || error.statusCode >= 500;
+}
+
+/**
+ * Wait for the given number of milliseconds, stopping early if aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(createCancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		if (signal?.aborted) {
+			onAbort();
+		} else {
+			signal?.addEventListener('abort', onAbort, { once: true });
+		}
+	});
+}
+
+/**
+ * Run an operation, retrying retryable failures according to the policy.
+ * When the operation finally fails, the retry history is attached to the
+ * thrown McpError and noted in its message.
+ * @param operation The operation to run
+ * @param policy Retry policy
+ * @param description Short description used in logs (e.g. "GET /2.0/...")
+ * @param signal Abort signal that cancels waiting between attempts
+ * @returns The operation result
+ */
+export async function withRetry<T>(
+	operation: () => Promise<T>,
+	policy: RetryPolicy,
+	description: string,
+	signal?: AbortSignal,
+): Promise<T> {
+	const methodLogger = retryLogger.forMethod('withRetry');
+	const history: RetryAttempt[] = [];
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation();
+		} catch (error) {
+			const canRetry =
+				attempt < policy.maxAttempts && isRetryableError(error);
+
+			if (!canRetry) {
+				if (history.length > 0 && error instanceof McpError) {
+					error.retryHistory = history;
+					error.message = `${error.message} (after ${attempt} attempts)`;
+				}
+				throw error;
+			}
+
+			const mcpError = error as McpError;
+			const delayMs = computeRetryDelay(
+				attempt,
+				policy,
+				mcpError.retryAfterMs,
+			);
+			apiRetries.inc({
+				status: mcpError.statusCode
+					? String(mcpError.statusCode)
+					: 'error',
+			});
+			history.push({
+				attempt,
+				statusCode: mcpError.statusCode,
+				message: mcpError.message,
+				delayMs,
+			});
+			methodLogger.warn(
+				`${description} failed (attempt ${attempt}/${policy.maxAttempts}): ${mcpError.message}. Retrying in ${delayMs}ms`,
+			);
+			await sleep(delayMs, signal);
+		}
+	}
+}
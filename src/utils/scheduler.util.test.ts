@@ -0,0 +1,204 @@
+import {
+	DEFAULT_HOURLY_LIMIT,
+	getRateLimitStatus,
+	recordRateLimit,
+	resetScheduler,
+	scheduleRequest,
+} from './scheduler.util.js';
+
+describe('Scheduler Utility', () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		resetScheduler();
+		delete process.env.BITBUCKET_MAX_CONCURRENCY;
+		delete process.env.BITBUCKET_RATE_LIMIT_PER_HOUR;
+	});
+
+	afterAll(() => {
+		process.env = { ...originalEnv };
+		resetScheduler();
+	});
+
+	/**
+	 * Task that stays in flight until released
+	 */
+	const createTask = () => {
+		let release: () => void = () => {};
+		const done = new Promise<void>((resolve) => (release = resolve));
+		const task = jest.fn(async () => {
+			await done;
+			return 'ok';
+		});
+		return { task, release };
+	};
+
+	// Let queued promise callbacks run
+	const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+	describe('scheduleRequest', () => {
+		it('should limit requests in flight per host and start them in order', async () => {
+			process.env.BITBUCKET_MAX_CONCURRENCY = '2';
+			const tasks = [createTask(), createTask(), createTask()];
+			const other = createTask();
+
+			const results = tasks.map(({ task }) =>
+				scheduleRequest('https://api.bitbucket.org/2.0/a', task),
+			);
+			const otherResult = scheduleRequest(
+				'https://bitbucket.corp/rest/api/1.0/a',
+				other.task,
+			);
+			await flush();
+
+			expect(tasks.map(({ task }) => task.mock.calls.length)).toEqual([
+				1, 1, 0,
+			]);
+			expect(other.task).toHaveBeenCalled();
+			expect(getRateLimitStatus()[0]).toMatchObject({
+				host: 'api.bitbucket.org',
+				inFlight: 2,
+				queued: 1,
+			});
+
+			tasks[0].release();
+			await flush();
+			expect(tasks[2].task).toHaveBeenCalled();
+
+			tasks[1].release();
+			tasks[2].release();
+			other.release();
+			await expect(
+				Promise.all([...results, otherResult]),
+			).resolves.toEqual(['ok', 'ok', 'ok', 'ok']);
+			expect(getRateLimitStatus()[0]).toMatchObject({
+				inFlight: 0,
+				queued: 0,
+				requestsLastHour: 3,
+			});
+		});
+
+		it('should reject queued requests when their signal aborts', async () => {
+			process.env.BITBUCKET_MAX_CONCURRENCY = '1';
+			const running = createTask();
+			const queued = createTask();
+			const controller = new AbortController();
+
+			const first = scheduleRequest(
+				'https://api.bitbucket.org/x',
+				running.task,
+			);
+			const second = scheduleRequest(
+				'https://api.bitbucket.org/x',
+				queued.task,
+				controller.signal,
+			);
+			controller.abort();
+
+			await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+			expect(queued.task).not.toHaveBeenCalled();
+			expect(getRateLimitStatus()[0].queued).toBe(0);
+
+			running.release();
+			await expect(first).resolves.toBe('ok');
+		});
+	});
+
+	describe('request budget', () => {
+		it('should estimate the budget from requests made when headers are missing', async () => {
+			await scheduleRequest('https://api.bitbucket.org/x', async () => 1);
+
+			expect(getRateLimitStatus()).toEqual([
+				expect.objectContaining({
+					host: 'api.bitbucket.org',
+					limit: DEFAULT_HOURLY_LIMIT,
+					remaining: DEFAULT_HOURLY_LIMIT - 1,
+					estimated: true,
+					nearLimit: false,
+				}),
+			]);
+		});
+
+		it('should track reported headers, less requests made since', async () => {
+			const url = 'https://api.bitbucket.org/x';
+			await scheduleRequest(url, async () =>
+				recordRateLimit(
+					url,
+					200,
+					new Headers({
+						'X-RateLimit-Limit': '1000',
+						'X-RateLimit-Remaining': '150',
+						'X-RateLimit-Resource': 'api-repository',
+					}),
+				),
+			);
+			await scheduleRequest(url, async () => 1);
+
+			expect(getRateLimitStatus()[0]).toMatchObject({
+				limit: 1000,
+				remaining: 149,
+				estimated: false,
+				resource: 'api-repository',
+				nearLimit: true,
+			});
+		});
+
+		it('should exhaust the budget on 429 until Retry-After passes', () => {
+			recordRateLimit(
+				'https://api.bitbucket.org/x',
+				429,
+				new Headers({ 'Retry-After': '60' }),
+			);
+
+			const [budget] = getRateLimitStatus();
+			expect(budget.remaining).toBe(0);
+			expect(budget.rateLimitedUntil).toBeGreaterThan(Date.now());
+		});
+	});
+
+	describe('credentials', () => {
+		it('should keep budgets apart while sharing the host queue', async () => {
+			process.env.BITBUCKET_MAX_CONCURRENCY = '1';
+			const url = 'https://api.bitbucket.org/x';
+			const running = createTask();
+
+			const first = scheduleRequest(
+				url,
+				running.task,
+				undefined,
+				'alice',
+			);
+			const second = scheduleRequest(
+				url,
+				async () =>
+					recordRateLimit(
+						url,
+						429,
+						new Headers({ 'Retry-After': '60' }),
+						'bob',
+					),
+				undefined,
+				'bob',
+			);
+			await flush();
+
+			expect(getRateLimitStatus('alice')).toEqual([
+				expect.objectContaining({
+					remaining: DEFAULT_HOURLY_LIMIT - 1,
+					requestsLastHour: 1,
+					inFlight: 1,
+					queued: 1,
+				}),
+			]);
+
+			running.release();
+			await Promise.all([first, second]);
+
+			expect(getRateLimitStatus('alice')[0].remaining).toBe(
+				DEFAULT_HOURLY_LIMIT - 1,
+			);
+			expect(getRateLimitStatus('bob')[0].remaining).toBe(0);
+			expect(getRateLimitStatus('carol')).toEqual([]);
+		});
+	});
+});
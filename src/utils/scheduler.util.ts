@@ -0,0 +1,337 @@
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { parseRetryAfter } from './retry.util.js';
+
+/**
+ * Default number of requests in flight per host
+ */
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * Default hourly request quota, used until the API reports its own
+ * (Bitbucket Cloud allows 1000 authenticated requests per hour for most
+ * resources)
+ */
+export const DEFAULT_HOURLY_LIMIT = 1000;
+
+/**
+ * Share of the hourly quota below which a host is reported as near its limit
+ */
+const NEAR_LIMIT_RATIO = 0.2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Create a contextualized logger for this file
+const schedulerLogger = Logger.forContext('utils/scheduler.util.ts');
+
+/**
+ * Request budget of one set of credentials on one API host, with the queue
+ * state of that host
+ */
+export interface RateLimitBudget {
+	/** Host name (and port) requests are sent to */
+	host: string;
+	/** Requests allowed per hour */
+	limit: number;
+	/** Requests left this hour */
+	remaining: number;
+	/** Whether `remaining` is counted locally rather than reported by the API */
+	estimated: boolean;
+	/** Rate-limited resource reported by the API */
+	resource?: string;
+	/** Whether fewer than 20% of requests are left, or the API says so */
+	nearLimit: boolean;
+	/** Requests sent to the host with these credentials in the last hour */
+	requestsLastHour: number;
+	/** Time until which the API asked for no further requests (epoch ms) */
+	rateLimitedUntil?: number;
+	/** Time of the last response from the host (epoch ms) */
+	updatedAt?: number;
+	/** Requests to the host currently in flight */
+	inFlight: number;
+	/** Requests to the host waiting for a free slot */
+	queued: number;
+}
+
+/**
+ * Concurrency state kept for each host
+ */
+interface HostQueue {
+	active: number;
+	queue: Array<() => void>;
+}
+
+/**
+ * Budget state kept for each host and credential. Bitbucket counts its
+ * hourly quota per user, so credentials never share a budget.
+ */
+interface BudgetState {
+	host: string;
+	credential: string;
+	/** Start times of requests sent in the last hour */
+	requestTimes: number[];
+	limit?: number;
+	remaining?: number;
+	/** Number of entries in requestTimes when `remaining` was reported */
+	remainingAtCount?: number;
+	resource?: string;
+	nearLimit?: boolean;
+	rateLimitedUntil?: number;
+	updatedAt?: number;
+}
+
+const hosts = new Map<string, HostQueue>();
+const budgets = new Map<string, BudgetState>();
+
+/**
+ * Read a non-negative integer from configuration
+ */
+function getNumber(key: string, defaultValue: number): number {
+	const value = config.get(key);
+	if (value === undefined) {
+		return defaultValue;
+	}
+	const parsed = parseInt(value, 10);
+	return isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+}
+
+/**
+ * Maximum number of requests in flight per host, from
+ * BITBUCKET_MAX_CONCURRENCY
+ * @returns The limit; 0 means unlimited
+ */
+export function getMaxConcurrency(): number {
+	return getNumber('BITBUCKET_MAX_CONCURRENCY', DEFAULT_MAX_CONCURRENCY);
+}
+
+/**
+ * Get (or create) the queue of a host
+ */
+function getHostQueue(host: string): HostQueue {
+	let queue = hosts.get(host);
+	if (!queue) {
+		queue = { active: 0, queue: [] };
+		hosts.set(host, queue);
+	}
+	return queue;
+}
+
+/**
+ * Get (or create) the budget of a host and credential. Budgets unused for
+ * an hour are dropped when a new one is created, so that state for ended
+ * sessions does not pile up.
+ */
+function getBudgetState(host: string, credential: string): BudgetState {
+	const key = `${host} ${credential}`;
+	let state = budgets.get(key);
+	if (!state) {
+		const cutoff = Date.now() - HOUR_MS;
+		for (const [staleKey, stale] of budgets) {
+			const lastUsed = Math.max(
+				stale.updatedAt ?? 0,
+				stale.requestTimes[stale.requestTimes.length - 1] ?? 0,
+			);
+			if (lastUsed < cutoff) {
+				budgets.delete(staleKey);
+			}
+		}
+		state = { host, credential, requestTimes: [] };
+		budgets.set(key, state);
+	}
+	return state;
+}
+
+/**
+ * Drop request times older than an hour
+ */
+function pruneRequestTimes(state: BudgetState, now: number): void {
+	const cutoff = now - HOUR_MS;
+	const expired = state.requestTimes.findIndex((time) => time > cutoff);
+	const count = expired === -1 ? state.requestTimes.length : expired;
+	if (count > 0) {
+		state.requestTimes.splice(0, count);
+		if (state.remainingAtCount !== undefined) {
+			state.remainingAtCount = Math.max(
+				0,
+				state.remainingAtCount - count,
+			);
+		}
+	}
+}
+
+/**
+ * Wait for a free request slot on a host
+ * @throws The signal's reason if it is aborted while waiting
+ */
+function acquireSlot(
+	host: string,
+	state: HostQueue,
+	signal?: AbortSignal,
+): Promise<void> {
+	signal?.throwIfAborted();
+	const maxConcurrency = getMaxConcurrency();
+	if (maxConcurrency === 0 || state.active < maxConcurrency) {
+		state.active++;
+		return Promise.resolve();
+	}
+
+	schedulerLogger.debug(
+		`Queueing request to ${host}: ${state.active} in flight, ${state.queue.length} queued`,
+	);
+	return new Promise((resolve, reject) => {
+		const start = () => {
+			signal?.removeEventListener('abort', onAbort);
+			state.active++;
+			resolve();
+		};
+		const onAbort = () => {
+			state.queue.splice(state.queue.indexOf(start), 1);
+			reject(signal?.reason);
+		};
+		state.queue.push(start);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Free a request slot and start the next queued request
+ */
+function releaseSlot(state: HostQueue): void {
+	state.active--;
+	state.queue.shift()?.();
+}
+
+/**
+ * Run a request once fewer than BITBUCKET_MAX_CONCURRENCY requests to the
+ * same host are in flight. Waiting requests start in arrival order.
+ * @param url The request URL, used to pick the host queue
+ * @param task Sends the request
+ * @param signal Aborts the request, including while it is queued
+ * @param credential Fingerprint of the credentials the request is sent with
+ * @returns The task's result
+ */
+export async function scheduleRequest<T>(
+	url: string,
+	task: () => Promise<T>,
+	signal?: AbortSignal,
+	credential: string = '',
+): Promise<T> {
+	const { host } = new URL(url);
+	const queue = getHostQueue(host);
+	await acquireSlot(host, queue, signal);
+	try {
+		const now = Date.now();
+		const budget = getBudgetState(host, credential);
+		pruneRequestTimes(budget, now);
+		budget.requestTimes.push(now);
+		return await task();
+	} finally {
+		releaseSlot(queue);
+	}
+}
+
+/**
+ * Update the request budget of a host and credential from response headers:
+ * X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Resource and
+ * X-RateLimit-NearLimit, plus Retry-After on 429 responses.
+ * @param url The request URL
+ * @param status Response status code
+ * @param headers Response headers
+ * @param credential Fingerprint of the credentials the request was sent with
+ */
+export function recordRateLimit(
+	url: string,
+	status: number,
+	headers: Headers,
+	credential: string = '',
+): void {
+	const now = Date.now();
+	const state = getBudgetState(new URL(url).host, credential);
+	state.updatedAt = now;
+
+	const limit = Number(headers.get('x-ratelimit-limit') ?? NaN);
+	if (!isNaN(limit) && limit > 0) {
+		state.limit = limit;
+	}
+	const remaining = Number(headers.get('x-ratelimit-remaining') ?? NaN);
+	if (!isNaN(remaining) && remaining >= 0) {
+		state.remaining = remaining;
+		state.remainingAtCount = state.requestTimes.length;
+	}
+	const resource = headers.get('x-ratelimit-resource');
+	if (resource) {
+		state.resource = resource;
+	}
+	const nearLimit = headers.get('x-ratelimit-nearlimit');
+	if (nearLimit !== null) {
+		state.nearLimit = nearLimit.toLowerCase() === 'true';
+	}
+
+	if (status === 429) {
+		state.remaining = 0;
+		state.remainingAtCount = state.requestTimes.length;
+		const retryAfterMs = parseRetryAfter(headers, now);
+		state.rateLimitedUntil = now + (retryAfterMs ?? 0);
+		schedulerLogger.warn(
+			`Rate limited by ${new URL(url).host}; remaining budget set to 0`,
+		);
+	}
+}
+
+/**
+ * Compute the current budget of a host and credential
+ */
+function getBudget(state: BudgetState): RateLimitBudget {
+	const now = Date.now();
+	pruneRequestTimes(state, now);
+	const limit =
+		state.limit ??
+		getNumber('BITBUCKET_RATE_LIMIT_PER_HOUR', DEFAULT_HOURLY_LIMIT);
+	const requestsLastHour = state.requestTimes.length;
+
+	// Prefer the last reported value, less the requests sent since then
+	const remaining = Math.max(
+		0,
+		state.remaining !== undefined
+			? state.remaining -
+					(requestsLastHour - (state.remainingAtCount ?? 0))
+			: limit - requestsLastHour,
+	);
+
+	const queue = getHostQueue(state.host);
+	return {
+		host: state.host,
+		limit,
+		remaining,
+		estimated: state.remaining === undefined,
+		resource: state.resource,
+		nearLimit: state.nearLimit || remaining < limit * NEAR_LIMIT_RATIO,
+		requestsLastHour,
+		rateLimitedUntil:
+			state.rateLimitedUntil && state.rateLimitedUntil > now
+				? state.rateLimitedUntil
+				: undefined,
+		updatedAt: state.updatedAt,
+		inFlight: queue.active,
+		queued: queue.queue.length,
+	};
+}
+
+/**
+ * Get the request budget of every host contacted with a set of credentials
+ * @param credential Fingerprint of the credentials
+ * @returns One entry per host, in order of first contact
+ */
+export function getRateLimitStatus(credential: string = ''): RateLimitBudget[] {
+	return [...budgets.values()]
+		.filter((state) => state.credential === credential)
+		.map(getBudget);
+}
+
+/**
+ * Forget all host and budget state (for tests)
+ */
+export function resetScheduler(): void {
+	hosts.clear();
+	budgets.clear();
+}
@@ -5,22 +5,71 @@ import { Logger } from './logger.util.js';
 const exec = promisify(callbackExec);
 const utilLogger = Logger.forContext('utils/shell.util.ts');
 
+/**
+ * Options for executing a shell command
+ */
+export interface ShellCommandOptions {
+	/** Receives stderr output as it arrives, e.g. to report progress */
+	onStderr?: (output: string) => void;
+	/** Variables added to the environment of the command */
+	env?: Record<string, string>;
+}
+
+/**
+ * Executes a command, streaming its stderr to a callback while it runs.
+ *
+ * @param command The command string to execute.
+ * @param onStderr Receives each chunk of stderr output.
+ * @param env Environment of the command; the current one when undefined.
+ * @returns A promise that resolves with the complete stdout and stderr.
+ */
+function execStreaming(
+	command: string,
+	onStderr: (output: string) => void,
+	env: NodeJS.ProcessEnv | undefined,
+): Promise<{ stdout: string; stderr: string }> {
+	return new Promise((resolve, reject) => {
+		const child = callbackExec(
+			command,
+			{ encoding: 'utf8', env },
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(Object.assign(error, { stdout, stderr }));
+				} else {
+					resolve({ stdout, stderr });
+				}
+			},
+		);
+		child.stderr?.on('data', (chunk: Buffer | string) =>
+			onStderr(chunk.toString()),
+		);
+	});
+}
+
 /**
  * Executes a shell command.
  *
  * @param command The command string to execute.
  * @param operationDesc A brief description of the operation for logging purposes.
+ * @param options Optional callbacks for output produced while the command runs,
+ *   and environment variables for the command.
  * @returns A promise that resolves with the stdout of the command.
  * @throws An error if the command execution fails, including stderr.
  */
 export async function executeShellCommand(
 	command: string,
 	operationDesc: string,
+	options: ShellCommandOptions = {},
 ): Promise<string> {
 	const methodLogger = utilLogger.forMethod('executeShellCommand');
 	methodLogger.debug(`Attempting to ${operationDesc}: ${command}`);
 	try {
-		const { stdout, stderr } = await exec(command);
+		const env = options.env
+			? { ...process.env, ...options.env }
+			: undefined;
+		const { stdout, stderr } = options.onStderr
+			? await execStreaming(command, options.onStderr, env)
+			: await exec(command, { encoding: 'utf8', env });
 		if (stderr) {
 			methodLogger.warn(`Stderr from ${operationDesc}: ${stderr}`);
 			// Depending on the command, stderr might not always indicate a failure,
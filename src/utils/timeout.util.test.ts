@@ -0,0 +1,43 @@
+import { getRequestTimeout } from './timeout.util.js';
+
+describe('Timeout Utility', () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		delete process.env.BITBUCKET_TIMEOUT_MS;
+		delete process.env.BITBUCKET_TIMEOUTS;
+	});
+
+	afterAll(() => {
+		process.env = { ...originalEnv };
+	});
+
+	it('should use longer defaults for slow operations', () => {
+		expect(getRequestTimeout()).toBe(30000);
+		expect(getRequestTimeout('diff')).toBe(120000);
+		expect(getRequestTimeout('search')).toBe(60000);
+	});
+
+	it('should raise but never lower operation limits with BITBUCKET_TIMEOUT_MS', () => {
+		process.env.BITBUCKET_TIMEOUT_MS = '90000';
+
+		expect(getRequestTimeout()).toBe(90000);
+		expect(getRequestTimeout('diff')).toBe(120000);
+		expect(getRequestTimeout('file')).toBe(90000);
+	});
+
+	it('should disable limits when BITBUCKET_TIMEOUT_MS is 0', () => {
+		process.env.BITBUCKET_TIMEOUT_MS = '0';
+
+		expect(getRequestTimeout('diff')).toBe(0);
+	});
+
+	it('should apply per-operation overrides from BITBUCKET_TIMEOUTS', () => {
+		process.env.BITBUCKET_TIMEOUT_MS = '0';
+		process.env.BITBUCKET_TIMEOUTS = 'diff=300000, search = 5000, bad=x';
+
+		expect(getRequestTimeout('diff')).toBe(300000);
+		expect(getRequestTimeout('search')).toBe(5000);
+		expect(getRequestTimeout('file')).toBe(0);
+	});
+});
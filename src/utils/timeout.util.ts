@@ -0,0 +1,67 @@
+import { config } from './config.util.js';
+
+/**
+ * Operations with their own request time limit.
+ * - `default`: any request without a more specific operation
+ * - `diff`: raw diffs and diffstats, which can be very large
+ * - `search`: code and commit search
+ * - `file`: raw file content
+ * - `merge`: merging a pull request, including waiting for Bitbucket to
+ *   finish an asynchronous merge
+ */
+export type TimeoutOperation = 'default' | 'diff' | 'search' | 'file' | 'merge';
+
+/**
+ * Default time limits in milliseconds
+ */
+const DEFAULT_TIMEOUTS: Record<TimeoutOperation, number> = {
+	default: 30000,
+	diff: 120000,
+	search: 60000,
+	file: 60000,
+	merge: 120000,
+};
+
+/**
+ * Parse per-operation overrides from BITBUCKET_TIMEOUTS,
+ * e.g. "diff=300000,search=90000"
+ */
+function getTimeoutOverrides(): Record<string, number> {
+	const raw = config.get('BITBUCKET_TIMEOUTS');
+	if (!raw) {
+		return {};
+	}
+	return Object.fromEntries(
+		raw
+			.split(',')
+			.map((pair) => pair.split('=').map((part) => part.trim()))
+			.filter(([name, value]) => name && !isNaN(Number(value)))
+			.map(([name, value]) => [name, Number(value)]),
+	);
+}
+
+/**
+ * Resolve the time limit for an operation.
+ * BITBUCKET_TIMEOUTS overrides individual operations. BITBUCKET_TIMEOUT_MS
+ * sets the `default` limit; specific operations never get less than it, and
+ * 0 disables limits altogether.
+ * @param operation The operation being performed
+ * @returns Time limit in milliseconds; 0 means no limit
+ */
+export function getRequestTimeout(
+	operation: TimeoutOperation = 'default',
+): number {
+	const overrides = getTimeoutOverrides();
+	if (overrides[operation] !== undefined) {
+		return overrides[operation];
+	}
+	const configured = config.get('BITBUCKET_TIMEOUT_MS');
+	const defaultLimit =
+		configured !== undefined && !isNaN(Number(configured))
+			? Number(configured)
+			: DEFAULT_TIMEOUTS.default;
+	if (defaultLimit === 0) {
+		return 0;
+	}
+	return Math.max(DEFAULT_TIMEOUTS[operation], defaultLimit);
+}
@@ -0,0 +1,103 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	applyToolPolicy,
+	assertCommandAllowed,
+	getDisabledReason,
+	isToolAllowed,
+} from './tool-policy.util.js';
+
+describe('Tool Policy Utility', () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		delete process.env.BITBUCKET_READ_ONLY;
+		delete process.env.BITBUCKET_TOOLS_INCLUDE;
+		delete process.env.BITBUCKET_TOOLS_EXCLUDE;
+	});
+
+	afterAll(() => {
+		process.env = { ...originalEnv };
+	});
+
+	describe('getDisabledReason', () => {
+		it('should allow every tool by default', () => {
+			expect(isToolAllowed('bb_add_pr')).toBe(true);
+			expect(isToolAllowed('bb_ls_repos')).toBe(true);
+		});
+
+		it('should disable mutating and unknown tools in read-only mode', () => {
+			process.env.BITBUCKET_READ_ONLY = 'true';
+
+			expect(getDisabledReason('bb_add_pr')).toBe('BITBUCKET_READ_ONLY');
+			expect(getDisabledReason('bb_clone_repo')).toBe(
+				'BITBUCKET_READ_ONLY',
+			);
+			expect(getDisabledReason('bb_not_catalogued')).toBe(
+				'BITBUCKET_READ_ONLY',
+			);
+			expect(getDisabledReason('bb_get_pr')).toBeUndefined();
+		});
+
+		it('should match include and exclude lists by tool or toolset', () => {
+			process.env.BITBUCKET_TOOLS_INCLUDE = 'pullrequests, bb_search';
+			process.env.BITBUCKET_TOOLS_EXCLUDE = 'bb_reject_pr';
+
+			expect(isToolAllowed('bb_ls_prs')).toBe(true);
+			expect(isToolAllowed('bb_search')).toBe(true);
+			expect(getDisabledReason('bb_ls_repos')).toBe(
+				'BITBUCKET_TOOLS_INCLUDE',
+			);
+			expect(getDisabledReason('bb_reject_pr')).toBe(
+				'BITBUCKET_TOOLS_EXCLUDE',
+			);
+		});
+	});
+
+	describe('applyToolPolicy', () => {
+		it('should only register allowed tools', () => {
+			process.env.BITBUCKET_TOOLS_EXCLUDE = 'diff';
+			const tool = jest.fn();
+			const server = applyToolPolicy({ tool } as unknown as McpServer);
+
+			server.tool('bb_diff_branches', 'Diff', {}, async () => ({
+				content: [],
+			}));
+			server.tool('bb_get_repo', 'Repository', {}, async () => ({
+				content: [],
+			}));
+
+			expect(tool).toHaveBeenCalledTimes(1);
+			expect(tool.mock.calls[0][0]).toBe('bb_get_repo');
+		});
+
+		it('should apply the policy to tools registered with registerTool', () => {
+			process.env.BITBUCKET_READ_ONLY = 'true';
+			const registerTool = jest.fn();
+			const server = applyToolPolicy({
+				registerTool,
+			} as unknown as McpServer);
+
+			server.registerTool('bb_add_pr', {}, async () => ({
+				content: [],
+			}));
+			server.registerTool('bb_ls_prs', {}, async () => ({
+				content: [],
+			}));
+
+			expect(registerTool).toHaveBeenCalledTimes(1);
+			expect(registerTool.mock.calls[0][0]).toBe('bb_ls_prs');
+		});
+	});
+
+	describe('assertCommandAllowed', () => {
+		it('should apply the tool policy to CLI commands', () => {
+			process.env.BITBUCKET_READ_ONLY = 'true';
+
+			expect(() => assertCommandAllowed('add-branch')).toThrow(
+				'The add-branch command is disabled by BITBUCKET_READ_ONLY',
+			);
+			expect(() => assertCommandAllowed('list-branches')).not.toThrow();
+			expect(() => assertCommandAllowed('login')).not.toThrow();
+		});
+	});
+});
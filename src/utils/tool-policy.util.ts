@@ -0,0 +1,295 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { createApiError } from './error.util.js';
+
+/**
+ * Groups of related tools, named after their tool modules
+ */
+export type Toolset =
+	| 'workspaces'
+	| 'repositories'
+	| 'pullrequests'
+	| 'search'
+	| 'diff'
+	| 'ratelimit'
+	| 'audit';
+
+/**
+ * What the policy needs to know about a tool
+ */
+interface ToolInfo {
+	/** Toolset the tool belongs to */
+	toolset: Toolset;
+	/** Whether the tool changes data in Bitbucket or on disk */
+	mutating: boolean;
+	/** Equivalent CLI command */
+	command: string;
+}
+
+/**
+ * Every MCP tool with its toolset and CLI command. Tools missing from this
+ * catalog are treated as mutating.
+ */
+export const TOOL_CATALOG: Record<string, ToolInfo> = {
+	bb_ls_workspaces: {
+		toolset: 'workspaces',
+		mutating: false,
+		command: 'ls-workspaces',
+	},
+	bb_get_workspace: {
+		toolset: 'workspaces',
+		mutating: false,
+		command: 'get-workspace',
+	},
+	bb_ls_repos: {
+		toolset: 'repositories',
+		mutating: false,
+		command: 'ls-repos',
+	},
+	bb_get_repo: {
+		toolset: 'repositories',
+		mutating: false,
+		command: 'get-repo',
+	},
+	bb_get_commit_history: {
+		toolset: 'repositories',
+		mutating: false,
+		command: 'get-commit-history',
+	},
+	bb_add_branch: {
+		toolset: 'repositories',
+		mutating: true,
+		command: 'add-branch',
+	},
+	bb_clone_repo: {
+		toolset: 'repositories',
+		mutating: true,
+		command: 'clone',
+	},
+	bb_get_file: {
+		toolset: 'repositories',
+		mutating: false,
+		command: 'get-file',
+	},
+	bb_list_branches: {
+		toolset: 'repositories',
+		mutating: false,
+		command: 'list-branches',
+	},
+	bb_ls_prs: { toolset: 'pullrequests', mutating: false, command: 'ls-prs' },
+	bb_get_pr: { toolset: 'pullrequests', mutating: false, command: 'get-pr' },
+	bb_ls_pr_comments: {
+		toolset: 'pullrequests',
+		mutating: false,
+		command: 'ls-pr-comments',
+	},
+	bb_add_pr_comment: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'add-pr-comment',
+	},
+	bb_manage_pr_comment: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'manage-pr-comment',
+	},
+	bb_add_pr: { toolset: 'pullrequests', mutating: true, command: 'add-pr' },
+	bb_update_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'update-pr',
+	},
+	bb_approve_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'approve-pr',
+	},
+	bb_reject_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'reject-pr',
+	},
+	bb_unapprove_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'unapprove-pr',
+	},
+	bb_withdraw_change_request: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'withdraw-change-request',
+	},
+	bb_decline_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'decline-pr',
+	},
+	bb_merge_pr: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'merge-pr',
+	},
+	bb_ls_pr_tasks: {
+		toolset: 'pullrequests',
+		mutating: false,
+		command: 'ls-pr-tasks',
+	},
+	bb_manage_pr_task: {
+		toolset: 'pullrequests',
+		mutating: true,
+		command: 'manage-pr-task',
+	},
+	bb_search: { toolset: 'search', mutating: false, command: 'search' },
+	bb_diff_branches: {
+		toolset: 'diff',
+		mutating: false,
+		command: 'diff-branches',
+	},
+	bb_diff_commits: {
+		toolset: 'diff',
+		mutating: false,
+		command: 'diff-commits',
+	},
+	bb_rate_limit_status: {
+		toolset: 'ratelimit',
+		mutating: false,
+		command: 'rate-limit',
+	},
+	bb_audit_log: { toolset: 'audit', mutating: false, command: 'audit-log' },
+};
+
+/**
+ * Which tools may be used
+ */
+export interface ToolPolicy {
+	/** Disable every mutating tool */
+	readOnly: boolean;
+	/** Tool or toolset names to allow; empty allows all */
+	include: string[];
+	/** Tool or toolset names to disable */
+	exclude: string[];
+}
+
+// Create a contextualized logger for this file
+const policyLogger = Logger.forContext('utils/tool-policy.util.ts');
+
+/**
+ * Parse a comma-separated list of names
+ */
+function getList(key: string): string[] {
+	return (config.get(key) || '')
+		.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Build the tool policy from BITBUCKET_READ_ONLY, BITBUCKET_TOOLS_INCLUDE
+ * and BITBUCKET_TOOLS_EXCLUDE. The lists accept tool names (e.g.
+ * "bb_add_pr") and toolset names (e.g. "pullrequests").
+ * @returns The effective tool policy
+ */
+export function getToolPolicy(): ToolPolicy {
+	const policy = {
+		readOnly: config.getBoolean('BITBUCKET_READ_ONLY', false),
+		include: getList('BITBUCKET_TOOLS_INCLUDE'),
+		exclude: getList('BITBUCKET_TOOLS_EXCLUDE'),
+	};
+
+	const toolsets = new Set(
+		Object.values(TOOL_CATALOG).map(({ toolset }) => toolset as string),
+	);
+	for (const name of [...policy.include, ...policy.exclude]) {
+		if (!TOOL_CATALOG[name] && !toolsets.has(name)) {
+			policyLogger.warn(
+				`Unknown tool or toolset in tool policy: ${name}`,
+			);
+		}
+	}
+	return policy;
+}
+
+/**
+ * Find the setting that disables a tool
+ * @param name Tool name
+ * @param policy Policy to apply; defaults to the configured one
+ * @returns The name of the disabling setting, or undefined if the tool is allowed
+ */
+export function getDisabledReason(
+	name: string,
+	policy: ToolPolicy = getToolPolicy(),
+): string | undefined {
+	const info = TOOL_CATALOG[name];
+	const matches = (list: string[]) =>
+		list.includes(name) || (!!info && list.includes(info.toolset));
+
+	if (policy.readOnly && (info?.mutating ?? true)) {
+		return 'BITBUCKET_READ_ONLY';
+	}
+	if (policy.include.length > 0 && !matches(policy.include)) {
+		return 'BITBUCKET_TOOLS_INCLUDE';
+	}
+	if (matches(policy.exclude)) {
+		return 'BITBUCKET_TOOLS_EXCLUDE';
+	}
+	return undefined;
+}
+
+/**
+ * Check whether the tool policy allows a tool
+ * @param name Tool name
+ * @returns True if the tool may be registered and used
+ */
+export function isToolAllowed(name: string): boolean {
+	return getDisabledReason(name) === undefined;
+}
+
+/**
+ * Wrap an MCP server so that tool modules only register the tools the
+ * configured policy allows. All other server methods are passed through.
+ * @param server The MCP server
+ * @returns A view of the server for registering tools
+ */
+export function applyToolPolicy(server: McpServer): McpServer {
+	const policy = getToolPolicy();
+	return new Proxy(server, {
+		get(target, property) {
+			if (property === 'tool' || property === 'registerTool') {
+				return (name: string, ...rest: unknown[]) => {
+					const reason = getDisabledReason(name, policy);
+					if (reason) {
+						policyLogger.debug(
+							`Not registering ${name}: disabled by ${reason}`,
+						);
+						return undefined;
+					}
+					return (
+						target[property] as (...args: unknown[]) => unknown
+					).apply(target, [name, ...rest]);
+				};
+			}
+			const value = Reflect.get(target, property);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	});
+}
+
+/**
+ * Ensure the tool policy allows a CLI command. Commands without an
+ * equivalent tool (such as `login`) are always allowed.
+ * @param command CLI command name
+ * @throws {McpError} If the command's tool is disabled
+ */
+export function assertCommandAllowed(command: string): void {
+	const tool = Object.keys(TOOL_CATALOG).find(
+		(name) => TOOL_CATALOG[name].command === command,
+	);
+	const reason = tool && getDisabledReason(tool);
+	if (reason) {
+		throw createApiError(
+			`The ${command} command is disabled by ${reason}`,
+			403,
+		);
+	}
+}
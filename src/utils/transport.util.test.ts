@@ -1,5 +1,18 @@
-import { getAtlassianCredentials, fetchAtlassian } from './transport.util.js';
+import {
+	getAtlassianCredentials,
+	fetchAtlassian,
+	getBitbucketBackend,
+	getBitbucketBaseUrl,
+} from './transport.util.js';
 import { config } from './config.util.js';
+import { ErrorType, McpError } from './error.util.js';
+import { saveOAuthToken } from './oauth.util.js';
+import { DryRunInterrupt } from './dry-run.util.js';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
 
 /**
  * Generic response type for testing
@@ -31,16 +44,22 @@ describe('Transport Utility', () => {
 			}
 
 			// Check if the credentials are for standard Atlassian or Bitbucket-specific
-			if (credentials.useBitbucketAuth) {
+			if (
+				credentials.authType === 'access-token' ||
+				credentials.authType === 'oauth'
+			) {
+				// Verify the Bearer credentials
+				expect(credentials.accessToken).toBeTruthy();
+			} else if (credentials.authType === 'app-password') {
 				// Verify the Bitbucket-specific credentials
 				expect(credentials).toHaveProperty('bitbucketUsername');
 				expect(credentials).toHaveProperty('bitbucketAppPassword');
-				expect(credentials).toHaveProperty('useBitbucketAuth');
+				expect(credentials).toHaveProperty('authType');
 
 				// Verify the credentials are not empty
 				expect(credentials.bitbucketUsername).toBeTruthy();
 				expect(credentials.bitbucketAppPassword).toBeTruthy();
-				expect(credentials.useBitbucketAuth).toBe(true);
+				expect(credentials.authType).toBe('app-password');
 			} else {
 				// Verify the standard Atlassian credentials
 				expect(credentials).toHaveProperty('siteName');
@@ -64,6 +83,8 @@ describe('Transport Utility', () => {
 			delete process.env.ATLASSIAN_API_TOKEN;
 			delete process.env.ATLASSIAN_BITBUCKET_USERNAME;
 			delete process.env.ATLASSIAN_BITBUCKET_APP_PASSWORD;
+			delete process.env.BITBUCKET_ACCESS_TOKEN;
+			delete process.env.BITBUCKET_OAUTH_CLIENT_ID;
 
 			// Force reload configuration
 			config.load();
@@ -82,6 +103,250 @@ describe('Transport Utility', () => {
 		});
 	});
 
+	describe('authentication modes', () => {
+		const originalEnv = { ...process.env };
+		let tokenDirectory: string;
+
+		beforeEach(() => {
+			tokenDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-auth-'));
+			process.env.BITBUCKET_OAUTH_TOKEN_FILE = path.join(
+				tokenDirectory,
+				'token.json',
+			);
+			delete process.env.BITBUCKET_ACCESS_TOKEN;
+			delete process.env.BITBUCKET_OAUTH_CLIENT_ID;
+		});
+
+		afterEach(() => {
+			process.env = { ...originalEnv };
+			fs.rmSync(tokenDirectory, { recursive: true, force: true });
+		});
+
+		it('should prefer a Bitbucket access token', () => {
+			process.env.BITBUCKET_ACCESS_TOKEN = 'repo-token';
+			process.env.ATLASSIAN_BITBUCKET_USERNAME = 'user';
+			process.env.ATLASSIAN_BITBUCKET_APP_PASSWORD = 'secret';
+
+			expect(getAtlassianCredentials()).toEqual({
+				authType: 'access-token',
+				accessToken: 'repo-token',
+			});
+		});
+
+		it('should use a stored OAuth token when a consumer is configured', () => {
+			process.env.BITBUCKET_OAUTH_CLIENT_ID = 'client';
+			saveOAuthToken({
+				accessToken: 'oauth-token',
+				refreshToken: 'refresh',
+				expiresAt: 1,
+			});
+
+			expect(getAtlassianCredentials()).toMatchObject({
+				authType: 'oauth',
+				accessToken: 'oauth-token',
+				refreshToken: 'refresh',
+			});
+		});
+
+		it('should reject Bearer credentials without a token', async () => {
+			await expect(
+				fetchAtlassian({ authType: 'access-token' }, '/2.0/user'),
+			).rejects.toThrow('Missing Bitbucket access token');
+		});
+	});
+
+	describe('Bitbucket backend selection', () => {
+		const originalEnv = { ...process.env };
+
+		beforeEach(() => {
+			delete process.env.BITBUCKET_BACKEND;
+			delete process.env.BITBUCKET_BASE_URL;
+		});
+
+		afterAll(() => {
+			process.env = originalEnv;
+		});
+
+		it('should default to Bitbucket Cloud', () => {
+			expect(getBitbucketBackend()).toBe('cloud');
+			expect(getBitbucketBaseUrl()).toBe('https://api.bitbucket.org');
+		});
+
+		it('should infer Data Center from a self-hosted base URL', () => {
+			process.env.BITBUCKET_BASE_URL = 'https://bitbucket.example.com/';
+
+			expect(getBitbucketBackend()).toBe('server');
+			expect(getBitbucketBaseUrl()).toBe('https://bitbucket.example.com');
+		});
+
+		it('should honour an explicit BITBUCKET_BACKEND', () => {
+			process.env.BITBUCKET_BACKEND = 'datacenter';
+			expect(getBitbucketBackend()).toBe('server');
+
+			process.env.BITBUCKET_BACKEND = 'cloud';
+			process.env.BITBUCKET_BASE_URL = 'https://bitbucket.example.com';
+			expect(getBitbucketBackend()).toBe('cloud');
+		});
+
+		it('should require a base URL for the Data Center backend', () => {
+			process.env.BITBUCKET_BACKEND = 'server';
+
+			expect(() => getBitbucketBaseUrl()).toThrow(/BITBUCKET_BASE_URL/);
+		});
+	});
+
+	describe('timeouts and cancellation', () => {
+		const originalEnv = { ...process.env };
+		let server: http.Server;
+
+		beforeAll(async () => {
+			// A server that accepts requests but never answers
+			server = http.createServer(() => undefined);
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+			process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = '1';
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should fail with a timeout error when the limit is reached', async () => {
+			const error = (await fetchAtlassian(
+				{ authType: 'access-token', accessToken: 'token' },
+				'/rest/api/1.0/projects',
+				{ timeout: 50 },
+			).catch((e) => e)) as McpError;
+
+			expect(error).toBeInstanceOf(McpError);
+			expect(error.type).toBe(ErrorType.TIMEOUT);
+			expect(error.message).toContain('timed out after 50ms');
+		});
+
+		it('should fail with a cancelled error when the caller aborts', async () => {
+			const controller = new AbortController();
+			const request = fetchAtlassian(
+				{ authType: 'access-token', accessToken: 'token' },
+				'/rest/api/1.0/projects',
+				{ signal: controller.signal },
+			);
+			controller.abort();
+
+			await expect(request).rejects.toMatchObject({
+				type: ErrorType.CANCELLED,
+			});
+		});
+	});
+
+	describe('dry run', () => {
+		const originalEnv = { ...process.env };
+		const credentials = {
+			authType: 'access-token' as const,
+			accessToken: 'token',
+		};
+		let server: http.Server;
+		let baseUrl: string;
+		const methods: string[] = [];
+
+		beforeAll(async () => {
+			// A server that records each request and answers with an empty object
+			server = http.createServer((req, res) => {
+				methods.push(req.method || '');
+				res.setHeader('Content-Type', 'application/json');
+				res.end('{}');
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			baseUrl = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_BASE_URL = baseUrl;
+			process.env.BITBUCKET_CACHE_ENABLED = 'false';
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should describe mutating requests instead of sending them', async () => {
+			const error = (await fetchAtlassian(
+				credentials,
+				'rest/api/1.0/projects/PRJ/repos/api/pull-requests',
+				{ method: 'POST', body: { title: 'Feature' }, dryRun: true },
+			).catch((e) => e)) as DryRunInterrupt;
+
+			expect(error).toBeInstanceOf(DryRunInterrupt);
+			expect(error.request).toEqual({
+				method: 'POST',
+				path: '/rest/api/1.0/projects/PRJ/repos/api/pull-requests',
+				url: `${baseUrl}/rest/api/1.0/projects/PRJ/repos/api/pull-requests`,
+				body: { title: 'Feature' },
+			});
+			expect(methods).toEqual([]);
+		});
+
+		it('should still send GET requests', async () => {
+			await expect(
+				fetchAtlassian(credentials, '/rest/api/1.0/projects', {
+					dryRun: true,
+				}),
+			).resolves.toEqual({});
+			expect(methods).toEqual(['GET']);
+		});
+	});
+
+	describe('response handling', () => {
+		const originalEnv = { ...process.env };
+		let server: http.Server;
+
+		beforeAll(async () => {
+			// A server that accepts work for later, like an asynchronous merge
+			server = http.createServer((_req, res) => {
+				res.writeHead(202, {
+					Location: '/2.0/tasks/1',
+					'Content-Length': '0',
+				});
+				res.end();
+			});
+			await new Promise<void>((resolve) =>
+				server.listen(0, '127.0.0.1', resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			process.env.BITBUCKET_BASE_URL = `http://127.0.0.1:${port}`;
+			process.env.BITBUCKET_AUDIT_ENABLED = 'false';
+		});
+
+		afterAll(async () => {
+			process.env = { ...originalEnv };
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should expose the status and headers of empty responses', async () => {
+			const onResponse = jest.fn();
+
+			const result = await fetchAtlassian(
+				{ authType: 'access-token', accessToken: 'token' },
+				'/2.0/work',
+				{ method: 'POST', onResponse },
+			);
+
+			expect(result).toBeUndefined();
+			expect(onResponse).toHaveBeenCalledWith(202, expect.any(Headers));
+			expect(onResponse.mock.calls[0][1].get('location')).toBe(
+				'/2.0/tasks/1',
+			);
+		});
+	});
+
 	describe('fetchAtlassian', () => {
 		it('should successfully fetch data from the Atlassian API', async () => {
 			// This test will be skipped if credentials are not available
@@ -1,16 +1,62 @@
+import * as crypto from 'crypto';
 import { Logger } from './logger.util.js';
 import { config } from './config.util.js';
 import {
 	createAuthInvalidError,
+	createAuthMissingError,
 	createApiError,
+	createCancelledError,
+	createTimeoutError,
 	createUnexpectedError,
 	McpError,
 } from './error.util.js';
+import { getRetryPolicy, parseRetryAfter, withRetry } from './retry.util.js';
+import { getRequestTimeout, TimeoutOperation } from './timeout.util.js';
+import { cassetteFetch, isReplayMode } from './cassette.util.js';
+import { recordRateLimit, scheduleRequest } from './scheduler.util.js';
+import { DryRunInterrupt } from './dry-run.util.js';
+import { recordAudit } from './audit.util.js';
+import { ProgressCallback } from './progress.util.js';
+import {
+	apiRequestDuration,
+	cacheLookups,
+	toEndpointTemplate,
+} from './metrics.util.js';
+import {
+	buildCacheKey,
+	getCacheStore,
+	getCacheTtl,
+	invalidateCacheFor,
+	isCacheEnabled,
+} from './cache.util.js';
+import {
+	getOAuthClientConfig,
+	getOAuthEndpoints,
+	isTokenExpired,
+	loadOAuthToken,
+	OAuthClientConfig,
+	OAuthEndpoints,
+	refreshOAuthToken,
+	saveOAuthToken,
+} from './oauth.util.js';
+
+/**
+ * Supported authentication modes.
+ * - `api-token`: Atlassian account email + API token (Basic)
+ * - `app-password`: Bitbucket username + app password (Basic)
+ * - `access-token`: repository/project/workspace access token, or a
+ *   Data Center HTTP access token (Bearer)
+ * - `oauth`: OAuth 2.0 consumer token obtained with `login` (Bearer,
+ *   refreshed automatically)
+ */
+export type AuthType = 'api-token' | 'app-password' | 'access-token' | 'oauth';
 
 /**
  * Interface for Atlassian API credentials
  */
 export interface AtlassianCredentials {
+	// Which auth strategy to use
+	authType: AuthType;
 	// Standard Atlassian credentials
 	siteName?: string;
 	userEmail?: string;
@@ -18,10 +64,42 @@ export interface AtlassianCredentials {
 	// Bitbucket-specific credentials (alternative approach)
 	bitbucketUsername?: string;
 	bitbucketAppPassword?: string;
-	// Indicates which auth method to use
-	useBitbucketAuth?: boolean;
+	// Bearer credentials (access token or OAuth)
+	accessToken?: string;
+	refreshToken?: string;
+	expiresAt?: number;
 }
 
+/**
+ * How a credential type authenticates requests
+ */
+interface AuthStrategy {
+	/**
+	 * Resolve the base URL and Authorization header for a request
+	 * @throws {McpError} If required credential fields are missing
+	 */
+	authorize(
+		credentials: AtlassianCredentials,
+	): Promise<{ baseUrl: string; authHeader: string }>;
+	/**
+	 * Try to obtain fresh credentials after a 401, updating them in place
+	 * @returns True if the request is worth repeating
+	 */
+	refresh?(credentials: AtlassianCredentials): Promise<boolean>;
+}
+
+/**
+ * Bitbucket deployment flavour the server talks to.
+ * - `cloud`: Bitbucket Cloud (`/2.0` REST API)
+ * - `server`: self-hosted Bitbucket Data Center / Server (`/rest/api/1.0`)
+ */
+export type BitbucketBackend = 'cloud' | 'server';
+
+/**
+ * Default base URL for Bitbucket Cloud API requests
+ */
+const BITBUCKET_CLOUD_BASE_URL = 'https://api.bitbucket.org';
+
 /**
  * Interface for HTTP request options
  */
@@ -29,6 +107,50 @@ export interface RequestOptions {
 	method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
 	headers?: Record<string, string>;
 	body?: unknown;
+	/**
+	 * Override whether failed requests are retried. GETs are retried by
+	 * default; POST/PUT/DELETE only when BITBUCKET_RETRY_MUTATIONS is set or
+	 * this is true.
+	 */
+	retry?: boolean;
+	/**
+	 * Abort signal of the originating MCP request or CLI command
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Time limit: an operation name resolved with {@link getRequestTimeout},
+	 * or milliseconds. Defaults to the `default` operation.
+	 */
+	timeout?: TimeoutOperation | number;
+	/**
+	 * Set to false to always go to the API, bypassing the response cache
+	 */
+	cache?: boolean;
+	/**
+	 * Stop POST/PUT/DELETE requests before they are sent and throw a
+	 * {@link DryRunInterrupt} describing them. GETs are still sent.
+	 */
+	dryRun?: boolean;
+	/**
+	 * Receives the status and headers of a successful response, e.g. to read
+	 * the Location of an operation Bitbucket finishes asynchronously
+	 */
+	onResponse?: (status: number, headers: Headers) => void;
+}
+
+/**
+ * Per-call options threaded from tool handlers through controllers and
+ * services into {@link fetchAtlassian}
+ */
+export interface CallOptions {
+	/** Aborts the underlying HTTP requests when triggered */
+	signal?: AbortSignal;
+	/** Plan mutating requests without sending them */
+	dryRun?: boolean;
+	/** Receives progress of long-running operations */
+	onProgress?: ProgressCallback;
+	/** Set to false to read from Bitbucket instead of the response cache */
+	cache?: boolean;
 }
 
 // Create a contextualized logger for this file
@@ -47,7 +169,26 @@ export function getAtlassianCredentials(): AtlassianCredentials | null {
 		'getAtlassianCredentials',
 	);
 
-	// First try standard Atlassian credentials (preferred for consistency)
+	// Access tokens are Bitbucket-specific and take precedence
+	const accessToken = config.get('BITBUCKET_ACCESS_TOKEN');
+	if (accessToken) {
+		methodLogger.debug('Using Bitbucket access token');
+		return { authType: 'access-token', accessToken };
+	}
+
+	// Then an OAuth consumer with a token stored by `login`
+	if (getOAuthClientConfig()) {
+		const token = loadOAuthToken();
+		if (token) {
+			methodLogger.debug('Using stored OAuth token');
+			return { authType: 'oauth', ...token };
+		}
+		methodLogger.warn(
+			'BITBUCKET_OAUTH_CLIENT_ID is set but no OAuth token is stored. Run the `login` command to authorize.',
+		);
+	}
+
+	// Then standard Atlassian credentials (preferred for consistency)
 	const siteName = config.get('ATLASSIAN_SITE_NAME');
 	const userEmail = config.get('ATLASSIAN_USER_EMAIL');
 	const apiToken = config.get('ATLASSIAN_API_TOKEN');
@@ -56,10 +197,10 @@ export function getAtlassianCredentials(): AtlassianCredentials | null {
 	if (siteName && userEmail && apiToken) {
 		methodLogger.debug('Using standard Atlassian credentials');
 		return {
+			authType: 'api-token',
 			siteName,
 			userEmail,
 			apiToken,
-			useBitbucketAuth: false,
 		};
 	}
 
@@ -70,21 +211,228 @@ export function getAtlassianCredentials(): AtlassianCredentials | null {
 	if (bitbucketUsername && bitbucketAppPassword) {
 		methodLogger.debug('Using Bitbucket-specific credentials');
 		return {
+			authType: 'app-password',
 			bitbucketUsername,
 			bitbucketAppPassword,
-			useBitbucketAuth: true,
 		};
 	}
 
+	// Replayed requests never reach Bitbucket, so no real credentials are needed
+	if (isReplayMode()) {
+		methodLogger.debug('Using placeholder credentials for cassette replay');
+		return { authType: 'access-token', accessToken: 'replay' };
+	}
+
 	// If neither set of credentials is available, return null
 	methodLogger.warn(
-		'Missing Atlassian credentials. Please set either ATLASSIAN_SITE_NAME, ATLASSIAN_USER_EMAIL, and ATLASSIAN_API_TOKEN environment variables, or ATLASSIAN_BITBUCKET_USERNAME and ATLASSIAN_BITBUCKET_APP_PASSWORD for Bitbucket-specific auth.',
+		'Missing Atlassian credentials. Please set BITBUCKET_ACCESS_TOKEN, configure OAuth (BITBUCKET_OAUTH_CLIENT_ID) and run `login`, or set either ATLASSIAN_SITE_NAME, ATLASSIAN_USER_EMAIL, and ATLASSIAN_API_TOKEN environment variables, or ATLASSIAN_BITBUCKET_USERNAME and ATLASSIAN_BITBUCKET_APP_PASSWORD for Bitbucket-specific auth.',
 	);
 	return null;
 }
 
+/**
+ * Determine which Bitbucket backend is configured.
+ * Reads BITBUCKET_BACKEND (`cloud`, `server` or `datacenter`). When it is not
+ * set, a BITBUCKET_BASE_URL pointing anywhere other than Bitbucket Cloud
+ * implies a Data Center / Server instance.
+ * @returns The configured Bitbucket backend
+ */
+export function getBitbucketBackend(): BitbucketBackend {
+	const backend = config.get('BITBUCKET_BACKEND')?.trim().toLowerCase();
+	if (backend === 'server' || backend === 'datacenter') {
+		return 'server';
+	}
+	if (backend === 'cloud') {
+		return 'cloud';
+	}
+
+	const baseUrl = config.get('BITBUCKET_BASE_URL');
+	if (baseUrl && !baseUrl.includes('api.bitbucket.org')) {
+		return 'server';
+	}
+	return 'cloud';
+}
+
+/**
+ * Check whether requests should target a Bitbucket Data Center / Server instance
+ * @returns True when the server backend is configured
+ */
+export function isBitbucketServer(): boolean {
+	return getBitbucketBackend() === 'server';
+}
+
+/**
+ * Guard for operations that only exist on Bitbucket Cloud
+ * @param operation Human-readable name of the operation
+ * @throws {McpError} If the Data Center / Server backend is configured
+ */
+export function ensureBitbucketCloud(operation: string): void {
+	if (isBitbucketServer()) {
+		throw createApiError(
+			`${operation} is only supported on Bitbucket Cloud. On Data Center / Server, set BITBUCKET_DEFAULT_WORKSPACE to your project key and use the repository and pull request tools.`,
+			400,
+		);
+	}
+}
+
+/**
+ * Get the base URL for Bitbucket API requests (without trailing slash).
+ * Uses BITBUCKET_BASE_URL when configured, otherwise Bitbucket Cloud.
+ * @returns Base URL for Bitbucket API requests
+ * @throws {McpError} If the server backend is selected without a base URL
+ */
+export function getBitbucketBaseUrl(): string {
+	const baseUrl = config.get('BITBUCKET_BASE_URL')?.trim();
+	if (baseUrl) {
+		return baseUrl.replace(/\/+$/, '');
+	}
+	if (isBitbucketServer()) {
+		throw createApiError(
+			'BITBUCKET_BASE_URL must be set when using the Bitbucket Data Center / Server backend',
+			400,
+		);
+	}
+	return BITBUCKET_CLOUD_BASE_URL;
+}
+
+/**
+ * Build a Basic Authorization header
+ */
+function basicAuth(user: string, secret: string): string {
+	return `Basic ${Buffer.from(`${user}:${secret}`).toString('base64')}`;
+}
+
+/**
+ * Get the OAuth client and endpoints for the configured backend
+ * @throws {McpError} If no OAuth consumer is configured
+ */
+export function getOAuthSettings(): {
+	client: OAuthClientConfig;
+	endpoints: OAuthEndpoints;
+} {
+	const client = getOAuthClientConfig();
+	if (!client) {
+		throw createAuthMissingError(
+			'BITBUCKET_OAUTH_CLIENT_ID must be set to use OAuth authentication',
+		);
+	}
+	return {
+		client,
+		endpoints: getOAuthEndpoints(
+			isBitbucketServer() ? getBitbucketBaseUrl() : undefined,
+		),
+	};
+}
+
+/**
+ * Refresh OAuth credentials in place and persist the new token
+ * @returns True if a new access token was obtained
+ */
+async function refreshOAuthCredentials(
+	credentials: AtlassianCredentials,
+): Promise<boolean> {
+	const methodLogger = transportLogger.forMethod('refreshOAuthCredentials');
+	if (!credentials.refreshToken) {
+		return false;
+	}
+	const { client, endpoints } = getOAuthSettings();
+	methodLogger.debug('Refreshing OAuth access token');
+	const token = await refreshOAuthToken(
+		endpoints,
+		client,
+		credentials.refreshToken,
+	);
+	saveOAuthToken(token);
+	Object.assign(credentials, token);
+	return true;
+}
+
+/**
+ * Authentication strategies by credential type
+ */
+const AUTH_STRATEGIES: Record<AuthType, AuthStrategy> = {
+	'api-token': {
+		async authorize(credentials) {
+			// Standard Atlassian API (Jira, Confluence)
+			if (
+				!credentials.siteName ||
+				!credentials.userEmail ||
+				!credentials.apiToken
+			) {
+				throw createAuthInvalidError('Missing Atlassian credentials');
+			}
+			return {
+				// Data Center / Server instances are always addressed by their own base URL
+				baseUrl: isBitbucketServer()
+					? getBitbucketBaseUrl()
+					: `https://${credentials.siteName}.atlassian.net`,
+				authHeader: basicAuth(
+					credentials.userEmail,
+					credentials.apiToken,
+				),
+			};
+		},
+	},
+	'app-password': {
+		async authorize(credentials) {
+			if (
+				!credentials.bitbucketUsername ||
+				!credentials.bitbucketAppPassword
+			) {
+				throw createAuthInvalidError(
+					'Missing Bitbucket username or app password',
+				);
+			}
+			return {
+				baseUrl: getBitbucketBaseUrl(),
+				authHeader: basicAuth(
+					credentials.bitbucketUsername,
+					credentials.bitbucketAppPassword,
+				),
+			};
+		},
+	},
+	'access-token': {
+		async authorize(credentials) {
+			if (!credentials.accessToken) {
+				throw createAuthInvalidError('Missing Bitbucket access token');
+			}
+			return {
+				baseUrl: getBitbucketBaseUrl(),
+				authHeader: `Bearer ${credentials.accessToken}`,
+			};
+		},
+	},
+	oauth: {
+		async authorize(credentials) {
+			if (!credentials.accessToken) {
+				throw createAuthInvalidError(
+					'Missing OAuth access token. Run the `login` command to authorize.',
+				);
+			}
+			if (
+				isTokenExpired({
+					accessToken: credentials.accessToken,
+					expiresAt: credentials.expiresAt,
+				})
+			) {
+				await refreshOAuthCredentials(credentials);
+			}
+			return {
+				baseUrl: getBitbucketBaseUrl(),
+				authHeader: `Bearer ${credentials.accessToken}`,
+			};
+		},
+		refresh: refreshOAuthCredentials,
+	},
+};
+
 /**
  * Fetch data from Atlassian API
+ * Retryable failures (429, 5xx, network errors) are retried according to the
+ * configured retry policy; see {@link getRetryPolicy}.
+ * POST/PUT/DELETE requests are recorded in the audit log; see
+ * {@link recordAudit}.
  * @param credentials Atlassian API credentials
  * @param path API endpoint path (without base URL)
  * @param options Request options
@@ -94,6 +442,148 @@ export async function fetchAtlassian<T>(
 	credentials: AtlassianCredentials,
 	path: string,
 	options: RequestOptions = {},
+): Promise<T> {
+	const method = options.method || 'GET';
+	const policy = getRetryPolicy();
+	const retryable =
+		options.retry ?? (method === 'GET' || policy.retryMutations);
+
+	const run = () =>
+		retryable
+			? withRetry(
+					() => fetchAtlassianOnce<T>(credentials, path, options),
+					policy,
+					`${method} ${path}`,
+					options.signal,
+				)
+			: fetchAtlassianOnce<T>(credentials, path, options);
+
+	const runWithRefresh = async () => {
+		try {
+			return await run();
+		} catch (error) {
+			// Expired or revoked OAuth tokens are refreshed once, then retried
+			const strategy = AUTH_STRATEGIES[credentials.authType];
+			if (
+				error instanceof McpError &&
+				error.statusCode === 401 &&
+				strategy.refresh &&
+				(await strategy.refresh(credentials))
+			) {
+				return run();
+			}
+			throw error;
+		}
+	};
+
+	if (method === 'GET' || options.dryRun) {
+		return runWithRefresh();
+	}
+
+	// Record every write in the audit log, whether or not it succeeds
+	const startedAt = Date.now();
+	const audit = (error?: unknown) =>
+		recordAudit({
+			identity: getCredentialIdentity(credentials),
+			method,
+			path: path.startsWith('/') ? path : `/${path}`,
+			body: options.body,
+			error,
+			durationMs: Date.now() - startedAt,
+		});
+	try {
+		const result = await runWithRefresh();
+		audit();
+		return result;
+	} catch (error) {
+		audit(error);
+		throw error;
+	}
+}
+
+/**
+ * Short, non-reversible fingerprint of a set of credentials, for keeping
+ * per-credential state (such as the resolved Data Center user) apart
+ * without storing secrets
+ * @param credentials Atlassian API credentials
+ * @returns Hex fingerprint
+ */
+export function getCredentialFingerprint(
+	credentials: AtlassianCredentials,
+): string {
+	return crypto
+		.createHash('sha256')
+		.update(
+			[
+				credentials.authType,
+				credentials.siteName,
+				credentials.userEmail,
+				credentials.bitbucketUsername,
+				credentials.apiToken,
+				credentials.bitbucketAppPassword,
+				// OAuth access tokens rotate; the refresh token identifies the grant
+				credentials.refreshToken || credentials.accessToken,
+			].join('\n'),
+		)
+		.digest('hex')
+		.substring(0, 16);
+}
+
+/**
+ * Describe who credentials belong to without revealing secrets: the user
+ * name or email, or a fingerprint of the bearer token
+ */
+function getCredentialIdentity(credentials: AtlassianCredentials): string {
+	const username = credentials.bitbucketUsername || credentials.userEmail;
+	if (username) {
+		return username;
+	}
+	const fingerprint = crypto
+		.createHash('sha256')
+		.update(credentials.accessToken || '')
+		.digest('hex')
+		.substring(0, 8);
+	return `${credentials.authType}:${fingerprint}`;
+}
+
+/**
+ * Send a request and record its latency by endpoint template and status
+ * code ("error" when no response was received)
+ */
+async function timedFetch(
+	url: string,
+	init: RequestInit,
+	apiPath: string,
+): Promise<Response> {
+	const startedAt = Date.now();
+	let status = 'error';
+	try {
+		const response = await cassetteFetch(url, init);
+		status = String(response.status);
+		return response;
+	} finally {
+		apiRequestDuration.observe(
+			{
+				method: init.method || 'GET',
+				endpoint: toEndpointTemplate(apiPath),
+				status,
+			},
+			(Date.now() - startedAt) / 1000,
+		);
+	}
+}
+
+/**
+ * Perform a single request against the Atlassian API
+ * @param credentials Atlassian API credentials
+ * @param path API endpoint path (without base URL)
+ * @param options Request options
+ * @returns Response data
+ */
+async function fetchAtlassianOnce<T>(
+	credentials: AtlassianCredentials,
+	path: string,
+	options: RequestOptions,
 ): Promise<T> {
 	const methodLogger = Logger.forContext(
 		'utils/transport.util.ts',
@@ -101,37 +591,13 @@ export async function fetchAtlassian<T>(
 	);
 
 	// Set up base URL and auth headers based on credential type
-	let baseUrl: string;
-	let authHeader: string;
-
-	if (credentials.useBitbucketAuth) {
-		// Bitbucket API uses a different base URL and auth format
-		baseUrl = 'https://api.bitbucket.org';
-		if (
-			!credentials.bitbucketUsername ||
-			!credentials.bitbucketAppPassword
-		) {
-			throw createAuthInvalidError(
-				'Missing Bitbucket username or app password',
-			);
-		}
-		authHeader = `Basic ${Buffer.from(
-			`${credentials.bitbucketUsername}:${credentials.bitbucketAppPassword}`,
-		).toString('base64')}`;
-	} else {
-		// Standard Atlassian API (Jira, Confluence)
-		if (
-			!credentials.siteName ||
-			!credentials.userEmail ||
-			!credentials.apiToken
-		) {
-			throw createAuthInvalidError('Missing Atlassian credentials');
-		}
-		baseUrl = `https://${credentials.siteName}.atlassian.net`;
-		authHeader = `Basic ${Buffer.from(
-			`${credentials.userEmail}:${credentials.apiToken}`,
-		).toString('base64')}`;
+	const strategy = AUTH_STRATEGIES[credentials.authType];
+	if (!strategy) {
+		throw createAuthInvalidError(
+			`Unsupported authentication type: ${credentials.authType}`,
+		);
 	}
+	const { baseUrl, authHeader } = await strategy.authorize(credentials);
 
 	// Ensure path starts with a slash
 	const normalizedPath = path.startsWith('/') ? path : `/${path}`;
@@ -147,17 +613,80 @@ export async function fetchAtlassian<T>(
 		...options.headers,
 	};
 
+	const method = options.method || 'GET';
+
+	if (options.dryRun && method !== 'GET') {
+		methodLogger.debug(`Dry run: not sending ${method} ${url}`);
+		throw new DryRunInterrupt({
+			method,
+			path: normalizedPath,
+			url,
+			body: options.body,
+		});
+	}
+
+	// Serve GET requests from the cache while fresh; revalidate stale entries
+	// with If-None-Match when the API returned an ETag
+	const cacheTtl =
+		method === 'GET' && options.cache !== false && isCacheEnabled()
+			? getCacheTtl(normalizedPath)
+			: 0;
+	const cacheKey =
+		cacheTtl > 0 ? buildCacheKey(authHeader, url, headers.Accept) : '';
+	const cachedEntry = cacheKey ? getCacheStore().get(cacheKey) : undefined;
+	if (cachedEntry && cachedEntry.expiresAt > Date.now()) {
+		methodLogger.debug(`Cache hit: ${url}`);
+		cacheLookups.inc({ result: 'hit' });
+		return structuredClone(cachedEntry.body) as T;
+	}
+	if (cacheKey && !cachedEntry?.etag) {
+		cacheLookups.inc({ result: 'miss' });
+	}
+	if (cachedEntry?.etag) {
+		(headers as Record<string, string>)['If-None-Match'] = cachedEntry.etag;
+	}
+
+	// Abort on caller cancellation or when the time limit is reached
+	const timeoutMs =
+		typeof options.timeout === 'number'
+			? options.timeout
+			: getRequestTimeout(options.timeout);
+	const signals = [
+		options.signal,
+		timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+	].filter((signal): signal is AbortSignal => signal !== undefined);
+
 	// Prepare request options
 	const requestOptions: RequestInit = {
-		method: options.method || 'GET',
+		method,
 		headers,
 		body: options.body ? JSON.stringify(options.body) : undefined,
+		signal: signals.length ? AbortSignal.any(signals) : undefined,
 	};
 
 	methodLogger.debug(`Calling Atlassian API: ${url}`);
 
 	try {
-		const response = await fetch(url, requestOptions);
+		// Limit requests in flight per host and track the hourly budget of
+		// these credentials
+		const credential = getCredentialFingerprint(credentials);
+		const response = await scheduleRequest(
+			url,
+			() => timedFetch(url, requestOptions, normalizedPath),
+			requestOptions.signal ?? undefined,
+			credential,
+		);
+		recordRateLimit(url, response.status, response.headers, credential);
+
+		if (response.status === 304 && cachedEntry) {
+			methodLogger.debug(`Cache revalidated: ${url}`);
+			cacheLookups.inc({ result: 'revalidated' });
+			getCacheStore().set(cacheKey, {
+				...cachedEntry,
+				expiresAt: Date.now() + cacheTtl * 1000,
+			});
+			return structuredClone(cachedEntry.body) as T;
+		}
 
 		// Log the raw response status and headers
 		methodLogger.debug(
@@ -260,19 +789,23 @@ export async function fetchAtlassian<T>(
 			}
 
 			if (response.status === 429) {
-				throw createApiError(
+				const rateLimitError = createApiError(
 					`Bitbucket API: Rate limit exceeded - ${errorMessage}`,
 					429,
 					originalErrorForMcp,
 				);
+				rateLimitError.retryAfterMs = parseRetryAfter(response.headers);
+				throw rateLimitError;
 			}
 
 			if (response.status >= 500) {
-				throw createApiError(
+				const serviceError = createApiError(
 					`Bitbucket API: Service error - ${errorMessage}`,
 					response.status,
 					originalErrorForMcp,
 				);
+				serviceError.retryAfterMs = parseRetryAfter(response.headers);
+				throw serviceError;
 			}
 
 			// For other API errors, preserve the original vendor message
@@ -283,31 +816,57 @@ export async function fetchAtlassian<T>(
 			);
 		}
 
+		// Mutations make cached reads of the same repository stale
+		if (method !== 'GET' && isCacheEnabled()) {
+			invalidateCacheFor(normalizedPath);
+		}
+
+		options.onResponse?.(response.status, response.headers);
+
+		let result: T;
+
 		// Check if the response is expected to be plain text
 		const contentType = response.headers.get('content-type') || '';
-		if (contentType.includes('text/plain')) {
+		if (
+			response.status === 204 ||
+			response.headers.get('content-length') === '0'
+		) {
+			// Nothing to parse, e.g. an accepted asynchronous operation
+			result = undefined as T;
+		} else if (contentType.includes('text/plain')) {
 			// If we're expecting text (like a diff), return the raw text
 			const textResponse = await response.text();
 			methodLogger.debug(
 				`Text response received (truncated)`,
 				textResponse.substring(0, 200) + '...',
 			);
-			return textResponse as unknown as T;
+			result = textResponse as unknown as T;
+		} else {
+			// For JSON responses, proceed as before
+			// Clone the response to log its content without consuming it
+			const clonedResponse = response.clone();
+			try {
+				const responseJson = await clonedResponse.json();
+				methodLogger.debug(`Response body:`, responseJson);
+			} catch {
+				methodLogger.debug(
+					`Could not parse response as JSON, returning raw content`,
+				);
+			}
+
+			result = (await response.json()) as T;
 		}
 
-		// For JSON responses, proceed as before
-		// Clone the response to log its content without consuming it
-		const clonedResponse = response.clone();
-		try {
-			const responseJson = await clonedResponse.json();
-			methodLogger.debug(`Response body:`, responseJson);
-		} catch {
-			methodLogger.debug(
-				`Could not parse response as JSON, returning raw content`,
-			);
+		if (cacheKey) {
+			getCacheStore().set(cacheKey, {
+				path: normalizedPath,
+				body: structuredClone(result),
+				etag: response.headers.get('etag') || undefined,
+				expiresAt: Date.now() + cacheTtl * 1000,
+			});
 		}
 
-		return response.json() as Promise<T>;
+		return result;
 	} catch (error) {
 		methodLogger.error(`Request failed`, error);
 
@@ -316,6 +875,22 @@ export async function fetchAtlassian<T>(
 			throw error;
 		}
 
+		// Aborted requests: AbortSignal.timeout() raises TimeoutError,
+		// a cancelled caller signal raises AbortError (both DOMExceptions)
+		const errorName = (error as { name?: string } | null)?.name;
+		if (errorName === 'TimeoutError') {
+			throw createTimeoutError(
+				`Bitbucket API request timed out after ${timeoutMs}ms: ${method} ${normalizedPath}`,
+				error,
+			);
+		}
+		if (errorName === 'AbortError') {
+			throw createCancelledError(
+				`Bitbucket API request was cancelled: ${method} ${normalizedPath}`,
+				error,
+			);
+		}
+
 		// Handle network errors more explicitly
 		if (error instanceof TypeError) {
 			// TypeError is typically a network/fetch error in this context
@@ -6,10 +6,26 @@ import { WorkspaceMembership } from '../services/vendor.atlassian.workspaces.typ
 const workspaceLogger = Logger.forContext('utils/workspace.util.ts');
 
 /**
- * Cache for workspace data to avoid repeated API calls
+ * Cache for workspace data to avoid repeated API calls, kept per profile
  */
-let cachedDefaultWorkspace: string | null = null;
-let cachedWorkspaces: WorkspaceMembership[] | null = null;
+const cachedDefaultWorkspaces = new Map<string, string>();
+const cachedWorkspaceLists = new Map<string, WorkspaceMembership[]>();
+
+/**
+ * Cache key for the active profile ('' for the default configuration)
+ */
+function profileKey(): string {
+	return config.getActiveProfile() ?? '';
+}
+
+/**
+ * Forget the cached workspaces of the active profile, e.g. when an HTTP
+ * session whose configuration formed that profile ends
+ */
+export function clearWorkspaceCache(): void {
+	cachedDefaultWorkspaces.delete(profileKey());
+	cachedWorkspaceLists.delete(profileKey());
+}
 
 /**
  * Get the default workspace slug
@@ -19,12 +35,15 @@ let cachedWorkspaces: WorkspaceMembership[] | null = null;
  * 2. Check BITBUCKET_DEFAULT_WORKSPACE environment variable
  * 3. Fetch from API and use the first workspace in the list
  *
+ * All steps are resolved for the active credential profile.
+ *
  * @returns {Promise<string|null>} The default workspace slug or null if not available
  */
 export async function getDefaultWorkspace(): Promise<string | null> {
 	const methodLogger = workspaceLogger.forMethod('getDefaultWorkspace');
 
 	// Step 1: Return cached value if available
+	const cachedDefaultWorkspace = cachedDefaultWorkspaces.get(profileKey());
 	if (cachedDefaultWorkspace) {
 		methodLogger.debug(
 			`Using cached default workspace: ${cachedDefaultWorkspace}`,
@@ -38,7 +57,7 @@ export async function getDefaultWorkspace(): Promise<string | null> {
 		methodLogger.debug(
 			`Using default workspace from environment: ${envWorkspace}`,
 		);
-		cachedDefaultWorkspace = envWorkspace;
+		cachedDefaultWorkspaces.set(profileKey(), envWorkspace);
 		return envWorkspace;
 	}
 
@@ -52,7 +71,7 @@ export async function getDefaultWorkspace(): Promise<string | null> {
 			methodLogger.debug(
 				`Using first workspace from API as default: ${defaultWorkspace}`,
 			);
-			cachedDefaultWorkspace = defaultWorkspace;
+			cachedDefaultWorkspaces.set(profileKey(), defaultWorkspace);
 			return defaultWorkspace;
 		} else {
 			methodLogger.warn('No workspaces found in the account');
@@ -72,6 +91,7 @@ export async function getDefaultWorkspace(): Promise<string | null> {
 export async function getWorkspaces(): Promise<WorkspaceMembership[]> {
 	const methodLogger = workspaceLogger.forMethod('getWorkspaces');
 
+	const cachedWorkspaces = cachedWorkspaceLists.get(profileKey());
 	if (cachedWorkspaces) {
 		methodLogger.debug(
 			`Using ${cachedWorkspaces.length} cached workspaces`,
@@ -85,7 +105,7 @@ export async function getWorkspaces(): Promise<WorkspaceMembership[]> {
 		});
 
 		if (result.values) {
-			cachedWorkspaces = result.values;
+			cachedWorkspaceLists.set(profileKey(), result.values);
 			methodLogger.debug(`Cached ${result.values.length} workspaces`);
 			return result.values;
 		} else {